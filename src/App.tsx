@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Provider } from 'react-redux';
@@ -13,31 +13,66 @@ import UpdateUser from './components/UpdateUser';
 import DeleteUser from './components/DeleteUser';
 import NotFound from './components/NotFound'; 
 import UserContext from './context/UserContext'; 
+import CurrencyContext from './context/CurrencyContext';
+import { CurrencyCode } from './data/currencies';
+import { getCurrencyPreference, saveCurrencyPreference } from './utils/currency';
 import OrderHistory from './components/OrderHistory';
+import Checkout from './components/Checkout';
+import OrderConfirmation from './components/OrderConfirmation';
+import OrderDetail from './components/OrderDetail';
+import OrderInvoice from './components/OrderInvoice';
+import ReturnsDesk from './components/ReturnsDesk';
+import type { UserState } from './context/UserContext';
+import { activateUserCart, getCartOwnerKey } from './features/cart/cartSession';
+import { claimGuestOrders, getStoredUserSession } from './utils/userSession';
 import './App.css';
 
 const queryClient = new QueryClient();
 
 function App() {
-  const [user, setUser] = useState({ name: '', isLoggedIn: false});
+  // The user remembered from the last login, so every page (not just the login page) knows who
+  // is logged in after a refresh or when opened directly
+  const [user, setUser] = useState<UserState>(() => getStoredUserSession() ?? { name: '', isLoggedIn: false });
+  // Currency picked by the user (null follows the active language), remembered across visits
+  const [currencyCode, setCurrencyCode] = useState<CurrencyCode | null>(getCurrencyPreference);
+
+  useEffect(() => {
+    saveCurrencyPreference(currencyCode);
+  }, [currencyCode]);
+
+  // Like a login: the logged-in user's cart is the active one, and the orders they placed as a
+  // guest in this session are theirs (both are no-ops once done)
+  useEffect(() => {
+    if (!user.isLoggedIn) return;
+    const owner = getCartOwnerKey(user);
+    store.dispatch(activateUserCart(owner));
+    claimGuestOrders(owner);
+  }, [user]);
 
   return (
     <QueryClientProvider client={queryClient}>
       <UserContext.Provider value={{ user, setUser }}>
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/home" element={<HomePage />} />
-            <Route path="/cart" element={<ShoppingCart />} />
-            <Route path="/add-product" element={<AddProduct />} />
-            <Route path="/order-history" element={<OrderHistory />} />
-            <Route path="/logout" element={<Logout />} />
-            <Route path="/update-profile" element={<UpdateUser />} />
-            <Route path="/delete-user" element={<DeleteUser />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <CurrencyContext.Provider value={{ currencyCode, setCurrencyCode }}>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route path="/home" element={<HomePage />} />
+              <Route path="/cart" element={<ShoppingCart />} />
+              <Route path="/checkout" element={<Checkout />} />
+              <Route path="/checkout/confirmation/:orderId" element={<OrderConfirmation />} />
+              <Route path="/add-product" element={<AddProduct />} />
+              <Route path="/order-history" element={<OrderHistory />} />
+              <Route path="/order-history/:orderId" element={<OrderDetail />} />
+              <Route path="/order-history/:orderId/invoice" element={<OrderInvoice />} />
+              <Route path="/returns-desk" element={<ReturnsDesk />} />
+              <Route path="/logout" element={<Logout />} />
+              <Route path="/update-profile" element={<UpdateUser />} />
+              <Route path="/delete-user" element={<DeleteUser />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </CurrencyContext.Provider>
       </UserContext.Provider>
     </QueryClientProvider>
   );
@@ -0,0 +1,53 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import '@testing-library/jest-dom';
+import App from '../App';
+import store from '../store';
+import { ORDER_HISTORY_STORAGE_KEY, countUnclaimedOrders, saveOrderToLocalStorage } from '../utils/localStorageHelpers';
+import { makeOrder } from '../testUtils/fixtures';
+
+// Mock useTranslation hook
+jest.mock('react-i18next', () => ({
+    useTranslation: () => ({ t: (key) => key }),
+}));
+
+describe('App', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        // The catalog isn't needed here; let its request fail straight away
+        global.fetch = jest.fn(() => Promise.reject(new Error('offline')));
+    });
+
+    it('restores the stored session on pages other than the login page', async () => {
+        localStorage.setItem('userSession', JSON.stringify({ name: 'Ada', isLoggedIn: true }));
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-ADA' }));
+        window.history.pushState({}, '', '/order-history');
+
+        render(
+            <Provider store={store}>
+                <App />
+            </Provider>
+        );
+
+        expect(await screen.findByText('ORD-ADA')).toBeInTheDocument();
+        expect(store.getState().cart.owner).toBe('user:ada');
+    });
+
+    it('leaves orders from before orders had owners for the user to claim', async () => {
+        localStorage.setItem('userSession', JSON.stringify({ name: 'Ada', isLoggedIn: true }));
+        // Stored by the first version of the app: no owner and no schema version
+        localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, JSON.stringify([{ orderId: 'ORD-OLD', dateCreated: '2026-03-15T12:00:00.000Z', items: [{ productId: 7, quantity: 1, price: 12.5 }], totalPrice: 12.5 }]));
+        window.history.pushState({}, '', '/order-history');
+
+        render(
+            <Provider store={store}>
+                <App />
+            </Provider>
+        );
+
+        expect(await screen.findByText('unclaimedOrders')).toBeInTheDocument();
+        expect(screen.queryByText('ORD-OLD')).not.toBeInTheDocument();
+        expect(countUnclaimedOrders()).toBe(1);
+    });
+});
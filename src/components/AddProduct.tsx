@@ -1,6 +1,8 @@
 import React, { useState } from 'react'; 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Alert, Button, Col, Form } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { Money, parseMoney, toMajor } from '../utils/money';
 
 // --- Type Definitions ---
 
@@ -8,7 +10,7 @@ import { Alert, Button, Col, Form } from 'react-bootstrap';
 // This ensures type safety when creating products and interacting with the API.
 interface Product {
     title: string,
-    price: number,
+    price: Money, // In cents; converted back to dollars when posted to the API
     description: string,
     image: string, // Expecting a URL string from the form input
     category: string,
@@ -26,8 +28,9 @@ const postProduct = async (product: Product) => {
             // Indicates the body of the request contains JSON data
             'Content-Type': 'application/json', 
         },
-        // Converts the JavaScript 'product' object into a JSON string for the request body
-        body: JSON.stringify(product), 
+        // Converts the JavaScript 'product' object into a JSON string for the request body.
+        // The API works in dollars, so the price is converted from cents on the way out.
+        body: JSON.stringify({ ...product, price: toMajor(product.price) }), 
     });
     // Basic error handling: checks if the HTTP response status code indicates success (e.g., 2xx).
     if (!response.ok) {
@@ -48,6 +51,8 @@ const AddProduct: React.FC = () => {
     const queryClient = useQueryClient();
     // State to control the visibility of the success confirmation alert message.
     const [showSuccessAlert, setShowSuccessAlert] = useState(false);
+    // State holding the validation message for the price field (null when the price is valid).
+    const [priceError, setPriceError] = useState<string | null>(null);
 
     // --- React Query Mutation Setup ---
     // Sets up the mutation using React Query's useMutation hook.
@@ -109,13 +114,18 @@ const AddProduct: React.FC = () => {
         const categoryValue = formData.get('category');
         const safeCategory = typeof categoryValue === 'string' ? categoryValue : '';
 
-        // Handle number field (price): 
-        // First, ensure we have a string representation (defaulting to '0' if value is not a string).
+        // Handle the price field: 
+        // First, ensure we have a string representation (defaulting to '' if value is not a string).
         const priceValue = formData.get('price');
-        const priceString = typeof priceValue === 'string' ? priceValue : '0';
-        // Then, parse the string into a floating-point number.
-        // Note: More robust handling might check if parseFloat returns NaN (Not a Number).
-        const safePrice = parseFloat(priceString); 
+        const priceString = typeof priceValue === 'string' ? priceValue : '';
+        // Then, parse the string into whole cents. Invalid prices (negative, more than
+        // two decimals, not a number) stop the submission and show a field error instead.
+        const safePrice = parseMoney(priceString); 
+        if (safePrice === null) {
+            setPriceError('Enter a price such as 19.99 (at most two decimal places).');
+            return;
+        }
+        setPriceError(null);
 
         // --- Prepare Product Object for API ---
         // Create the 'product' object conforming to the 'Product' interface, using the safe values extracted above.
@@ -146,6 +156,8 @@ const AddProduct: React.FC = () => {
 
             {/* Use React Bootstrap's Col for layout (centering the form) */}
             <Col md={{ span: 6, offset: 3 }}> 
+                {/* The other store page: customers' return requests */}
+                <p><Link to="/returns-desk">Returns desk</Link></p>
                 {/* The form element, using React Bootstrap's Form component. onSubmit calls our handler. */}
                 <Form onSubmit={handleSubmit}>
                     {/* Form groups for structure and labeling */}
@@ -158,7 +170,8 @@ const AddProduct: React.FC = () => {
                     <Form.Group className="mb-3" controlId="price">
                         <Form.Label>Price</Form.Label>
                         {/* Although type="number", FormData typically retrieves value as string. 'step' allows decimals. */}
-                        <Form.Control type="number" placeholder="Enter price" name="price" step="0.01" required /> 
+                        <Form.Control type="number" placeholder="Enter price" name="price" step="0.01" min="0" required isInvalid={priceError !== null} /> 
+                        <Form.Control.Feedback type="invalid">{priceError}</Form.Control.Feedback>
                     </Form.Group>
 
                     <Form.Group className="mb-3" controlId="description">
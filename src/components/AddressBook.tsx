@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Badge, Button, Card, Col, Row } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import {
+    ADDRESS_TYPES,
+    ADDRESS_TYPE_LABELS,
+    addAddress,
+    getAddressesOfType,
+    removeAddress,
+    setDefaultAddress,
+    updateAddress,
+} from '../features/addressBook/addressBook';
+import { useAddressBook } from '../hooks/useAddressBook';
+import AddressBookEntryForm, { AddressBookEntry } from './AddressBookEntryForm';
+import PostalAddress from './PostalAddress';
+
+/**
+ * AddressBook Component
+ * The shipping and billing addresses saved on the logged-in user's profile.
+ * Addresses can be added, edited, deleted and made the default of their type;
+ * the default shipping address is pre-filled at checkout.
+ */
+function AddressBook() {
+    const { t } = useTranslation();
+    const { book, updateBook } = useAddressBook();
+    // Which form is open: 'new' for the add form, the id of an address being edited, or null
+    const [editing, setEditing] = useState<string | null>(null);
+
+    /**
+     * Saves the entry from the open form as a new address, or over the address being edited.
+     * @param entry - The validated entry.
+     */
+    const handleSave = ({ label, type, address, makeDefault }: AddressBookEntry) => {
+        if (editing === 'new') {
+            updateBook(current => addAddress(current, { label, type, address }, makeDefault));
+        } else if (editing) {
+            const id = editing;
+            updateBook(current => {
+                const updated = updateAddress(current, id, { label, type, address });
+                return makeDefault ? setDefaultAddress(updated, id) : updated;
+            });
+        }
+        setEditing(null);
+    };
+
+    /**
+     * Deletes a saved address after the user confirms.
+     * @param id - The id of the address.
+     * @param label - Its label, for the confirmation question.
+     */
+    const handleRemove = (id: string, label: string) => {
+        if (window.confirm(t('confirmDeleteAddress', { label }))) {
+            updateBook(current => removeAddress(current, id));
+        }
+    };
+
+    return (
+        <section className="mt-4">
+            <div className="d-flex justify-content-between align-items-center mb-3">
+                <h3 className="mb-0">{t('addressBook')}</h3>
+                {editing === null && (
+                    <Button variant="outline-primary" size="sm" onClick={() => setEditing('new')}>{t('addAddress')}</Button>
+                )}
+            </div>
+
+            {editing === 'new' && <AddressBookEntryForm onSave={handleSave} onCancel={() => setEditing(null)} />}
+
+            {book.addresses.length === 0 && editing !== 'new' && <p className="text-muted">{t('addressBookEmpty')}</p>}
+
+            {ADDRESS_TYPES.map(type => {
+                const addresses = getAddressesOfType(book, type);
+                if (addresses.length === 0) return null;
+                return (
+                    <div key={type} className="mb-3">
+                        <h5>{t(ADDRESS_TYPE_LABELS[type])}</h5>
+                        <Row xs={1} md={2} className="g-3">
+                            {addresses.map(entry => {
+                                const isDefault = book.defaults[type] === entry.id;
+                                return (
+                                    <Col key={entry.id}>
+                                        {editing === entry.id ? (
+                                            <AddressBookEntryForm entry={entry} isDefault={isDefault} onSave={handleSave} onCancel={() => setEditing(null)} />
+                                        ) : (
+                                            <Card className="h-100">
+                                                <Card.Body>
+                                                    <Card.Title as="h6">
+                                                        {entry.label} {isDefault && <Badge bg="secondary">{t('defaultAddress')}</Badge>}
+                                                    </Card.Title>
+                                                    <PostalAddress address={entry.address} className="mb-2" />
+                                                    <div className="d-flex flex-wrap gap-2">
+                                                        {!isDefault && (
+                                                            <Button variant="link" size="sm" className="p-0" onClick={() => updateBook(current => setDefaultAddress(current, entry.id))}>
+                                                                {t('makeDefaultAddress')}
+                                                            </Button>
+                                                        )}
+                                                        <Button variant="link" size="sm" className="p-0" disabled={editing !== null} onClick={() => setEditing(entry.id)}>
+                                                            {t('editAddress')}
+                                                        </Button>
+                                                        <Button variant="link" size="sm" className="p-0 text-danger" onClick={() => handleRemove(entry.id, entry.label)}>
+                                                            {t('deleteAddress')}
+                                                        </Button>
+                                                    </div>
+                                                </Card.Body>
+                                            </Card>
+                                        )}
+                                    </Col>
+                                );
+                            })}
+                        </Row>
+                    </div>
+                );
+            })}
+        </section>
+    );
+}
+
+export default AddressBook;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Button, Form } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { FieldErrors, ShippingAddress } from '../features/checkout/checkoutTypes';
+import { hasNoErrors, validateShippingAddress } from '../features/checkout/checkoutValidation';
+import { EMPTY_SHIPPING_ADDRESS } from '../features/checkout/checkoutSlice';
+import { ADDRESS_TYPES, ADDRESS_TYPE_LABELS, AddressType, MAX_ADDRESS_LABEL_LENGTH, SavedAddress } from '../features/addressBook/addressBook';
+import AddressFields from './AddressFields';
+
+// --- Type Definitions ---
+
+// What the form hands on when it is saved
+export interface AddressBookEntry {
+    label: string;
+    type: AddressType;
+    address: ShippingAddress;
+    makeDefault: boolean;
+}
+
+interface AddressBookEntryFormProps {
+    entry?: SavedAddress; // The address being edited; a new address is added when missing
+    isDefault?: boolean; // Whether the edited address is currently the default of its type
+    onSave: (entry: AddressBookEntry) => void; // Called with the validated entry
+    onCancel: () => void;
+}
+
+/**
+ * AddressBookEntryForm Component
+ * Adds or edits one address of the address book: its label, what it is used for,
+ * the address itself (validated for its country) and whether it is the default.
+ */
+function AddressBookEntryForm({ entry, isDefault = false, onSave, onCancel }: AddressBookEntryFormProps) {
+    const { t } = useTranslation();
+    const [label, setLabel] = useState(entry?.label ?? '');
+    const [type, setType] = useState<AddressType>(entry?.type ?? 'shipping');
+    const [address, setAddress] = useState<ShippingAddress>(entry?.address ?? EMPTY_SHIPPING_ADDRESS);
+    const [makeDefault, setMakeDefault] = useState(isDefault);
+    const [labelError, setLabelError] = useState<string | null>(null);
+    const [errors, setErrors] = useState<FieldErrors<ShippingAddress>>({});
+    // Prefix for the control ids, so an edit form and the add form never clash
+    const idPrefix = `saved-address-${entry?.id ?? 'new'}`;
+
+    /**
+     * Validates the entry and hands it on if it is complete.
+     * @param e - The form submit event.
+     */
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const nextLabelError = label.trim() ? null : 'fieldRequired';
+        const nextErrors = validateShippingAddress(address);
+        setLabelError(nextLabelError);
+        setErrors(nextErrors);
+        if (!nextLabelError && hasNoErrors(nextErrors)) {
+            onSave({ label, type, address, makeDefault });
+        }
+    };
+
+    return (
+        <Form noValidate onSubmit={handleSubmit} className="border rounded p-3 mb-3">
+            <Form.Group controlId={`${idPrefix}-label`} className="mb-3">
+                <Form.Label>{t('addressLabel')}</Form.Label>
+                <Form.Control
+                    type="text"
+                    placeholder={t('addressLabelPlaceholder')}
+                    maxLength={MAX_ADDRESS_LABEL_LENGTH}
+                    value={label}
+                    isInvalid={labelError !== null}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLabel(e.target.value)}
+                />
+                <Form.Control.Feedback type="invalid">{labelError && t(labelError)}</Form.Control.Feedback>
+            </Form.Group>
+            <Form.Group controlId={`${idPrefix}-type`} className="mb-3">
+                <Form.Label>{t('addressType')}</Form.Label>
+                <Form.Select value={type} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setType(e.target.value as AddressType)}>
+                    {ADDRESS_TYPES.map(option => (
+                        <option key={option} value={option}>{t(ADDRESS_TYPE_LABELS[option])}</option>
+                    ))}
+                </Form.Select>
+            </Form.Group>
+            <AddressFields
+                idPrefix={idPrefix}
+                address={address}
+                errors={errors}
+                onChange={(field, value) => setAddress(current => ({ ...current, [field]: value }))}
+            />
+            <Form.Check
+                type="checkbox"
+                id={`${idPrefix}-default`}
+                className="mb-3"
+                label={t('makeDefaultAddress')}
+                checked={makeDefault}
+                // A default can only be replaced by making another address the default
+                disabled={isDefault}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMakeDefault(e.target.checked)}
+            />
+            <div className="d-flex gap-2">
+                <Button type="submit" variant="primary">{t('saveAddress')}</Button>
+                <Button variant="outline-secondary" onClick={onCancel}>{t('cancel')}</Button>
+            </div>
+        </Form>
+    );
+}
+
+export default AddressBookEntryForm;
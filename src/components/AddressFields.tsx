@@ -0,0 +1,71 @@
+import React from 'react';
+import { Col, Form, Row } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { FieldErrors, ShippingAddress } from '../features/checkout/checkoutTypes';
+import { COUNTRIES, findCountry } from '../data/countries';
+
+// --- Type Definitions ---
+
+interface AddressFieldsProps {
+    idPrefix: string; // Keeps control ids unique when several address forms are on a page
+    address: ShippingAddress;
+    errors: FieldErrors<ShippingAddress>; // Translation keys of the errors to show, by field
+    onChange: (field: keyof ShippingAddress, value: string) => void;
+}
+
+// Text fields of the form, in display order, with their translation keys
+const ADDRESS_FIELDS: Array<{ field: Exclude<keyof ShippingAddress, 'country'>; label: string; autoComplete: string }> = [
+    { field: 'fullName', label: 'addressFullName', autoComplete: 'name' },
+    { field: 'line1', label: 'addressLine1', autoComplete: 'address-line1' },
+    { field: 'line2', label: 'addressLine2', autoComplete: 'address-line2' },
+    { field: 'city', label: 'addressCity', autoComplete: 'address-level2' },
+    { field: 'region', label: 'addressRegion', autoComplete: 'address-level1' },
+    { field: 'postalCode', label: 'addressPostalCode', autoComplete: 'postal-code' },
+];
+
+/**
+ * AddressFields Component
+ * The inputs of an address (used by the checkout address step and the address book).
+ * The postal code field shows an example in the selected country's format.
+ */
+function AddressFields({ idPrefix, address, errors, onChange }: AddressFieldsProps) {
+    const { t } = useTranslation();
+    const country = findCountry(address.country);
+
+    return (
+        <Row>
+            {ADDRESS_FIELDS.map(({ field, label, autoComplete }) => (
+                <Form.Group as={Col} xs={12} key={field} controlId={`${idPrefix}-${field}`} className="mb-3">
+                    <Form.Label>{t(label)}</Form.Label>
+                    <Form.Control
+                        type="text"
+                        autoComplete={autoComplete}
+                        value={address[field]}
+                        isInvalid={errors[field] !== undefined}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(field, e.target.value)}
+                    />
+                    <Form.Control.Feedback type="invalid">{errors[field] && t(errors[field]!)}</Form.Control.Feedback>
+                    {field === 'postalCode' && country && (
+                        <Form.Text muted>{t('addressPostalCodeExample', { example: country.postalCodeExample })}</Form.Text>
+                    )}
+                </Form.Group>
+            ))}
+            <Form.Group as={Col} xs={12} controlId={`${idPrefix}-country`} className="mb-3">
+                <Form.Label>{t('addressCountry')}</Form.Label>
+                <Form.Select
+                    autoComplete="country"
+                    value={address.country}
+                    isInvalid={errors.country !== undefined}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange('country', e.target.value)}
+                >
+                    {COUNTRIES.map(option => (
+                        <option key={option.code} value={option.code}>{option.name}</option>
+                    ))}
+                </Form.Select>
+                <Form.Control.Feedback type="invalid">{errors.country && t(errors.country)}</Form.Control.Feedback>
+            </Form.Group>
+        </Row>
+    );
+}
+
+export default AddressFields;
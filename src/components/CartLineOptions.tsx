@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { Form } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { CartItemGift } from '../features/cart/cartSlice';
+import { GIFT_WRAP_PRICE, MAX_GIFT_MESSAGE_LENGTH, MAX_LINE_NOTE_LENGTH } from '../data/giftOptions';
+import { useCurrency } from '../hooks/useCurrency';
+
+// --- Type Definitions ---
+
+interface CartLineOptionsProps {
+    itemId: number; // Used to give the form controls unique ids
+    title: string; // Product title, used in labels
+    gift?: CartItemGift; // Current gift options of the line (absent if it isn't a gift)
+    note?: string; // Current packing note of the line
+    onGiftChange: (gift: CartItemGift | null) => void; // Called with the new options, or null to unmark the gift
+    onNoteChange: (note: string) => void; // Called with the new note ('' removes it)
+}
+
+/**
+ * CartLineOptions Component
+ * Gift options (gift flag, gift wrap, card message) and a packing note for one cart line.
+ * The checkboxes update the store straight away; the texts are kept in local drafts and
+ * committed when the field loses focus, so typing doesn't produce one cart change per keystroke.
+ */
+function CartLineOptions({ itemId, title, gift, note, onGiftChange, onNoteChange }: CartLineOptionsProps) {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+    const [messageDraft, setMessageDraft] = useState(gift?.message ?? '');
+    const [noteDraft, setNoteDraft] = useState(note ?? '');
+
+    // Re-sync the drafts when the stored values change (e.g. undo, or an edit in another tab)
+    useEffect(() => {
+        setMessageDraft(gift?.message ?? '');
+    }, [gift?.message]);
+    useEffect(() => {
+        setNoteDraft(note ?? '');
+    }, [note]);
+
+    return (
+        <div className="mt-2 small">
+            <Form.Check
+                type="checkbox"
+                id={`gift-${itemId}`}
+                label={t('markAsGift')}
+                aria-label={t('markAsGiftFor', { title })}
+                checked={Boolean(gift)}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    onGiftChange(e.target.checked ? { wrap: false, message: messageDraft } : null)
+                }
+            />
+            {gift && (
+                <>
+                    <Form.Check
+                        type="checkbox"
+                        id={`gift-wrap-${itemId}`}
+                        label={t('giftWrapOption', { price: formatPrice(GIFT_WRAP_PRICE) })}
+                        checked={gift.wrap}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onGiftChange({ ...gift, wrap: e.target.checked })}
+                    />
+                    <Form.Control
+                        as="textarea"
+                        rows={2}
+                        size="sm"
+                        className="mt-1"
+                        maxLength={MAX_GIFT_MESSAGE_LENGTH}
+                        placeholder={t('giftMessage')}
+                        aria-label={t('giftMessageFor', { title })}
+                        value={messageDraft}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setMessageDraft(e.target.value)}
+                        onBlur={() => messageDraft !== gift.message && onGiftChange({ ...gift, message: messageDraft })}
+                    />
+                </>
+            )}
+            <Form.Control
+                size="sm"
+                className="mt-1"
+                maxLength={MAX_LINE_NOTE_LENGTH}
+                placeholder={t('packingNote')}
+                aria-label={t('packingNoteFor', { title })}
+                value={noteDraft}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNoteDraft(e.target.value)}
+                onBlur={() => noteDraft !== (note ?? '') && onNoteChange(noteDraft)}
+            />
+        </div>
+    );
+}
+
+export default CartLineOptions;
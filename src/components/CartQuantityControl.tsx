@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Form, InputGroup } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { MAX_ITEM_QUANTITY, MIN_ITEM_QUANTITY } from '../features/cart/cartSlice';
+import { useDebouncedCallback } from '../hooks/useDebouncedCallback';
+
+// --- Type Definitions ---
+
+interface CartQuantityControlProps {
+    title: string; // Product title, used in labels and the removal confirmation
+    quantity: number; // Current quantity of the line in the Redux store
+    onQuantityChange: (quantity: number) => void; // Called with the new quantity (0 removes the line)
+}
+
+// Delay before a typed or clicked quantity is dispatched, so rapid clicks/keystrokes become one update
+const QUANTITY_DEBOUNCE_MS = 400;
+
+/**
+ * CartQuantityControl Component
+ * Renders decrement/increment buttons around a numeric input for one cart line.
+ * Edits are kept in a local draft and dispatched (via onQuantityChange) after a short debounce.
+ * Dropping the quantity to zero asks for confirmation before the line is removed.
+ */
+function CartQuantityControl({ title, quantity, onQuantityChange }: CartQuantityControlProps) {
+    const { t } = useTranslation();
+    // Local draft of the input value; kept as a string so the field can be temporarily empty while typing
+    const [draft, setDraft] = useState(String(quantity));
+
+    // Re-sync the draft whenever the stored quantity changes (e.g. after a dispatch or from elsewhere)
+    useEffect(() => {
+        setDraft(String(quantity));
+    }, [quantity]);
+
+    /**
+     * Sends a new quantity to the store, within the allowed bounds.
+     * A quantity below the minimum removes the line, but only after the user confirms.
+     * @param nextQuantity - The requested quantity.
+     */
+    const commitQuantity = (nextQuantity: number) => {
+        if (nextQuantity < MIN_ITEM_QUANTITY) {
+            if (window.confirm(t('confirmRemoveItem', { title }))) {
+                onQuantityChange(0);
+            } else {
+                // Put the field back to the stored quantity
+                setDraft(String(quantity));
+            }
+            return;
+        }
+        const boundedQuantity = Math.min(nextQuantity, MAX_ITEM_QUANTITY);
+        setDraft(String(boundedQuantity));
+        if (boundedQuantity !== quantity) {
+            onQuantityChange(boundedQuantity);
+        }
+    };
+
+    const { debounced: commitQuantityDebounced, cancel: cancelPendingCommit } = useDebouncedCallback(commitQuantity, QUANTITY_DEBOUNCE_MS);
+
+    /**
+     * Updates the draft and schedules the commit.
+     * Going to zero skips the debounce so the confirmation appears straight away.
+     * @param nextQuantity - The new draft quantity.
+     */
+    const changeQuantity = (nextQuantity: number) => {
+        setDraft(String(nextQuantity));
+        if (nextQuantity < MIN_ITEM_QUANTITY) {
+            cancelPendingCommit();
+            commitQuantity(nextQuantity);
+        } else {
+            commitQuantityDebounced(nextQuantity);
+        }
+    };
+
+    const draftQuantity = parseInt(draft, 10);
+    // Buttons step from the draft so several quick clicks accumulate before the debounced dispatch
+    const currentQuantity = Number.isNaN(draftQuantity) ? quantity : draftQuantity;
+
+    return (
+        <InputGroup size="sm" style={{ width: '130px' }}>
+            <Button
+                variant="outline-secondary"
+                aria-label={t('decreaseQuantity', { title })}
+                onClick={() => changeQuantity(currentQuantity - 1)}
+            >
+                −
+            </Button>
+            <Form.Control
+                type="number"
+                inputMode="numeric"
+                min={0}
+                max={MAX_ITEM_QUANTITY}
+                value={draft}
+                aria-label={t('quantityFor', { title })}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    const typedQuantity = parseInt(e.target.value, 10);
+                    // Allow the field to be emptied while typing; only commit actual numbers
+                    if (Number.isNaN(typedQuantity)) {
+                        cancelPendingCommit();
+                        setDraft(e.target.value);
+                    } else {
+                        setDraft(e.target.value);
+                        commitQuantityDebounced(typedQuantity);
+                    }
+                }}
+                // Leaving the field empty restores the stored quantity
+                onBlur={() => Number.isNaN(draftQuantity) && setDraft(String(quantity))}
+            />
+            <Button
+                variant="outline-secondary"
+                aria-label={t('increaseQuantity', { title })}
+                disabled={currentQuantity >= MAX_ITEM_QUANTITY}
+                onClick={() => changeQuantity(currentQuantity + 1)}
+            >
+                +
+            </Button>
+        </InputGroup>
+    );
+}
+
+export default CartQuantityControl;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { Button, Toast, ToastContainer } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { useAppDispatch, RootState } from '../store';
+import { noticeDismissed } from '../features/cart/cartHistorySlice';
+import { redoCartChange, undoCartChange } from '../features/cart/cartHistory';
+
+// How long the notification stays on screen before hiding itself
+const NOTICE_DURATION_MS = 8000;
+
+/**
+ * CartUndoNotification Component
+ * Shows a temporary notification after an item is removed or the cart is cleared, with a
+ * button that restores the previous cart. After undoing, the notification offers Redo instead.
+ */
+function CartUndoNotification() {
+    const { t } = useTranslation();
+    const dispatch = useAppDispatch();
+    // The history slice may be missing from stores that only provide the cart (e.g. in tests)
+    const notice = useSelector((state: RootState) => state.cartHistory?.notice ?? null);
+
+    if (!notice) return null;
+
+    const message = notice.kind === 'itemRemoved'
+        ? t('itemRemovedNotice', { title: notice.title })
+        : notice.kind === 'cartCleared' ? t('cartClearedNotice') : t('changeUndoneNotice');
+
+    return (
+        <ToastContainer position="bottom-end" className="p-3" style={{ position: 'fixed' }}>
+            {/* Keyed by notice id so a new notice restarts the autohide timer */}
+            <Toast key={notice.id} autohide delay={NOTICE_DURATION_MS} onClose={() => dispatch(noticeDismissed())}>
+                <Toast.Body className="d-flex align-items-center justify-content-between" role="status">
+                    <span className="me-3">{message}</span>
+                    {notice.kind === 'changeUndone' ? (
+                        <Button variant="outline-primary" size="sm" onClick={() => dispatch(redoCartChange())}>
+                            {t('redo')}
+                        </Button>
+                    ) : (
+                        <Button variant="outline-primary" size="sm" onClick={() => dispatch(undoCartChange())}>
+                            {t('undo')}
+                        </Button>
+                    )}
+                </Toast.Body>
+            </Toast>
+        </ToastContainer>
+    );
+}
+
+export default CartUndoNotification;
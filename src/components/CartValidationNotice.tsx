@@ -0,0 +1,66 @@
+import React from 'react';
+import { Alert, Button } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { CartIssue } from '../features/cart/cartValidation';
+import { useCurrency } from '../hooks/useCurrency';
+
+// --- Type Definitions ---
+
+interface CartValidationNoticeProps {
+    status: 'idle' | 'checking' | 'checked' | 'failed'; // State of the last catalog check
+    issues: CartIssue[]; // Differences between the cart and the catalog
+    onAccept: () => void; // Updates the cart to the catalog
+    onRetry: () => void; // Checks the catalog again
+}
+
+/**
+ * CartValidationNotice Component
+ * Reports how the cart differs from the live catalog (changed prices and titles,
+ * products that are no longer sold) and asks the customer to accept the updated cart.
+ * Checkout stays blocked until they do.
+ */
+function CartValidationNotice({ status, issues, onAccept, onRetry }: CartValidationNoticeProps) {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+
+    /**
+     * Describes a single issue.
+     * @param issue - The issue to describe.
+     * @returns {string} The translated message.
+     */
+    const describeIssue = (issue: CartIssue): string => {
+        switch (issue.kind) {
+            case 'priceChanged':
+                return t('cartIssuePriceChanged', { title: issue.title, oldPrice: formatPrice(issue.oldPrice), newPrice: formatPrice(issue.newPrice) });
+            case 'titleChanged':
+                return t('cartIssueTitleChanged', { oldTitle: issue.oldTitle, newTitle: issue.newTitle });
+            case 'unavailable':
+                return t('cartIssueUnavailable', { title: issue.title });
+        }
+    };
+
+    if (status === 'failed') {
+        return (
+            <Alert variant="warning">
+                {t('cartValidationFailed')}{' '}
+                <Button variant="link" className="p-0 align-baseline" onClick={onRetry}>{t('retry')}</Button>
+            </Alert>
+        );
+    }
+
+    if (issues.length === 0) return null;
+
+    return (
+        <Alert variant="warning">
+            <Alert.Heading>{t('cartChangedTitle')}</Alert.Heading>
+            <ul>
+                {issues.map(issue => (
+                    <li key={`${issue.kind}-${issue.itemId}`}>{describeIssue(issue)}</li>
+                ))}
+            </ul>
+            <Button variant="warning" onClick={onAccept}>{t('acceptCartChanges')}</Button>
+        </Alert>
+    );
+}
+
+export default CartValidationNotice;
@@ -0,0 +1,215 @@
+import React, { useContext, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { Alert, Button, Container, Nav } from 'react-bootstrap';
+import { Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAppDispatch, RootState } from '../store';
+import { CartItem, removePromoCode } from '../features/cart/cartSlice';
+import { getOrderOwnerKey } from '../utils/userSession';
+import UserContext from '../context/UserContext';
+import { completeStep, getStepIndex, goToStep, setShippingAddress } from '../features/checkout/checkoutSlice';
+import { CHECKOUT_STEPS, CheckoutStep, PaymentDetails, ShippingAddress } from '../features/checkout/checkoutTypes';
+import { placeOrder } from '../features/checkout/placeOrder';
+import { PAYMENT_FAILURE_MESSAGES } from '../features/payments/paymentTypes';
+import { calculatePriceBreakdown } from '../features/pricing/pricingPipeline';
+import { getAddressesOfType, getDefaultAddress } from '../features/addressBook/addressBook';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { useCartValidation } from '../hooks/useCartValidation';
+import { useCurrency } from '../hooks/useCurrency';
+import CartValidationNotice from './CartValidationNotice';
+import CheckoutAddressForm from './CheckoutAddressForm';
+import CheckoutPaymentForm from './CheckoutPaymentForm';
+import CheckoutReview from './CheckoutReview';
+import DeliveryOptions from './DeliveryOptions';
+
+// Translation keys of the step names shown in the progress bar
+const STEP_LABELS: Record<CheckoutStep, string> = {
+    address: 'checkoutStepAddress',
+    delivery: 'checkoutStepDelivery',
+    payment: 'checkoutStepPayment',
+    review: 'checkoutStepReview',
+};
+
+/**
+ * Checkout Component
+ * The /checkout flow: shipping address -> delivery method -> payment -> review.
+ * Each step is validated before the next one unlocks; the progress bar and the Back buttons
+ * move between unlocked steps. Progress (step and address) is kept in the checkout slice,
+ * which is persisted to sessionStorage, so a refresh resumes where the customer left off.
+ * Card details are only kept in this component, so after a refresh they are asked for again.
+ */
+function Checkout() {
+    const dispatch = useAppDispatch();
+    // The order is stored under the customer's owner key, so only they see it in their history
+    const { user } = useContext(UserContext);
+    const navigate = useNavigate();
+    const { t } = useTranslation();
+    const { currency } = useCurrency();
+
+    const cartItems = useSelector((state: RootState): CartItem[] => state.cart.items);
+    const promoCode = useSelector((state: RootState) => state.cart.promoCode ?? null);
+    const shippingMethod = useSelector((state: RootState) => state.cart.shippingMethod);
+    const taxRegion = useSelector((state: RootState) => state.cart.taxRegion);
+    const { step: savedStep, reachedStep, address } = useSelector((state: RootState) => state.checkout);
+    // Saved shipping addresses of a logged-in user (none for guests)
+    const { book: addressBook } = useAddressBook();
+    const savedShippingAddresses = getAddressesOfType(addressBook, 'shipping');
+    // Until an address was entered (only complete addresses are stored), the address step
+    // starts from the user's default shipping address
+    const defaultShippingAddress = getDefaultAddress(addressBook, 'shipping');
+    const initialAddress = !address.line1 && defaultShippingAddress ? { ...defaultShippingAddress.address } : address;
+
+    // Card details entered at the payment step (never persisted)
+    const [payment, setPayment] = useState<PaymentDetails | null>(null);
+    // Why the order could not be placed, if it failed
+    const [placeError, setPlaceError] = useState<string | null>(null);
+    const [isPlacing, setIsPlacing] = useState(false);
+
+    // Entering checkout re-checks the lines against the live catalog, like the cart does
+    const { status: validationStatus, issues: cartIssues, validate: validateCart, acceptChanges } = useCartValidation(cartItems);
+
+    const breakdown = calculatePriceBreakdown({ items: cartItems, promoCode, shippingMethod, taxRegion });
+
+    // Without card details (e.g. after a refresh) the review step falls back to the payment step
+    const step: CheckoutStep = savedStep === 'review' && !payment ? 'payment' : savedStep;
+    const lastUnlockedIndex = payment ? getStepIndex(reachedStep) : Math.min(getStepIndex(reachedStep), getStepIndex('payment'));
+
+    // --- Event Handlers ---
+
+    /**
+     * Saves the address and continues to the delivery step.
+     * @param nextAddress - The validated address.
+     */
+    const handleAddressSubmit = (nextAddress: ShippingAddress) => {
+        dispatch(setShippingAddress(nextAddress));
+        dispatch(completeStep());
+    };
+
+    /**
+     * Keeps the card details and continues to the review step.
+     * @param details - The validated card details.
+     */
+    const handlePaymentSubmit = (details: PaymentDetails) => {
+        setPayment(details);
+        dispatch(completeStep());
+    };
+
+    /**
+     * Shows the step before the current one.
+     */
+    const handleBack = () => {
+        dispatch(goToStep(CHECKOUT_STEPS[getStepIndex(step) - 1]));
+    };
+
+    /**
+     * Places the order after checking the cart one last time.
+     * Stops (with a message) if the catalog can't be reached, if the cart no longer matches
+     * the catalog, if the promo code stopped applying, or if the payment fails; otherwise
+     * shows the confirmation page.
+     */
+    const handlePlaceOrder = async () => {
+        if (!payment) return;
+        setPlaceError(null);
+        setIsPlacing(true);
+        try {
+            // Never charge stale prices: the customer has to accept catalog changes first
+            const validation = await validateCart();
+            if (!validation.ok) {
+                setPlaceError(t('cartValidationFailed'));
+                return;
+            }
+            if (validation.issues.length > 0) {
+                setPlaceError(t('cartChangedBeforeCheckout'));
+                return;
+            }
+
+            // Price the order one last time (e.g. the promo code may have expired in the meantime).
+            // An invalid code is removed and the customer sees the new total before trying again.
+            const orderBreakdown = calculatePriceBreakdown({ items: cartItems, promoCode, shippingMethod, taxRegion });
+            const orderPromotion = orderBreakdown.promotion;
+            if (promoCode && orderPromotion && !orderPromotion.valid) {
+                dispatch(removePromoCode());
+                setPlaceError(`${t('promoNoLongerApplies', { code: promoCode })} ${t(orderPromotion.error)}`);
+                return;
+            }
+
+            const result = await dispatch(placeOrder({ owner: getOrderOwnerKey(user), items: cartItems, breakdown: orderBreakdown, address, currency }, payment));
+            if (!result.ok) {
+                setPlaceError(t(PAYMENT_FAILURE_MESSAGES[result.reason]));
+                return;
+            }
+            navigate(`/checkout/confirmation/${result.order.orderId}`);
+        } finally {
+            setIsPlacing(false);
+        }
+    };
+
+    // --- Empty Cart ---
+    if (cartItems.length === 0) {
+        return (
+            <Container className="mt-5">
+                <Alert variant="info">
+                    {t('checkoutEmptyCart')} <Link to="/cart">{t('backToCart')}</Link>
+                </Alert>
+            </Container>
+        );
+    }
+
+    return (
+        <Container className="mt-5">
+            <h2>{t('checkout')}</h2>
+
+            {/* --- Progress --- */}
+            <Nav variant="pills" className="mb-4" activeKey={step} onSelect={(key) => key && dispatch(goToStep(key as CheckoutStep))}>
+                {CHECKOUT_STEPS.map((stepName, index) => (
+                    <Nav.Item key={stepName}>
+                        <Nav.Link eventKey={stepName} disabled={index > lastUnlockedIndex}>
+                            {index + 1}. {t(STEP_LABELS[stepName])}
+                        </Nav.Link>
+                    </Nav.Item>
+                ))}
+            </Nav>
+
+            <CartValidationNotice status={validationStatus} issues={cartIssues} onAccept={acceptChanges} onRetry={validateCart} />
+
+            {/* --- Current Step --- */}
+            {step === 'address' && (
+                <CheckoutAddressForm address={initialAddress} savedAddresses={savedShippingAddresses} onSubmit={handleAddressSubmit} />
+            )}
+
+            {step === 'delivery' && (
+                <>
+                    <DeliveryOptions breakdown={breakdown} />
+                    <div className="d-flex gap-2">
+                        <Button variant="outline-secondary" onClick={handleBack}>{t('back')}</Button>
+                        <Button variant="primary" onClick={() => dispatch(completeStep())}>{t('continue')}</Button>
+                    </div>
+                </>
+            )}
+
+            {step === 'payment' && (
+                <CheckoutPaymentForm details={payment} onSubmit={handlePaymentSubmit} onBack={handleBack} />
+            )}
+
+            {step === 'review' && payment && (
+                <>
+                    <CheckoutReview items={cartItems} breakdown={breakdown} address={address} payment={payment} />
+                    {placeError && <Alert variant="danger">{placeError}</Alert>}
+                    <div className="d-flex gap-2">
+                        <Button variant="outline-secondary" onClick={handleBack} disabled={isPlacing}>{t('back')}</Button>
+                        <Button
+                            variant="primary"
+                            onClick={handlePlaceOrder}
+                            // Blocked while placing, while the catalog is being checked, or until catalog changes are accepted
+                            disabled={isPlacing || validationStatus === 'checking' || cartIssues.length > 0}
+                        >
+                            {t('placeOrder')}
+                        </Button>
+                    </div>
+                </>
+            )}
+        </Container>
+    );
+}
+
+export default Checkout;
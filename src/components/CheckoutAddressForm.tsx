@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button, Form } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { FieldErrors, ShippingAddress } from '../features/checkout/checkoutTypes';
+import { hasNoErrors, validateShippingAddress } from '../features/checkout/checkoutValidation';
+import { SavedAddress } from '../features/addressBook/addressBook';
+import AddressFields from './AddressFields';
+
+// --- Type Definitions ---
+
+interface CheckoutAddressFormProps {
+    address: ShippingAddress; // Address to start from (the one saved earlier, if any)
+    savedAddresses?: SavedAddress[]; // Shipping addresses from the user's address book, default first
+    onSubmit: (address: ShippingAddress) => void; // Called with the validated address
+}
+
+/**
+ * CheckoutAddressForm Component
+ * First checkout step: the shipping address. Logged-in users can fill it in from their
+ * address book; the fields stay editable afterwards (edits don't change the saved address).
+ * Errors are shown once the customer tries to continue.
+ */
+function CheckoutAddressForm({ address, savedAddresses = [], onSubmit }: CheckoutAddressFormProps) {
+    const { t } = useTranslation();
+    const [draft, setDraft] = useState<ShippingAddress>(address);
+    const [errors, setErrors] = useState<FieldErrors<ShippingAddress>>({});
+
+    /**
+     * Updates one field of the draft.
+     * @param field - The field to change.
+     * @param value - The new value.
+     */
+    const updateField = (field: keyof ShippingAddress, value: string) => {
+        setDraft(current => ({ ...current, [field]: value }));
+    };
+
+    /**
+     * Fills the form with a saved address.
+     * @param id - The id of the saved address (empty when the placeholder is picked).
+     */
+    const handleSavedAddressSelect = (id: string) => {
+        const saved = savedAddresses.find(entry => entry.id === id);
+        if (!saved) return;
+        // A copy, so the order keeps this address even if the saved one is edited later
+        setDraft({ ...saved.address });
+        setErrors({});
+    };
+
+    /**
+     * Validates the address and hands it on if it is complete.
+     * @param e - The form submit event.
+     */
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const nextErrors = validateShippingAddress(draft);
+        setErrors(nextErrors);
+        if (hasNoErrors(nextErrors)) {
+            onSubmit(draft);
+        }
+    };
+
+    return (
+        <Form noValidate onSubmit={handleSubmit} style={{ maxWidth: '480px' }}>
+            {savedAddresses.length > 0 && (
+                <Form.Group controlId="address-saved" className="mb-3">
+                    <Form.Label>{t('useSavedAddress')}</Form.Label>
+                    <Form.Select defaultValue="" onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleSavedAddressSelect(e.target.value)}>
+                        <option value="">{t('chooseSavedAddress')}</option>
+                        {savedAddresses.map(entry => (
+                            <option key={entry.id} value={entry.id}>
+                                {entry.label} — {entry.address.line1}, {entry.address.city}
+                            </option>
+                        ))}
+                    </Form.Select>
+                </Form.Group>
+            )}
+            <AddressFields idPrefix="address" address={draft} errors={errors} onChange={updateField} />
+            <Button type="submit" variant="primary">{t('continue')}</Button>
+        </Form>
+    );
+}
+
+export default CheckoutAddressForm;
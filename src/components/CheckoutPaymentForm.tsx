@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Button, Col, Form, Row } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { FieldErrors, PaymentDetails } from '../features/checkout/checkoutTypes';
+import { hasNoErrors, validatePaymentDetails } from '../features/checkout/checkoutValidation';
+
+// --- Type Definitions ---
+
+interface CheckoutPaymentFormProps {
+    details: PaymentDetails | null; // Details entered earlier in this visit, if any
+    onSubmit: (details: PaymentDetails) => void; // Called with the validated details
+    onBack: () => void; // Goes back to the delivery step
+}
+
+const EMPTY_PAYMENT_DETAILS: PaymentDetails = { cardholderName: '', cardNumber: '', expiry: '', cvc: '' };
+
+/**
+ * CheckoutPaymentForm Component
+ * Third checkout step: card details. Only the format is checked here; the card itself
+ * is checked when the order is placed. The details are never stored, so they have to be
+ * entered again after a page refresh.
+ */
+function CheckoutPaymentForm({ details, onSubmit, onBack }: CheckoutPaymentFormProps) {
+    const { t } = useTranslation();
+    const [draft, setDraft] = useState<PaymentDetails>(details ?? EMPTY_PAYMENT_DETAILS);
+    const [errors, setErrors] = useState<FieldErrors<PaymentDetails>>({});
+
+    /**
+     * Updates one field of the draft.
+     * @param field - The field to change.
+     * @param value - The new value.
+     */
+    const updateField = (field: keyof PaymentDetails, value: string) => {
+        setDraft(current => ({ ...current, [field]: value }));
+    };
+
+    /**
+     * Validates the card details and hands them on if they are well formed.
+     * @param e - The form submit event.
+     */
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const nextErrors = validatePaymentDetails(draft);
+        setErrors(nextErrors);
+        if (hasNoErrors(nextErrors)) {
+            onSubmit(draft);
+        }
+    };
+
+    return (
+        <Form noValidate onSubmit={handleSubmit} style={{ maxWidth: '480px' }}>
+            <Form.Group controlId="payment-cardholderName" className="mb-3">
+                <Form.Label>{t('cardholderName')}</Form.Label>
+                <Form.Control
+                    type="text"
+                    autoComplete="cc-name"
+                    value={draft.cardholderName}
+                    isInvalid={errors.cardholderName !== undefined}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateField('cardholderName', e.target.value)}
+                />
+                <Form.Control.Feedback type="invalid">{errors.cardholderName && t(errors.cardholderName)}</Form.Control.Feedback>
+            </Form.Group>
+            <Form.Group controlId="payment-cardNumber" className="mb-3">
+                <Form.Label>{t('cardNumber')}</Form.Label>
+                <Form.Control
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="cc-number"
+                    value={draft.cardNumber}
+                    isInvalid={errors.cardNumber !== undefined}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateField('cardNumber', e.target.value)}
+                />
+                <Form.Control.Feedback type="invalid">{errors.cardNumber && t(errors.cardNumber)}</Form.Control.Feedback>
+            </Form.Group>
+            <Row>
+                <Form.Group as={Col} controlId="payment-expiry" className="mb-3">
+                    <Form.Label>{t('cardExpiry')}</Form.Label>
+                    <Form.Control
+                        type="text"
+                        autoComplete="cc-exp"
+                        placeholder="MM/YY"
+                        value={draft.expiry}
+                        isInvalid={errors.expiry !== undefined}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateField('expiry', e.target.value)}
+                    />
+                    <Form.Control.Feedback type="invalid">{errors.expiry && t(errors.expiry)}</Form.Control.Feedback>
+                </Form.Group>
+                <Form.Group as={Col} controlId="payment-cvc" className="mb-3">
+                    <Form.Label>{t('cardCvc')}</Form.Label>
+                    <Form.Control
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="cc-csc"
+                        value={draft.cvc}
+                        isInvalid={errors.cvc !== undefined}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateField('cvc', e.target.value)}
+                    />
+                    <Form.Control.Feedback type="invalid">{errors.cvc && t(errors.cvc)}</Form.Control.Feedback>
+                </Form.Group>
+            </Row>
+            <div className="d-flex gap-2">
+                <Button variant="outline-secondary" onClick={onBack}>{t('back')}</Button>
+                <Button type="submit" variant="primary">{t('continue')}</Button>
+            </div>
+        </Form>
+    );
+}
+
+export default CheckoutPaymentForm;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Col, Row, Table } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { CartItem } from '../features/cart/cartSlice';
+import { PriceBreakdown } from '../features/pricing/pricingPipeline';
+import { PaymentDetails, ShippingAddress } from '../features/checkout/checkoutTypes';
+import { formatMaskedCard, maskCard } from '../features/payments/cards';
+import { useCurrency } from '../hooks/useCurrency';
+import { usePromotionDescription } from '../hooks/usePromotionDescription';
+import PostalAddress from './PostalAddress';
+
+// --- Type Definitions ---
+
+interface CheckoutReviewProps {
+    items: CartItem[];
+    breakdown: PriceBreakdown; // Current pricing of the items
+    address: ShippingAddress;
+    payment: PaymentDetails;
+}
+
+/**
+ * CheckoutReview Component
+ * Last checkout step: everything the order will contain, for a final look before placing it.
+ * Only the card's brand and last four digits are shown.
+ */
+function CheckoutReview({ items, breakdown, address, payment }: CheckoutReviewProps) {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+    // Translates the discount lines of the applied promo code
+    const describePromotion = usePromotionDescription();
+
+    return (
+        <>
+            <Table size="sm" className="mb-4">
+                <thead>
+                    <tr>
+                        <th>{t('product')}</th>
+                        <th>{t('quantity')}</th>
+                        <th>{t('total')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {items.map((item, index) => (
+                        <tr key={item.id}>
+                            <td>
+                                {item.title}
+                                {item.gift && <div className="small text-muted">{item.gift.wrap ? t('giftWrapped') : t('gift')}</div>}
+                            </td>
+                            <td>{item.quantity}</td>
+                            <td>{formatPrice(breakdown.lines[index].lineTotal)}</td>
+                        </tr>
+                    ))}
+                    <tr>
+                        <td colSpan={2} className="text-end">{t('subtotal')}</td>
+                        <td>{formatPrice(breakdown.subtotal)}</td>
+                    </tr>
+                    {breakdown.discounts.map((discount, index) => (
+                        <tr key={`discount-${index}`}>
+                            <td colSpan={2} className="text-end">{describePromotion(discount.description)} ({discount.code})</td>
+                            <td className="text-success">−{formatPrice(discount.amount)}</td>
+                        </tr>
+                    ))}
+                    {breakdown.giftWrap > 0 && (
+                        <tr>
+                            <td colSpan={2} className="text-end">{t('giftWrap')}</td>
+                            <td>{formatPrice(breakdown.giftWrap)}</td>
+                        </tr>
+                    )}
+                    <tr>
+                        <td colSpan={2} className="text-end">{t('shipping')} ({t(breakdown.shippingMethod.label)})</td>
+                        <td>{formatPrice(breakdown.shipping)}</td>
+                    </tr>
+                    <tr>
+                        <td colSpan={2} className="text-end">{t('tax')} ({breakdown.taxRegion.name})</td>
+                        <td>{formatPrice(breakdown.tax)}</td>
+                    </tr>
+                    <tr>
+                        <td colSpan={2} className="text-end"><strong>{t('grandTotal')}</strong></td>
+                        <td><strong>{formatPrice(breakdown.total)}</strong></td>
+                    </tr>
+                </tbody>
+            </Table>
+            <Row>
+                <Col md={6} className="mb-3">
+                    <h5>{t('shippingAddress')}</h5>
+                    <PostalAddress address={address} />
+                </Col>
+                <Col md={6} className="mb-3">
+                    <h5>{t('payment')}</h5>
+                    <p>{formatMaskedCard(maskCard(payment.cardNumber))}</p>
+                </Col>
+            </Row>
+        </>
+    );
+}
+
+export default CheckoutReview;
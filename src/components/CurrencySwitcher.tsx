@@ -0,0 +1,40 @@
+import React from 'react';
+import { Form } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { CURRENCIES } from '../data/currencies';
+import { useCurrency } from '../hooks/useCurrency';
+import { isCurrencyCode } from '../utils/currency';
+
+// Value of the option that follows the active language instead of a fixed currency
+const AUTO_CURRENCY = 'auto';
+
+/**
+ * CurrencySwitcher Component
+ * Renders a dropdown for choosing the currency prices are displayed in.
+ * "Automatic" uses the currency that goes with the active language (see LANGUAGE_CURRENCIES).
+ */
+function CurrencySwitcher() {
+    const { t } = useTranslation();
+    const { currency, languageCurrencyCode, isFollowingLanguage, setCurrencyCode } = useCurrency();
+
+    return (
+        <Form.Group className="mb-3" controlId="currency-select" style={{ maxWidth: '260px' }}>
+            <Form.Label>{t('currency')}:</Form.Label>
+            <Form.Select
+                value={isFollowingLanguage ? AUTO_CURRENCY : currency.code}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                    const value = e.target.value;
+                    // Anything other than a known currency code switches back to following the language
+                    setCurrencyCode(isCurrencyCode(value) ? value : null);
+                }}
+            >
+                <option value={AUTO_CURRENCY}>{t('currencyAutomatic', { code: languageCurrencyCode })}</option>
+                {Object.values(CURRENCIES).map(({ code, symbol }) => (
+                    <option key={code} value={code}>{code} ({symbol})</option>
+                ))}
+            </Form.Select>
+        </Form.Group>
+    );
+}
+
+export default CurrencySwitcher;
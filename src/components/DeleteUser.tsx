@@ -2,6 +2,10 @@ import React, { useState, useContext, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import UserContext from '../context/UserContext';
 import { Container, Row, Col, Button, Alert } from 'react-bootstrap';
+import { useAppDispatch } from '../store';
+import { getCartOwnerKey, switchToGuestCart } from '../features/cart/cartSession';
+import { removeAddressBook } from '../features/addressBook/addressBookStorage';
+import { removeOrdersFromLocalStorage } from '../utils/localStorageHelpers';
 
 /**
  * DeleteUser Component
@@ -26,6 +30,8 @@ const DeleteUser = () => {
     const [isLoading, setIsLoading] = useState(false); 
     // Hook to programmatically navigate the user (e.g., redirecting after deletion)
     const navigate = useNavigate(); 
+    // Typed Redux dispatch, used to discard the deleted user's cart
+    const dispatch = useAppDispatch();
 
     // --- Effects ---
 
@@ -66,6 +72,11 @@ const DeleteUser = () => {
         setUser({ name: '', isLoggedIn: false }); 
         // Remove the user session data from local storage to prevent auto-login
         localStorage.removeItem('userSession'); 
+        // Throw away the deleted user's saved cart and fall back to an empty guest cart
+        dispatch(switchToGuestCart({ discardSaved: true }));
+        // Their saved addresses and order history go with the account
+        removeAddressBook(getCartOwnerKey(user));
+        removeOrdersFromLocalStorage(getCartOwnerKey(user));
 
         // --- UI Feedback and Redirection ---
         // Show the success message
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Form } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { useAppDispatch } from '../store';
+import { setShippingMethod, setTaxRegion } from '../features/cart/cartSlice';
+import { PriceBreakdown, getAvailableShippingMethods } from '../features/pricing/pricingPipeline';
+import { SHIPPING_METHODS } from '../data/shipping';
+import { TAX_REGIONS } from '../data/taxRegions';
+import { useCurrency } from '../hooks/useCurrency';
+import { subtractMoney } from '../utils/money';
+
+// --- Type Definitions ---
+
+interface DeliveryOptionsProps {
+    breakdown: PriceBreakdown; // Current pricing of the cart, used to decide which methods are offered
+}
+
+/**
+ * DeliveryOptions Component
+ * Lets the customer pick a shipping method and the region whose sales tax applies.
+ * Methods with a minimum subtotal (free shipping) are only listed once the discounted
+ * subtotal reaches it; until then a hint shows how much more is needed.
+ */
+function DeliveryOptions({ breakdown }: DeliveryOptionsProps) {
+    const { t } = useTranslation();
+    const dispatch = useAppDispatch();
+    const { formatPrice } = useCurrency();
+
+    const discountedSubtotal = subtractMoney(breakdown.subtotal, breakdown.discountTotal);
+    const availableMethods = getAvailableShippingMethods(discountedSubtotal);
+    // The cheapest threshold the customer hasn't reached yet, if any
+    const nextThreshold = SHIPPING_METHODS
+        .map(method => method.minimumSubtotal)
+        .filter((minimum): minimum is NonNullable<typeof minimum> => minimum !== undefined && minimum > discountedSubtotal)
+        .sort((a, b) => a - b)[0];
+
+    return (
+        <div className="mb-3" style={{ maxWidth: '360px' }}>
+            {/* --- Shipping Method --- */}
+            <Form.Group className="mb-3">
+                <Form.Label as="legend" className="fs-6">{t('shippingMethod')}</Form.Label>
+                {availableMethods.map(method => (
+                    <Form.Check
+                        key={method.id}
+                        type="radio"
+                        id={`shipping-${method.id}`}
+                        name="shipping-method"
+                        // The pipeline falls back to another method when the selected one is not offered
+                        checked={breakdown.shippingMethod.id === method.id}
+                        onChange={() => dispatch(setShippingMethod(method.id))}
+                        label={`${t(method.label)} (${t('deliveryEstimate', { days: method.estimatedDays })}): ${formatPrice(method.cost)}`}
+                    />
+                ))}
+                {nextThreshold !== undefined && (
+                    <Form.Text muted>
+                        {t('freeShippingHint', { amount: formatPrice(subtractMoney(nextThreshold, discountedSubtotal)) })}
+                    </Form.Text>
+                )}
+            </Form.Group>
+
+            {/* --- Tax Region --- */}
+            <Form.Group controlId="tax-region">
+                <Form.Label>{t('taxRegion')}</Form.Label>
+                <Form.Select
+                    value={breakdown.taxRegion.code}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => dispatch(setTaxRegion(e.target.value))}
+                >
+                    {TAX_REGIONS.map(region => (
+                        <option key={region.code} value={region.code}>{region.name}</option>
+                    ))}
+                </Form.Select>
+            </Form.Group>
+        </div>
+    );
+}
+
+export default DeliveryOptions;
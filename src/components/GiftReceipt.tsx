@@ -0,0 +1,81 @@
+import React from 'react';
+import { Button, Modal, Table } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { Order } from '../types/Order';
+
+// --- Type Definitions ---
+
+interface GiftReceiptProps {
+    order: Order | null; // The order to show the receipt for; nothing is shown while null
+    onHide: () => void; // Called when the receipt is closed
+}
+
+// Printing the receipt prints only the receipt: the page behind the dialog (the order history,
+// with every order's total) and the dialog's buttons are left off the paper.
+// The dialog is rendered straight into <body>, next to the app root and the backdrop.
+const GIFT_RECEIPT_PRINT_STYLES = `
+@media print {
+  body > :not(.gift-receipt) { display: none !important; }
+  .gift-receipt { position: static !important; display: block !important; overflow: visible !important; }
+  .gift-receipt .modal-dialog { max-width: none; margin: 0; transform: none !important; }
+  .gift-receipt .modal-content { border: none; box-shadow: none; }
+  .gift-receipt .btn-close { display: none; }
+}
+`;
+
+/**
+ * GiftReceipt Component
+ * A printable receipt for the gift lines of an order, to be put in the parcel.
+ * It lists what was bought with the gift messages but never shows any prices
+ * (and leaves out the packing notes, which are meant for the warehouse).
+ */
+function GiftReceipt({ order, onHide }: GiftReceiptProps) {
+    const { t } = useTranslation();
+    const giftItems = order?.items.filter(item => item.gift) ?? [];
+
+    return (
+        <Modal show={order !== null} onHide={onHide} className="gift-receipt">
+            {/* Only in the page while the receipt is open, so other printouts are unaffected */}
+            <style>{GIFT_RECEIPT_PRINT_STYLES}</style>
+            <Modal.Header closeButton>
+                <Modal.Title>{t('giftReceipt')}</Modal.Title>
+            </Modal.Header>
+            {order && (
+                <Modal.Body>
+                    <p>
+                        {t('orderId')}: {order.orderId}<br />
+                        {t('date')}: {new Date(order.dateCreated).toLocaleDateString()}
+                    </p>
+                    <Table size="sm">
+                        <thead>
+                            <tr>
+                                <th>{t('product')}</th>
+                                <th>{t('quantity')}</th>
+                                <th>{t('giftMessage')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {giftItems.map(item => (
+                                <tr key={item.productId}>
+                                    {/* Orders placed before titles were recorded only have the product id */}
+                                    <td>
+                                        {item.title ?? t('productNumber', { id: item.productId })}
+                                        {item.gift?.wrap && <div className="small text-muted">{t('giftWrapped')}</div>}
+                                    </td>
+                                    <td>{item.quantity}</td>
+                                    <td>{item.gift?.message}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </Table>
+                </Modal.Body>
+            )}
+            <Modal.Footer className="d-print-none">
+                <Button variant="outline-secondary" onClick={() => window.print()}>{t('print')}</Button>
+                <Button variant="secondary" onClick={onHide}>{t('close')}</Button>
+            </Modal.Footer>
+        </Modal>
+    );
+}
+
+export default GiftReceipt;
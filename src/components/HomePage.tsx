@@ -4,6 +4,8 @@ import UserContext from '../context/UserContext';
 import { Container } from 'react-bootstrap';
 import { useSelector } from 'react-redux';
 import ProductCatalog from './ProductCatalog';
+import LanguageSwitcher from './LanguageSwitcher';
+import CurrencySwitcher from './CurrencySwitcher';
 import { Link, NavLink, useNavigate } from 'react-router-dom';
 
 /**
@@ -88,6 +90,12 @@ function HomePage() {
             <NavLink to="/update-profile">Update Profile</NavLink> <br/>
             <Link to="/order-history">View Order History</Link>
 
+            {/* Display preferences: language and the currency prices are shown in */}
+            <div className="my-3">
+                <LanguageSwitcher />
+                <CurrencySwitcher />
+            </div>
+
             {/* Embed the ProductCatalog component to display the list of products */}
             <ProductCatalog />
         </Container>
@@ -0,0 +1,135 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Invoice } from '../features/invoices/invoice';
+import { formatMaskedCard } from '../features/payments/cards';
+import { useCurrency } from '../hooks/useCurrency';
+import { usePromotionDescription } from '../hooks/usePromotionDescription';
+import PostalAddress from './PostalAddress';
+
+interface InvoiceDocumentProps {
+    invoice: Invoice;
+}
+
+/**
+ * InvoiceDocument Component
+ * The invoice itself, styled only by INVOICE_STYLES (no Bootstrap) so the same markup works
+ * on screen, on paper and in the downloaded standalone HTML file.
+ */
+function InvoiceDocument({ invoice }: InvoiceDocumentProps) {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+    // Discount lines are stored as translation keys, shown in the invoice's currency
+    const describePromotion = usePromotionDescription();
+    const { seller, charges, currency } = invoice;
+
+    return (
+        <article className="invoice">
+            {/* --- Seller and Invoice Number --- */}
+            <header className="invoice-header">
+                <div>
+                    <h1>{t('invoice')}</h1>
+                    <p><strong>{seller.name}</strong></p>
+                    {seller.addressLines.map(line => <p key={line}>{line}</p>)}
+                    <p>{seller.email} · {seller.website}</p>
+                    <p>{t('sellerTaxId')}: {seller.taxId}</p>
+                </div>
+                <div className="invoice-meta">
+                    <p>{t('invoiceNumber')}: <strong>{invoice.number}</strong></p>
+                    <p>{t('invoiceDate')}: {new Date(invoice.issuedAt).toLocaleDateString()}</p>
+                    <p>{t('orderId')}: {invoice.orderId}</p>
+                    <p>{t('orderDate')}: {new Date(invoice.orderDate).toLocaleDateString()}</p>
+                </div>
+            </header>
+
+            {/* --- Customer --- */}
+            <section className="invoice-parties">
+                <div>
+                    <h2>{t('billTo')}</h2>
+                    <p>{invoice.customerName}</p>
+                </div>
+                {invoice.shippingAddress && (
+                    <div>
+                        <h2>{t('shipTo')}</h2>
+                        <PostalAddress address={invoice.shippingAddress} />
+                    </div>
+                )}
+            </section>
+
+            {/* --- Lines --- */}
+            <table className="invoice-table">
+                <thead>
+                    <tr>
+                        <th>{t('product')}</th>
+                        <th className="amount">{t('quantity')}</th>
+                        <th className="amount">{t('unitPrice')}</th>
+                        <th className="amount">{t('total')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {invoice.lines.map((line, index) => (
+                        <tr key={`${line.productId}-${index}`}>
+                            <td>{line.title ?? t('productNumber', { id: line.productId })}</td>
+                            <td className="amount">{line.quantity}</td>
+                            <td className="amount">{formatPrice(line.unitPrice, currency)}</td>
+                            <td className="amount">{formatPrice(line.lineTotal, currency)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {/* --- Totals --- */}
+            <table className="invoice-totals">
+                <tbody>
+                    <tr>
+                        <td>{t('subtotal')}</td>
+                        <td className="amount">{formatPrice(charges.subtotal, currency)}</td>
+                    </tr>
+                    {charges.discounts.map((discount, index) => (
+                        <tr key={`discount-${index}`}>
+                            <td>{describePromotion(discount.description, currency)} ({discount.code})</td>
+                            <td className="amount">−{formatPrice(discount.amount, currency)}</td>
+                        </tr>
+                    ))}
+                    {charges.giftWrap > 0 && (
+                        <tr>
+                            <td>{t('giftWrap')}</td>
+                            <td className="amount">{formatPrice(charges.giftWrap, currency)}</td>
+                        </tr>
+                    )}
+                    <tr>
+                        <td>{t('shipping')}{invoice.shippingMethod && <> ({t(invoice.shippingMethod)})</>}</td>
+                        <td className="amount">{formatPrice(charges.shipping, currency)}</td>
+                    </tr>
+                    <tr>
+                        <td>
+                            {t('tax')}
+                            {invoice.taxRegion && <> ({invoice.taxRegion}{invoice.taxRate !== null && <>, {(invoice.taxRate * 100).toFixed(2)}%</>})</>}
+                        </td>
+                        <td className="amount">{formatPrice(charges.tax, currency)}</td>
+                    </tr>
+                    <tr className="grand-total">
+                        <td>{t('grandTotal')}</td>
+                        <td className="amount">{formatPrice(charges.total, currency)}</td>
+                    </tr>
+                    {invoice.payment?.refundedAmount !== undefined && (
+                        <tr>
+                            <td>{t('refunded')}</td>
+                            <td className="amount">−{formatPrice(invoice.payment.refundedAmount, currency)}</td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+
+            <footer className="invoice-footer">
+                {invoice.payment ? (
+                    <p>{t('invoicePaidWith', { card: formatMaskedCard(invoice.payment.card) })}</p>
+                ) : (
+                    <p>{t('invoiceNoPayment')}</p>
+                )}
+                <p>{t('invoiceThanks', { seller: seller.name })}</p>
+            </footer>
+        </article>
+    );
+}
+
+export default InvoiceDocument;
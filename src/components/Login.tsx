@@ -2,6 +2,9 @@ import React, { useContext, useEffect, useState } from 'react';
 import UserContext from '../context/UserContext'; 
 import { useNavigate } from 'react-router-dom';
 import { Container, Row, Col, Form, Button } from 'react-bootstrap';
+import { useAppDispatch } from '../store';
+import { activateUserCart, getCartOwnerKey } from '../features/cart/cartSession';
+import { claimGuestOrders, getStoredUserSession, isAdminUser } from '../utils/userSession';
 
 // Defines the structure for user data used locally in this component.
 interface User {
@@ -25,6 +28,8 @@ function Login() {
     const { setUser } = useContext(UserContext); 
     // Get the navigate function from React Router for redirection
     const navigate = useNavigate(); 
+    // Typed Redux dispatch, used to switch the active cart to the logged-in user's cart
+    const dispatch = useAppDispatch();
 
     // --- Effects ---
 
@@ -33,43 +38,33 @@ function Login() {
     useEffect(() => {
         // Debugging log
         console.log("Login.tsx useEffect: Checking for stored user session...");
-        // Attempt to retrieve the user session data stored previously
-        const storedUser = localStorage.getItem('userSession');
+        // Retrieve the user session stored at the last login (App has already restored it into
+        // the context; this only sends a remembered user on from the login page)
+        const userSession = getStoredUserSession();
         // Debugging log
-        console.log("Login.tsx useEffect: Retrieved storedUser from localStorage:", storedUser);
-        
+        console.log("Login.tsx useEffect: Retrieved userSession from localStorage:", userSession);
+
         // Check if any session data was found
-        if (storedUser) {
-            try {
-                // Attempt to parse the stored JSON string back into an object.
-                // Explicitly typing the parsed result to match the expected User structure.
-                const userSession: User = JSON.parse(storedUser); 
-                // Debugging log
-                console.log("Login.tsx useEffect: Parsed userSession:", userSession);
+        if (userSession) {
+            // Update the global user state via context with the retrieved session data
+            setUser(userSession);
+            // Make this user's cart active (a no-op if the restored cart is already theirs)
+            dispatch(activateUserCart(getCartOwnerKey(userSession)));
+            // Orders placed as a guest in this session become the user's, like the guest cart
+            claimGuestOrders(getCartOwnerKey(userSession));
 
-                // Update the global user state via context with the retrieved session data
-                setUser(userSession);
+            // --- Redirection Logic (based on stored session) ---
+            // Check if the restored user is 'admin' (case-insensitive)
+            if (isAdminUser(userSession)) {
+                // Navigate admin users to the Add Product page
+                navigate('/add-product'); 
                 // Debugging log
-                console.log("Login.tsx useEffect: setUser called with:", userSession);
-
-                // --- Redirection Logic (based on stored session) ---
-                // Check if the restored user is 'admin' (case-insensitive)
-                if (userSession.name.toLowerCase() === 'admin') {
-                    // Navigate admin users to the Add Product page
-                    navigate('/add-product'); 
-                    // Debugging log
-                    console.log("Login.tsx useEffect: Navigating to /add-product (admin)");
-                } else {
-                    // Navigate regular users to the Home page
-                    navigate('/home'); 
-                    // Debugging log
-                    console.log("Login.tsx useEffect: Navigating to /home (non-admin)");
-                }
-            } catch (error) {
-                // Handle errors during JSON parsing (e.g., corrupted data in localStorage)
-                console.error("Login.tsx useEffect: Error parsing stored user session:", error);
-                // Remove the potentially corrupted item from localStorage
-                localStorage.removeItem('userSession'); 
+                console.log("Login.tsx useEffect: Navigating to /add-product (admin)");
+            } else {
+                // Navigate regular users to the Home page
+                navigate('/home'); 
+                // Debugging log
+                console.log("Login.tsx useEffect: Navigating to /home (non-admin)");
             }
         } else {
             // Debugging log
@@ -77,7 +72,7 @@ function Login() {
         }
         // Dependency array: 'navigate' is included as per React hook rules. 'setUser' is often
         // stable from context and usually omitted, making this effect run only once on mount.
-    }, [navigate]); // Dependency array ensures this effect runs primarily on mount
+    }, [navigate, dispatch]); // Dependency array ensures this effect runs primarily on mount
 
     // --- Event Handlers ---
 
@@ -97,7 +92,7 @@ function Login() {
 
         // Create the user data object based on the entered username.
         // Assumes successful login and sets isLoggedIn to true. Matches 'User'/'UserState' type.
-        const userData = { name: username, isLoggedIn: true };
+        const userData: User = { name: username, isLoggedIn: true };
         // Debugging log
         console.log("Login.tsx handleLogin: Creating userData:", userData);
 
@@ -106,6 +101,11 @@ function Login() {
         // Debugging log
         console.log("Login.tsx handleLogin: setUser called with:", userData);
         
+        // Merge any guest cart into this user's saved cart and make it the active cart
+        dispatch(activateUserCart(getCartOwnerKey(userData)));
+        // Orders placed as a guest in this session become the user's, like the guest cart
+        claimGuestOrders(getCartOwnerKey(userData));
+
         // Persist the user session data in localStorage for subsequent visits/reloads.
         localStorage.setItem('userSession', JSON.stringify(userData)); 
         // Debugging log
@@ -113,7 +113,7 @@ function Login() {
 
         // --- Redirection Logic (based on current login) ---
         // Redirect user based on username after successful "login".
-        if (userData.name.toLowerCase() === 'admin') {
+        if (isAdminUser(userData)) {
             // Navigate admin users to the Add Product page
             navigate('/add-product'); 
              // Debugging log
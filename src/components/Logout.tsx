@@ -1,6 +1,8 @@
 import React, { useContext, useEffect } from 'react';
 import UserContext from '../context/UserContext';
 import { useNavigate } from 'react-router-dom';
+import { useAppDispatch } from '../store';
+import { switchToGuestCart } from '../features/cart/cartSession';
 
 /**
  * Logout Component
@@ -13,6 +15,8 @@ function Logout() {
     const { setUser } = useContext(UserContext);
     // Get the navigate function from React Router to redirect the user
     const navigate = useNavigate();
+    // Typed Redux dispatch, used to put the user's cart away
+    const dispatch = useAppDispatch();
 
     // useEffect hook performs the logout actions when the component mounts.
     useEffect(() => {
@@ -26,13 +30,17 @@ function Logout() {
         // This updates the application's UI to reflect the logged-out status immediately.
         setUser({ name: '', isLoggedIn: false });
 
-        // 3. Navigate the user back to the login page (root route '/').
+        // 3. Save the user's cart for their next login and switch to an empty guest cart,
+        // so the next person using this browser does not inherit it.
+        dispatch(switchToGuestCart());
+
+        // 4. Navigate the user back to the login page (root route '/').
         navigate('/');
 
-        // Dependencies: The effect depends on 'navigate' and 'setUser'. While these
+        // Dependencies: The effect depends on 'navigate', 'setUser' and 'dispatch'. While these
         // typically have stable references, they are included as per React hook dependency rules.
         // The primary purpose is to run these logout actions once on component mount/render.
-    }, [navigate, setUser]);
+    }, [navigate, setUser, dispatch]);
 
     // --- Component Rendering (JSX) ---
     // This component renders minimal UI, often just a loading/status message,
@@ -0,0 +1,50 @@
+import React, { useContext } from 'react';
+import { Alert, Container } from 'react-bootstrap';
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import UserContext from '../context/UserContext';
+import { findOrderInLocalStorage } from '../utils/localStorageHelpers';
+import { getOrderOwnerKey } from '../utils/userSession';
+import { useCurrency } from '../hooks/useCurrency';
+import { BASE_CURRENCY } from '../data/currencies';
+import { formatMaskedCard } from '../features/payments/cards';
+
+/**
+ * OrderConfirmation Component
+ * Shown at /checkout/confirmation/:orderId after an order was placed.
+ * Looks the order up in the order history so the page also works after a refresh.
+ */
+function OrderConfirmation() {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+    const { orderId } = useParams<{ orderId: string }>();
+    const { user } = useContext(UserContext);
+    const order = orderId ? findOrderInLocalStorage(getOrderOwnerKey(user), orderId) : undefined;
+
+    if (!order) {
+        return (
+            <Container className="mt-5">
+                <Alert variant="warning">
+                    {t('orderNotFound', { orderId })} <Link to="/order-history">{t('orderHistoryTitle')}</Link>
+                </Alert>
+            </Container>
+        );
+    }
+
+    return (
+        <Container className="mt-5">
+            <Alert variant="success">
+                <Alert.Heading>{t('orderConfirmedTitle')}</Alert.Heading>
+                <p>{t('orderConfirmedMessage', { orderId: order.orderId })}</p>
+                {/* Same amount and currency as shown at checkout */}
+                <p className="mb-0">{t('grandTotal')}: {formatPrice(order.totalPrice, order.currency ?? { code: BASE_CURRENCY, rate: 1 })}</p>
+                {order.payment && <p className="mb-0">{t('paidWith', { card: formatMaskedCard(order.payment.card) })}</p>}
+            </Alert>
+            <p>
+                <Link to="/order-history">{t('orderHistoryTitle')}</Link> · <Link to="/home">{t('continueShopping')}</Link>
+            </p>
+        </Container>
+    );
+}
+
+export default OrderConfirmation;
@@ -0,0 +1,217 @@
+import React, { useContext, useReducer, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Alert, Badge, Button, Col, Container, Image, Row, Table } from 'react-bootstrap';
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useAppDispatch } from '../store';
+import { fetchProducts } from '../features/products/productsSlice';
+import { Product } from '../types/Product';
+import UserContext from '../context/UserContext';
+import { findOrderInLocalStorage } from '../utils/localStorageHelpers';
+import { getOrderOwnerKey } from '../utils/userSession';
+import { getOrderCharges, resolveOrderLines } from '../features/orders/orderDetails';
+import { ORDER_STATUS_LABELS, ORDER_STATUS_VARIANTS, getOrderStatus } from '../features/orders/orderStatus';
+import { advanceSimulatedFulfillment } from '../features/orders/simulatedFulfillment';
+import { formatMaskedCard } from '../features/payments/cards';
+import { PAYMENT_STATUS_LABELS } from '../features/payments/paymentTypes';
+import { SHIPPING_METHODS } from '../data/shipping';
+import { TAX_REGIONS } from '../data/taxRegions';
+import { BASE_CURRENCY } from '../data/currencies';
+import { useCurrency } from '../hooks/useCurrency';
+import { usePromotionDescription } from '../hooks/usePromotionDescription';
+import { useReorder } from '../hooks/useReorder';
+import OrderStatusTimeline from './OrderStatusTimeline';
+import PostalAddress from './PostalAddress';
+import ReorderSummary from './ReorderSummary';
+import ReturnRequestForm from './ReturnRequestForm';
+import OrderReturns from './OrderReturns';
+import { Order } from '../types/Order';
+import { getReturnDeadline, getReturnIneligibility } from '../features/returns/returns';
+
+/**
+ * OrderDetail Component
+ * Shown at /order-history/:orderId: everything about one order. Lines are matched with the
+ * catalog for their current title and image; products that have left the catalog (or a
+ * catalog that can't be loaded) fall back to what was recorded with the order.
+ * Amounts are shown in the currency and rate used at checkout.
+ */
+function OrderDetail() {
+    const { t } = useTranslation();
+    const dispatch = useAppDispatch();
+    const { formatPrice } = useCurrency();
+    // Translates the recorded discount lines, amounts in the order's currency
+    const describePromotion = usePromotionDescription();
+    const { orderId } = useParams<{ orderId: string }>();
+    // The order is read from storage on every render; bumped after a return changes it
+    const [, refresh] = useReducer((count: number) => count + 1, 0);
+    const queryClient = useQueryClient();
+    // Order the return dialog is open for, if any
+    const [returnOrder, setReturnOrder] = useState<Order | null>(null);
+    // Only the logged-in user's own orders can be opened
+    const { user } = useContext(UserContext);
+    const storedOrder = orderId ? findOrderInLocalStorage(getOrderOwnerKey(user), orderId) : undefined;
+    const { buyAgain, pendingOrderId, outcome: reorderOutcome, dismissOutcome } = useReorder();
+
+    // Same query as ProductCatalog, so an already loaded catalog is reused
+    const { data: products, isError: catalogUnavailable } = useQuery<Product[]>({
+        queryKey: ['products'],
+        queryFn: () => dispatch(fetchProducts()).unwrap(),
+        enabled: storedOrder !== undefined,
+    });
+
+    /**
+     * Shows the saved order after a return was requested or moved on, and refreshes the history.
+     */
+    const handleReturnChanged = () => {
+        refresh();
+        queryClient.invalidateQueries({ queryKey: ['orderHistory'] });
+    };
+
+    if (!storedOrder) {
+        return (
+            <Container className="mt-5">
+                <Alert variant="warning">
+                    {t('orderNotFound', { orderId })} <Link to="/order-history">{t('orderHistoryTitle')}</Link>
+                </Alert>
+            </Container>
+        );
+    }
+
+    // Show the status as of now, even if the order history hasn't been opened since
+    const order = advanceSimulatedFulfillment(storedOrder);
+    const status = getOrderStatus(order);
+    const lines = resolveOrderLines(order, products ?? []);
+    const charges = getOrderCharges(order);
+    const currency = order.currency ?? { code: BASE_CURRENCY, rate: 1 };
+    const shippingMethod = SHIPPING_METHODS.find(method => method.id === order.shipping?.method);
+    const taxRegion = TAX_REGIONS.find(region => region.code === order.tax?.region);
+    const canReturn = getReturnIneligibility(order) === null;
+
+    return (
+        <Container className="mt-5">
+            <p><Link to="/order-history">← {t('orderHistoryTitle')}</Link></p>
+            <h2>
+                {t('orderDetailTitle', { orderId: order.orderId })}{' '}
+                <Badge bg={ORDER_STATUS_VARIANTS[status]}>{t(ORDER_STATUS_LABELS[status])}</Badge>
+            </h2>
+            <div className="d-flex align-items-center gap-3 mb-3">
+                <span className="text-muted">{t('orderPlacedOn', { date: new Date(order.dateCreated).toLocaleString() })}</span>
+                <Button variant="outline-primary" size="sm" disabled={pendingOrderId !== null} onClick={() => buyAgain(order)}>
+                    {t('buyAgain')}
+                </Button>
+                <Link to={`/order-history/${order.orderId}/invoice`} className="btn btn-outline-secondary btn-sm">{t('invoice')}</Link>
+                {canReturn && (
+                    <>
+                        <Button variant="outline-secondary" size="sm" onClick={() => setReturnOrder(order)}>{t('returnItems')}</Button>
+                        <span className="small text-muted">{t('returnWindowUntil', { date: getReturnDeadline(order).toLocaleDateString() })}</span>
+                    </>
+                )}
+            </div>
+
+            <ReorderSummary outcome={reorderOutcome} onClose={dismissOutcome} />
+
+            {catalogUnavailable && <Alert variant="warning">{t('orderCatalogUnavailable')}</Alert>}
+
+            {/* --- Lines --- */}
+            <Table responsive className="align-middle">
+                <thead>
+                    <tr>
+                        <th colSpan={2}>{t('product')}</th>
+                        <th>{t('unitPrice')}</th>
+                        <th>{t('quantity')}</th>
+                        <th>{t('total')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {lines.map((line, index) => (
+                        <tr key={`${line.productId}-${index}`}>
+                            <td style={{ width: '64px' }}>
+                                {line.image && <Image src={line.image} alt={line.title ?? ''} style={{ width: '48px', height: '48px', objectFit: 'contain' }} />}
+                            </td>
+                            <td>
+                                {line.title ?? t('productNumber', { id: line.productId })}
+                                {/* Still shown, but can't be opened or bought again from the catalog */}
+                                {!line.inCatalog && products && <div className="small text-muted">{t('productNoLongerAvailable')}</div>}
+                                {line.gift && <div className="small text-muted">{line.gift.wrap ? t('giftWrapped') : t('gift')}{line.gift.message && <> · “{line.gift.message}”</>}</div>}
+                                {line.note && <div className="small text-muted">{t('packingNote')}: {line.note}</div>}
+                            </td>
+                            <td>
+                                {line.listPrice !== null && <del className="text-muted me-1">{formatPrice(line.listPrice, currency)}</del>}
+                                {formatPrice(line.unitPrice, currency)}
+                            </td>
+                            <td>{line.quantity}</td>
+                            <td>{formatPrice(line.lineTotal, currency)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </Table>
+
+            <Row>
+                {/* --- Price Breakdown --- */}
+                <Col md={6} className="mb-4">
+                    <Table size="sm" borderless>
+                        <tbody>
+                            <tr>
+                                <td>{t('subtotal')}</td>
+                                <td className="text-end">{formatPrice(charges.subtotal, currency)}</td>
+                            </tr>
+                            {charges.discounts.map((discount, index) => (
+                                <tr key={`discount-${index}`}>
+                                    <td>{describePromotion(discount.description, currency)} ({discount.code})</td>
+                                    <td className="text-end text-success">−{formatPrice(discount.amount, currency)}</td>
+                                </tr>
+                            ))}
+                            {charges.giftWrap > 0 && (
+                                <tr>
+                                    <td>{t('giftWrap')}</td>
+                                    <td className="text-end">{formatPrice(charges.giftWrap, currency)}</td>
+                                </tr>
+                            )}
+                            <tr>
+                                <td>{t('shipping')}{shippingMethod && <> ({t(shippingMethod.label)})</>}</td>
+                                <td className="text-end">{formatPrice(charges.shipping, currency)}</td>
+                            </tr>
+                            <tr>
+                                <td>{t('tax')}{taxRegion && <> ({taxRegion.name})</>}</td>
+                                <td className="text-end">{formatPrice(charges.tax, currency)}</td>
+                            </tr>
+                            <tr className="border-top">
+                                <td><strong>{t('grandTotal')}</strong></td>
+                                <td className="text-end"><strong>{formatPrice(charges.total, currency)}</strong></td>
+                            </tr>
+                            {order.payment?.refundedAmount !== undefined && (
+                                <tr>
+                                    <td>{t('refunded')}</td>
+                                    <td className="text-end">−{formatPrice(order.payment.refundedAmount, currency)}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </Table>
+                </Col>
+
+                {/* --- Address, Payment and Status --- */}
+                <Col md={6} className="mb-4">
+                    {order.shippingAddress && (
+                        <>
+                            <h5>{t('shippingAddress')}</h5>
+                            <PostalAddress address={order.shippingAddress} />
+                        </>
+                    )}
+                    {order.payment && (
+                        <>
+                            <h5>{t('payment')}</h5>
+                            <p>{formatMaskedCard(order.payment.card)} · {t(PAYMENT_STATUS_LABELS[order.payment.status])}</p>
+                        </>
+                    )}
+                    <h5>{t('orderStatus')}</h5>
+                    <OrderStatusTimeline order={order} />
+                </Col>
+            </Row>
+
+            <OrderReturns order={order} />
+            <ReturnRequestForm order={returnOrder} onHide={() => setReturnOrder(null)} onRequested={handleReturnChanged} />
+        </Container>
+    );
+}
+
+export default OrderDetail;
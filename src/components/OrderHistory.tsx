@@ -1,43 +1,116 @@
-import React from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { Container, Table, Spinner, Alert } from 'react-bootstrap';
-import { Link } from 'react-router-dom';
+import React, { useContext, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Container, Table, Spinner, Alert, Button, Badge, Pagination } from 'react-bootstrap';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Order } from '../types/Order';
+import { useCurrency } from '../hooks/useCurrency';
+import { BASE_CURRENCY } from '../data/currencies';
+import GiftReceipt from './GiftReceipt';
+import { formatMaskedCard } from '../features/payments/cards';
+import { PAYMENT_FAILURE_MESSAGES, PAYMENT_STATUS_LABELS } from '../features/payments/paymentTypes';
+import { ORDER_STATUS_LABELS, ORDER_STATUS_VARIANTS, canCancelOrder, getOrderStatus } from '../features/orders/orderStatus';
+import { advanceSimulatedFulfillment } from '../features/orders/simulatedFulfillment';
+import { CancelOrderResult, cancelOrder } from '../features/orders/cancelOrder';
+import { claimUnownedOrders, countUnclaimedOrders, getOrdersFromLocalStorage, getQuarantinedOrders, saveOrdersToLocalStorage } from '../utils/localStorageHelpers';
+import UserContext from '../context/UserContext';
+import { getOrderOwnerKey } from '../utils/userSession';
+import OrderStatusTimeline from './OrderStatusTimeline';
+import ReorderSummary from './ReorderSummary';
+import { useReorder } from '../hooks/useReorder';
+import { useAppDispatch } from '../store';
+import { fetchProducts } from '../features/products/productsSlice';
+import { Product } from '../types/Product';
+import {
+    ORDER_HISTORY_PAGE_SIZE,
+    OrderHistoryQuery,
+    OrderSortKey,
+    parseOrderHistoryQuery,
+    queryOrderHistory,
+    toOrderHistorySearchParams,
+} from '../features/orders/orderHistoryQuery';
+import OrderHistoryFilters, { OrderHistoryFilterValues } from './OrderHistoryFilters';
+import OrderHistoryTransfer, { OrderImportOutcome } from './OrderHistoryTransfer';
+import ReturnRequestForm from './ReturnRequestForm';
+import { getReturnIneligibility } from '../features/returns/returns';
 
 // --- Type Definitions ---
 
 // Define the structure for a single item within an order
-interface ProductItem {
-    productId: string;
-    quantity: number;
-    price: number;
-}
+type ProductItem = Order['items'][number];
+
+/**
+ * Picks the message shown when an order could not be cancelled.
+ * @param reason - Why the cancellation failed.
+ * @returns {string} Translation key of the message.
+ */
+const getCancelErrorMessage = (reason: Extract<CancelOrderResult, { ok: false }>['reason']): string => {
+    if (reason === 'orderNotFound' || reason === 'invalidTransition') return 'orderCannotBeCancelled';
+    return PAYMENT_FAILURE_MESSAGES[reason];
+};
+
+// Sortable columns, in display order, with their translation keys
+const SORTABLE_COLUMNS: Array<{ key: OrderSortKey; label: string }> = [
+    { key: 'orderId', label: 'orderId' },
+    { key: 'date', label: 'date' },
+    { key: 'items', label: 'totalItems' },
+    { key: 'total', label: 'totalPrice' },
+    { key: 'status', label: 'orderStatus' },
+];
+
+/**
+ * Lists the page numbers to offer around the current page.
+ * @param page - The current page.
+ * @param pageCount - The number of pages.
+ * @returns {number[]} Up to five consecutive page numbers including the current one.
+ */
+const getVisiblePages = (page: number, pageCount: number): number[] => {
+    const first = Math.max(1, Math.min(page - 2, pageCount - 4));
+    const last = Math.min(pageCount, first + 4);
+    return Array.from({ length: last - first + 1 }, (_, index) => first + index);
+};
 
 /**
  * OrderHistory Component
- * Fetches and displays a list of past orders for the user.
+ * Fetches and displays a list of past orders for the user. Only the logged-in user's own orders
+ * are shown (guests see the orders placed as a guest in this browser).
  * Retrieves order data from localStorage (simulating an async fetch using React Query).
  * Handles loading, error, and empty states.
  */
 function OrderHistory() {
     // Get the translation function 't' from react-i18next
     const { t } = useTranslation();
+    // Price formatter; orders are shown in the currency recorded at checkout
+    const { formatPrice } = useCurrency();
+    // Order whose gift receipt is open, if any
+    const [giftReceiptOrder, setGiftReceiptOrder] = useState<Order | null>(null);
+    // Order the return dialog is open for, if any
+    const [returnOrder, setReturnOrder] = useState<Order | null>(null);
+    const navigate = useNavigate();
+    // Order whose status timeline is expanded, if any
+    const [timelineOrderId, setTimelineOrderId] = useState<string | null>(null);
+    // Translation key of the message shown when a cancellation failed
+    const [cancelError, setCancelError] = useState<string | null>(null);
+    // Report of the last import, if any
+    const [importOutcome, setImportOutcome] = useState<OrderImportOutcome | null>(null);
+    // Whether the notice about stored orders that couldn't be read was closed
+    const [quarantineNoticeClosed, setQuarantineNoticeClosed] = useState(false);
+    // Used to refetch the history once an order is cancelled
+    const queryClient = useQueryClient();
+    // "Buy again": adds an order's products to the cart at current prices
+    const { buyAgain, pendingOrderId, outcome: reorderOutcome, dismissOutcome } = useReorder();
+    const dispatch = useAppDispatch();
+    // Search, filters, sorting and page all live in the URL query string
+    const [searchParams, setSearchParams] = useSearchParams();
+    const query = parseOrderHistoryQuery(searchParams);
+    // Orders are stored per user, under the same owner key as their cart (per session for guests)
+    const { user } = useContext(UserContext);
+    const owner = getOrderOwnerKey(user);
+    // Orders from before orders had owners that nobody has claimed; offered to logged-in users only
+    const [unclaimedCount, setUnclaimedCount] = useState(() => user.isLoggedIn ? countUnclaimedOrders() : 0);
 
     // --- Data Fetching Functions ---
 
-    /**
-     * Retrieves order history data directly from the browser's localStorage.
-     * Parses the stored JSON string into an array or returns an empty array if not found.
-     * @returns {Order[]} An array of Order objects or an empty array.
-     */
-    const getOrdersFromLocalStorage = (): Order[] => {
-        const orders = localStorage.getItem('orderHistory');
-        // Use try-catch for robust parsing, although omitted here for brevity
-        // Consider adding error handling for JSON.parse if data might be corrupted
-        return orders ? JSON.parse(orders) : [];
-    };
-    
     /**
      * Asynchronous function designed to be used as the 'queryFn' for React Query.
      * Simulates a network delay and then fetches order history from localStorage.
@@ -46,8 +119,14 @@ function OrderHistory() {
     const fetchOrderHistory = async (): Promise<Order[]> => {
         // Simulate network latency (e.g., 200ms delay)
         await new Promise(resolve => setTimeout(resolve, 200));
-        const orders = getOrdersFromLocalStorage();
-        return orders;
+        const orders = getOrdersFromLocalStorage(owner);
+        // Let the simulated warehouse catch up with paid orders, and keep the result
+        const now = new Date();
+        const currentOrders = orders.map(order => advanceSimulatedFulfillment(order, now));
+        if (currentOrders.some((order, index) => order !== orders[index])) {
+            saveOrdersToLocalStorage(owner, currentOrders);
+        }
+        return currentOrders;
     };
 
 
@@ -61,13 +140,87 @@ function OrderHistory() {
         error,              // Stores the error object if status is 'error'
         isFetching          // Boolean, true if the query is currently fetching (initial or background)
     } = useQuery<Order[]>({
-        queryKey: ['orderHistory'], // Unique key to identify this query data in the cache
+        queryKey: ['orderHistory', owner], // Unique key to identify this query data in the cache; one entry per user
         queryFn: fetchOrderHistory, // The function that performs the data fetching
         // Provides initial data (empty array). This means 'status' will likely start as 'success'.
         // 'isFetching' will be true during the initial simulated fetch.
         initialData: [], 
     });
 
+    // Cancels an order (refunding its payment) and reloads the history when it worked
+    const cancelMutation = useMutation({
+        mutationFn: (orderId: string) => cancelOrder(owner, orderId),
+        onSuccess: (result) => {
+            if (!result.ok) {
+                setCancelError(getCancelErrorMessage(result.reason));
+                return;
+            }
+            queryClient.invalidateQueries({ queryKey: ['orderHistory'] });
+        },
+    });
+
+    /**
+     * Cancels an order after the customer confirms.
+     * @param orderId - The order to cancel.
+     */
+    const handleCancelOrder = (orderId: string) => {
+        if (!window.confirm(t('confirmCancelOrder', { orderId }))) return;
+        setCancelError(null);
+        cancelMutation.mutate(orderId);
+    };
+
+    // Catalog titles let the search find products in orders that didn't record their titles.
+    // Same query as ProductCatalog; if it fails, only recorded titles are searched.
+    const { data: products } = useQuery<Product[]>({
+        queryKey: ['products'],
+        queryFn: () => dispatch(fetchProducts()).unwrap(),
+    });
+    const productTitles = new Map((products ?? []).map(product => [product.id, product.title]));
+
+    /**
+     * Changes the query in the URL. Each change is a history entry, so Back undoes it.
+     * @param changes - The parts of the query to change.
+     */
+    const updateQuery = (changes: Partial<OrderHistoryQuery>) => {
+        setSearchParams(toOrderHistorySearchParams({ ...query, ...changes }));
+    };
+
+    /**
+     * Applies new filters and goes back to the first page.
+     * @param filters - The filters from the filter form.
+     */
+    const handleApplyFilters = (filters: OrderHistoryFilterValues) => {
+        updateQuery({ ...filters, page: 1 });
+    };
+
+    /**
+     * Sorts on a column: ascending first, descending when it is clicked again.
+     * @param key - The column.
+     */
+    const handleSort = (key: OrderSortKey) => {
+        const direction = query.sort === key && query.direction === 'asc' ? 'desc' : 'asc';
+        updateQuery({ sort: key, direction, page: 1 });
+    };
+
+    /**
+     * Shows what an import did, and reloads the history if it added orders.
+     * @param outcome - The import's outcome.
+     */
+    const handleImported = (outcome: OrderImportOutcome) => {
+        setImportOutcome(outcome);
+        if (outcome.ok && outcome.importedCount > 0) queryClient.invalidateQueries({ queryKey: ['orderHistory'] });
+    };
+
+    /**
+     * Adds the orders from before orders had owners to the user's history, once they confirm
+     * they are theirs.
+     */
+    const handleClaimOrders = () => {
+        claimUnownedOrders(owner);
+        setUnclaimedCount(0);
+        queryClient.invalidateQueries({ queryKey: ['orderHistory'] });
+    };
+
     // --- Conditional Rendering based on Query State ---
 
     // Display a loading spinner if the query is currently fetching data.
@@ -99,24 +252,42 @@ function OrderHistory() {
         );
     }
 
+    // Stored orders that couldn't be read are set aside on load (see localStorageHelpers) rather than shown
+    const quarantinedCount = getQuarantinedOrders().length;
+    const quarantineNotice = quarantinedCount > 0 && !quarantineNoticeClosed && (
+        <Alert variant="warning" onClose={() => setQuarantineNoticeClosed(true)} dismissible>
+            {t('ordersQuarantined', { number: quarantinedCount })}
+        </Alert>
+    );
+
+    // Nothing records who placed the oldest orders, so the user is asked rather than given them
+    const unclaimedNotice = unclaimedCount > 0 && (
+        <Alert variant="info">
+            {t('unclaimedOrders', { number: unclaimedCount })}{' '}
+            <Button variant="outline-primary" size="sm" onClick={handleClaimOrders}>{t('claimOrders')}</Button>
+        </Alert>
+    );
+
     // Display a message if the fetch was successful but no orders were found.
     // Checks if orderHistory is falsy (shouldn't happen with initialData=[]) or if the array is empty.
     if (!orderHistory || orderHistory.length === 0) {
         return (
             <Container className="mt-5">
+                {quarantineNotice}
+                {unclaimedNotice}
                 <Alert variant="info" role="alert"> 
                     <Alert.Heading>{t('noOrderHistory')}</Alert.Heading>
                     <p>{t('noOrdersFound')}</p>
                 </Alert>
+                {/* An empty history can still be restored from an export */}
+                <OrderHistoryTransfer owner={owner} orders={[]} outcome={importOutcome} onImported={handleImported} onDismiss={() => setImportOutcome(null)} />
             </Container>
         );
     }
 
-    // Sanitize the orderHistory data to ensure totalPrice is always a number
-    const sanitizedOrderHistory = orderHistory.map(order => ({
-        ...order,
-        totalPrice: typeof order.totalPrice === 'number' ? order.totalPrice : parseFloat(order.totalPrice) || 0,
-    }));
+    // The page of orders matching the search and filters, sorted as requested
+    const { orders: visibleOrders, matchCount, page, pageCount } = queryOrderHistory(orderHistory, query, productTitles);
+    const firstShown = (page - 1) * ORDER_HISTORY_PAGE_SIZE + 1;
 
     // --- Render Order History Table (Success State) ---
     // This section renders only if data fetching was successful and there are orders to display.
@@ -124,25 +295,58 @@ function OrderHistory() {
         <Container className="mt-5">
             {/* Page Title */}
             <h2>{t('orderHistoryTitle')}</h2>
+            {quarantineNotice}
+            {unclaimedNotice}
+            {cancelError && <Alert variant="danger" onClose={() => setCancelError(null)} dismissible>{t(cancelError)}</Alert>}
+            <ReorderSummary outcome={reorderOutcome} onClose={dismissOutcome} />
+            <OrderHistoryTransfer owner={owner} orders={orderHistory} outcome={importOutcome} onImported={handleImported} onDismiss={() => setImportOutcome(null)} />
+            {/* Keyed on the URL so the form shows the applied filters after Back, Forward or Reset */}
+            <OrderHistoryFilters
+                key={searchParams.toString()}
+                filters={query}
+                onApply={handleApplyFilters}
+                onReset={() => setSearchParams(new URLSearchParams())}
+            />
+            <p className="text-muted small" aria-live="polite">
+                {matchCount === 0
+                    ? t('noOrdersMatch')
+                    : t('showingOrders', { from: firstShown, to: firstShown + visibleOrders.length - 1, total: matchCount })}
+            </p>
             {/* Responsive table using React Bootstrap */}
             <Table striped bordered hover responsive>
-                {/* Table Headers */}
+                {/* Table Headers - each data column sorts on click; clicking the sorted column reverses it */}
                 <thead>
                     <tr>
-                        <th>{t('orderId')}</th>
-                        <th>{t('date')}</th>
-                        <th>{t('totalItems')}</th>
-                        <th>{t('totalPrice')}</th>
+                        {SORTABLE_COLUMNS.map(column => {
+                            const sorted = query.sort === column.key;
+                            return (
+                                <th key={column.key} aria-sort={sorted ? (query.direction === 'asc' ? 'ascending' : 'descending') : 'none'}>
+                                    <Button variant="link" className="p-0 fw-bold text-reset text-decoration-none" onClick={() => handleSort(column.key)}>
+                                        {t(column.label)}
+                                        {sorted && <span aria-hidden="true"> {query.direction === 'asc' ? '▲' : '▼'}</span>}
+                                    </Button>
+                                </th>
+                            );
+                        })}
+                        <th>{t('giftsAndNotes')}</th>
                     </tr>
                 </thead>
-                {/* Table Body - Iterate over the sanitizedOrderHistory array */}
+                {/* Table Body - the current page of matching orders */}
                 <tbody>
                     {/* Map each 'order' object (correctly typed as 'Order' due to useQuery<Order[]>) to a table row */}
-                    {sanitizedOrderHistory.map(order => ( 
+                    {visibleOrders.map(order => ( 
                         // Use a unique key for each row, essential for React list rendering
                         <tr key={order.orderId}> 
-                            {/* Display Order ID */}
-                            <td>{order.orderId}</td>
+                            {/* Order ID, linking to the order's detail page */}
+                            <td>
+                                <Link to={`/order-history/${order.orderId}`}>{order.orderId}</Link>
+                                <div className="d-flex flex-wrap gap-2">
+                                    <Button variant="link" size="sm" className="p-0" disabled={pendingOrderId !== null} onClick={() => buyAgain(order)}>
+                                        {t('buyAgain')}
+                                    </Button>
+                                    <Link to={`/order-history/${order.orderId}/invoice`} className="small">{t('invoice')}</Link>
+                                </div>
+                            </td>
                             {/* Display formatted date - assumes dateCreated is valid for Date constructor */}
                             <td>{new Date(order.dateCreated).toLocaleDateString()}</td>
                             {/* Calculate total items by summing quantities from the 'items' array */}
@@ -153,15 +357,103 @@ function OrderHistory() {
                                     0 // Initial value for the sum
                                 )}
                             </td>
-                            {/* Display total price, formatted as currency */}
+                            {/* Display total price (stored in cents) in the currency and rate used at checkout.
+                                Older orders without a recorded currency were placed in the base currency. */}
+                            <td>
+                                {formatPrice(order.totalPrice, order.currency ?? { code: BASE_CURRENCY, rate: 1 })}
+                                {/* Card used and where the payment stands (older orders have no payment record) */}
+                                {order.payment && (
+                                    <div className="small text-muted">
+                                        {formatMaskedCard(order.payment.card)} · {t(PAYMENT_STATUS_LABELS[order.payment.status])}
+                                    </div>
+                                )}
+                                {/* Cancellations and returns refund part or all of the payment */}
+                                {order.payment?.refundedAmount !== undefined && (
+                                    <div className="small text-muted">
+                                        {t('refunded')}: {formatPrice(order.payment.refundedAmount, order.currency ?? { code: BASE_CURRENCY, rate: 1 })}
+                                    </div>
+                                )}
+                            </td>
+                            {/* Where the order stands, its timeline on demand, and cancellation until it ships */}
+                            <td>
+                                <Badge bg={ORDER_STATUS_VARIANTS[getOrderStatus(order)]}>{t(ORDER_STATUS_LABELS[getOrderStatus(order)])}</Badge>
+                                <div className="d-flex flex-wrap gap-2">
+                                    <Button
+                                        variant="link"
+                                        size="sm"
+                                        className="p-0"
+                                        aria-expanded={timelineOrderId === order.orderId}
+                                        onClick={() => setTimelineOrderId(current => current === order.orderId ? null : order.orderId)}
+                                    >
+                                        {t(timelineOrderId === order.orderId ? 'hideOrderTimeline' : 'showOrderTimeline')}
+                                    </Button>
+                                    {canCancelOrder(order) && (
+                                        <Button
+                                            variant="link"
+                                            size="sm"
+                                            className="p-0 text-danger"
+                                            disabled={cancelMutation.isPending}
+                                            onClick={() => handleCancelOrder(order.orderId)}
+                                        >
+                                            {t('cancelOrder')}
+                                        </Button>
+                                    )}
+                                    {/* Delivered orders, within the return window, with units left to return */}
+                                    {getReturnIneligibility(order) === null && (
+                                        <Button variant="link" size="sm" className="p-0" onClick={() => setReturnOrder(order)}>
+                                            {t('returnItems')}
+                                        </Button>
+                                    )}
+                                    {order.returns?.length ? (
+                                        <Link to={`/order-history/${order.orderId}`} className="small">{t('viewReturns')}</Link>
+                                    ) : null}
+                                </div>
+                                {timelineOrderId === order.orderId && <OrderStatusTimeline order={order} />}
+                            </td>
+                            {/* Lines bought as gifts or with a packing note, and the gift receipt (without prices) */}
                             <td>
-                                ${order.totalPrice.toFixed(2)} {/* Use toFixed(2) for consistent decimal places */}
+                                {order.items.filter(item => item.gift || item.note).map(item => (
+                                    <div key={item.productId} className="small">
+                                        <strong>{item.title ?? t('productNumber', { id: item.productId })}</strong>
+                                        {item.gift && <> · {item.gift.wrap ? t('giftWrapped') : t('gift')}</>}
+                                        {item.gift?.message && <> · “{item.gift.message}”</>}
+                                        {item.note && <div className="text-muted">{t('packingNote')}: {item.note}</div>}
+                                    </div>
+                                ))}
+                                {order.items.some(item => item.gift) && (
+                                    <Button variant="link" size="sm" className="p-0" onClick={() => setGiftReceiptOrder(order)}>
+                                        {t('giftReceipt')}
+                                    </Button>
+                                )}
                             </td>
                         </tr>
                     ))}
                 </tbody>
             </Table>
 
+            {pageCount > 1 && (
+                <Pagination aria-label={t('orderHistoryPages')}>
+                    <Pagination.Prev disabled={page === 1} onClick={() => updateQuery({ page: page - 1 })} />
+                    {getVisiblePages(page, pageCount).map(number => (
+                        <Pagination.Item key={number} active={number === page} onClick={() => updateQuery({ page: number })}>
+                            {number}
+                        </Pagination.Item>
+                    ))}
+                    <Pagination.Next disabled={page === pageCount} onClick={() => updateQuery({ page: page + 1 })} />
+                </Pagination>
+            )}
+
+            <GiftReceipt order={giftReceiptOrder} onHide={() => setGiftReceiptOrder(null)} />
+            {/* The new request is shown, with its status, on the order's page */}
+            <ReturnRequestForm
+                order={returnOrder}
+                onHide={() => setReturnOrder(null)}
+                onRequested={order => {
+                    queryClient.invalidateQueries({ queryKey: ['orderHistory'] });
+                    navigate(`/order-history/${order.orderId}`);
+                }}
+            />
+
             {/* Link to navigate back to the home page */}
             <p className="mt-3">
                 <Link to="/home">{t('backToHome')}</Link>
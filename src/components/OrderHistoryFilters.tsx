@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Button, Col, Form, Row } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { OrderStatus } from '../types/Order';
+import { OrderHistoryQuery } from '../features/orders/orderHistoryQuery';
+import { ORDER_STATUSES, ORDER_STATUS_LABELS } from '../features/orders/orderStatus';
+
+// --- Type Definitions ---
+
+// The filters of the query (sorting and paging are changed from the table itself)
+export type OrderHistoryFilterValues = Pick<OrderHistoryQuery, 'search' | 'from' | 'to' | 'minTotal' | 'maxTotal' | 'status'>;
+
+interface OrderHistoryFiltersProps {
+    filters: OrderHistoryFilterValues; // The filters currently applied
+    onApply: (filters: OrderHistoryFilterValues) => void;
+    onReset: () => void;
+}
+
+/**
+ * Turns the text of an amount field into a filter value.
+ * @param value - The field's text.
+ * @returns {number | null} The amount, or null when empty or not a valid amount.
+ */
+const parseAmount = (value: string): number | null => {
+    const amount = Number(value);
+    return value.trim() && Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/**
+ * OrderHistoryFilters Component
+ * Search and filters above the order history. Edits are kept in the form until
+ * Apply is pressed, so the URL (and the list) only change once per search.
+ */
+function OrderHistoryFilters({ filters, onApply, onReset }: OrderHistoryFiltersProps) {
+    const { t } = useTranslation();
+    const [search, setSearch] = useState(filters.search);
+    const [from, setFrom] = useState(filters.from);
+    const [to, setTo] = useState(filters.to);
+    const [minTotal, setMinTotal] = useState(filters.minTotal?.toString() ?? '');
+    const [maxTotal, setMaxTotal] = useState(filters.maxTotal?.toString() ?? '');
+    const [status, setStatus] = useState<OrderStatus | ''>(filters.status ?? '');
+
+    /**
+     * Applies the filters as entered.
+     * @param e - The form submit event.
+     */
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        onApply({
+            search: search.trim(),
+            from,
+            to,
+            minTotal: parseAmount(minTotal),
+            maxTotal: parseAmount(maxTotal),
+            status: status || null,
+        });
+    };
+
+    return (
+        <Form onSubmit={handleSubmit} className="mb-3" role="search">
+            <Row className="g-2 align-items-end">
+                <Form.Group as={Col} xs={12} lg={3} controlId="orderSearch">
+                    <Form.Label>{t('orderSearch')}</Form.Label>
+                    <Form.Control
+                        type="search"
+                        placeholder={t('orderSearchPlaceholder')}
+                        value={search}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+                    />
+                </Form.Group>
+                <Form.Group as={Col} xs={6} lg={2} controlId="orderDateFrom">
+                    <Form.Label>{t('orderDateFrom')}</Form.Label>
+                    <Form.Control type="date" value={from} max={to || undefined} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFrom(e.target.value)} />
+                </Form.Group>
+                <Form.Group as={Col} xs={6} lg={2} controlId="orderDateTo">
+                    <Form.Label>{t('orderDateTo')}</Form.Label>
+                    <Form.Control type="date" value={to} min={from || undefined} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTo(e.target.value)} />
+                </Form.Group>
+                <Form.Group as={Col} xs={6} lg={1} controlId="orderMinTotal">
+                    <Form.Label>{t('orderMinTotal')}</Form.Label>
+                    <Form.Control type="number" min={0} step="any" value={minTotal} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMinTotal(e.target.value)} />
+                </Form.Group>
+                <Form.Group as={Col} xs={6} lg={1} controlId="orderMaxTotal">
+                    <Form.Label>{t('orderMaxTotal')}</Form.Label>
+                    <Form.Control type="number" min={0} step="any" value={maxTotal} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxTotal(e.target.value)} />
+                </Form.Group>
+                <Form.Group as={Col} xs={12} lg={2} controlId="orderStatusFilter">
+                    <Form.Label>{t('orderStatus')}</Form.Label>
+                    <Form.Select value={status} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStatus(e.target.value as OrderStatus | '')}>
+                        <option value="">{t('orderStatusAny')}</option>
+                        {ORDER_STATUSES.map(option => (
+                            <option key={option} value={option}>{t(ORDER_STATUS_LABELS[option])}</option>
+                        ))}
+                    </Form.Select>
+                </Form.Group>
+                <Col xs={12} lg={1} className="d-flex gap-2">
+                    <Button type="submit" variant="primary">{t('applyFilters')}</Button>
+                </Col>
+            </Row>
+            <Button variant="link" size="sm" className="px-0" onClick={onReset}>{t('resetFilters')}</Button>
+        </Form>
+    );
+}
+
+export default OrderHistoryFilters;
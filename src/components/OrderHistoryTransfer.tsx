@@ -0,0 +1,107 @@
+import React, { useRef } from 'react';
+import { Alert, Button, ButtonGroup, Form } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { Order } from '../types/Order';
+import { ordersToCsv, ordersToJson } from '../features/orders/orderExport';
+import { OrderImportError, SkippedOrderRecord, parseOrderImport } from '../features/orders/orderImport';
+import { getOrdersFromLocalStorage, saveOrdersToLocalStorage } from '../utils/localStorageHelpers';
+import { downloadFile, fileNameDate } from '../utils/download';
+
+// What the last import did
+export type OrderImportOutcome =
+    | { ok: true; importedCount: number; skipped: SkippedOrderRecord[] }
+    | { ok: false; reason: OrderImportError };
+
+interface OrderHistoryTransferProps {
+    owner: string; // Owner key of the logged-in user; imported orders become theirs
+    orders: Order[]; // Every order in the history (not just the filtered page)
+    // Held by the parent, because reloading the history after an import remounts this component
+    outcome: OrderImportOutcome | null;
+    onImported: (outcome: OrderImportOutcome) => void; // Reload the history if orders were added
+    onDismiss: () => void;
+}
+
+/**
+ * OrderHistoryTransfer Component
+ * Export of the whole history (CSV with one row per line for spreadsheets, or complete JSON),
+ * and import of a JSON export, with a report of the records that were skipped.
+ */
+function OrderHistoryTransfer({ owner, orders, outcome, onImported, onDismiss }: OrderHistoryTransferProps) {
+    const { t } = useTranslation();
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    /**
+     * Reads the chosen file and adds its new orders to the history.
+     * @param e - The change event of the file input.
+     */
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Lets the same file be chosen again
+        if (!file) return;
+
+        // Read the history again rather than trusting the list on screen, which may be stale
+        const existing = getOrdersFromLocalStorage(owner);
+        const result = parseOrderImport(await file.text(), existing, owner);
+        if (!result.ok) {
+            onImported(result);
+            return;
+        }
+        if (result.orders.length > 0) saveOrdersToLocalStorage(owner, [...existing, ...result.orders]);
+        onImported({ ok: true, importedCount: result.orders.length, skipped: result.skipped });
+    };
+
+    return (
+        <div className="mb-3">
+            <div className="d-flex flex-wrap align-items-center gap-2">
+                <ButtonGroup size="sm" aria-label={t('exportOrders')}>
+                    <Button
+                        variant="outline-secondary"
+                        disabled={orders.length === 0}
+                        onClick={() => downloadFile(ordersToCsv(orders), `orders-${fileNameDate()}.csv`, 'text/csv')}
+                    >
+                        {t('exportOrdersCsv')}
+                    </Button>
+                    <Button
+                        variant="outline-secondary"
+                        disabled={orders.length === 0}
+                        onClick={() => downloadFile(ordersToJson(orders), `orders-${fileNameDate()}.json`, 'application/json')}
+                    >
+                        {t('exportOrdersJson')}
+                    </Button>
+                </ButtonGroup>
+                <Button variant="outline-secondary" size="sm" onClick={() => fileInput.current?.click()}>
+                    {t('importOrders')}
+                </Button>
+                <Form.Control
+                    ref={fileInput}
+                    type="file"
+                    accept=".json,application/json"
+                    className="d-none"
+                    aria-label={t('importOrders')}
+                    onChange={handleImport}
+                />
+            </div>
+
+            {outcome && !outcome.ok && (
+                <Alert variant="danger" className="mt-2" dismissible onClose={onDismiss}>{t(outcome.reason)}</Alert>
+            )}
+            {outcome?.ok && (
+                <Alert variant={outcome.skipped.length > 0 ? 'warning' : 'success'} className="mt-2" dismissible onClose={onDismiss}>
+                    <p className="mb-1">{t('importedOrders', { imported: outcome.importedCount, skipped: outcome.skipped.length })}</p>
+                    {outcome.skipped.length > 0 && (
+                        <ul className="mb-0">
+                            {outcome.skipped.map(record => (
+                                <li key={record.index}>
+                                    {t('importRecord', { number: record.index + 1 })}
+                                    {record.orderId && <> ({record.orderId})</>}: {t(record.reason)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </Alert>
+            )}
+        </div>
+    );
+}
+
+export default OrderHistoryTransfer;
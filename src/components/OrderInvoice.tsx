@@ -0,0 +1,76 @@
+import React, { useContext, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Alert, Button, Container } from 'react-bootstrap';
+import { Link, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import UserContext from '../context/UserContext';
+import { useAppDispatch } from '../store';
+import { fetchProducts } from '../features/products/productsSlice';
+import { Product } from '../types/Product';
+import { findOrderInLocalStorage } from '../utils/localStorageHelpers';
+import { getOrderOwnerKey } from '../utils/userSession';
+import { buildInvoice, ensureInvoice } from '../features/invoices/invoice';
+import { renderStandaloneInvoice } from '../features/invoices/invoiceHtml';
+import { INVOICE_STYLES } from '../features/invoices/invoiceStyles';
+import { downloadFile } from '../utils/download';
+import InvoiceDocument from './InvoiceDocument';
+
+/**
+ * OrderInvoice Component
+ * Shown at /order-history/:orderId/invoice: the order's invoice, ready to print (the controls
+ * are left off the printout) or to download as a standalone HTML file.
+ * Orders placed before invoices were numbered get their number the first time this is opened.
+ */
+function OrderInvoice() {
+    const { t, i18n } = useTranslation();
+    const dispatch = useAppDispatch();
+    const { user } = useContext(UserContext);
+    const { orderId } = useParams<{ orderId: string }>();
+    // Issued once, on first render; later renders keep the same number
+    const [order] = useState(() => {
+        const stored = orderId ? findOrderInLocalStorage(getOrderOwnerKey(user), orderId) : undefined;
+        return stored && ensureInvoice(stored);
+    });
+
+    // Catalog titles for lines of older orders that didn't record one (same query as ProductCatalog)
+    const { data: products } = useQuery<Product[]>({
+        queryKey: ['products'],
+        queryFn: () => dispatch(fetchProducts()).unwrap(),
+        enabled: order !== undefined && order.items.some(item => !item.title),
+    });
+
+    if (!order) {
+        return (
+            <Container className="mt-5">
+                <Alert variant="warning">
+                    {t('orderNotFound', { orderId })} <Link to="/order-history">{t('orderHistoryTitle')}</Link>
+                </Alert>
+            </Container>
+        );
+    }
+
+    const productTitles = new Map((products ?? []).map(product => [product.id, product.title]));
+    const invoice = buildInvoice(order, user.name, productTitles);
+
+    /**
+     * Downloads the invoice as a standalone HTML file.
+     */
+    const handleDownload = () => {
+        const html = renderStandaloneInvoice(invoice, `${t('invoice')} ${invoice.number}`, i18n?.language ?? 'en');
+        downloadFile(html, `${invoice.number}.html`, 'text/html');
+    };
+
+    return (
+        <Container className="mt-5">
+            <style>{INVOICE_STYLES}</style>
+            <div className="d-print-none d-flex flex-wrap align-items-center gap-2 mb-3">
+                <Link to={`/order-history/${order.orderId}`} className="me-auto">← {t('orderDetailTitle', { orderId: order.orderId })}</Link>
+                <Button variant="primary" onClick={() => window.print()}>{t('print')}</Button>
+                <Button variant="outline-primary" onClick={handleDownload}>{t('downloadInvoice')}</Button>
+            </div>
+            <InvoiceDocument invoice={invoice} />
+        </Container>
+    );
+}
+
+export default OrderInvoice;
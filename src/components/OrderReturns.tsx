@@ -0,0 +1,68 @@
+import React from 'react';
+import { Badge, Card } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { Order, OrderReturn, ReturnStatus } from '../types/Order';
+import { BASE_CURRENCY } from '../data/currencies';
+import { useCurrency } from '../hooks/useCurrency';
+import { RETURN_REASON_LABELS, RETURN_STATUS_LABELS } from '../features/returns/returns';
+
+interface OrderReturnsProps {
+    order: Order;
+    actions?: (rma: OrderReturn) => React.ReactNode; // Controls shown under each request (the store's, on the returns desk)
+}
+
+// Bootstrap colours of the status badges
+const RETURN_STATUS_VARIANTS: Record<ReturnStatus, string> = {
+    requested: 'secondary',
+    approved: 'info',
+    received: 'primary',
+    refunded: 'success',
+};
+
+/**
+ * OrderReturns Component
+ * The return requests (RMAs) of an order with their status history. Customers only see where
+ * their requests stand; the store moves them on from the returns desk (see ReturnsDesk).
+ */
+function OrderReturns({ order, actions }: OrderReturnsProps) {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+    const currency = order.currency ?? { code: BASE_CURRENCY, rate: 1 };
+
+    if (!order.returns?.length) return null;
+
+    return (
+        <section className="mb-4">
+            <h5>{t('returns')}</h5>
+            {order.returns.map(rma => (
+                <Card key={rma.rmaNumber} className="mb-2">
+                    <Card.Body>
+                        <div className="d-flex flex-wrap align-items-center gap-2 mb-2">
+                            <strong>{rma.rmaNumber}</strong>
+                            <Badge bg={RETURN_STATUS_VARIANTS[rma.status]}>{t(RETURN_STATUS_LABELS[rma.status])}</Badge>
+                            <span className="text-muted">{t(RETURN_REASON_LABELS[rma.reason])}</span>
+                            <span className="ms-auto">{t('returnRefundAmount')}: {formatPrice(rma.refundAmount, currency)}</span>
+                        </div>
+                        <ul className="mb-2">
+                            {rma.lines.map(line => {
+                                const item = order.items[line.lineIndex];
+                                return (
+                                    <li key={line.lineIndex}>
+                                        {item?.title ?? t('productNumber', { id: item?.productId })} × {line.quantity}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                        {rma.comment && <p className="small text-muted mb-2">“{rma.comment}”</p>}
+                        <p className="small text-muted mb-2">
+                            {rma.statusHistory.map(change => `${t(RETURN_STATUS_LABELS[change.status])} ${new Date(change.at).toLocaleString()}`).join(' → ')}
+                        </p>
+                        {actions?.(rma)}
+                    </Card.Body>
+                </Card>
+            ))}
+        </section>
+    );
+}
+
+export default OrderReturns;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ListGroup } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { Order } from '../types/Order';
+import { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS, getOrderStatus, getOrderStatusHistory } from '../features/orders/orderStatus';
+
+interface OrderStatusTimelineProps {
+    order: Order;
+}
+
+/**
+ * OrderStatusTimeline Component
+ * Every status the order went through, with its date and time, followed (in grey) by the
+ * steps still ahead of it. Cancelled and refunded orders have no steps ahead.
+ */
+function OrderStatusTimeline({ order }: OrderStatusTimelineProps) {
+    const { t } = useTranslation();
+    const history = getOrderStatusHistory(order);
+    const status = getOrderStatus(order);
+    const currentIndex = ORDER_STATUS_FLOW.indexOf(status);
+    // -1 for cancelled and refunded, which end the order
+    const upcoming = currentIndex === -1 ? [] : ORDER_STATUS_FLOW.slice(currentIndex + 1);
+
+    return (
+        <ListGroup variant="flush" className="small">
+            {history.map((change, index) => (
+                <ListGroup.Item key={`${change.status}-${index}`} className="px-0 py-1">
+                    <strong>{t(ORDER_STATUS_LABELS[change.status])}</strong>
+                    <span className="text-muted"> · {new Date(change.at).toLocaleString()}</span>
+                </ListGroup.Item>
+            ))}
+            {upcoming.map(step => (
+                <ListGroup.Item key={step} className="px-0 py-1 text-muted">
+                    {t(ORDER_STATUS_LABELS[step])}
+                </ListGroup.Item>
+            ))}
+        </ListGroup>
+    );
+}
+
+export default OrderStatusTimeline;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { ShippingAddress } from '../features/checkout/checkoutTypes';
+import { findCountry } from '../data/countries';
+
+interface PostalAddressProps {
+    address: ShippingAddress;
+    className?: string;
+}
+
+/**
+ * PostalAddress Component
+ * Shows an address the way it is written on a parcel, one line per part.
+ */
+function PostalAddress({ address, className }: PostalAddressProps) {
+    const countryName = findCountry(address.country)?.name ?? address.country;
+    return (
+        <address className={className}>
+            {address.fullName}<br />
+            {address.line1}<br />
+            {address.line2 && <>{address.line2}<br /></>}
+            {[address.city, address.region, address.postalCode].filter(Boolean).join(', ')}<br />
+            {countryName}
+        </address>
+    );
+}
+
+export default PostalAddress;
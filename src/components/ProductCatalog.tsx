@@ -5,7 +5,8 @@ import { addToCart } from '../features/cart/cartSlice';
 import { useQuery } from '@tanstack/react-query';
 import { Card, Button, Row, Col, Form } from 'react-bootstrap';
 import { useTranslation } from 'react-i18next';
-import { Product, ProductRating } from '../types/Product';
+import { Product } from '../types/Product';
+import { useCurrency } from '../hooks/useCurrency';
 
 /**
  * ProductCatalog Component
@@ -16,6 +17,7 @@ function ProductCatalog() {
     // --- Redux and Translation Setup ---
     const dispatch = useAppDispatch(); // Custom hook to dispatch Redux actions.
     const { t } = useTranslation(); // Translation hook for internationalization.
+    const { formatPrice } = useCurrency(); // Formats prices in the active display currency.
 
     // --- Data Fetching with React Query ---
     /**
@@ -186,7 +188,7 @@ function ProductCatalog() {
                             />
                             <Card.Body>
                                 <Card.Title data-testid={`product-title-${product.id}`}>{product.title}</Card.Title>
-                                <Card.Text data-testid={`product-price-${product.id}`}>{t('price')}: ${product.price.toFixed(2)}</Card.Text>
+                                <Card.Text data-testid={`product-price-${product.id}`}>{t('price')}: {formatPrice(product.price)}</Card.Text>
                                 {product.rating && <Card.Text data-testid={`product-rating-${product.id}`}>{t('rating')}: {product.rating.rate} ({product.rating.count} reviews)</Card.Text>}
                                 <Button
                                     variant="primary"
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Alert, Button, Form, InputGroup } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { useAppDispatch } from '../store';
+import { applyPromoCode, removePromoCode, CartItem } from '../features/cart/cartSlice';
+import { evaluatePromotion } from '../features/promotions/promotionEngine';
+import { PromotionResult } from '../features/promotions/promotionTypes';
+import { useCurrency } from '../hooks/useCurrency';
+import { ZERO_MONEY } from '../utils/money';
+
+// --- Type Definitions ---
+
+interface PromoCodeFormProps {
+    items: CartItem[]; // Current cart lines, used to validate a code before applying it
+    appliedCode: string | null; // Code currently applied to the cart
+    appliedResult: PromotionResult | null; // Evaluation of the applied code against the current cart
+}
+
+/**
+ * PromoCodeForm Component
+ * Lets the customer enter a promo code, or shows the applied one with a button to remove it.
+ * Only one code can be applied per order: the entry field is hidden while a code is applied.
+ */
+function PromoCodeForm({ items, appliedCode, appliedResult }: PromoCodeFormProps) {
+    const { t } = useTranslation();
+    const dispatch = useAppDispatch();
+    const { formatPrice } = useCurrency();
+    // Text typed into the promo code field
+    const [code, setCode] = useState('');
+    // Message explaining why the last code could not be applied
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+    /**
+     * Turns a failed evaluation into a translated message.
+     * @param result - A promotion result that is not valid.
+     * @returns {string} The message to show.
+     */
+    const describeError = (result: Extract<PromotionResult, { valid: false }>): string =>
+        t(result.error, { amount: formatPrice(result.promotion?.minimumSpend ?? ZERO_MONEY) });
+
+    /**
+     * Validates the typed code against the cart and applies it if it gives a discount.
+     * @param e - The form submission event.
+     */
+    const handleApply = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!code.trim()) return;
+
+        const result = evaluatePromotion(code, items);
+        if (result.valid) {
+            dispatch(applyPromoCode(result.promotion.code));
+            setCode('');
+            setErrorMessage(null);
+        } else {
+            setErrorMessage(describeError(result));
+        }
+    };
+
+    // --- Applied Code ---
+    if (appliedCode) {
+        return (
+            <div className="mb-3">
+                <span className="me-2">{t('promoApplied', { code: appliedCode })}</span>
+                <Button variant="outline-secondary" size="sm" onClick={() => dispatch(removePromoCode())}>
+                    {t('removePromoCode')}
+                </Button>
+                {/* The code was valid when applied but the cart has changed since */}
+                {appliedResult && !appliedResult.valid && (
+                    <Alert variant="warning" className="mt-2 mb-0">
+                        {t('promoNoLongerApplies', { code: appliedCode })} {describeError(appliedResult)}
+                    </Alert>
+                )}
+            </div>
+        );
+    }
+
+    // --- Code Entry ---
+    return (
+        <Form onSubmit={handleApply} className="mb-3" style={{ maxWidth: '360px' }}>
+            <Form.Label htmlFor="promo-code">{t('promoCode')}</Form.Label>
+            <InputGroup hasValidation>
+                <Form.Control
+                    id="promo-code"
+                    type="text"
+                    value={code}
+                    isInvalid={errorMessage !== null}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                        setCode(e.target.value);
+                        setErrorMessage(null);
+                    }}
+                />
+                <Button type="submit" variant="outline-primary">{t('applyPromoCode')}</Button>
+                <Form.Control.Feedback type="invalid">{errorMessage}</Form.Control.Feedback>
+            </InputGroup>
+        </Form>
+    );
+}
+
+export default PromoCodeForm;
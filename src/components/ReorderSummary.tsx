@@ -0,0 +1,65 @@
+import React from 'react';
+import { Alert } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ReorderOutcome } from '../hooks/useReorder';
+import { useCurrency } from '../hooks/useCurrency';
+
+interface ReorderSummaryProps {
+    outcome: ReorderOutcome | null; // Nothing is shown while null
+    onClose: () => void;
+}
+
+/**
+ * ReorderSummary Component
+ * Tells the customer what "Buy again" put in their cart: how many products were added,
+ * which ones are no longer sold, and which now cost something else than when they ordered.
+ */
+function ReorderSummary({ outcome, onClose }: ReorderSummaryProps) {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+
+    if (!outcome) return null;
+
+    if (!outcome.ok) {
+        return <Alert variant="danger" dismissible onClose={onClose}>{t('reorderFailed')}</Alert>;
+    }
+
+    const { items, unavailable, priceChanges } = outcome.plan;
+    const hasChanges = unavailable.length > 0 || priceChanges.length > 0;
+
+    return (
+        <Alert variant={items.length === 0 ? 'warning' : hasChanges ? 'info' : 'success'} dismissible onClose={onClose}>
+            <p className="mb-1">
+                {items.length > 0
+                    ? t('reorderAdded', { orderId: outcome.orderId })
+                    : t('reorderNothingAdded', { orderId: outcome.orderId })}
+                {items.length > 0 && <> <Link to="/cart">{t('viewCart')}</Link></>}
+            </p>
+            {unavailable.length > 0 && (
+                <>
+                    <p className="mb-1">{t('reorderUnavailable')}</p>
+                    <ul className="mb-1">
+                        {unavailable.map(line => (
+                            <li key={line.productId}>{line.title ?? t('productNumber', { id: line.productId })}</li>
+                        ))}
+                    </ul>
+                </>
+            )}
+            {priceChanges.length > 0 && (
+                <>
+                    <p className="mb-1">{t('reorderPriceChanged')}</p>
+                    <ul className="mb-0">
+                        {priceChanges.map(change => (
+                            <li key={change.productId}>
+                                {change.title}: {formatPrice(change.previousPrice)} → {formatPrice(change.currentPrice)}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </Alert>
+    );
+}
+
+export default ReorderSummary;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Alert, Button, Form, Modal, Table } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { Order, OrderReturnLine, ReturnReason } from '../types/Order';
+import { useCurrency } from '../hooks/useCurrency';
+import { BASE_CURRENCY } from '../data/currencies';
+import {
+    MAX_RETURN_COMMENT_LENGTH,
+    RETURN_REASONS,
+    RETURN_REASON_LABELS,
+    getReturnDeadline,
+    getReturnRefundAmount,
+    getReturnableQuantities,
+} from '../features/returns/returns';
+import { requestReturn } from '../features/returns/processReturn';
+
+interface ReturnRequestFormProps {
+    order: Order | null; // The order to return items from; nothing is shown while null
+    onHide: () => void;
+    onRequested: (order: Order) => void; // Called with the saved order once the request is created
+}
+
+/**
+ * ReturnRequestForm Component
+ * Lets the customer pick the units to return from a delivered order and a reason from the
+ * fixed list, shows the refund they can expect, and creates the return request (RMA).
+ */
+function ReturnRequestForm({ order, onHide, onRequested }: ReturnRequestFormProps) {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+    // Units picked per line index
+    const [quantities, setQuantities] = useState<Record<number, number>>({});
+    const [reason, setReason] = useState<ReturnReason | ''>('');
+    const [comment, setComment] = useState('');
+    // Translation key of the message shown when the request was refused
+    const [error, setError] = useState<string | null>(null);
+
+    const returnable = order ? getReturnableQuantities(order) : [];
+    const lines: OrderReturnLine[] = Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([lineIndex, quantity]) => ({ lineIndex: Number(lineIndex), quantity }));
+
+    /**
+     * Clears the form and closes the dialog.
+     */
+    const handleHide = () => {
+        setQuantities({});
+        setReason('');
+        setComment('');
+        setError(null);
+        onHide();
+    };
+
+    /**
+     * Creates the return request.
+     * @param e - The form submit event.
+     */
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!order) return;
+        if (lines.length === 0) return setError('returnPickItems');
+        if (!reason) return setError('returnPickReason');
+
+        const result = requestReturn(order.owner, order.orderId, { lines, reason, comment });
+        if (!result.ok) return setError(result.reason === 'orderNotFound' ? 'returnNotFound' : result.reason);
+        handleHide();
+        onRequested(result.order);
+    };
+
+    return (
+        <Modal show={order !== null} onHide={handleHide} size="lg">
+            <Form onSubmit={handleSubmit}>
+                <Modal.Header closeButton>
+                    <Modal.Title>{t('returnItems')}</Modal.Title>
+                </Modal.Header>
+                {order && (
+                    <Modal.Body>
+                        <p className="text-muted">
+                            {t('returnWindowUntil', { date: getReturnDeadline(order).toLocaleDateString() })}
+                        </p>
+                        {error && <Alert variant="danger">{t(error)}</Alert>}
+                        <Table size="sm" className="align-middle">
+                            <thead>
+                                <tr>
+                                    <th>{t('product')}</th>
+                                    <th>{t('returnableQuantity')}</th>
+                                    <th>{t('returnQuantity')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {order.items.map((item, index) => returnable[index] > 0 && (
+                                    <tr key={`${item.productId}-${index}`}>
+                                        <td>{item.title ?? t('productNumber', { id: item.productId })}</td>
+                                        <td>{returnable[index]}</td>
+                                        <td style={{ width: '120px' }}>
+                                            <Form.Control
+                                                type="number"
+                                                size="sm"
+                                                min={0}
+                                                max={returnable[index]}
+                                                value={quantities[index] ?? 0}
+                                                aria-label={t('returnQuantity')}
+                                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                                                    const quantity = Math.min(Math.max(Math.floor(Number(e.target.value)) || 0, 0), returnable[index]);
+                                                    setQuantities(current => ({ ...current, [index]: quantity }));
+                                                }}
+                                            />
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </Table>
+                        <Form.Group className="mb-3" controlId="returnReason">
+                            <Form.Label>{t('returnReason')}</Form.Label>
+                            <Form.Select value={reason} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setReason(e.target.value as ReturnReason | '')}>
+                                <option value="">{t('returnReasonPlaceholder')}</option>
+                                {RETURN_REASONS.map(option => (
+                                    <option key={option} value={option}>{t(RETURN_REASON_LABELS[option])}</option>
+                                ))}
+                            </Form.Select>
+                        </Form.Group>
+                        <Form.Group className="mb-3" controlId="returnComment">
+                            <Form.Label>{t('returnComment')}</Form.Label>
+                            <Form.Control
+                                as="textarea"
+                                rows={2}
+                                maxLength={MAX_RETURN_COMMENT_LENGTH}
+                                value={comment}
+                                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setComment(e.target.value)}
+                            />
+                        </Form.Group>
+                        {/* Estimate only: the request that returns the last units settles any rounding */}
+                        <p className="mb-0">
+                            {t('returnEstimatedRefund')}: <strong>{formatPrice(getReturnRefundAmount(order, lines), order.currency ?? { code: BASE_CURRENCY, rate: 1 })}</strong>
+                        </p>
+                        <p className="small text-muted mb-0">{t('returnRefundNote')}</p>
+                    </Modal.Body>
+                )}
+                <Modal.Footer>
+                    <Button variant="secondary" onClick={handleHide}>{t('cancel')}</Button>
+                    <Button type="submit" variant="primary">{t('requestReturn')}</Button>
+                </Modal.Footer>
+            </Form>
+        </Modal>
+    );
+}
+
+export default ReturnRequestForm;
@@ -0,0 +1,87 @@
+import React, { useContext, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Alert, Button, Container } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import UserContext from '../context/UserContext';
+import { Order, OrderReturn, ReturnStatus } from '../types/Order';
+import { getOrdersWithReturnsFromLocalStorage } from '../utils/localStorageHelpers';
+import { isAdminUser } from '../utils/userSession';
+import { RETURN_STATUS_NEXT } from '../features/returns/returns';
+import { AdvanceReturnResult, advanceReturn } from '../features/returns/processReturn';
+import { PAYMENT_FAILURE_MESSAGES } from '../features/payments/paymentTypes';
+import OrderReturns from './OrderReturns';
+
+// Label of the store action that moves a request to each status
+const RETURN_ACTION_LABELS: Record<ReturnStatus, string> = {
+    requested: 'requestReturn',
+    approved: 'returnApprove',
+    received: 'returnMarkReceived',
+    refunded: 'returnIssueRefund',
+};
+
+/**
+ * ReturnsDesk Component
+ * Shown at /returns-desk to the admin only: every customer's return requests, with the store's
+ * steps (approve, receive, refund) as a button per open request. There is no back office yet,
+ * so this stands in for one.
+ */
+function ReturnsDesk() {
+    const { t } = useTranslation();
+    const { user } = useContext(UserContext);
+    const queryClient = useQueryClient();
+    const [orders, setOrders] = useState<Order[]>(getOrdersWithReturnsFromLocalStorage);
+    // Translation key of the message shown when a step failed
+    const [error, setError] = useState<string | null>(null);
+
+    const advanceMutation = useMutation<AdvanceReturnResult, Error, { order: Order; rma: OrderReturn }>({
+        mutationFn: ({ order, rma }) => advanceReturn(order.owner, order.orderId, rma.rmaNumber),
+        onSuccess: result => {
+            if (!result.ok) {
+                setError(result.reason === 'orderNotFound' || result.reason === 'returnNotFound' ? 'returnNotFound' : PAYMENT_FAILURE_MESSAGES[result.reason]);
+                return;
+            }
+            setError(null);
+            setOrders(getOrdersWithReturnsFromLocalStorage());
+            queryClient.invalidateQueries({ queryKey: ['orderHistory'] });
+        },
+    });
+
+    if (!isAdminUser(user)) {
+        return (
+            <Container className="mt-5">
+                <Alert variant="warning">{t('adminOnly')}</Alert>
+            </Container>
+        );
+    }
+
+    return (
+        <Container className="mt-5">
+            <h2>{t('returnsDesk')}</h2>
+            {error && <Alert variant="danger" dismissible onClose={() => setError(null)}>{t(error)}</Alert>}
+            {orders.length === 0 && <p className="text-muted">{t('returnsDeskEmpty')}</p>}
+            {orders.map(order => (
+                <div key={order.orderId}>
+                    <h6>{t('returnsDeskOrder', { orderId: order.orderId, owner: order.owner })}</h6>
+                    <OrderReturns
+                        order={order}
+                        actions={rma => {
+                            const next = RETURN_STATUS_NEXT[rma.status];
+                            return next && (
+                                <Button
+                                    variant="outline-secondary"
+                                    size="sm"
+                                    disabled={advanceMutation.isPending}
+                                    onClick={() => advanceMutation.mutate({ order, rma })}
+                                >
+                                    {t(RETURN_ACTION_LABELS[next])}
+                                </Button>
+                            );
+                        }}
+                    />
+                </div>
+            ))}
+        </Container>
+    );
+}
+
+export default ReturnsDesk;
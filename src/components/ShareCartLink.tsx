@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Form, InputGroup } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { CartItem } from '../features/cart/cartSlice';
+import { buildShareUrl } from '../features/cart/cartShare';
+
+// --- Type Definitions ---
+
+interface ShareCartLinkProps {
+    items: CartItem[]; // Lines to put in the link
+}
+
+/**
+ * ShareCartLink Component
+ * A "Share cart" button that builds a link to /cart?share=... for the current lines.
+ * The link is copied to the clipboard when the browser allows it, and shown in a
+ * read-only field either way so it can be copied by hand.
+ */
+function ShareCartLink({ items }: ShareCartLinkProps) {
+    const { t } = useTranslation();
+    // The generated link, once the button was clicked
+    const [shareUrl, setShareUrl] = useState<string | null>(null);
+    // Whether the link made it to the clipboard
+    const [copied, setCopied] = useState(false);
+
+    // A link built for earlier lines would be out of date, so hide it when the cart changes
+    useEffect(() => {
+        setShareUrl(null);
+    }, [items]);
+
+    /**
+     * Builds the link for the current lines and tries to copy it.
+     */
+    const handleShare = async () => {
+        const url = buildShareUrl(items);
+        setShareUrl(url);
+        setCopied(false);
+        try {
+            await navigator.clipboard?.writeText(url);
+            setCopied(navigator.clipboard !== undefined);
+        } catch (error) {
+            // Clipboard access can be denied; the link is still shown for manual copying
+            console.warn("Could not copy the cart link to the clipboard:", error);
+        }
+    };
+
+    return (
+        <div className="mb-3" style={{ maxWidth: '560px' }}>
+            <Button variant="outline-secondary" onClick={handleShare}>{t('shareCart')}</Button>
+            {shareUrl && (
+                <InputGroup className="mt-2">
+                    <Form.Control
+                        readOnly
+                        value={shareUrl}
+                        aria-label={t('shareCartLink')}
+                        onFocus={(e: React.FocusEvent<HTMLInputElement>) => e.target.select()}
+                    />
+                    {copied && <InputGroup.Text>{t('shareCartCopied')}</InputGroup.Text>}
+                </InputGroup>
+            )}
+        </div>
+    );
+}
+
+export default ShareCartLink;
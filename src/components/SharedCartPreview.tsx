@@ -0,0 +1,121 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { useQuery } from '@tanstack/react-query';
+import { Alert, Button, Spinner, Table } from 'react-bootstrap';
+import { useTranslation } from 'react-i18next';
+import { useAppDispatch, RootState } from '../store';
+import { fetchProducts } from '../features/products/productsSlice';
+import { priceCartLines } from '../features/cart/linePricing';
+import { SharedCartImportMode, decodeSharedCart, importSharedCart, resolveSharedCart } from '../features/cart/cartShare';
+import { Product } from '../types/Product';
+import { useCurrency } from '../hooks/useCurrency';
+
+// --- Type Definitions ---
+
+interface SharedCartPreviewProps {
+    shareParam: string; // Value of the ?share= parameter
+    onClose: () => void; // Called once the shared cart was imported or dismissed
+}
+
+/**
+ * SharedCartPreview Component
+ * Shown on /cart?share=... : resolves the shared product ids against the catalog, previews
+ * the lines, and lets the customer replace their cart with them or merge them in.
+ * Products that can't be found in the catalog are listed instead of being dropped silently.
+ */
+function SharedCartPreview({ shareParam, onClose }: SharedCartPreviewProps) {
+    const { t } = useTranslation();
+    const dispatch = useAppDispatch();
+    const { formatPrice } = useCurrency();
+    const hasItemsInCart = useSelector((state: RootState) => state.cart.items.length > 0);
+
+    const sharedLines = decodeSharedCart(shareParam);
+
+    // Same query as ProductCatalog, so an already loaded catalog is reused
+    const { data: products, isPending, isError } = useQuery<Product[]>({
+        queryKey: ['products'],
+        queryFn: () => dispatch(fetchProducts()).unwrap(),
+        enabled: sharedLines !== null,
+    });
+
+    // --- Invalid Link ---
+    if (!sharedLines) {
+        return (
+            <Alert variant="warning" dismissible onClose={onClose}>
+                {t('sharedCartInvalid')}
+            </Alert>
+        );
+    }
+
+    // --- Loading / Error ---
+    if (isPending) {
+        return <Spinner animation="border" role="status" className="mb-3"><span className="visually-hidden">{t('loading')}</span></Spinner>;
+    }
+    if (isError || !products) {
+        return (
+            <Alert variant="danger" dismissible onClose={onClose}>
+                {t('sharedCartLoadError')}
+            </Alert>
+        );
+    }
+
+    const { items, unknownIds } = resolveSharedCart(sharedLines, products);
+    // Effective line prices (quantity tiers and bundles) of the shared lines on their own
+    const linePrices = priceCartLines(items);
+
+    /**
+     * Imports the resolved lines into the cart and closes the preview.
+     * @param mode - Replace the current lines or merge with them.
+     */
+    const handleImport = (mode: SharedCartImportMode) => {
+        dispatch(importSharedCart(items, mode));
+        onClose();
+    };
+
+    return (
+        <Alert variant="info" className="mb-4">
+            <Alert.Heading>{t('sharedCartTitle')}</Alert.Heading>
+            {items.length > 0 && (
+                <Table size="sm" className="mb-2">
+                    <thead>
+                        <tr>
+                            <th>{t('product')}</th>
+                            <th>{t('quantity')}</th>
+                            <th>{t('total')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.map((item, index) => (
+                            <tr key={item.id}>
+                                <td>{item.title}</td>
+                                <td>{item.quantity}</td>
+                                <td>{formatPrice(linePrices[index].lineTotal)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </Table>
+            )}
+            {/* Products that were deleted or never existed */}
+            {unknownIds.length > 0 && (
+                <p className="text-danger">{t('sharedCartUnknownProducts', { ids: unknownIds.join(', ') })}</p>
+            )}
+            <div className="d-flex gap-2">
+                {items.length > 0 && (
+                    <>
+                        <Button variant="primary" onClick={() => handleImport('replace')}>
+                            {hasItemsInCart ? t('sharedCartReplace') : t('sharedCartAdd')}
+                        </Button>
+                        {hasItemsInCart && (
+                            <Button variant="outline-primary" onClick={() => handleImport('merge')}>
+                                {t('sharedCartMerge')}
+                            </Button>
+                        )}
+                    </>
+                )}
+                <Button variant="outline-secondary" onClick={onClose}>{t('sharedCartDismiss')}</Button>
+            </div>
+        </Alert>
+    );
+}
+
+export default SharedCartPreview;
@@ -1,61 +1,24 @@
-import React, { useEffect } from 'react';
+import React from 'react';
 import { useSelector } from 'react-redux';
 import { useAppDispatch, RootState } from '../store'; 
-import { removeFromCart, clearCart } from '../features/cart/cartSlice';
+import { removeFromCart, clearCart, updateQuantity, setLineGift, setLineNote, CartItem, CartItemGift } from '../features/cart/cartSlice';
 import { Container, Row, Col, Button, Table, Image, Alert } from 'react-bootstrap';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { getOrdersFromLocalStorage, saveOrderToLocalStorage } from '../utils/localStorageHelpers';
-import { Order } from '../types/Order';
-
-// --- Type Definitions ---
-
-// Define the structure for the nested rating object (matching ProductCatalog)
-interface ProductRating {
-    rate: number;
-    count: number;
-}
-
-// Define the structure for a Product (matching ProductCatalog)
-interface Product {
-    id: number; // Use number for ID consistency
-    title: string;
-    price: number;
-    description: string;
-    category: string;
-    image: string;
-    rating: ProductRating; 
-}
-
-// Define the structure for an item in the shopping cart
-// It extends Product and adds quantity
-interface CartItem extends Product {
-    quantity: number;
-}
-
-// --- Session Storage Helpers ---
-
-/**
- * Retrieves the cart items array from sessionStorage.
- * @returns {CartItem[]} An array of CartItem objects or an empty array.
- */
-const getCartFromSessionStorage = (): CartItem[] => {
-    const cart = sessionStorage.getItem('shoppingCart');
-    try {
-        return cart ? JSON.parse(cart) as CartItem[] : [];
-    } catch (error) {
-        console.error("Error parsing shopping cart from sessionStorage:", error);
-        return [];
-    }
-};
-
-/**
- * Saves the cart items array to sessionStorage.
- * @param cartItems - The array of CartItem objects to save.
- */
-const saveCartToSessionStorage = (cartItems: CartItem[]) => {
-    sessionStorage.setItem('shoppingCart', JSON.stringify(cartItems));
-};
+import { useCurrency } from '../hooks/useCurrency';
+import { usePromotionDescription } from '../hooks/usePromotionDescription';
+import { calculatePriceBreakdown } from '../features/pricing/pricingPipeline';
+import CartQuantityControl from './CartQuantityControl';
+import PromoCodeForm from './PromoCodeForm';
+import DeliveryOptions from './DeliveryOptions';
+import CartUndoNotification from './CartUndoNotification';
+import ShareCartLink from './ShareCartLink';
+import SharedCartPreview from './SharedCartPreview';
+import { SHARE_QUERY_PARAM } from '../features/cart/cartShare';
+import CartValidationNotice from './CartValidationNotice';
+import { useCartValidation } from '../hooks/useCartValidation';
+import { PRODUCT_BUNDLES } from '../data/pricingRules';
+import CartLineOptions from './CartLineOptions';
 
 // --- Component ---
 
@@ -66,13 +29,28 @@ function ShoppingCart() {
     // Select the cart items from the Redux store. 
     // Explicitly type the return value as CartItem[] for safety.
     const cartItems = useSelector((state: RootState): CartItem[] => state.cart.items); 
+    // Select the promo code applied to the cart (missing on carts restored without one)
+    const promoCode = useSelector((state: RootState) => state.cart.promoCode ?? null);
+    // Select the delivery choices that feed the shipping and tax steps of the pricing pipeline
+    const shippingMethod = useSelector((state: RootState) => state.cart.shippingMethod);
+    const taxRegion = useSelector((state: RootState) => state.cart.taxRegion);
     // Get translation function
     const { t } = useTranslation(); 
+    // Price formatter for the active display currency
+    const { formatPrice } = useCurrency();
+    // Translates the promo code's discount lines
+    const describePromotion = usePromotionDescription();
+    const navigate = useNavigate();
+    // A cart shared through a link (/cart?share=...), previewed until imported or dismissed
+    const [searchParams, setSearchParams] = useSearchParams();
+    const shareParam = searchParams.get(SHARE_QUERY_PARAM);
+    // Compare the lines (copies of the products taken when they were added) with the live catalog
+    const { status: validationStatus, issues: cartIssues, validate: validateCart, acceptChanges } = useCartValidation(cartItems);
 
-    // Sync cart state with sessionStorage
-    useEffect(() => {
-        saveCartToSessionStorage(cartItems);
-    }, [cartItems]);
+    // Price the cart on every render (subtotal -> discounts -> shipping -> tax -> total),
+    // so the breakdown follows quantity changes and promo codes stop applying once they expire
+    const breakdown = calculatePriceBreakdown({ items: cartItems, promoCode, shippingMethod, taxRegion });
+    const { promotion: promotionResult, discounts } = breakdown;
 
     // --- Event Handlers & Logic ---
 
@@ -84,6 +62,33 @@ function ShoppingCart() {
         dispatch(removeFromCart(productId));
     };
 
+    /**
+     * Dispatches action to change the quantity of a cart line (0 removes it).
+     * @param productId - The ID (number) of the product to update.
+     * @param quantity - The new quantity.
+     */
+    const handleQuantityChange = (productId: number, quantity: number) => {
+        dispatch(updateQuantity({ itemId: productId, quantity }));
+    };
+
+    /**
+     * Dispatches action to mark a cart line as a gift, update its gift options, or unmark it.
+     * @param productId - The ID (number) of the product to update.
+     * @param gift - The new gift options, or null if the line is no longer a gift.
+     */
+    const handleGiftChange = (productId: number, gift: CartItemGift | null) => {
+        dispatch(setLineGift({ itemId: productId, gift }));
+    };
+
+    /**
+     * Dispatches action to change the packing note of a cart line.
+     * @param productId - The ID (number) of the product to update.
+     * @param note - The new note ('' removes it).
+     */
+    const handleNoteChange = (productId: number, note: string) => {
+        dispatch(setLineNote({ itemId: productId, note }));
+    };
+
     /**
      * Dispatches action to clear all items from the shopping cart.
      */
@@ -92,63 +97,41 @@ function ShoppingCart() {
     };
 
     /**
-     * Calculates the total price of all items currently in the cart.
-     * @returns {number} The calculated total price.
+     * Closes the shared cart preview by dropping the share parameter from the URL.
      */
-    const calculateTotal = (): number => { // Ensure it returns a number
-        // Use reduce to sum up the price * quantity for each item.
-        // Add explicit types for accumulator (total) and item.
-        return cartItems.reduce((total: number, item: CartItem) => total + item.price * item.quantity, 0); 
+    const handleCloseSharedCart = () => {
+        const nextParams = new URLSearchParams(searchParams);
+        nextParams.delete(SHARE_QUERY_PARAM);
+        setSearchParams(nextParams, { replace: true });
     };
 
-    // --- Checkout Simulation ---
+    // Preview of a shared cart, shown above the cart (or the empty-cart message)
+    const sharedCartPreview = shareParam !== null && (
+        <SharedCartPreview shareParam={shareParam} onClose={handleCloseSharedCart} />
+    );
+
+    // --- Checkout ---
 
     /**
-     * Handles the checkout process (currently simulated).
-     * Creates an order object, saves it to localStorage, shows an alert, and clears the cart.
+     * Starts the checkout flow (/checkout).
+     * Re-checks the cart against the live catalog first, so the customer never
+     * goes on to pay with stale prices.
      */
-    const handleCheckout = () => {
+    const handleCheckout = async () => {
         // Proceed only if the cart is not empty
         if (cartItems.length > 0) {
-            // Simulate an asynchronous process (like API call)
-            setTimeout(() => {
-                // Generate a unique order ID and get the current date/time
-                const orderId = `ORD-${Date.now()}`; 
-                const orderDate = new Date().toISOString(); // ISO format is standard
-                // Calculate total price as a number
-                const orderTotal = calculateTotal(); 
-                // Create a shallow copy of cart items for the order
-                // Ensure CartItem structure is compatible with Order['items'] (ProductItem[])
-                const orderItems = cartItems.map(item => ({
-                    productId: item.id.toString(), // Convert id to string and rename to productId
-                    quantity: item.quantity,
-                    price: item.price,
-                }));
-
-                // New order object, conforming to the Order interface
-                const newOrder: Order = {
-                    id: orderId,
-                    date: orderDate,
-                    items: orderItems,
-                    totalPrice: orderTotal,
-                    orderId: orderId,
-                    dateCreated: orderDate,
-                };
-
-                // Save the newly created order
-                saveOrderToLocalStorage(newOrder);
-
-                // Clear sessionStorage during checkout
-                sessionStorage.removeItem('shoppingCart');
-
-                // Log simulation details and show a confirmation alert
-                console.log("Simulating Order Creation - Order:", newOrder);
-                alert(t('Checkout successful! Thank you for your purchase!'));
-
-                // Clear the cart in the Redux store after successful checkout
-                dispatch(clearCart());
-            }, 500); // Short delay for simulation
-
+            // Never charge stale prices: fetch the catalog again and stop if anything changed,
+            // so the customer has to accept the updated cart first
+            const validation = await validateCart();
+            if (!validation.ok) {
+                alert(t('cartValidationFailed'));
+                return;
+            }
+            if (validation.issues.length > 0) {
+                alert(t('cartChangedBeforeCheckout'));
+                return;
+            }
+            navigate('/checkout');
         } else {
             // Alert the user if they try to checkout with an empty cart
             alert(t('cartEmptyCheckoutAlert'));
@@ -161,22 +144,27 @@ function ShoppingCart() {
     if (cartItems.length === 0) {
         return (
             <Container className="mt-5 text-center">
+                {sharedCartPreview}
                 <Alert variant="info" role="alert">
                     <Alert.Heading>{t('cartEmpty')}</Alert.Heading>
                     <p>
                         {t('cartEmptyMessage')} <Link to="/home">{t('continueShopping')}</Link>
                     </p>
                 </Alert>
+                {/* Still offer Undo right after the last item was removed or the cart was cleared */}
+                <CartUndoNotification />
             </Container>
         );
     }
 
     // --- Main Rendering: Cart Table ---
     // Render the shopping cart contents in a table if items exist.
-    const totalAmount = calculateTotal(); // Calculate total once for display
     return (
         <Container className="mt-5">
             <h2>{t('shoppingCart')}</h2>
+            {sharedCartPreview}
+            {/* Price/title changes and unavailable products found in the live catalog */}
+            <CartValidationNotice status={validationStatus} issues={cartIssues} onAccept={acceptChanges} onRetry={validateCart} />
             {/* Responsive table using React Bootstrap */}
             <Table striped bordered hover responsive>
                 {/* Table Headers */}
@@ -191,43 +179,125 @@ function ShoppingCart() {
                 </thead>
                 {/* Table Body - Map over cart items */}
                 <tbody>
-                    {cartItems.map(item => (
-                        <tr key={item.id}>
-                            <td>
-                                <Image
-                                    src={item.image}
-                                    alt={item.title}
-                                    style={{ width: '50px', height: '50px', objectFit: 'contain' }}
-                                    thumbnail
-                                    className="me-2"
-                                />
-                                {item.title}
-                            </td>
-                            <td>${item.price.toFixed(2)}</td>
-                            <td>{item.quantity}</td>
-                            <td>${(item.price * item.quantity).toFixed(2)}</td>
-                            <td>
-                                <Button
-                                    variant="danger"
-                                    size="sm"
-                                    aria-label={`Remove ${item.title} from cart`}
-                                    onClick={() => handleRemoveFromCart(item.id)}
-                                >
-                                    {t('remove')}
-                                </Button>
-                            </td>
+                    {cartItems.map((item, index) => {
+                        // Effective price of the line (quantity tiers and bundles), from the pricing pipeline
+                        const linePrice = breakdown.lines[index];
+                        return (
+                            <tr key={item.id}>
+                                <td>
+                                    <Image
+                                        src={item.image}
+                                        alt={item.title}
+                                        style={{ width: '50px', height: '50px', objectFit: 'contain' }}
+                                        thumbnail
+                                        className="me-2"
+                                    />
+                                    {item.title}
+                                    <CartLineOptions
+                                        itemId={item.id}
+                                        title={item.title}
+                                        gift={item.gift}
+                                        note={item.note}
+                                        onGiftChange={(gift) => handleGiftChange(item.id, gift)}
+                                        onNoteChange={(note) => handleNoteChange(item.id, note)}
+                                    />
+                                </td>
+                                <td>
+                                    {/* Show the list price struck through when the line is cheaper per unit */}
+                                    {linePrice.unitPrice !== item.price && (
+                                        <del className="text-muted me-1">{formatPrice(item.price)}</del>
+                                    )}
+                                    {formatPrice(linePrice.unitPrice)}
+                                </td>
+                                <td>
+                                    <CartQuantityControl
+                                        title={item.title}
+                                        quantity={item.quantity}
+                                        onQuantityChange={(quantity) => handleQuantityChange(item.id, quantity)}
+                                    />
+                                </td>
+                                <td>
+                                    {formatPrice(linePrice.lineTotal)}
+                                    {linePrice.savings > 0 && (
+                                        <div className="small text-success">
+                                            {t('lineSavings', { amount: formatPrice(linePrice.savings) })}
+                                            {linePrice.tierPercentOff > 0 && <> · {t('volumeDiscount', { percent: linePrice.tierPercentOff })}</>}
+                                            {linePrice.bundleIds.map(bundleId => (
+                                                <React.Fragment key={bundleId}>
+                                                    {' · '}{t('bundleApplied', { name: t(PRODUCT_BUNDLES.find(bundle => bundle.id === bundleId)?.label ?? bundleId) })}
+                                                </React.Fragment>
+                                            ))}
+                                        </div>
+                                    )}
+                                </td>
+                                <td>
+                                    <Button
+                                        variant="danger"
+                                        size="sm"
+                                        aria-label={`Remove ${item.title} from cart`}
+                                        onClick={() => handleRemoveFromCart(item.id)}
+                                    >
+                                        {t('remove')}
+                                    </Button>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                    {/* Savings from quantity tiers and bundles (already included in the subtotal) */}
+                    {breakdown.savings > 0 && (
+                        <tr>
+                            <td colSpan={3} className="text-end">{t('pricingSavings')}</td>
+                            <td colSpan={2} className="text-success">{formatPrice(breakdown.savings)}</td>
                         </tr>
-                    ))}
+                    )}
                     {/* Subtotal Row */}
                     <tr>
                         {/* Use colSpan to make cells span multiple columns */}
                         <td colSpan={3} className="text-end"><strong>{t('subtotal')}</strong></td> 
                         {/* Display formatted total */}
-                        <td colSpan={2}><strong>${totalAmount.toFixed(2)}</strong></td> 
+                        <td colSpan={2}><strong>{formatPrice(breakdown.subtotal)}</strong></td> 
+                    </tr>
+                    {/* Discount Rows - one per discount line of the applied promo code */}
+                    {discounts.map((discount, index) => (
+                        <tr key={`discount-${index}`}>
+                            <td colSpan={3} className="text-end">{describePromotion(discount.description)} ({discount.code})</td>
+                            <td colSpan={2} className="text-success">−{formatPrice(discount.amount)}</td>
+                        </tr>
+                    ))}
+                    {/* Gift Wrap Row (only when some line is wrapped) */}
+                    {breakdown.giftWrap > 0 && (
+                        <tr>
+                            <td colSpan={3} className="text-end">{t('giftWrap')}</td>
+                            <td colSpan={2}>{formatPrice(breakdown.giftWrap)}</td>
+                        </tr>
+                    )}
+                    {/* Shipping Row */}
+                    <tr>
+                        <td colSpan={3} className="text-end">{t('shipping')} ({t(breakdown.shippingMethod.label)})</td>
+                        <td colSpan={2}>{formatPrice(breakdown.shipping)}</td>
+                    </tr>
+                    {/* Tax Row */}
+                    <tr>
+                        <td colSpan={3} className="text-end">{t('tax')} ({breakdown.taxRegion.name})</td>
+                        <td colSpan={2}>{formatPrice(breakdown.tax)}</td>
+                    </tr>
+                    {/* Grand Total Row */}
+                    <tr>
+                        <td colSpan={3} className="text-end"><strong>{t('grandTotal')}</strong></td>
+                        <td colSpan={2}><strong>{formatPrice(breakdown.total)}</strong></td>
                     </tr>
                 </tbody>
             </Table>
 
+            {/* Promo Code Entry (one code per order) */}
+            <PromoCodeForm items={cartItems} appliedCode={promoCode} appliedResult={promotionResult} />
+
+            {/* Shipping Method and Tax Region */}
+            <DeliveryOptions breakdown={breakdown} />
+
+            {/* Link that pre-fills someone else's cart with these lines */}
+            <ShareCartLink items={cartItems} />
+
             {/* Action Buttons Row */}
             <Row className="mt-3 justify-content-between align-items-center">
                 {/* Clear Cart Button */}
@@ -243,7 +313,7 @@ function ShoppingCart() {
                 </Col>
                 {/* Display Total Amount */}
                  <Col md="auto">
-                    <h3>{t('total')}: ${totalAmount.toFixed(2)}</h3> {/* Display formatted total */}
+                    <h3>{t('total')}: {formatPrice(breakdown.total)}</h3> {/* Display formatted total */}
                  </Col>
                 {/* Checkout Button */}
                 <Col md="auto">
@@ -251,13 +321,17 @@ function ShoppingCart() {
                         variant="primary" 
                         size="lg" 
                         onClick={handleCheckout} 
-                        disabled={cartItems.length === 0} // Disable if cart is empty
+                        // Disable if cart is empty, while the catalog is being checked, or until catalog changes are accepted
+                        disabled={cartItems.length === 0 || validationStatus === 'checking' || cartIssues.length > 0}
                         aria-label={t('checkout')}
                     >
                         {t('checkout')}
                     </Button>
                 </Col>
             </Row>
+
+            {/* Undo/Redo for removed items and a cleared cart */}
+            <CartUndoNotification />
         </Container>
     );
 }
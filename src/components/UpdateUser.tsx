@@ -2,11 +2,18 @@ import React, { useState, useContext, useEffect } from 'react';
 import { useNavigate, NavLink } from 'react-router-dom';
 import UserContext, { UserState } from '../context/UserContext'; 
 import { Container, Row, Col, Form, Button, Alert } from 'react-bootstrap';
+import { getCartOwnerKey, moveUserCart } from '../features/cart/cartSession';
+import { useAppDispatch } from '../store';
+import { moveAddressBook } from '../features/addressBook/addressBookStorage';
+import { moveOrdersInLocalStorage } from '../utils/localStorageHelpers';
+import { isOwnerKeyInUse } from '../utils/userSession';
+import AddressBook from './AddressBook';
 
 /**
  * UpdateUser Component
  * Provides a form for the logged-in user to update their profile information.
  * Currently allows updating the username and simulates password update.
+ * Below the form, the user manages the addresses saved on their profile (see AddressBook).
  * NOTE: Due to FakeStoreAPI limitations (requiring user ID for PUT/PATCH /users), 
  * this component *simulates* the update by modifying local state (context, localStorage) 
  * instead of making a real API call. A conceptual API call is commented out below.
@@ -30,6 +37,8 @@ const UpdateUser = () => {
     const [isLoading, setIsLoading] = useState(false); 
     // Hook for programmatic navigation
     const navigate = useNavigate(); 
+    // Typed Redux dispatch, used to move the user's cart along with their name
+    const dispatch = useAppDispatch();
 
     // --- Effects ---
 
@@ -77,6 +86,17 @@ const UpdateUser = () => {
             name: username // Update the name with the value from the form state
         };
 
+        // The cart, address book and orders live under a key derived from the username, so a name
+        // whose key already holds someone's data can't be taken without mixing the two users up
+        const fromOwner = getCartOwnerKey(user);
+        const toOwner = getCartOwnerKey(updatedUser);
+        if (toOwner !== fromOwner && isOwnerKeyInUse(toOwner)) {
+            setErrorMessage('That username is already in use on this device.');
+            setShowErrorAlert(true);
+            setIsLoading(false);
+            return;
+        }
+
         // Simulate network delay for visual feedback
         await new Promise(resolve => setTimeout(resolve, 1000)); 
 
@@ -85,6 +105,10 @@ const UpdateUser = () => {
         setUser(updatedUser); 
         // Update the persisted session in localStorage to match the context
         localStorage.setItem('userSession', JSON.stringify(updatedUser)); 
+        // Move the cart, address book and orders along to the new key
+        dispatch(moveUserCart(fromOwner, toOwner));
+        moveAddressBook(fromOwner, toOwner);
+        moveOrdersInLocalStorage(fromOwner, toOwner);
 
         // --- UI Feedback & Redirection ---
         // Show success message
@@ -133,8 +157,8 @@ const UpdateUser = () => {
 
     // --- Component Rendering (JSX) ---
     return (
-        <Container className="vh-100"> {/* Full viewport height */}
-            <Row className="justify-content-center align-items-center h-100"> {/* Centering */}
+        <Container className="my-5">
+            <Row className="justify-content-center"> {/* Centering */}
                 <Col md={5}> {/* Column width control */}
                     {/* Conditional Success Alert */}
                     {showSuccessAlert && <Alert variant="success" onClose={() => setShowSuccessAlert(false)} dismissible>
@@ -206,6 +230,12 @@ const UpdateUser = () => {
                     </div>
                 </Col>
             </Row>
+            {/* Saved shipping and billing addresses */}
+            <Row className="justify-content-center">
+                <Col md={10}>
+                    <AddressBook />
+                </Col>
+            </Row>
         </Container>
     );
 };
@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import CartQuantityControl from '../CartQuantityControl';
+import '@testing-library/jest-dom'
+
+// Mock useTranslation hook
+jest.mock('react-i18next', () => ({
+    useTranslation: () => ({ t: (key) => key }),
+}));
+
+describe('CartQuantityControl Component', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('dispatches a single debounced update for several quick clicks', () => {
+        const onQuantityChange = jest.fn();
+        render(<CartQuantityControl title="Test Product" quantity={2} onQuantityChange={onQuantityChange} />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'increaseQuantity' }));
+        fireEvent.click(screen.getByRole('button', { name: 'increaseQuantity' }));
+        expect(screen.getByRole('spinbutton')).toHaveValue(4);
+        expect(onQuantityChange).not.toHaveBeenCalled();
+
+        act(() => { jest.runAllTimers(); });
+        expect(onQuantityChange).toHaveBeenCalledTimes(1);
+        expect(onQuantityChange).toHaveBeenCalledWith(4);
+    });
+
+    it('sends a pending quantity when the control goes away before the debounce ends', () => {
+        const onQuantityChange = jest.fn();
+        const { unmount } = render(<CartQuantityControl title="Test Product" quantity={2} onQuantityChange={onQuantityChange} />);
+
+        fireEvent.change(screen.getByRole('spinbutton'), { target: { value: '5' } });
+        unmount();
+
+        expect(onQuantityChange).toHaveBeenCalledTimes(1);
+        expect(onQuantityChange).toHaveBeenCalledWith(5);
+        act(() => { jest.runAllTimers(); });
+        expect(onQuantityChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('asks for confirmation before removing the line at zero', () => {
+        const onQuantityChange = jest.fn();
+        const confirmSpy = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+        render(<CartQuantityControl title="Test Product" quantity={1} onQuantityChange={onQuantityChange} />);
+
+        // Cancelled: the quantity is restored and nothing is dispatched
+        fireEvent.click(screen.getByRole('button', { name: 'decreaseQuantity' }));
+        expect(confirmSpy).toHaveBeenCalledTimes(1);
+        expect(onQuantityChange).not.toHaveBeenCalled();
+        expect(screen.getByRole('spinbutton')).toHaveValue(1);
+
+        // Confirmed: the line is removed
+        fireEvent.click(screen.getByRole('button', { name: 'decreaseQuantity' }));
+        expect(onQuantityChange).toHaveBeenCalledWith(0);
+    });
+
+    it('clamps typed quantities to the maximum', () => {
+        const onQuantityChange = jest.fn();
+        render(<CartQuantityControl title="Test Product" quantity={1} onQuantityChange={onQuantityChange} />);
+
+        fireEvent.change(screen.getByRole('spinbutton'), { target: { value: '250' } });
+        act(() => { jest.runAllTimers(); });
+
+        expect(onQuantityChange).toHaveBeenCalledWith(99);
+    });
+});
@@ -26,7 +26,7 @@ describe('ProductCatalog and ShoppingCart Integration', () => {
             if (query.queryKey[0] === 'products') {
                 return { // Mock for products query
                     data: [ 
-                        { id: 1, title: 'Integrated Product 1', price: 10, image: 'img1.jpg', category: 'category1' }
+                        { id: 1, title: 'Integrated Product 1', price: 1000, image: 'img1.jpg', category: 'category1' } // price in cents
                     ],
                     status: 'success',
                     error: null,
@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import '@testing-library/jest-dom';
+import ReturnsDesk from '../ReturnsDesk';
+import OrderReturns from '../OrderReturns';
+import UserContext, { UserState } from '../../context/UserContext';
+import { Order } from '../../types/Order';
+import { saveOrderToLocalStorage } from '../../utils/localStorageHelpers';
+import { cents, makeOrder } from '../../testUtils/fixtures';
+
+// Mock useTranslation hook
+jest.mock('react-i18next', () => ({
+    useTranslation: () => ({ t: (key: string) => key }),
+}));
+
+const placedAt = '2026-03-15T12:00:00.000Z';
+
+// A delivered order with one return request waiting for the store
+const order: Order = makeOrder({
+    status: 'delivered',
+    statusHistory: [{ status: 'placed', at: placedAt }, { status: 'delivered', at: placedAt }],
+    returns: [{
+        rmaNumber: 'RMA-1',
+        reason: 'damaged',
+        lines: [{ lineIndex: 0, quantity: 1 }],
+        refundAmount: cents(1250),
+        status: 'requested',
+        statusHistory: [{ status: 'requested', at: placedAt }],
+    }],
+});
+
+/**
+ * Renders the returns desk for a user.
+ * @param user - The logged-in user.
+ */
+const renderDesk = (user: UserState) => render(
+    <QueryClientProvider client={new QueryClient()}>
+        <UserContext.Provider value={{ user, setUser: jest.fn() }}>
+            <ReturnsDesk />
+        </UserContext.Provider>
+    </QueryClientProvider>
+);
+
+describe('return requests', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        saveOrderToLocalStorage(order);
+    });
+
+    it("show the customer where a request stands, without the store's actions", () => {
+        render(<OrderReturns order={order} />);
+
+        expect(screen.getByText('RMA-1')).toBeInTheDocument();
+        expect(screen.getByText('returnStatusRequested')).toBeInTheDocument();
+        expect(screen.queryByRole('button')).not.toBeInTheDocument();
+    });
+
+    it('keep the returns desk from customers', () => {
+        renderDesk({ name: 'Ada', isLoggedIn: true });
+
+        expect(screen.getByText('adminOnly')).toBeInTheDocument();
+        expect(screen.queryByText('RMA-1')).not.toBeInTheDocument();
+        expect(screen.queryByRole('button', { name: 'returnApprove' })).not.toBeInTheDocument();
+    });
+
+    it('are moved on by the admin from the returns desk', () => {
+        renderDesk({ name: 'Admin', isLoggedIn: true });
+
+        expect(screen.getByText('RMA-1')).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'returnApprove' })).toBeEnabled();
+    });
+});
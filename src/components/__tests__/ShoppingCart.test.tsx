@@ -29,9 +29,11 @@ describe('ShoppingCart Component', () => {
         const initialState = {
             cart: {
                 items: [
-                    { id: 1, title: 'Test Product 1', price: 10, quantity: 2, image: 'img1.jpg' },
-                    { id: 2, title: 'Test Product 2', price: 20, quantity: 1, image: 'img2.jpg' }
-                ]
+                    { id: 1, title: 'Test Product 1', price: 1000, quantity: 2, image: 'img1.jpg' },
+                    { id: 2, title: 'Test Product 2', price: 2000, quantity: 1, image: 'img2.jpg' }
+                ],
+                totalItems: 3,
+                totalPrice: 4000 // Prices are in cents
             }
         };
         const testStore = { ...store, getState: () => initialState }; // Mock store's getState
@@ -53,8 +55,10 @@ describe('ShoppingCart Component', () => {
         const initialState = {
             cart: {
                 items: [
-                    { id: 1, title: 'Test Product', price: 10, quantity: 1, image: 'img.jpg' }
-                ]
+                    { id: 1, title: 'Test Product', price: 1000, quantity: 1, image: 'img.jpg' }
+                ],
+                totalItems: 1,
+                totalPrice: 1000
             }
         };
         const testStore = { ...store, getState: () => initialState, dispatch: jest.fn() }; // Mock dispatch
@@ -67,9 +71,11 @@ describe('ShoppingCart Component', () => {
             </Provider>
         );
 
+        // Entering the cart dispatches a catalog fetch (cart validation); count only the click's dispatches
+        const dispatchesBeforeClick = testStore.dispatch.mock.calls.length;
         fireEvent.click(screen.getByRole('button', { name: /remove/i })); // Click "Remove" button
 
-        expect(testStore.dispatch).toHaveBeenCalledTimes(1);
+        expect(testStore.dispatch).toHaveBeenCalledTimes(dispatchesBeforeClick + 1);
         expect(testStore.dispatch).toHaveBeenCalledWith(removeFromCart(1));
     });
 
@@ -77,8 +83,10 @@ describe('ShoppingCart Component', () => {
         const initialState = {
             cart: {
                 items: [
-                    { id: 1, title: 'Test Product', price: 10, quantity: 1, image: 'img.jpg' }
-                ]
+                    { id: 1, title: 'Test Product', price: 1000, quantity: 1, image: 'img.jpg' }
+                ],
+                totalItems: 1,
+                totalPrice: 1000
             }
         };
         const testStore = { ...store, getState: () => initialState, dispatch: jest.fn() }; // Mock dispatch
@@ -91,9 +99,11 @@ describe('ShoppingCart Component', () => {
             </Provider>
         );
 
+        // Entering the cart dispatches a catalog fetch (cart validation); count only the click's dispatches
+        const dispatchesBeforeClick = testStore.dispatch.mock.calls.length;
         fireEvent.click(screen.getByRole('button', { name: /clearCart/i })); // Click "Clear Cart" button
 
-        expect(testStore.dispatch).toHaveBeenCalledTimes(1);
+        expect(testStore.dispatch).toHaveBeenCalledTimes(dispatchesBeforeClick + 1);
         expect(testStore.dispatch).toHaveBeenCalledWith(clearCart());
     });
 });
\ No newline at end of file
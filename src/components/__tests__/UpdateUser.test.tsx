@@ -0,0 +1,58 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { MemoryRouter } from 'react-router-dom';
+import '@testing-library/jest-dom';
+import UpdateUser from '../UpdateUser';
+import UserContext from '../../context/UserContext';
+import store from '../../store';
+import { EMPTY_ADDRESS_BOOK } from '../../features/addressBook/addressBook';
+import { ADDRESS_BOOKS_STORAGE_KEY, saveAddressBook } from '../../features/addressBook/addressBookStorage';
+import { getOrdersFromLocalStorage, saveOrderToLocalStorage } from '../../utils/localStorageHelpers';
+import { makeOrder } from '../../testUtils/fixtures';
+
+// Mock useTranslation hook
+jest.mock('react-i18next', () => ({
+    useTranslation: () => ({ t: (key: string) => key }),
+}));
+
+describe('UpdateUser', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        jest.useFakeTimers();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it("refuses a username whose data belongs to another user, leaving both users' data alone", async () => {
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-ADA', owner: 'user:ada' }));
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-BOB', owner: 'user:bob' }));
+        saveAddressBook('user:bob', EMPTY_ADDRESS_BOOK);
+        const books = localStorage.getItem(ADDRESS_BOOKS_STORAGE_KEY);
+        const setUser = jest.fn();
+
+        render(
+            <Provider store={store}>
+                <MemoryRouter>
+                    <UserContext.Provider value={{ user: { name: 'Ada', isLoggedIn: true }, setUser }}>
+                        <UpdateUser />
+                    </UserContext.Provider>
+                </MemoryRouter>
+            </Provider>
+        );
+        fireEvent.change(screen.getByLabelText('Username'), { target: { value: 'Bob' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Update Profile' }));
+        // Past the simulated update delay
+        await act(async () => { jest.runAllTimers(); });
+
+        expect(screen.getByText(/already in use/)).toBeInTheDocument();
+        expect(setUser).not.toHaveBeenCalled();
+        expect(getOrdersFromLocalStorage('user:ada').map(order => order.orderId)).toEqual(['ORD-ADA']);
+        expect(getOrdersFromLocalStorage('user:bob').map(order => order.orderId)).toEqual(['ORD-BOB']);
+        expect(localStorage.getItem(ADDRESS_BOOKS_STORAGE_KEY)).toBe(books);
+    });
+});
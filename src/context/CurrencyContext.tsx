@@ -0,0 +1,21 @@
+import React, { Dispatch, SetStateAction } from 'react';
+import type { CurrencyCode } from '../data/currencies';
+
+// 1. Define the type for the context value
+interface CurrencyContextType {
+    // The currency the user picked explicitly, or null to follow the active language
+    currencyCode: CurrencyCode | null;
+    setCurrencyCode: Dispatch<SetStateAction<CurrencyCode | null>>;
+}
+
+// 2. Create context with a default value that follows the language and cannot be changed.
+//    The default is only used if a component consumes the context without a
+//    <CurrencyContext.Provider> above it in the tree (e.g. in isolated component tests).
+const CurrencyContext = React.createContext<CurrencyContextType>({
+    currencyCode: null,
+    setCurrencyCode: () => { console.warn('setCurrencyCode function called on default CurrencyContext. Make sure you have a CurrencyContext.Provider wrapping your component tree.'); }
+});
+
+export default CurrencyContext;
+
+export type { CurrencyContextType };
@@ -0,0 +1,25 @@
+// A country the store ships to, with the address rules of its postal service
+export interface Country {
+    code: string; // ISO 3166-1 alpha-2 code
+    name: string;
+    postalCodePattern: RegExp; // Accepted postal code formats (checked case-insensitively)
+    postalCodeExample: string; // Shown as a hint next to the postal code field
+    regionRequired: boolean; // Whether the state/province line is mandatory
+}
+
+// Countries offered in address forms, in the order they are listed
+export const COUNTRIES: Country[] = [
+    { code: 'US', name: 'United States', postalCodePattern: /^\d{5}(-\d{4})?$/, postalCodeExample: '94105', regionRequired: true },
+    { code: 'CA', name: 'Canada', postalCodePattern: /^[a-z]\d[a-z] ?\d[a-z]\d$/i, postalCodeExample: 'K1A 0B1', regionRequired: true },
+    { code: 'GB', name: 'United Kingdom', postalCodePattern: /^[a-z]{1,2}\d[a-z\d]? ?\d[a-z]{2}$/i, postalCodeExample: 'SW1A 1AA', regionRequired: false },
+    { code: 'FR', name: 'France', postalCodePattern: /^\d{5}$/, postalCodeExample: '75001', regionRequired: false },
+    { code: 'ES', name: 'Spain', postalCodePattern: /^\d{5}$/, postalCodeExample: '28013', regionRequired: false },
+    { code: 'DE', name: 'Germany', postalCodePattern: /^\d{5}$/, postalCodeExample: '10115', regionRequired: false },
+];
+
+/**
+ * Looks up a country the store ships to.
+ * @param code - The ISO 3166-1 alpha-2 code.
+ * @returns {Country | undefined} The country, or undefined if the store doesn't ship there.
+ */
+export const findCountry = (code: string): Country | undefined => COUNTRIES.find(country => country.code === code);
@@ -0,0 +1,32 @@
+// --- Currency Configuration ---
+
+// Currencies prices can be displayed in
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'MXN';
+
+// Display and conversion settings for a single currency
+export interface CurrencyConfig {
+    code: CurrencyCode;
+    symbol: string; // Shown in the currency selector
+    decimals: number; // Number of minor-unit digits, e.g. 2 for USD, 0 for JPY
+    rate: number; // Units of this currency per 1 unit of BASE_CURRENCY
+}
+
+// All prices are stored (in cents) in this currency; other currencies are display conversions
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+// Local exchange-rate table. Edit the rates here to reconfigure the conversions;
+// they are not fetched from anywhere.
+export const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
+    USD: { code: 'USD', symbol: '$', decimals: 2, rate: 1 },
+    EUR: { code: 'EUR', symbol: '€', decimals: 2, rate: 0.92 },
+    GBP: { code: 'GBP', symbol: '£', decimals: 2, rate: 0.79 },
+    JPY: { code: 'JPY', symbol: '¥', decimals: 0, rate: 151.5 },
+    MXN: { code: 'MXN', symbol: 'MX$', decimals: 2, rate: 17.1 },
+};
+
+// Currency used for each app language until the user picks one explicitly
+export const LANGUAGE_CURRENCIES: Record<string, CurrencyCode> = {
+    en: 'USD',
+    es: 'EUR',
+    fr: 'EUR',
+};
@@ -0,0 +1,10 @@
+import { Money } from '../utils/money';
+
+// Charge for gift wrapping one unit of a cart line, in cents
+export const GIFT_WRAP_PRICE = 399 as Money;
+
+// Longest gift message printed on the card, in characters
+export const MAX_GIFT_MESSAGE_LENGTH = 200;
+
+// Longest packing note on a cart line, in characters
+export const MAX_LINE_NOTE_LENGTH = 200;
@@ -0,0 +1,27 @@
+import { Money } from '../utils/money';
+
+// A volume discount for buying several units of the same product on one cart line
+export interface QuantityTier {
+    minQuantity: number; // Applies to lines with at least this many units
+    percentOff: number; // Discount off the list price, e.g. 5 for 5%
+}
+
+// A fixed price for buying a set of products together
+export interface ProductBundle {
+    id: string;
+    label: string; // Translation key of the bundle's name
+    productIds: number[]; // One unit of each of these products makes one bundle
+    price: Money; // Price of one complete bundle, in cents
+}
+
+// Quantity tiers for every product. Lines below the lowest tier pay the list price.
+export const QUANTITY_TIERS: QuantityTier[] = [
+    { minQuantity: 5, percentOff: 5 },
+    { minQuantity: 10, percentOff: 10 },
+];
+
+// Fixed-price bundles, applied in this order. Product ids are those of the products API.
+export const PRODUCT_BUNDLES: ProductBundle[] = [
+    { id: 'weekend-getaway', label: 'bundleWeekendGetaway', productIds: [1, 2, 3], price: 16999 as Money },
+    { id: 'storage-upgrade', label: 'bundleStorageUpgrade', productIds: [9, 10], price: 15999 as Money },
+];
@@ -0,0 +1,51 @@
+import { Promotion } from '../features/promotions/promotionTypes';
+import { Money } from '../utils/money';
+
+// Promo codes currently on offer. Amounts are in cents; dates are ISO strings.
+// Descriptions are translation keys (see PromotionDescription); keep their values in step with the rules.
+const promotions: Promotion[] = [
+    {
+        code: 'SAVE10',
+        description: { key: 'promoPercentOffOrder', values: { percent: 10 } },
+        rules: [{ type: 'percentage', percent: 10 }],
+        expiresAt: '2027-12-31T23:59:59Z',
+    },
+    {
+        code: 'TAKE10',
+        description: { key: 'promoAmountOffMinimumSpend', amounts: { amount: 1000 as Money, minimum: 5000 as Money } },
+        rules: [{ type: 'fixedAmount', amount: 1000 as Money }],
+        minimumSpend: 5000 as Money,
+        expiresAt: '2027-12-31T23:59:59Z',
+    },
+    {
+        code: 'TECH15',
+        description: { key: 'promoPercentOffElectronics', values: { percent: 15 } },
+        rules: [{ type: 'percentage', percent: 15, category: 'electronics' }],
+        expiresAt: '2027-06-30T23:59:59Z',
+    },
+    {
+        code: 'SHIRTS3FOR2',
+        description: { key: 'promoBuyMensClothingGetFree', values: { buy: 2, get: 1 } },
+        rules: [{ type: 'buyXGetY', buy: 2, get: 1, category: "men's clothing" }],
+        expiresAt: '2027-12-31T23:59:59Z',
+    },
+    {
+        code: 'BIGSPENDER',
+        description: { key: 'promoBigSpender', values: { percent: 20 }, amounts: { amount: 500 as Money, minimum: 20000 as Money } },
+        rules: [
+            { type: 'percentage', percent: 20, category: 'jewelery', description: { key: 'promoPercentOffJewelry', values: { percent: 20 } } },
+            { type: 'fixedAmount', amount: 500 as Money, description: { key: 'promoAmountOffBigOrders', amounts: { amount: 500 as Money } } },
+        ],
+        minimumSpend: 20000 as Money,
+        expiresAt: '2027-12-31T23:59:59Z',
+    },
+    {
+        code: 'SPRING24',
+        description: { key: 'promoSpringSale', values: { percent: 25 } },
+        rules: [{ type: 'percentage', percent: 25 }],
+        startsAt: '2024-03-01T00:00:00Z',
+        expiresAt: '2024-05-31T23:59:59Z',
+    },
+];
+
+export default promotions;
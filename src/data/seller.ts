@@ -0,0 +1,17 @@
+// Seller details printed on invoices
+export interface SellerDetails {
+    name: string;
+    addressLines: string[];
+    email: string;
+    website: string;
+    taxId: string; // Tax registration number shown on every invoice
+}
+
+// Configurable seller details. Edit them here; nothing is fetched.
+export const SELLER: SellerDetails = {
+    name: 'Advanced E-Commerce Store',
+    addressLines: ['100 Market Street, Suite 300', 'San Francisco, CA 94105', 'United States'],
+    email: 'billing@advanced-ecommerce.example',
+    website: 'advanced-ecommerce.example',
+    taxId: 'US-EIN 00-0000000',
+};
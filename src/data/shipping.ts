@@ -0,0 +1,22 @@
+import { Money } from '../utils/money';
+
+// Delivery options offered at checkout
+export type ShippingMethodId = 'standard' | 'express' | 'free';
+
+export interface ShippingMethod {
+    id: ShippingMethodId;
+    label: string; // Translation key of the method's name
+    cost: Money; // Flat cost in cents
+    estimatedDays: string; // Shown next to the label, e.g. "3-5"
+    minimumSubtotal?: Money; // Only offered once the discounted subtotal (in cents) reaches this
+}
+
+// Used when the selected method is unknown or no longer available
+export const DEFAULT_SHIPPING_METHOD: ShippingMethodId = 'standard';
+
+// Shipping methods, in the order they are listed. Costs are in cents.
+export const SHIPPING_METHODS: ShippingMethod[] = [
+    { id: 'standard', label: 'shippingStandard', cost: 599 as Money, estimatedDays: '3-5' },
+    { id: 'express', label: 'shippingExpress', cost: 1499 as Money, estimatedDays: '1-2' },
+    { id: 'free', label: 'shippingFree', cost: 0 as Money, estimatedDays: '5-8', minimumSubtotal: 7500 as Money },
+];
@@ -0,0 +1,20 @@
+// Sales tax settings for a region the store ships to
+export interface TaxRegion {
+    code: string;
+    name: string;
+    rate: number; // Sales tax rate, e.g. 0.0725 for 7.25%
+    exemptCategories: string[]; // Product.category values that are not taxed in this region
+    taxShipping: boolean; // Whether the shipping charge is taxed too
+}
+
+// Used when no region has been picked yet
+export const DEFAULT_TAX_REGION = 'US-CA';
+
+// Configurable sales tax table. Edit the rates and exemptions here; nothing is fetched.
+export const TAX_REGIONS: TaxRegion[] = [
+    { code: 'US-CA', name: 'California', rate: 0.0725, exemptCategories: [], taxShipping: false },
+    { code: 'US-NY', name: 'New York', rate: 0.04, exemptCategories: ["men's clothing", "women's clothing"], taxShipping: true },
+    { code: 'US-TX', name: 'Texas', rate: 0.0625, exemptCategories: [], taxShipping: true },
+    { code: 'US-PA', name: 'Pennsylvania', rate: 0.06, exemptCategories: ["men's clothing", "women's clothing"], taxShipping: true },
+    { code: 'US-OR', name: 'Oregon', rate: 0, exemptCategories: [], taxShipping: false },
+];
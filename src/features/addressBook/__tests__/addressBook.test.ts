@@ -0,0 +1,84 @@
+import {
+    EMPTY_ADDRESS_BOOK,
+    addAddress,
+    getAddressesOfType,
+    getDefaultAddress,
+    removeAddress,
+    setDefaultAddress,
+    updateAddress,
+} from '../addressBook';
+import { ADDRESS_BOOKS_STORAGE_KEY, loadAddressBook, moveAddressBook, removeAddressBook, saveAddressBook } from '../addressBookStorage';
+import { EMPTY_SHIPPING_ADDRESS } from '../../checkout/checkoutSlice';
+
+const home = { ...EMPTY_SHIPPING_ADDRESS, fullName: 'Ada Lovelace', line1: '12 Analytical St', city: 'Springfield', region: 'CA', postalCode: '90210' };
+const office = { ...home, line1: '1 Engine Way', postalCode: '94105' };
+
+describe('address book', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('makes the first address of each type its default', () => {
+        let book = addAddress(EMPTY_ADDRESS_BOOK, { label: 'Home', type: 'shipping', address: home });
+        book = addAddress(book, { label: 'Office', type: 'shipping', address: office });
+        book = addAddress(book, { label: 'Billing', type: 'billing', address: home });
+
+        expect(getDefaultAddress(book, 'shipping')?.label).toBe('Home');
+        expect(getDefaultAddress(book, 'billing')?.label).toBe('Billing');
+        expect(getAddressesOfType(book, 'shipping').map(entry => entry.label)).toEqual(['Home', 'Office']);
+    });
+
+    it('lists the default first and lets another address take over', () => {
+        let book = addAddress(EMPTY_ADDRESS_BOOK, { label: 'Home', type: 'shipping', address: home });
+        book = addAddress(book, { label: ' Office ', type: 'shipping', address: office }, true);
+
+        expect(getAddressesOfType(book, 'shipping').map(entry => entry.label)).toEqual(['Office', 'Home']);
+        const homeId = book.addresses[0].id;
+        book = setDefaultAddress(book, homeId);
+        expect(book.defaults.shipping).toBe(homeId);
+    });
+
+    it('hands the default on when the default is deleted or changes type', () => {
+        let book = addAddress(EMPTY_ADDRESS_BOOK, { label: 'Home', type: 'shipping', address: home });
+        book = addAddress(book, { label: 'Office', type: 'shipping', address: office });
+        const [homeEntry, officeEntry] = book.addresses;
+
+        const moved = updateAddress(book, homeEntry.id, { type: 'billing' });
+        expect(moved.defaults).toEqual({ shipping: officeEntry.id, billing: homeEntry.id });
+
+        book = removeAddress(book, homeEntry.id);
+        expect(book.defaults.shipping).toBe(officeEntry.id);
+        book = removeAddress(book, officeEntry.id);
+        expect(book).toEqual(EMPTY_ADDRESS_BOOK);
+    });
+
+    it('never shares address objects with the caller', () => {
+        const address = { ...home };
+        const book = addAddress(EMPTY_ADDRESS_BOOK, { label: 'Home', type: 'shipping', address });
+        address.line1 = 'Somewhere else';
+        expect(book.addresses[0].address.line1).toBe(home.line1);
+    });
+
+    it('saves a book per user and ignores corrupt ones', () => {
+        const book = addAddress(EMPTY_ADDRESS_BOOK, { label: 'Home', type: 'shipping', address: home });
+        saveAddressBook('user:ada', book);
+
+        expect(loadAddressBook('user:ada')).toEqual(book);
+        expect(loadAddressBook('user:grace')).toEqual(EMPTY_ADDRESS_BOOK);
+
+        localStorage.setItem(ADDRESS_BOOKS_STORAGE_KEY, JSON.stringify({ 'user:ada': { version: 1, addresses: [{ id: 'x' }], defaults: {} } }));
+        expect(loadAddressBook('user:ada')).toEqual(EMPTY_ADDRESS_BOOK);
+    });
+
+    it('moves a book to a new owner and deletes it', () => {
+        const book = addAddress(EMPTY_ADDRESS_BOOK, { label: 'Home', type: 'shipping', address: home });
+        saveAddressBook('user:ada', book);
+
+        moveAddressBook('user:ada', 'user:countess');
+        expect(loadAddressBook('user:ada')).toEqual(EMPTY_ADDRESS_BOOK);
+        expect(loadAddressBook('user:countess')).toEqual(book);
+
+        removeAddressBook('user:countess');
+        expect(loadAddressBook('user:countess')).toEqual(EMPTY_ADDRESS_BOOK);
+    });
+});
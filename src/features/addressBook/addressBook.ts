@@ -0,0 +1,154 @@
+// --- Address Book ---
+
+import { ShippingAddress } from '../checkout/checkoutTypes';
+
+// What a saved address is used for
+export type AddressType = 'shipping' | 'billing';
+
+export const ADDRESS_TYPES: AddressType[] = ['shipping', 'billing'];
+
+// Translation keys of the address types
+export const ADDRESS_TYPE_LABELS: Record<AddressType, string> = {
+    shipping: 'addressTypeShipping',
+    billing: 'addressTypeBilling',
+};
+
+// An address saved on the user's profile
+export interface SavedAddress {
+    id: string;
+    label: string; // Chosen by the user, e.g. "Home" or "Office"
+    type: AddressType;
+    address: ShippingAddress;
+}
+
+// All addresses of one user, with the default address of each type (null when there are none)
+export interface AddressBook {
+    addresses: SavedAddress[];
+    defaults: Record<AddressType, string | null>;
+}
+
+export const EMPTY_ADDRESS_BOOK: AddressBook = {
+    addresses: [],
+    defaults: { shipping: null, billing: null },
+};
+
+// Longest label accepted for a saved address
+export const MAX_ADDRESS_LABEL_LENGTH = 40;
+
+/**
+ * Creates a reasonably unique id for a new saved address.
+ * @param now - The current time.
+ * @returns {string} The id.
+ */
+const createAddressId = (now: Date): string =>
+    `ADDR-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Cleans up a label as typed.
+ * @param label - The label as typed.
+ * @returns {string} The trimmed label, cut to MAX_ADDRESS_LABEL_LENGTH.
+ */
+const normalizeLabel = (label: string): string => label.trim().slice(0, MAX_ADDRESS_LABEL_LENGTH);
+
+/**
+ * Picks a default for every type that has addresses but no (valid) default:
+ * the first address of that type. Types without addresses have no default.
+ * @param addresses - The addresses of the book.
+ * @param defaults - The current defaults.
+ * @returns The repaired defaults.
+ */
+const repairDefaults = (addresses: SavedAddress[], defaults: AddressBook['defaults']): AddressBook['defaults'] => {
+    const repaired = { ...defaults };
+    ADDRESS_TYPES.forEach(type => {
+        const ofType = addresses.filter(entry => entry.type === type);
+        if (!ofType.some(entry => entry.id === repaired[type])) {
+            repaired[type] = ofType[0]?.id ?? null;
+        }
+    });
+    return repaired;
+};
+
+// --- Book Operations ---
+// All operations return a new book and leave the one passed in untouched.
+
+/**
+ * Adds an address to the book. The first address of a type becomes its default.
+ * @param book - The current book.
+ * @param entry - The label, type and address to save.
+ * @param makeDefault - Whether the address becomes the default of its type.
+ * @param now - The current time, used for the id.
+ * @returns {AddressBook} The updated book.
+ */
+export const addAddress = (book: AddressBook, entry: Omit<SavedAddress, 'id'>, makeDefault = false, now: Date = new Date()): AddressBook => {
+    const saved: SavedAddress = { ...entry, id: createAddressId(now), label: normalizeLabel(entry.label), address: { ...entry.address } };
+    const addresses = [...book.addresses, saved];
+    const defaults = makeDefault ? { ...book.defaults, [saved.type]: saved.id } : book.defaults;
+    return { addresses, defaults: repairDefaults(addresses, defaults) };
+};
+
+/**
+ * Changes a saved address. Orders keep their own copy of the address they shipped to,
+ * so editing an address never changes past orders.
+ * @param book - The current book.
+ * @param id - The id of the address to change.
+ * @param changes - The new label, type and/or address.
+ * @returns {AddressBook} The updated book (unchanged if there is no such address).
+ */
+export const updateAddress = (book: AddressBook, id: string, changes: Partial<Omit<SavedAddress, 'id'>>): AddressBook => {
+    const addresses = book.addresses.map(entry => entry.id !== id ? entry : {
+        ...entry,
+        ...changes,
+        label: normalizeLabel(changes.label ?? entry.label),
+        address: { ...(changes.address ?? entry.address) },
+    });
+    // Changing the type may leave the old type without a default (or the new one with two candidates)
+    return { addresses, defaults: repairDefaults(addresses, book.defaults) };
+};
+
+/**
+ * Deletes a saved address. If it was a default, the next address of its type takes over.
+ * @param book - The current book.
+ * @param id - The id of the address to delete.
+ * @returns {AddressBook} The updated book.
+ */
+export const removeAddress = (book: AddressBook, id: string): AddressBook => {
+    const addresses = book.addresses.filter(entry => entry.id !== id);
+    return { addresses, defaults: repairDefaults(addresses, book.defaults) };
+};
+
+/**
+ * Makes a saved address the default of its type.
+ * @param book - The current book.
+ * @param id - The id of the new default.
+ * @returns {AddressBook} The updated book (unchanged if there is no such address).
+ */
+export const setDefaultAddress = (book: AddressBook, id: string): AddressBook => {
+    const entry = book.addresses.find(candidate => candidate.id === id);
+    if (!entry) return book;
+    return { ...book, defaults: { ...book.defaults, [entry.type]: id } };
+};
+
+// --- Queries ---
+
+/**
+ * Lists the saved addresses of one type, default first.
+ * @param book - The address book.
+ * @param type - The type to list.
+ * @returns {SavedAddress[]} The addresses of that type.
+ */
+export const getAddressesOfType = (book: AddressBook, type: AddressType): SavedAddress[] => {
+    const ofType = book.addresses.filter(entry => entry.type === type);
+    return [
+        ...ofType.filter(entry => entry.id === book.defaults[type]),
+        ...ofType.filter(entry => entry.id !== book.defaults[type]),
+    ];
+};
+
+/**
+ * Finds the default address of a type.
+ * @param book - The address book.
+ * @param type - The type of address.
+ * @returns {SavedAddress | undefined} The default address, or undefined if the user saved none of that type.
+ */
+export const getDefaultAddress = (book: AddressBook, type: AddressType): SavedAddress | undefined =>
+    book.addresses.find(entry => entry.id === book.defaults[type]);
@@ -0,0 +1,129 @@
+// --- Address Book Persistence ---
+
+import { ADDRESS_TYPES, AddressBook, EMPTY_ADDRESS_BOOK, SavedAddress } from './addressBook';
+import { isValidShippingAddress } from '../checkout/checkoutStorage';
+
+// localStorage key holding the address books of logged-in users, keyed by owner (see getCartOwnerKey)
+export const ADDRESS_BOOKS_STORAGE_KEY = 'addressBooks';
+
+// Bump this whenever the persisted address book shape changes.
+// Stored books with any other version are discarded on load.
+export const ADDRESS_BOOK_STORAGE_VERSION = 1;
+
+// Shape of each book written to localStorage
+interface PersistedAddressBook extends AddressBook {
+    version: number;
+}
+
+// --- Validation ---
+
+/**
+ * Checks that an unknown value is a saved address we can safely restore.
+ * @param value - A single parsed entry from the stored addresses array.
+ * @returns {boolean} True if the entry has an id, a label, a known type and a complete address.
+ */
+const isValidSavedAddress = (value: unknown): value is SavedAddress => {
+    if (typeof value !== 'object' || value === null) return false;
+    const entry = value as Partial<SavedAddress>;
+    return (
+        typeof entry.id === 'string' &&
+        typeof entry.label === 'string' &&
+        ADDRESS_TYPES.some(type => type === entry.type) &&
+        isValidShippingAddress(entry.address)
+    );
+};
+
+/**
+ * Checks that a parsed value is an address book of the current version.
+ * @param value - The stored book of one owner.
+ * @returns {boolean} True if every address is valid and every default points at an address of its type.
+ */
+const isValidPersistedAddressBook = (value: unknown): value is PersistedAddressBook => {
+    if (typeof value !== 'object' || value === null) return false;
+    const book = value as Partial<PersistedAddressBook>;
+    if (book.version !== ADDRESS_BOOK_STORAGE_VERSION) return false;
+    if (!Array.isArray(book.addresses) || !book.addresses.every(isValidSavedAddress)) return false;
+    if (typeof book.defaults !== 'object' || book.defaults === null) return false;
+    const { addresses, defaults } = book as PersistedAddressBook;
+    return ADDRESS_TYPES.every(type =>
+        defaults[type] === null || addresses.some(entry => entry.id === defaults[type] && entry.type === type)
+    );
+};
+
+// --- Storage Helpers ---
+
+/**
+ * Reads every stored address book from localStorage.
+ * @returns {Record<string, unknown>} The raw books keyed by owner, or an empty object.
+ */
+const getAddressBooks = (): Record<string, unknown> => {
+    const stored = localStorage.getItem(ADDRESS_BOOKS_STORAGE_KEY);
+    try {
+        const parsed: unknown = stored ? JSON.parse(stored) : {};
+        return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+            ? parsed as Record<string, unknown>
+            : {};
+    } catch (error) {
+        console.error("Error parsing address books from localStorage:", error);
+        return {};
+    }
+};
+
+/**
+ * Retrieves the address book of a logged-in user.
+ * A stored book that fails validation is treated as empty.
+ * @param owner - The owner key of the user.
+ * @returns {AddressBook} The user's address book (empty if they have none).
+ */
+export const loadAddressBook = (owner: string): AddressBook => {
+    const stored = getAddressBooks()[owner];
+    if (stored === undefined) return EMPTY_ADDRESS_BOOK;
+    if (!isValidPersistedAddressBook(stored)) {
+        console.warn("Ignoring a stored address book with an unrecognised format.");
+        return EMPTY_ADDRESS_BOOK;
+    }
+    return { addresses: stored.addresses, defaults: stored.defaults };
+};
+
+/**
+ * Checks whether an address book is stored under an owner key.
+ * @param owner - The owner key.
+ * @returns {boolean} True if a book is stored, even one that fails validation.
+ */
+export const hasAddressBook = (owner: string): boolean => getAddressBooks()[owner] !== undefined;
+
+/**
+ * Saves the address book of a logged-in user to localStorage.
+ * @param owner - The owner key of the user.
+ * @param book - The book to save.
+ */
+export const saveAddressBook = (owner: string, book: AddressBook) => {
+    const books = getAddressBooks();
+    const persisted: PersistedAddressBook = { version: ADDRESS_BOOK_STORAGE_VERSION, ...book };
+    books[owner] = persisted;
+    localStorage.setItem(ADDRESS_BOOKS_STORAGE_KEY, JSON.stringify(books));
+};
+
+/**
+ * Deletes the address book of a user (e.g. when their account is deleted).
+ * @param owner - The owner key of the user.
+ */
+export const removeAddressBook = (owner: string) => {
+    const books = getAddressBooks();
+    delete books[owner];
+    localStorage.setItem(ADDRESS_BOOKS_STORAGE_KEY, JSON.stringify(books));
+};
+
+/**
+ * Moves a user's address book to a new owner key (e.g. after a username change).
+ * @param fromOwner - The owner key the book is stored under.
+ * @param toOwner - The owner key to store it under from now on.
+ */
+export const moveAddressBook = (fromOwner: string, toOwner: string) => {
+    if (fromOwner === toOwner) return;
+    const books = getAddressBooks();
+    if (books[fromOwner] === undefined) return;
+    books[toOwner] = books[fromOwner];
+    delete books[fromOwner];
+    localStorage.setItem(ADDRESS_BOOKS_STORAGE_KEY, JSON.stringify(books));
+};
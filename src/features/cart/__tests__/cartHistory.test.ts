@@ -0,0 +1,94 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { addToCart, clearCart, loadCart, removeFromCart, updateQuantity } from '../cartSlice';
+import cartHistoryReducer, { MAX_CART_HISTORY } from '../cartHistorySlice';
+import { cartHistoryMiddleware, redoCartChange, undoCartChange } from '../cartHistory';
+import { buildCart } from '../cartSession';
+import { makeProduct } from '../../../testUtils/fixtures';
+
+const makeStore = () => configureStore({
+    reducer: { cart: cartReducer, cartHistory: cartHistoryReducer },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(cartHistoryMiddleware),
+});
+
+describe('cart undo/redo', () => {
+    it('restores the exact cart after clearCart and offers redo', () => {
+        const store = makeStore();
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(addToCart(makeProduct(2, 500)));
+        const filledCart = store.getState().cart;
+
+        store.dispatch(clearCart());
+        expect(store.getState().cartHistory.notice).toMatchObject({ kind: 'cartCleared' });
+
+        store.dispatch(undoCartChange());
+        expect(store.getState().cart).toEqual(filledCart);
+        expect(store.getState().cartHistory.notice).toMatchObject({ kind: 'changeUndone' });
+
+        store.dispatch(redoCartChange());
+        expect(store.getState().cart.items).toEqual([]);
+        expect(store.getState().cart.totalPrice).toBe(0);
+    });
+
+    it('names the product removed by removeFromCart or a quantity of zero', () => {
+        const store = makeStore();
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(addToCart(makeProduct(2, 500)));
+        // Adding is undoable but needs no notification
+        expect(store.getState().cartHistory.notice).toBeNull();
+
+        store.dispatch(removeFromCart(1));
+        expect(store.getState().cartHistory.notice).toMatchObject({ kind: 'itemRemoved', title: 'Product 1' });
+
+        store.dispatch(updateQuantity({ itemId: 2, quantity: 0 }));
+        expect(store.getState().cartHistory.notice).toMatchObject({ kind: 'itemRemoved', title: 'Product 2' });
+
+        store.dispatch(undoCartChange());
+        store.dispatch(undoCartChange());
+        expect(store.getState().cart.items.map(item => item.id)).toEqual([1, 2]);
+        expect(store.getState().cart.totalPrice).toBe(1500);
+    });
+
+    it('drops the redo stack when a new change is made', () => {
+        const store = makeStore();
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(clearCart());
+        store.dispatch(undoCartChange());
+
+        store.dispatch(addToCart(makeProduct(2, 500)));
+        store.dispatch(redoCartChange());
+
+        expect(store.getState().cartHistory.future).toEqual([]);
+        expect(store.getState().cart.items.map(item => item.id)).toEqual([1, 2]);
+    });
+
+    it('ignores actions that do not change the cart', () => {
+        const store = makeStore();
+        store.dispatch(removeFromCart(42));
+        store.dispatch(clearCart());
+        store.dispatch(undoCartChange());
+
+        expect(store.getState().cartHistory.past).toEqual([]);
+    });
+
+    it('keeps at most MAX_CART_HISTORY undo steps', () => {
+        const store = makeStore();
+        for (let id = 1; id <= MAX_CART_HISTORY + 5; id++) {
+            store.dispatch(addToCart(makeProduct(id, 100)));
+        }
+
+        expect(store.getState().cartHistory.past).toHaveLength(MAX_CART_HISTORY);
+        // The oldest remaining snapshot is the cart after the first five additions
+        expect(store.getState().cartHistory.past[0].items).toHaveLength(5);
+    });
+
+    it('forgets the history when another owner\'s cart is loaded', () => {
+        const store = makeStore();
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(clearCart());
+
+        store.dispatch(loadCart(buildCart('user:alice', [])));
+
+        expect(store.getState().cartHistory).toEqual({ past: [], future: [], notice: null });
+    });
+});
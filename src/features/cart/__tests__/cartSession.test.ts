@@ -0,0 +1,111 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { GUEST_CART_OWNER, MAX_ITEM_QUANTITY, addToCart } from '../cartSlice';
+import { cartPersistenceMiddleware, loadSavedCart } from '../cartStorage';
+import { activateUserCart, getCartOwnerKey, mergeCartItems, moveUserCart, switchToGuestCart } from '../cartSession';
+import { makeProduct } from '../../../testUtils/fixtures';
+
+const makeStore = () => configureStore({
+    reducer: { cart: cartReducer },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(cartPersistenceMiddleware),
+});
+
+describe('per-user cart sessions', () => {
+    beforeEach(() => {
+        sessionStorage.clear();
+        localStorage.clear();
+    });
+
+    it('derives owner keys from the user', () => {
+        expect(getCartOwnerKey({ name: '', isLoggedIn: false })).toBe(GUEST_CART_OWNER);
+        expect(getCartOwnerKey({ name: ' Alice ', isLoggedIn: true })).toBe('user:alice');
+        expect(getCartOwnerKey({ name: 'Alice', isLoggedIn: true, id: 7 })).toBe('user:7');
+    });
+
+    it('adds up quantities and prefers guest product details when merging', () => {
+        const userItems = [{ ...makeProduct(1, 1000), quantity: 2 }, { ...makeProduct(2, 500), quantity: 1 }];
+        const guestItems = [{ ...makeProduct(3, 100), quantity: 4 }, { ...makeProduct(1, 1200), quantity: 3 }];
+
+        expect(mergeCartItems(userItems, guestItems)).toEqual([
+            { ...makeProduct(1, 1200), quantity: 5 },
+            { ...makeProduct(2, 500), quantity: 1 },
+            { ...makeProduct(3, 100), quantity: 4 },
+        ]);
+    });
+
+    it('caps merged quantities at the line maximum', () => {
+        const merged = mergeCartItems([{ ...makeProduct(1, 1000), quantity: 60 }], [{ ...makeProduct(1, 1000), quantity: 60 }]);
+
+        expect(merged[0].quantity).toBe(MAX_ITEM_QUANTITY);
+    });
+
+    it('merges the guest cart into the saved cart on login and saves it again on logout', () => {
+        const store = makeStore();
+
+        // Alice fills her cart and logs out
+        store.dispatch(activateUserCart('user:alice'));
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(switchToGuestCart());
+        expect(store.getState().cart).toEqual({ owner: GUEST_CART_OWNER, items: [], totalItems: 0, totalPrice: 0, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA' });
+
+        // As a guest she adds more, then logs back in
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(addToCart(makeProduct(2, 500)));
+        store.dispatch(activateUserCart('user:alice'));
+
+        const cart = store.getState().cart;
+        expect(cart.owner).toBe('user:alice');
+        expect(cart.items.map(item => [item.id, item.quantity])).toEqual([[1, 2], [2, 1]]);
+        expect(cart.totalItems).toBe(3);
+        expect(cart.totalPrice).toBe(2500);
+    });
+
+    it('does not leak one user\'s cart to the next user', () => {
+        const store = makeStore();
+
+        store.dispatch(activateUserCart('user:alice'));
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(switchToGuestCart());
+        store.dispatch(activateUserCart('user:bob'));
+
+        expect(store.getState().cart.items).toEqual([]);
+        expect(loadSavedCart('user:alice')?.totalItems).toBe(1);
+    });
+
+    it('discards the saved cart when asked to', () => {
+        const store = makeStore();
+
+        store.dispatch(activateUserCart('user:alice'));
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(switchToGuestCart({ discardSaved: true }));
+
+        expect(loadSavedCart('user:alice')).toBeUndefined();
+    });
+
+    it('moves the cart along when the user is renamed, so it is there at the next login', () => {
+        const store = makeStore();
+
+        store.dispatch(activateUserCart('user:alice'));
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(moveUserCart('user:alice', 'user:alicia'));
+        expect(store.getState().cart.owner).toBe('user:alicia');
+
+        store.dispatch(switchToGuestCart());
+        store.dispatch(activateUserCart('user:alicia'));
+
+        expect(store.getState().cart.items.map(item => [item.id, item.quantity])).toEqual([[1, 1]]);
+        expect(loadSavedCart('user:alice')).toBeUndefined();
+    });
+
+    it('moves the saved cart of a user whose cart is not active', () => {
+        const store = makeStore();
+        store.dispatch(activateUserCart('user:alice'));
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(switchToGuestCart());
+
+        store.dispatch(moveUserCart('user:alice', 'user:alicia'));
+
+        expect(store.getState().cart.owner).toBe(GUEST_CART_OWNER);
+        expect(loadSavedCart('user:alicia')).toMatchObject({ owner: 'user:alicia', totalItems: 1 });
+        expect(loadSavedCart('user:alice')).toBeUndefined();
+    });
+});
@@ -0,0 +1,53 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { MAX_ITEM_QUANTITY, addToCart } from '../cartSlice';
+import { buildShareUrl, decodeSharedCart, encodeSharedCart, importSharedCart, resolveSharedCart } from '../cartShare';
+import { makeProduct } from '../../../testUtils/fixtures';
+
+const catalog = [makeProduct(1, 1000), makeProduct(2, 500), makeProduct(10, 250)];
+
+describe('shareable cart links', () => {
+    it('encodes ids and quantities compactly and decodes them back', () => {
+        const lines = [{ id: 1, quantity: 2 }, { id: 10, quantity: 1 }, { id: 20, quantity: 36 }];
+        const encoded = encodeSharedCart(lines);
+
+        expect(encoded).toBe('1~1-2.a-1.k-10');
+        expect(decodeSharedCart(encoded)).toEqual(lines);
+    });
+
+    it('builds a /cart link that needs no escaping', () => {
+        expect(buildShareUrl([{ id: 1, quantity: 2 }], 'https://shop.example')).toBe('https://shop.example/cart?share=1~1-2');
+    });
+
+    it('rejects malformed links and unknown versions', () => {
+        expect(decodeSharedCart('')).toBeNull();
+        expect(decodeSharedCart('2~1-2')).toBeNull();
+        expect(decodeSharedCart('1~1-2.oops')).toBeNull();
+        expect(decodeSharedCart('1~1-0')).toBeNull();
+        expect(decodeSharedCart('1~')).toBeNull();
+    });
+
+    it('combines repeated ids and caps quantities', () => {
+        expect(decodeSharedCart('1~1-2.1-3.2-zz')).toEqual([{ id: 1, quantity: 5 }, { id: 2, quantity: MAX_ITEM_QUANTITY }]);
+    });
+
+    it('reports ids that are not in the catalog', () => {
+        const resolved = resolveSharedCart([{ id: 1, quantity: 2 }, { id: 99, quantity: 1 }], catalog);
+
+        expect(resolved.items).toEqual([{ ...makeProduct(1, 1000), quantity: 2 }]);
+        expect(resolved.unknownIds).toEqual([99]);
+    });
+
+    it('replaces or merges with the current cart', () => {
+        const store = configureStore({ reducer: { cart: cartReducer } });
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        const { items } = resolveSharedCart([{ id: 1, quantity: 2 }, { id: 2, quantity: 1 }], catalog);
+
+        store.dispatch(importSharedCart(items, 'merge'));
+        expect(store.getState().cart.items.map(item => [item.id, item.quantity])).toEqual([[1, 3], [2, 1]]);
+        expect(store.getState().cart.totalPrice).toBe(3500);
+
+        store.dispatch(importSharedCart(items, 'replace'));
+        expect(store.getState().cart.items.map(item => [item.id, item.quantity])).toEqual([[1, 2], [2, 1]]);
+        expect(store.getState().cart.totalItems).toBe(3);
+    });
+});
@@ -0,0 +1,86 @@
+import cartReducer, { MAX_ITEM_QUANTITY, addToCart, setLineGift, setLineNote, updateQuantity } from '../cartSlice';
+import { makeProduct } from '../../../testUtils/fixtures';
+
+const product = makeProduct(1, 1000, { title: 'Test Product' });
+
+// Builds a cart holding `quantity` of the test product plus one unit of a second product
+const cartWith = (quantity: number) => {
+    let state = cartReducer(undefined, addToCart(makeProduct(2, 500)));
+    for (let i = 0; i < quantity; i++) {
+        state = cartReducer(state, addToCart(product));
+    }
+    return state;
+};
+
+describe('cartSlice updateQuantity', () => {
+    it('sets the quantity and adjusts the totals', () => {
+        const state = cartReducer(cartWith(1), updateQuantity({ itemId: 1, quantity: 4 }));
+
+        expect(state.items.find(item => item.id === 1)?.quantity).toBe(4);
+        expect(state.totalItems).toBe(5);
+        expect(state.totalPrice).toBe(4500);
+    });
+
+    it('removes the line when the quantity is zero or less', () => {
+        const state = cartReducer(cartWith(3), updateQuantity({ itemId: 1, quantity: 0 }));
+
+        expect(state.items.map(item => item.id)).toEqual([2]);
+        expect(state.totalItems).toBe(1);
+        expect(state.totalPrice).toBe(500);
+        expect(cartReducer(cartWith(3), updateQuantity({ itemId: 1, quantity: -2 }))).toEqual(state);
+    });
+
+    it('clamps quantities above the maximum', () => {
+        const state = cartReducer(cartWith(1), updateQuantity({ itemId: 1, quantity: 500 }));
+
+        expect(state.items.find(item => item.id === 1)?.quantity).toBe(MAX_ITEM_QUANTITY);
+        expect(state.totalItems).toBe(MAX_ITEM_QUANTITY + 1);
+    });
+
+    it('rounds fractional quantities down', () => {
+        const state = cartReducer(cartWith(1), updateQuantity({ itemId: 1, quantity: 2.7 }));
+
+        expect(state.items.find(item => item.id === 1)?.quantity).toBe(2);
+    });
+
+    it('ignores unknown items and NaN quantities', () => {
+        const initial = cartWith(2);
+
+        expect(cartReducer(initial, updateQuantity({ itemId: 99, quantity: 3 }))).toEqual(initial);
+        expect(cartReducer(initial, updateQuantity({ itemId: 1, quantity: NaN }))).toEqual(initial);
+    });
+
+    it('does not add beyond the maximum quantity', () => {
+        const full = cartReducer(cartWith(1), updateQuantity({ itemId: 1, quantity: MAX_ITEM_QUANTITY }));
+
+        expect(cartReducer(full, addToCart(product))).toEqual(full);
+    });
+});
+
+describe('cartSlice gift options and notes', () => {
+    it('marks a line as a gift, trimming the message, and unmarks it', () => {
+        const gifted = cartReducer(cartWith(1), setLineGift({ itemId: 1, gift: { wrap: true, message: '  Enjoy!  ' } }));
+
+        expect(gifted.items.find(item => item.id === 1)?.gift).toEqual({ wrap: true, message: 'Enjoy!' });
+        // Gift wrap is charged by the pricing pipeline, not in the cart totals
+        expect(gifted.totalPrice).toBe(1500);
+
+        const ungifted = cartReducer(gifted, setLineGift({ itemId: 1, gift: null }));
+        expect(ungifted.items.find(item => item.id === 1)).not.toHaveProperty('gift');
+    });
+
+    it('sets a packing note and removes it when emptied', () => {
+        const noted = cartReducer(cartWith(1), setLineNote({ itemId: 1, note: ' Fragile ' }));
+        expect(noted.items.find(item => item.id === 1)?.note).toBe('Fragile');
+
+        const cleared = cartReducer(noted, setLineNote({ itemId: 1, note: '   ' }));
+        expect(cleared.items.find(item => item.id === 1)).not.toHaveProperty('note');
+    });
+
+    it('keeps the gift options when more units are added', () => {
+        const gifted = cartReducer(cartWith(1), setLineGift({ itemId: 1, gift: { wrap: false, message: 'Hi' } }));
+        const state = cartReducer(gifted, addToCart(product));
+
+        expect(state.items.find(item => item.id === 1)).toMatchObject({ quantity: 2, gift: { wrap: false, message: 'Hi' } });
+    });
+});
@@ -0,0 +1,118 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { GUEST_CART_OWNER, addToCart, clearCart } from '../cartSlice';
+import {
+    CART_STORAGE_KEY,
+    CART_STORAGE_VERSION,
+    cartPersistenceMiddleware,
+    loadCartState,
+    loadSavedCart,
+    saveCartState,
+} from '../cartStorage';
+import { cents, makeProduct } from '../../../testUtils/fixtures';
+
+const product = makeProduct(1, 1250, { title: 'Stored Product' });
+
+describe('cart storage', () => {
+    beforeEach(() => {
+        sessionStorage.clear();
+        localStorage.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('returns undefined when nothing is stored', () => {
+        expect(loadCartState()).toBeUndefined();
+    });
+
+    it('restores items and totals that were saved', () => {
+        const cart = { owner: GUEST_CART_OWNER, items: [{ ...product, quantity: 2 }], totalItems: 2, totalPrice: cents(2500), promoCode: 'SAVE10', shippingMethod: 'express' as const, taxRegion: 'US-NY' };
+        saveCartState(cart);
+
+        expect(loadCartState()).toEqual(cart);
+    });
+
+    it('fills in default delivery selections for carts saved without them', () => {
+        sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify({
+            version: CART_STORAGE_VERSION, owner: GUEST_CART_OWNER, items: [], totalItems: 0, totalPrice: 0,
+        }));
+
+        expect(loadCartState()).toMatchObject({ promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA' });
+    });
+
+    it('drops carts with an unknown shipping method', () => {
+        sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify({
+            version: CART_STORAGE_VERSION, owner: GUEST_CART_OWNER, items: [], totalItems: 0, totalPrice: 0, shippingMethod: 'teleport',
+        }));
+
+        expect(loadCartState()).toBeUndefined();
+    });
+
+    it('drops corrupt JSON from storage', () => {
+        sessionStorage.setItem(CART_STORAGE_KEY, '{not json');
+
+        expect(loadCartState()).toBeUndefined();
+        expect(sessionStorage.getItem(CART_STORAGE_KEY)).toBeNull();
+    });
+
+    it('drops carts saved in the old bare-array format', () => {
+        sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify([{ ...product, quantity: 1 }]));
+
+        expect(loadCartState()).toBeUndefined();
+        expect(sessionStorage.getItem(CART_STORAGE_KEY)).toBeNull();
+    });
+
+    it('drops carts saved before carts had an owner', () => {
+        sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify({
+            version: 1,
+            items: [{ ...product, quantity: 1 }],
+            totalItems: 1,
+            totalPrice: 1250,
+        }));
+
+        expect(loadCartState()).toBeUndefined();
+    });
+
+    it('drops carts with fractional (dollar) prices', () => {
+        sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify({
+            version: CART_STORAGE_VERSION,
+            owner: GUEST_CART_OWNER,
+            items: [{ ...product, price: 12.5, quantity: 2 }],
+            totalItems: 2,
+            totalPrice: 25,
+        }));
+
+        expect(loadCartState()).toBeUndefined();
+    });
+
+    it('drops carts whose totals do not match their items', () => {
+        sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify({
+            version: CART_STORAGE_VERSION,
+            owner: GUEST_CART_OWNER,
+            items: [{ ...product, quantity: 2 }],
+            totalItems: 5,
+            totalPrice: 2500,
+        }));
+
+        expect(loadCartState()).toBeUndefined();
+    });
+
+    it('persists every cart change through the middleware', () => {
+        const store = configureStore({
+            reducer: { cart: cartReducer },
+            middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(cartPersistenceMiddleware),
+        });
+
+        store.dispatch(addToCart(product));
+        store.dispatch(addToCart(product));
+        expect(loadCartState()).toEqual({ owner: GUEST_CART_OWNER, items: [{ ...product, quantity: 2 }], totalItems: 2, totalPrice: 2500, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA' });
+
+        store.dispatch(clearCart());
+        expect(loadCartState()).toEqual({ owner: GUEST_CART_OWNER, items: [], totalItems: 0, totalPrice: 0, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA' });
+        // Guest carts are never saved for later
+        expect(loadSavedCart(GUEST_CART_OWNER)).toBeUndefined();
+    });
+});
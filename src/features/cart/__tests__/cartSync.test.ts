@@ -0,0 +1,102 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { addToCart, clearCart, loadCart, updateQuantity } from '../cartSlice';
+import { CartSyncChannel, createCartSyncMiddleware, isNewerStamp } from '../cartSync';
+import { toPersistedCart } from '../cartStorage';
+import { buildCart } from '../cartSession';
+import { makeProduct } from '../../../testUtils/fixtures';
+
+// In-memory stand-in for BroadcastChannel: messages reach every other channel asynchronously
+const createHub = () => {
+    const channels: CartSyncChannel[] = [];
+    const connect = (): CartSyncChannel => {
+        const channel: CartSyncChannel = {
+            onmessage: null,
+            postMessage: (message) => {
+                const data = JSON.parse(JSON.stringify(message));
+                channels
+                    .filter(other => other !== channel)
+                    .forEach(other => setTimeout(() => other.onmessage?.({ data } as MessageEvent), 0));
+            },
+        };
+        channels.push(channel);
+        return channel;
+    };
+    return { connect };
+};
+
+const makeTab = (channel: CartSyncChannel, tabId: string) => configureStore({
+    reducer: { cart: cartReducer },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(createCartSyncMiddleware(channel, tabId)),
+});
+
+// Lets every pending message be delivered
+const flushMessages = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('cross-tab cart sync', () => {
+    it('orders stamps by revision, then by tab id', () => {
+        expect(isNewerStamp({ revision: 2, tabId: 'a' }, { revision: 1, tabId: 'b' })).toBe(true);
+        expect(isNewerStamp({ revision: 1, tabId: 'b' }, { revision: 1, tabId: 'a' })).toBe(true);
+        expect(isNewerStamp({ revision: 1, tabId: 'a' }, { revision: 1, tabId: 'b' })).toBe(false);
+    });
+
+    it('copies cart changes to the other tabs', async () => {
+        const hub = createHub();
+        const tabA = makeTab(hub.connect(), 'a');
+        const tabB = makeTab(hub.connect(), 'b');
+
+        tabA.dispatch(addToCart(makeProduct(1, 1000)));
+        tabA.dispatch(updateQuantity({ itemId: 1, quantity: 3 }));
+        await flushMessages();
+        expect(tabB.getState().cart).toEqual(tabA.getState().cart);
+        expect(tabB.getState().cart.totalItems).toBe(3);
+
+        tabB.dispatch(clearCart());
+        await flushMessages();
+        expect(tabA.getState().cart.items).toEqual([]);
+    });
+
+    it('settles on the same cart when two tabs edit at the same time', async () => {
+        const hub = createHub();
+        const tabA = makeTab(hub.connect(), 'a');
+        const tabB = makeTab(hub.connect(), 'b');
+
+        // Both edits happen before either tab hears about the other's
+        tabA.dispatch(addToCart(makeProduct(1, 1000)));
+        tabB.dispatch(addToCart(makeProduct(2, 500)));
+        await flushMessages();
+
+        // Same revision, so the higher tab id ('b') wins in both tabs
+        expect(tabA.getState().cart.items.map(item => item.id)).toEqual([2]);
+        expect(tabB.getState().cart.items.map(item => item.id)).toEqual([2]);
+    });
+
+    it('sends the current cart to a newly opened tab', async () => {
+        const hub = createHub();
+        const tabA = makeTab(hub.connect(), 'a');
+        tabA.dispatch(addToCart(makeProduct(1, 1000)));
+        await flushMessages();
+
+        const tabB = makeTab(hub.connect(), 'b');
+        await flushMessages();
+
+        expect(tabB.getState().cart.items.map(item => item.id)).toEqual([1]);
+    });
+
+    it('ignores carts of another owner and malformed messages', async () => {
+        const hub = createHub();
+        const tabA = makeTab(hub.connect(), 'a');
+        const outsider = hub.connect();
+
+        outsider.postMessage({ kind: 'cartUpdate', tabId: 'z', revision: 5, cart: toPersistedCart(buildCart('user:bob', [{ ...makeProduct(1, 1000), quantity: 1 }])) });
+        outsider.postMessage({ kind: 'cartUpdate', tabId: 'z', revision: 6, cart: { items: 'nope' } });
+        outsider.postMessage('hello');
+        await flushMessages();
+        expect(tabA.getState().cart.items).toEqual([]);
+
+        // A user's tab only follows carts of the same user
+        tabA.dispatch(loadCart(buildCart('user:alice', [])));
+        outsider.postMessage({ kind: 'cartUpdate', tabId: 'z', revision: 7, cart: toPersistedCart(buildCart('user:alice', [{ ...makeProduct(3, 300), quantity: 2 }])) });
+        await flushMessages();
+        expect(tabA.getState().cart.totalItems).toBe(2);
+    });
+});
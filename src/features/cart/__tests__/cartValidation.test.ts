@@ -0,0 +1,46 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { addToCart } from '../cartSlice';
+import { acceptCatalogChanges, findCartIssues, refreshCartItems } from '../cartValidation';
+import { makeProduct } from '../../../testUtils/fixtures';
+
+const cartItems = [
+    { ...makeProduct(1, 1000), quantity: 2 },
+    { ...makeProduct(2, 500), quantity: 1 },
+    { ...makeProduct(3, 300), quantity: 4 },
+];
+
+// Product 1 got more expensive and was renamed, product 2 is unchanged, product 3 was delisted
+const catalog = [makeProduct(1, 1200, { title: 'Product One' }), makeProduct(2, 500)];
+
+describe('cart validation', () => {
+    it('finds price changes, title changes and unavailable products', () => {
+        expect(findCartIssues(cartItems, catalog)).toEqual([
+            { kind: 'priceChanged', itemId: 1, title: 'Product One', oldPrice: 1000, newPrice: 1200 },
+            { kind: 'titleChanged', itemId: 1, oldTitle: 'Product 1', newTitle: 'Product One' },
+            { kind: 'unavailable', itemId: 3, title: 'Product 3' },
+        ]);
+    });
+
+    it('reports nothing when the cart matches the catalog', () => {
+        expect(findCartIssues(cartItems.slice(1, 2), catalog)).toEqual([]);
+    });
+
+    it('refreshes product details, keeps quantities and drops unavailable lines', () => {
+        expect(refreshCartItems(cartItems, catalog)).toEqual([
+            { ...makeProduct(1, 1200, { title: 'Product One' }), quantity: 2 },
+            { ...makeProduct(2, 500), quantity: 1 },
+        ]);
+    });
+
+    it('recomputes the cart totals when the changes are accepted', () => {
+        const store = configureStore({ reducer: { cart: cartReducer } });
+        store.dispatch(addToCart(makeProduct(1, 1000)));
+        store.dispatch(addToCart(makeProduct(3, 300)));
+
+        store.dispatch(acceptCatalogChanges(catalog));
+
+        expect(store.getState().cart.items.map(item => item.id)).toEqual([1]);
+        expect(store.getState().cart.totalPrice).toBe(1200);
+        expect(findCartIssues(store.getState().cart.items, catalog)).toEqual([]);
+    });
+});
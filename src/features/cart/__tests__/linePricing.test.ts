@@ -0,0 +1,62 @@
+import { allocateBundlePrice, findQuantityTier, priceCartLines } from '../linePricing';
+import { cents, makeItem } from '../../../testUtils/fixtures';
+
+const tiers = [
+    { minQuantity: 5, percentOff: 5 },
+    { minQuantity: 10, percentOff: 10 },
+];
+
+const bundles = [{ id: 'pair', label: 'bundlePair', productIds: [1, 2], price: cents(2500) }];
+
+describe('line pricing', () => {
+    it('finds the highest tier a quantity reaches', () => {
+        expect(findQuantityTier(4, tiers)).toBeUndefined();
+        expect(findQuantityTier(5, tiers)).toEqual({ minQuantity: 5, percentOff: 5 });
+        expect(findQuantityTier(12, tiers)).toEqual({ minQuantity: 10, percentOff: 10 });
+    });
+
+    it('applies the quantity tier to every unit of the line', () => {
+        const [line] = priceCartLines([makeItem(1, 1000, 10)], tiers, []);
+
+        expect(line).toEqual({
+            itemId: 1,
+            listTotal: 10000,
+            unitPrice: 900,
+            lineTotal: 9000,
+            savings: 1000,
+            tierPercentOff: 10,
+            bundleIds: [],
+        });
+    });
+
+    it('splits a bundle price in proportion to list prices without losing cents', () => {
+        expect(allocateBundlePrice(cents(1000), [cents(100), cents(100), cents(100)])).toEqual([334, 333, 333]);
+        expect(allocateBundlePrice(cents(2500), [cents(2000), cents(1000)])).toEqual([1667, 833]);
+    });
+
+    it('prices complete bundles and leaves the remaining units at their tier price', () => {
+        const lines = priceCartLines([makeItem(1, 2000, 2), makeItem(2, 1000, 1)], tiers, bundles);
+
+        // One bundle (1667 + 833); the second unit of product 1 is charged at list price
+        expect(lines.map(line => line.lineTotal)).toEqual([3667, 833]);
+        expect(lines.map(line => line.bundleIds)).toEqual([['pair'], ['pair']]);
+        expect(lines[0].tierPercentOff).toBe(0);
+        expect(lines[0].savings + lines[1].savings).toBe(500);
+    });
+
+    it('skips bundles that are not cheaper than the tier prices', () => {
+        // At 10% off, 10 pairs cost 1800 + 900 = 2700 separately, so the 2500 bundle still wins;
+        // a 2800 bundle does not
+        const items = [makeItem(1, 2000, 10), makeItem(2, 1000, 10)];
+        const expensive = [{ ...bundles[0], price: cents(2800) }];
+
+        expect(priceCartLines(items, tiers, bundles).map(line => line.lineTotal)).toEqual([16670, 8330]);
+        expect(priceCartLines(items, tiers, expensive).map(line => line.lineTotal)).toEqual([18000, 9000]);
+    });
+
+    it('ignores bundles with a member missing from the cart', () => {
+        const [line] = priceCartLines([makeItem(1, 2000, 1)], tiers, bundles);
+
+        expect(line).toMatchObject({ lineTotal: 2000, savings: 0, bundleIds: [] });
+    });
+});
@@ -0,0 +1,108 @@
+// --- Cart Undo/Redo ---
+
+import { Middleware, ThunkAction, UnknownAction, isAnyOf } from '@reduxjs/toolkit';
+import {
+    CartState,
+    addToCart,
+    applyPromoCode,
+    clearCart,
+    loadCart,
+    removeFromCart,
+    removePromoCode,
+    replaceCartItems,
+    setLineGift,
+    setLineNote,
+    setShippingMethod,
+    setTaxRegion,
+    updateQuantity,
+} from './cartSlice';
+import { CartHistoryNotice, CartHistoryState, changeRecorded, changeRedone, changeUndone, historyCleared } from './cartHistorySlice';
+
+// Middleware and thunks in this module see the cart and its history
+type CartHistoryRootState = { cart: CartState; cartHistory: CartHistoryState };
+type CartHistoryThunk = ThunkAction<void, CartHistoryRootState, unknown, UnknownAction>;
+
+// Customer edits that can be undone. loadCart is left out: it replaces the cart wholesale
+// (user switch, undo/redo itself) rather than editing it.
+const isUndoableChange = isAnyOf(
+    addToCart,
+    removeFromCart,
+    updateQuantity,
+    clearCart,
+    replaceCartItems,
+    setLineGift,
+    setLineNote,
+    applyPromoCode,
+    removePromoCode,
+    setShippingMethod,
+    setTaxRegion,
+);
+
+// --- Helpers ---
+
+/**
+ * Decides whether a change removed something from the cart, and if so what the Undo notification should say.
+ * @param action - The action that changed the cart.
+ * @param previous - The cart before the change.
+ * @param current - The cart after the change.
+ * @returns {CartHistoryNotice | null} The notice to show, or null for non-destructive changes.
+ */
+export const describeDestructiveChange = (action: UnknownAction, previous: CartState, current: CartState): CartHistoryNotice | null => {
+    const id = Date.now();
+    if (clearCart.match(action)) {
+        return previous.items.length > 0 ? { id, kind: 'cartCleared' } : null;
+    }
+    // removeFromCart, or updateQuantity down to zero
+    const removedItem = previous.items.find(item => !current.items.some(remaining => remaining.id === item.id));
+    return removedItem ? { id, kind: 'itemRemoved', title: removedItem.title } : null;
+};
+
+// --- Middleware ---
+
+/**
+ * Redux middleware that records a snapshot of the cart before every undoable change.
+ * The history is cleared when a different owner's cart is loaded (login/logout),
+ * so one user can never undo into another user's cart.
+ */
+export const cartHistoryMiddleware: Middleware<object, CartHistoryRootState> = (api) => (next) => (action) => {
+    const previousCart = api.getState().cart;
+    const result = next(action);
+    const nextCart = api.getState().cart;
+    // Actions that leave the cart untouched (e.g. removing an unknown id) aren't worth an undo step
+    if (nextCart === previousCart) return result;
+
+    if (isUndoableChange(action)) {
+        api.dispatch(changeRecorded({ previous: previousCart, notice: describeDestructiveChange(action, previousCart, nextCart) }));
+    } else if (loadCart.match(action) && nextCart.owner !== previousCart.owner) {
+        api.dispatch(historyCleared());
+    }
+    return result;
+};
+
+// --- Thunks ---
+
+/**
+ * Restores the cart as it was before the last recorded change.
+ * Does nothing when there is nothing to undo.
+ */
+export const undoCartChange = (): CartHistoryThunk => (dispatch, getState) => {
+    const { cart, cartHistory } = getState();
+    const previousCart = cartHistory.past[cartHistory.past.length - 1];
+    if (!previousCart) return;
+
+    dispatch(changeUndone({ current: cart, noticeId: Date.now() }));
+    dispatch(loadCart(previousCart));
+};
+
+/**
+ * Re-applies the last undone change.
+ * Does nothing when there is nothing to redo.
+ */
+export const redoCartChange = (): CartHistoryThunk => (dispatch, getState) => {
+    const { cart, cartHistory } = getState();
+    const undoneCart = cartHistory.future[cartHistory.future.length - 1];
+    if (!undoneCart) return;
+
+    dispatch(changeRedone(cart));
+    dispatch(loadCart(undoneCart));
+};
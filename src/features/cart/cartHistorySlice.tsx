@@ -0,0 +1,103 @@
+// Import createSlice function from Redux Toolkit and PayloadAction type for typing actions
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { CartState } from './cartSlice';
+
+// --- Type Definitions ---
+
+// Notification offered after a cart change that can be reverted
+interface CartHistoryNotice {
+    id: number; // Changes whenever a new notice is shown, so the notification restarts its timer
+    kind: 'itemRemoved' | 'cartCleared' | 'changeUndone';
+    title?: string; // Title of the removed product, for 'itemRemoved'
+}
+
+// Define the shape of the state managed by this slice
+interface CartHistoryState {
+    past: CartState[]; // Carts before each recorded change, oldest first
+    future: CartState[]; // Carts that were undone, most recently undone last
+    notice: CartHistoryNotice | null; // Undo/redo notification currently shown, if any
+}
+
+// --- Constants ---
+
+// Maximum number of undo (and redo) steps kept; the oldest snapshots are dropped first
+export const MAX_CART_HISTORY = 20;
+
+// --- Initial State ---
+
+const initialState: CartHistoryState = {
+    past: [],
+    future: [],
+    notice: null,
+};
+
+// --- Slice Definition ---
+
+// Undo/redo history for the cart slice. Snapshots are whole CartState values, so undoing
+// restores the exact previous items, quantities and totals. Kept in memory only.
+const cartHistorySlice = createSlice({
+    name: 'cartHistory',
+    initialState,
+    reducers: {
+        /**
+         * Records the cart as it was before a change and forgets anything that was undone.
+         * Expects { previous, notice } as the payload; notice is null for changes that
+         * don't need an Undo notification (e.g. adding an item).
+         */
+        changeRecorded: (state, action: PayloadAction<{ previous: CartState; notice: CartHistoryNotice | null }>) => {
+            state.past.push(action.payload.previous);
+            if (state.past.length > MAX_CART_HISTORY) {
+                state.past.splice(0, state.past.length - MAX_CART_HISTORY);
+            }
+            state.future = [];
+            state.notice = action.payload.notice;
+        },
+
+        /**
+         * Moves the latest snapshot out of the undo stack and remembers the current cart for redo.
+         * The undo thunk loads the snapshot into the cart slice.
+         * Expects { current, noticeId } as the payload.
+         */
+        changeUndone: (state, action: PayloadAction<{ current: CartState; noticeId: number }>) => {
+            if (state.past.length === 0) return;
+            state.past.pop();
+            state.future.push(action.payload.current);
+            if (state.future.length > MAX_CART_HISTORY) {
+                state.future.splice(0, state.future.length - MAX_CART_HISTORY);
+            }
+            state.notice = { id: action.payload.noticeId, kind: 'changeUndone' };
+        },
+
+        /**
+         * Moves the latest undone cart out of the redo stack and remembers the current cart for undo.
+         * The redo thunk loads the undone cart into the cart slice.
+         * Expects the current cart as the payload.
+         */
+        changeRedone: (state, action: PayloadAction<CartState>) => {
+            if (state.future.length === 0) return;
+            state.future.pop();
+            state.past.push(action.payload);
+            state.notice = null;
+        },
+
+        /**
+         * Hides the undo/redo notification (the history itself is kept).
+         */
+        noticeDismissed: (state) => {
+            state.notice = null;
+        },
+
+        /**
+         * Forgets the whole history, e.g. when a different user's cart becomes active.
+         */
+        historyCleared: () => initialState,
+    },
+});
+
+// --- Exports ---
+
+export const { changeRecorded, changeUndone, changeRedone, noticeDismissed, historyCleared } = cartHistorySlice.actions;
+
+export default cartHistorySlice.reducer;
+
+export type { CartHistoryState, CartHistoryNotice };
@@ -0,0 +1,131 @@
+// --- Per-User Cart Sessions ---
+
+import { ThunkAction, UnknownAction } from '@reduxjs/toolkit';
+import { GUEST_CART_OWNER, MAX_ITEM_QUANTITY, CartItem, CartState, calculateCartTotals, loadCart } from './cartSlice';
+import { loadSavedCart, moveSavedCart, removeSavedCart, saveSavedCart } from './cartStorage';
+import { DEFAULT_SHIPPING_METHOD } from '../../data/shipping';
+import { DEFAULT_TAX_REGION } from '../../data/taxRegions';
+import type { UserState } from '../../context/UserContext';
+
+// Thunks in this module only need to see the cart slice of the root state
+type CartThunk = ThunkAction<void, { cart: CartState }, unknown, UnknownAction>;
+
+// Cart fields other than the lines that are carried over when carts are rebuilt
+type CartSelections = Partial<Pick<CartState, 'promoCode' | 'shippingMethod' | 'taxRegion'>>;
+
+// --- Helpers ---
+
+/**
+ * Derives the key a user's cart is stored under.
+ * Logged-in users are keyed by id when they have one, otherwise by their (case-insensitive) name.
+ * @param user - The current user from UserContext.
+ * @returns {string} The owner key, or GUEST_CART_OWNER for visitors who are not logged in.
+ */
+export const getCartOwnerKey = (user: UserState): string => {
+    if (!user.isLoggedIn) return GUEST_CART_OWNER;
+    return user.id !== undefined ? `user:${user.id}` : `user:${user.name.trim().toLowerCase()}`;
+};
+
+/**
+ * Builds a complete cart state from a list of lines, recomputing the totals.
+ * @param owner - The owner key of the resulting cart.
+ * @param items - The cart lines.
+ * @param selections - The promo code, shipping method and tax region of the cart; missing ones use the defaults.
+ * @returns {CartState} A cart whose totalItems and totalPrice match its lines.
+ */
+export const buildCart = (owner: string, items: CartItem[], selections: CartSelections = {}): CartState => ({
+    owner,
+    items,
+    ...calculateCartTotals(items),
+    promoCode: selections.promoCode ?? null,
+    shippingMethod: selections.shippingMethod ?? DEFAULT_SHIPPING_METHOD,
+    taxRegion: selections.taxRegion ?? DEFAULT_TAX_REGION,
+});
+
+/**
+ * Merges a guest cart into a user's saved cart.
+ * Merge rules:
+ * - Lines for the same product are combined and their quantities added up,
+ *   capped at MAX_ITEM_QUANTITY.
+ * - A combined line takes its product details (title, price, ...) from the guest line,
+ *   since that is the more recent copy of the product.
+ * - The user's saved lines keep their order; guest-only lines are appended after them.
+ * @param userItems - Lines of the user's saved cart.
+ * @param guestItems - Lines of the guest cart being merged in.
+ * @returns {CartItem[]} The merged cart lines.
+ */
+export const mergeCartItems = (userItems: CartItem[], guestItems: CartItem[]): CartItem[] => {
+    const merged = userItems.map(item => ({ ...item }));
+    guestItems.forEach(guestItem => {
+        const existingIndex = merged.findIndex(item => item.id === guestItem.id);
+        if (existingIndex !== -1) {
+            const quantity = Math.min(merged[existingIndex].quantity + guestItem.quantity, MAX_ITEM_QUANTITY);
+            merged[existingIndex] = { ...guestItem, quantity };
+        } else {
+            merged.push({ ...guestItem });
+        }
+    });
+    return merged;
+};
+
+// --- Thunks ---
+
+/**
+ * Makes the given user's cart the active cart after they log in.
+ * - If the active cart already belongs to this user (e.g. a restored session), nothing changes.
+ * - If the active cart is the guest cart, it is merged into the user's saved cart
+ *   (the guest's promo code, if any, replaces the saved one; the guest's shipping method
+ *   and tax region are the most recent choice, so they win too).
+ * - If it belongs to someone else, that cart is saved for them and the user's saved cart is loaded.
+ * @param owner - The owner key of the user logging in (see getCartOwnerKey).
+ */
+export const activateUserCart = (owner: string): CartThunk => (dispatch, getState) => {
+    const activeCart = getState().cart;
+    if (activeCart.owner === owner) return;
+
+    const savedCart = loadSavedCart(owner);
+    const savedItems = savedCart?.items ?? [];
+    if (activeCart.owner === GUEST_CART_OWNER) {
+        // A promo code entered as a guest wins over one saved earlier (still one code per order)
+        const promoCode = activeCart.promoCode ?? savedCart?.promoCode ?? null;
+        dispatch(loadCart(buildCart(owner, mergeCartItems(savedItems, activeCart.items), {
+            promoCode,
+            shippingMethod: activeCart.shippingMethod,
+            taxRegion: activeCart.taxRegion,
+        })));
+    } else {
+        saveSavedCart(activeCart);
+        dispatch(loadCart(buildCart(owner, savedItems, savedCart)));
+    }
+};
+
+/**
+ * Moves a user's cart to a new owner key (e.g. after a username change): their saved cart is
+ * re-keyed, and so is the active cart when it is theirs, so the cart is still there at the next login.
+ * @param fromOwner - The owner key the cart is stored under.
+ * @param toOwner - The owner key to store it under from now on.
+ */
+export const moveUserCart = (fromOwner: string, toOwner: string): CartThunk => (dispatch, getState) => {
+    if (fromOwner === toOwner) return;
+    moveSavedCart(fromOwner, toOwner);
+    const activeCart = getState().cart;
+    if (activeCart.owner === fromOwner) {
+        dispatch(loadCart({ ...activeCart, owner: toOwner }));
+    }
+};
+
+/**
+ * Saves the active user's cart and switches back to an empty guest cart, e.g. on logout.
+ * @param options.discardSaved - Delete the user's saved cart instead of keeping it (e.g. on account deletion).
+ */
+export const switchToGuestCart = (options: { discardSaved?: boolean } = {}): CartThunk => (dispatch, getState) => {
+    const activeCart = getState().cart;
+    if (activeCart.owner === GUEST_CART_OWNER) return;
+
+    if (options.discardSaved) {
+        removeSavedCart(activeCart.owner);
+    } else {
+        saveSavedCart(activeCart);
+    }
+    dispatch(loadCart(buildCart(GUEST_CART_OWNER, [])));
+};
@@ -0,0 +1,121 @@
+// --- Shareable Cart Links ---
+
+import { ThunkAction, UnknownAction } from '@reduxjs/toolkit';
+import { MAX_ITEM_QUANTITY, MIN_ITEM_QUANTITY, CartItem, CartState, replaceCartItems } from './cartSlice';
+import { mergeCartItems } from './cartSession';
+import { Product } from '../../types/Product';
+
+// Query parameter of /cart that carries a shared cart
+export const SHARE_QUERY_PARAM = 'share';
+
+// Bump this whenever the encoding below changes; links with another version are rejected.
+// v1: "1~" followed by "<id>-<quantity>" pairs in base 36, separated by "."
+export const SHARE_FORMAT_VERSION = 1;
+
+// Separators; all are unreserved URL characters, so links need no percent-encoding
+const VERSION_SEPARATOR = '~';
+const LINE_SEPARATOR = '.';
+const FIELD_SEPARATOR = '-';
+
+// A product id and quantity read from a shared link
+export interface SharedCartLine {
+    id: number;
+    quantity: number;
+}
+
+// A shared cart matched against the product catalog
+export interface ResolvedSharedCart {
+    items: CartItem[]; // Lines for products found in the catalog, with current catalog details
+    unknownIds: number[]; // Ids of products that are not (or no longer) in the catalog
+}
+
+// How a shared cart is combined with the current one
+export type SharedCartImportMode = 'replace' | 'merge';
+
+type CartThunk = ThunkAction<void, { cart: CartState }, unknown, UnknownAction>;
+
+// --- Encoding ---
+
+/**
+ * Encodes cart lines into the compact, versioned value of the share parameter.
+ * Only product ids and quantities are included; prices always come from the catalog.
+ * @param items - The cart lines to share.
+ * @returns {string} The encoded cart, e.g. "1~1-2.a-1".
+ */
+export const encodeSharedCart = (items: SharedCartLine[]): string => {
+    const lines = items.map(item => `${item.id.toString(36)}${FIELD_SEPARATOR}${item.quantity.toString(36)}`);
+    return `${SHARE_FORMAT_VERSION}${VERSION_SEPARATOR}${lines.join(LINE_SEPARATOR)}`;
+};
+
+/**
+ * Decodes the value of the share parameter.
+ * Repeated ids are combined, and quantities are capped at MAX_ITEM_QUANTITY.
+ * @param value - The encoded cart.
+ * @returns {SharedCartLine[] | null} The lines, or null if the value is malformed or of an unsupported version.
+ */
+export const decodeSharedCart = (value: string): SharedCartLine[] | null => {
+    const [version, body, ...rest] = value.trim().split(VERSION_SEPARATOR);
+    if (rest.length > 0 || version !== String(SHARE_FORMAT_VERSION) || !body) return null;
+
+    const lines: SharedCartLine[] = [];
+    for (const entry of body.split(LINE_SEPARATOR)) {
+        const match = /^([0-9a-z]+)-([0-9a-z]+)$/.exec(entry);
+        if (!match) return null;
+        const id = parseInt(match[1], 36);
+        const quantity = parseInt(match[2], 36);
+        if (!Number.isSafeInteger(id) || !Number.isSafeInteger(quantity) || quantity < MIN_ITEM_QUANTITY) return null;
+
+        const existing = lines.find(line => line.id === id);
+        if (existing) {
+            existing.quantity = Math.min(existing.quantity + quantity, MAX_ITEM_QUANTITY);
+        } else {
+            lines.push({ id, quantity: Math.min(quantity, MAX_ITEM_QUANTITY) });
+        }
+    }
+    return lines;
+};
+
+/**
+ * Builds the full link to a shared cart.
+ * @param items - The cart lines to share.
+ * @param origin - The site origin (defaults to the current one).
+ * @returns {string} A link to /cart with the share parameter.
+ */
+export const buildShareUrl = (items: SharedCartLine[], origin: string = window.location.origin): string =>
+    // encodeURIComponent leaves "~", "." and "-" alone (URLSearchParams would escape "~")
+    `${origin}/cart?${SHARE_QUERY_PARAM}=${encodeURIComponent(encodeSharedCart(items))}`;
+
+// --- Import ---
+
+/**
+ * Matches shared lines against the product catalog.
+ * @param lines - The decoded lines.
+ * @param catalog - The current products.
+ * @returns {ResolvedSharedCart} Cart lines for known products and the ids that could not be found.
+ */
+export const resolveSharedCart = (lines: SharedCartLine[], catalog: Product[]): ResolvedSharedCart => {
+    const items: CartItem[] = [];
+    const unknownIds: number[] = [];
+    lines.forEach(line => {
+        const product = catalog.find(candidate => candidate.id === line.id);
+        if (product) {
+            items.push({ ...product, quantity: line.quantity });
+        } else {
+            unknownIds.push(line.id);
+        }
+    });
+    return { items, unknownIds };
+};
+
+/**
+ * Puts the lines of a shared cart into the active cart.
+ * - 'replace' swaps the current lines for the shared ones.
+ * - 'merge' adds the shared lines to the current ones (same rules as the guest cart merge on login).
+ * The promo code, shipping method and tax region are kept either way, and the change can be undone.
+ * @param items - The resolved shared lines.
+ * @param mode - How to combine them with the current cart.
+ */
+export const importSharedCart = (items: CartItem[], mode: SharedCartImportMode): CartThunk => (dispatch, getState) => {
+    const nextItems = mode === 'merge' ? mergeCartItems(getState().cart.items, items) : items;
+    dispatch(replaceCartItems(nextItems));
+};
@@ -1,34 +1,93 @@
 // Import createSlice function from Redux Toolkit and PayloadAction type for typing actions
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { Product } from '../../types/Product';
+import { Money, ZERO_MONEY, multiplyMoney, sumMoney } from '../../utils/money';
+import { priceCartLines } from './linePricing';
+import { DEFAULT_SHIPPING_METHOD, ShippingMethodId } from '../../data/shipping';
+import { DEFAULT_TAX_REGION } from '../../data/taxRegions';
+import { MAX_GIFT_MESSAGE_LENGTH, MAX_LINE_NOTE_LENGTH } from '../../data/giftOptions';
 
 // --- Type Definitions ---
 
 // Define structure for items stored in the cart (Product + quantity)
-interface CartItem {
-    id: number; 
-    title: string;
-    price: number;
-    description: string;
-    category: string;
-    image: string;
-    rating: { rate: number; count: number; }; // Assuming rating structure
+// The price is the Product's list price in cents at the time it was added;
+// what the line actually costs comes from priceCartLines (quantity tiers and bundles).
+interface CartItem extends Product {
     quantity: number; 
+    gift?: CartItemGift; // Present only on lines marked as a gift
+    note?: string; // Note for whoever packs the order; absent when empty
+}
+
+// Gift options of a cart line
+interface CartItemGift {
+    wrap: boolean; // Gift wrap every unit of the line (charged per unit, see data/giftOptions)
+    message: string; // Printed on the gift card; may be empty
 }
 
 // Define the shape of the state managed by this cart slice
 interface CartState {
+    owner: string; // Whose cart this is: GUEST_CART_OWNER or a key from getCartOwnerKey
     items: CartItem[]; // An array of items currently in the cart
     totalItems: number; 
-    totalPrice: number; 
+    totalPrice: Money; // In cents, after quantity tiers and bundles; always recomputed from the items (see recalculateTotals)
+    promoCode: string | null; // The one promo code applied to this cart, validated by the promotions engine
+    shippingMethod: ShippingMethodId; // Selected delivery option (see data/shipping)
+    taxRegion: string; // Code of the selected region in the tax table (see data/taxRegions)
 }
 
+// --- Constants ---
+
+// Owner key used for the anonymous cart of a visitor who is not logged in
+export const GUEST_CART_OWNER = 'guest';
+
+// Bounds for the quantity of a single cart line
+export const MIN_ITEM_QUANTITY = 1;
+export const MAX_ITEM_QUANTITY = 99;
+
 // --- Initial State ---
 
 // Define the initial state for the cart slice, conforming to CartState interface
 const initialState: CartState = {
+    owner: GUEST_CART_OWNER, // Every visitor starts with the guest cart
     items: [], // Start with an empty array of items
     totalItems: 0,
-    totalPrice: 0,
+    totalPrice: ZERO_MONEY,
+    promoCode: null,
+    shippingMethod: DEFAULT_SHIPPING_METHOD,
+    taxRegion: DEFAULT_TAX_REGION,
+};
+
+// --- Totals ---
+
+/**
+ * Calculates the total of a single cart line at list price, before quantity tiers and bundles.
+ * Use priceCartLines for what the line actually costs.
+ * @param item - The cart line.
+ * @returns {Money} The list price times the quantity, in cents.
+ */
+export const calculateLineTotal = (item: CartItem): Money => multiplyMoney(item.price, item.quantity);
+
+/**
+ * Calculates the item count and price total of a list of cart lines.
+ * This is the single source of truth for cart totals; every reducer below uses it
+ * instead of keeping running sums, so the totals can never drift from the lines.
+ * Each line is priced with its effective unit price (quantity tiers and bundles), not price * quantity.
+ * @param items - The cart lines.
+ * @returns The total quantity and the total price in cents.
+ */
+export const calculateCartTotals = (items: CartItem[]): Pick<CartState, 'totalItems' | 'totalPrice'> => ({
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalPrice: sumMoney(priceCartLines(items), line => line.lineTotal),
+});
+
+/**
+ * Recomputes totalItems and totalPrice on a (draft) cart state from its items.
+ * @param state - The cart state to update in place.
+ */
+const recalculateTotals = (state: CartState) => {
+    const { totalItems, totalPrice } = calculateCartTotals(state.items);
+    state.totalItems = totalItems;
+    state.totalPrice = totalPrice;
 };
 
 // --- Slice Definition ---
@@ -42,7 +101,7 @@ const cartSlice = createSlice({
         /**
          * Adds a product to the cart. If the product already exists, increments its quantity.
          * Updates totalItems and totalPrice accordingly.
-         * Expects a Product object as the action payload.
+         * Expects a Product object (price in cents) as the action payload.
          */
         addToCart: (state, action: PayloadAction<Product>) => { // Type the action payload as Product
             const itemToAdd = action.payload; // The product object to add
@@ -50,6 +109,8 @@ const cartSlice = createSlice({
             const existingItemIndex = state.items.findIndex(item => item.id === itemToAdd.id);
 
             if (existingItemIndex !== -1) {
+                // A line already at the maximum quantity is left unchanged
+                if (state.items[existingItemIndex].quantity >= MAX_ITEM_QUANTITY) return;
                 // If item exists, just increment its quantity
                 state.items[existingItemIndex].quantity += 1;
             } else {
@@ -57,10 +118,8 @@ const cartSlice = createSlice({
                 // Spread the product properties and add the quantity property
                 state.items.push({ ...itemToAdd, quantity: 1 }); 
             }
-            // Increment the total number of items in the cart
-            state.totalItems += 1; 
-            // Add the price of the added item to the total price
-            state.totalPrice += itemToAdd.price; 
+            // Recompute totalItems and totalPrice from the updated lines
+            recalculateTotals(state);
         },
 
         /**
@@ -75,50 +134,145 @@ const cartSlice = createSlice({
 
             // Proceed only if the item was found
             if (itemIndex !== -1) {
-                const itemToRemove = state.items[itemIndex]; // Get the item object being removed
-                // Decrease total item count by the quantity of the removed item
-                state.totalItems -= itemToRemove.quantity; 
-                // Decrease total price by the total value of the removed item (price * quantity)
-                state.totalPrice -= itemToRemove.price * itemToRemove.quantity; 
                 // Remove the item from the items array using splice
                 state.items.splice(itemIndex, 1); 
+                // Recompute totalItems and totalPrice from the remaining lines
+                recalculateTotals(state);
             }
         },
 
         /**
          * Updates the quantity of a specific item in the cart.
-         * Adjusts totalItems and totalPrice based on the quantity change.
+         * Recomputes totalItems and totalPrice after the change.
+         * - Fractional quantities are rounded down to a whole number.
+         * - Quantities above MAX_ITEM_QUANTITY are clamped to the maximum.
+         * - A quantity of 0 or less removes the line from the cart.
+         * - Non-numeric quantities (NaN) are ignored.
          * Expects an object { itemId: number, quantity: number } as the action payload.
          */
         updateQuantity: (state, action: PayloadAction<{ itemId: number; quantity: number }>) => { // Type the payload object
             // Destructure itemId and new quantity from the payload
-            const { itemId, quantity } = action.payload; 
+            const { itemId } = action.payload; 
             // Find the index of the item to update
             const itemIndex = state.items.findIndex(item => item.id === itemId);
 
-            // Proceed only if the item exists and the new quantity is valid (greater than 0)
-            if (itemIndex !== -1 && quantity > 0) {
-                const itemToUpdate = state.items[itemIndex]; // Get the item object
-                // Calculate the difference between the new quantity and the old quantity
-                const quantityDifference = quantity - itemToUpdate.quantity; 
-                // Update the total item count by this difference
-                state.totalItems += quantityDifference; 
-                // Update the total price based on the price of the item and the quantity difference
-                state.totalPrice += quantityDifference * itemToUpdate.price; 
+            // Ignore unknown items and quantities that are not numbers at all
+            if (itemIndex === -1 || Number.isNaN(action.payload.quantity)) return;
+
+            const quantity = Math.min(Math.floor(action.payload.quantity), MAX_ITEM_QUANTITY);
+
+            if (quantity < MIN_ITEM_QUANTITY) {
+                // Dropping to zero removes the whole line, same as removeFromCart
+                state.items.splice(itemIndex, 1);
+            } else {
                 // Set the item's quantity to the new value
                 state.items[itemIndex].quantity = quantity; 
             }
+            // Recompute totalItems and totalPrice from the updated lines
+            recalculateTotals(state);
         },
 
         /**
          * Clears the entire shopping cart, resetting it to the initial empty state.
+         * The selected shipping method and tax region are kept for the next order.
          * Takes no payload.
          */
         clearCart: (state) => { // No payload needed for this action
             // Reset all parts of the cart state back to their initial values
             state.items = [];
             state.totalItems = 0;
-            state.totalPrice = 0;
+            state.totalPrice = ZERO_MONEY;
+            state.promoCode = null;
+        },
+
+        /**
+         * Replaces the cart lines (e.g. with the lines of a shared cart) and recomputes the totals.
+         * Unlike loadCart, the owner and the other selections are kept, and the change can be undone.
+         * Quantities are clamped to MAX_ITEM_QUANTITY.
+         * Expects the new CartItem array as the action payload.
+         */
+        replaceCartItems: (state, action: PayloadAction<CartItem[]>) => {
+            state.items = action.payload.map(item => ({ ...item, quantity: Math.min(item.quantity, MAX_ITEM_QUANTITY) }));
+            recalculateTotals(state);
+        },
+
+        /**
+         * Marks a line as a gift with the given options, or unmarks it when gift is null.
+         * The message is trimmed and cut to MAX_GIFT_MESSAGE_LENGTH. Gift wrap is priced by the
+         * pricing pipeline, so the totals here don't change.
+         * Expects an object { itemId: number, gift: CartItemGift | null } as the action payload.
+         */
+        setLineGift: (state, action: PayloadAction<{ itemId: number; gift: CartItemGift | null }>) => {
+            const item = state.items.find(candidate => candidate.id === action.payload.itemId);
+            if (!item) return;
+
+            const { gift } = action.payload;
+            if (gift) {
+                item.gift = { wrap: gift.wrap, message: gift.message.trim().slice(0, MAX_GIFT_MESSAGE_LENGTH) };
+            } else {
+                delete item.gift;
+            }
+        },
+
+        /**
+         * Sets the packing note of a line. The note is trimmed and cut to MAX_LINE_NOTE_LENGTH;
+         * an empty note removes it.
+         * Expects an object { itemId: number, note: string } as the action payload.
+         */
+        setLineNote: (state, action: PayloadAction<{ itemId: number; note: string }>) => {
+            const item = state.items.find(candidate => candidate.id === action.payload.itemId);
+            if (!item) return;
+
+            const note = action.payload.note.trim().slice(0, MAX_LINE_NOTE_LENGTH);
+            if (note) {
+                item.note = note;
+            } else {
+                delete item.note;
+            }
+        },
+
+        /**
+         * Applies a promo code to the cart, replacing any previous one (only one code per order).
+         * The code should already have been checked with evaluatePromotion; it is re-evaluated
+         * whenever the cart is shown and again at checkout.
+         * Expects the promo code (string) as the action payload.
+         */
+        applyPromoCode: (state, action: PayloadAction<string>) => {
+            state.promoCode = action.payload.trim().toUpperCase();
+        },
+
+        /**
+         * Removes the promo code from the cart.
+         * Takes no payload.
+         */
+        removePromoCode: (state) => {
+            state.promoCode = null;
+        },
+
+        /**
+         * Selects the delivery option for the order.
+         * Whether the method is available (e.g. free shipping's minimum) is checked by the pricing pipeline.
+         * Expects the shipping method id as the action payload.
+         */
+        setShippingMethod: (state, action: PayloadAction<ShippingMethodId>) => {
+            state.shippingMethod = action.payload;
+        },
+
+        /**
+         * Selects the region whose sales tax applies to the order.
+         * Expects a region code from the tax table as the action payload.
+         */
+        setTaxRegion: (state, action: PayloadAction<string>) => {
+            state.taxRegion = action.payload;
+        },
+
+        /**
+         * Replaces the whole cart with another one, e.g. when a different user's cart becomes active.
+         * Expects a complete CartState (including its owner) as the action payload.
+         */
+        loadCart: (_state, action: PayloadAction<CartState>) => {
+            // Returning a new value replaces the slice state entirely
+            return action.payload;
         },
     },
 });
@@ -127,10 +281,10 @@ const cartSlice = createSlice({
 
 // Export the action creators generated by createSlice.
 // These are used in components to dispatch actions (e.g., dispatch(addToCart(product))).
-export const { addToCart, removeFromCart, updateQuantity, clearCart } = cartSlice.actions;
+export const { addToCart, removeFromCart, updateQuantity, clearCart, replaceCartItems, setLineGift, setLineNote, applyPromoCode, removePromoCode, setShippingMethod, setTaxRegion, loadCart } = cartSlice.actions;
 
 // Export the reducer function generated by createSlice.
 // This will be added to the root reducer in the main store configuration.
 export default cartSlice.reducer;
 
-export type { CartState, CartItem };
\ No newline at end of file
+export type { CartState, CartItem, CartItemGift };
\ No newline at end of file
@@ -0,0 +1,225 @@
+// --- Cart Persistence ---
+
+import { Middleware } from '@reduxjs/toolkit';
+import { GUEST_CART_OWNER, CartItem, CartItemGift, CartState, calculateCartTotals } from './cartSlice';
+import { isMoney } from '../../utils/money';
+import { DEFAULT_SHIPPING_METHOD, SHIPPING_METHODS } from '../../data/shipping';
+import { DEFAULT_TAX_REGION } from '../../data/taxRegions';
+
+// sessionStorage key the active cart of this tab is persisted under
+export const CART_STORAGE_KEY = 'shoppingCart';
+
+// localStorage key holding the saved carts of logged-in users, keyed by owner
+export const SAVED_CARTS_STORAGE_KEY = 'savedCarts';
+
+// Bump this whenever the persisted cart shape changes.
+// Stored carts with any other version are discarded on load.
+// v2: carts are stamped with their owner
+// v3: prices and totals are integer cents
+export const CART_STORAGE_VERSION = 3;
+
+// Shape of the envelope written to sessionStorage (and sent to other tabs, see cartSync)
+interface PersistedCart extends CartState {
+    version: number;
+}
+
+// --- Validation ---
+
+/**
+ * Checks the gift options of a stored cart line.
+ * @param value - The line's gift field.
+ * @returns {boolean} True if the value has a boolean wrap flag and a string message.
+ */
+const isValidCartItemGift = (value: unknown): value is CartItemGift => {
+    if (typeof value !== 'object' || value === null) return false;
+    const gift = value as Partial<CartItemGift>;
+    return typeof gift.wrap === 'boolean' && typeof gift.message === 'string';
+};
+
+/**
+ * Checks that an unknown value looks like a cart line we can safely restore.
+ * @param value - A single parsed entry from the stored items array.
+ * @returns {boolean} True if the entry has a usable id, title, price and quantity.
+ */
+const isValidCartItem = (value: unknown): value is CartItem => {
+    if (typeof value !== 'object' || value === null) return false;
+    const item = value as Partial<CartItem>;
+    return (
+        typeof item.id === 'number' &&
+        typeof item.title === 'string' &&
+        isMoney(item.price) && item.price >= 0 &&
+        typeof item.quantity === 'number' && Number.isInteger(item.quantity) && item.quantity > 0 &&
+        // Gift options and notes are optional (carts saved before them have neither)
+        (item.gift === undefined || isValidCartItemGift(item.gift)) &&
+        (item.note === undefined || typeof item.note === 'string')
+    );
+};
+
+/**
+ * Checks that a parsed value is a cart envelope of the current version
+ * whose totals agree with its items.
+ * @param value - The parsed sessionStorage contents.
+ * @returns {boolean} True if the value can be used as the initial cart state.
+ */
+const isValidPersistedCart = (value: unknown): value is PersistedCart => {
+    if (typeof value !== 'object' || value === null) return false;
+    const cart = value as Partial<PersistedCart>;
+    if (cart.version !== CART_STORAGE_VERSION) return false;
+    if (typeof cart.owner !== 'string' || cart.owner === '') return false;
+    // Carts saved before promo codes existed have no promoCode at all
+    if (cart.promoCode !== undefined && cart.promoCode !== null && typeof cart.promoCode !== 'string') return false;
+    // Likewise for the delivery selections, which are filled in with the defaults on load
+    if (cart.shippingMethod !== undefined && !SHIPPING_METHODS.some(method => method.id === cart.shippingMethod)) return false;
+    if (cart.taxRegion !== undefined && typeof cart.taxRegion !== 'string') return false;
+    if (!Array.isArray(cart.items) || !cart.items.every(isValidCartItem)) return false;
+    if (typeof cart.totalItems !== 'number' || !isMoney(cart.totalPrice)) return false;
+
+    // Reject carts whose stored item count doesn't match their lines. The stored price isn't
+    // compared: quantity tiers and bundles may have changed since, so it is recalculated on load
+    return cart.totalItems === calculateCartTotals(cart.items).totalItems;
+};
+
+/**
+ * Copies the cart fields out of a validated envelope, filling in fields that older carts don't have
+ * and repricing the lines with the current pricing rules.
+ * @param persisted - A cart envelope that passed isValidPersistedCart.
+ * @returns {CartState} The cart state to restore.
+ */
+const toCartState = (persisted: PersistedCart): CartState => ({
+    owner: persisted.owner,
+    items: persisted.items,
+    ...calculateCartTotals(persisted.items),
+    promoCode: persisted.promoCode ?? null,
+    shippingMethod: persisted.shippingMethod ?? DEFAULT_SHIPPING_METHOD,
+    taxRegion: persisted.taxRegion ?? DEFAULT_TAX_REGION,
+});
+
+/**
+ * Wraps a cart in the versioned envelope used wherever a cart leaves the Redux store.
+ * @param cart - The cart slice state.
+ * @returns {PersistedCart} The cart stamped with the current storage version.
+ */
+export const toPersistedCart = (cart: CartState): PersistedCart => ({ version: CART_STORAGE_VERSION, ...cart });
+
+/**
+ * Validates an envelope that was stored or received and unwraps the cart inside it.
+ * @param value - The parsed envelope.
+ * @returns {CartState | undefined} The cart, or undefined if the value is not a valid cart of the current version.
+ */
+export const parsePersistedCart = (value: unknown): CartState | undefined =>
+    isValidPersistedCart(value) ? toCartState(value) : undefined;
+
+// --- Storage Helpers ---
+
+/**
+ * Reads the persisted cart from sessionStorage.
+ * Corrupt data and carts saved in an older format are removed from storage.
+ * @returns {CartState | undefined} The restored cart, or undefined to fall back to the slice's initial state.
+ */
+export const loadCartState = (): CartState | undefined => {
+    const stored = sessionStorage.getItem(CART_STORAGE_KEY);
+    if (!stored) return undefined;
+
+    try {
+        const cart = parsePersistedCart(JSON.parse(stored));
+        if (cart) {
+            return cart;
+        }
+        console.warn("Discarding stored shopping cart with an unrecognised format.");
+    } catch (error) {
+        console.error("Error parsing shopping cart from sessionStorage:", error);
+    }
+    sessionStorage.removeItem(CART_STORAGE_KEY);
+    return undefined;
+};
+
+/**
+ * Writes the cart state to sessionStorage, stamped with the current storage version.
+ * @param cart - The cart slice state to persist.
+ */
+export const saveCartState = (cart: CartState) => {
+    sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify(toPersistedCart(cart)));
+};
+
+/**
+ * Reads every saved user cart from localStorage.
+ * @returns {Record<string, unknown>} The raw saved carts keyed by owner, or an empty object.
+ */
+const getSavedCarts = (): Record<string, unknown> => {
+    const stored = localStorage.getItem(SAVED_CARTS_STORAGE_KEY);
+    try {
+        const parsed: unknown = stored ? JSON.parse(stored) : {};
+        return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+            ? parsed as Record<string, unknown>
+            : {};
+    } catch (error) {
+        console.error("Error parsing saved carts from localStorage:", error);
+        return {};
+    }
+};
+
+/**
+ * Retrieves the cart saved for a logged-in user.
+ * A saved cart that fails validation is treated as missing.
+ * @param owner - The owner key of the cart (see getCartOwnerKey).
+ * @returns {CartState | undefined} The user's saved cart, or undefined if there is none.
+ */
+export const loadSavedCart = (owner: string): CartState | undefined => {
+    const saved = parsePersistedCart(getSavedCarts()[owner]);
+    return saved?.owner === owner ? saved : undefined;
+};
+
+/**
+ * Saves a logged-in user's cart to localStorage so it outlives the browser session.
+ * Guest carts are never saved here.
+ * @param cart - The cart to save; its owner is used as the key.
+ */
+export const saveSavedCart = (cart: CartState) => {
+    if (cart.owner === GUEST_CART_OWNER) return;
+    const savedCarts = getSavedCarts();
+    savedCarts[cart.owner] = toPersistedCart(cart);
+    localStorage.setItem(SAVED_CARTS_STORAGE_KEY, JSON.stringify(savedCarts));
+};
+
+/**
+ * Deletes the saved cart of a user (e.g. when their account is deleted).
+ * @param owner - The owner key of the cart to delete.
+ */
+export const removeSavedCart = (owner: string) => {
+    const savedCarts = getSavedCarts();
+    delete savedCarts[owner];
+    localStorage.setItem(SAVED_CARTS_STORAGE_KEY, JSON.stringify(savedCarts));
+};
+
+/**
+ * Moves a user's saved cart to a new owner key (e.g. after a username change).
+ * @param fromOwner - The owner key the cart is saved under.
+ * @param toOwner - The owner key to save it under from now on.
+ */
+export const moveSavedCart = (fromOwner: string, toOwner: string) => {
+    if (fromOwner === toOwner) return;
+    const savedCart = loadSavedCart(fromOwner);
+    if (!savedCart) return;
+    removeSavedCart(fromOwner);
+    saveSavedCart({ ...savedCart, owner: toOwner });
+};
+
+// --- Middleware ---
+
+/**
+ * Redux middleware that persists the cart slice whenever an action changes it.
+ * Runs independently of which component is mounted, so the cart survives
+ * both page refreshes and navigation away from /cart.
+ * A logged-in user's cart is also saved under their owner key in localStorage.
+ */
+export const cartPersistenceMiddleware: Middleware<object, { cart: CartState }> = (api) => (next) => (action) => {
+    const previousCart = api.getState().cart;
+    const result = next(action);
+    const nextCart = api.getState().cart;
+    // Slices are immutable, so a new reference means the cart actually changed
+    if (nextCart !== previousCart) {
+        saveCartState(nextCart);
+        saveSavedCart(nextCart);
+    }
+    return result;
+};
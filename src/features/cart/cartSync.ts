@@ -0,0 +1,163 @@
+// --- Cross-Tab Cart Synchronization ---
+
+import { Middleware, isAnyOf } from '@reduxjs/toolkit';
+import {
+    CartState,
+    addToCart,
+    applyPromoCode,
+    clearCart,
+    loadCart,
+    removeFromCart,
+    removePromoCode,
+    replaceCartItems,
+    setLineGift,
+    setLineNote,
+    setShippingMethod,
+    setTaxRegion,
+    updateQuantity,
+} from './cartSlice';
+import { parsePersistedCart, toPersistedCart } from './cartStorage';
+
+// Name of the BroadcastChannel shared by every tab of the store on the same origin
+export const CART_SYNC_CHANNEL = 'shopping-cart-sync';
+
+// The part of BroadcastChannel used here, so tests can pass in a fake channel
+export interface CartSyncChannel {
+    postMessage: (message: unknown) => void;
+    onmessage: ((event: MessageEvent) => void) | null;
+}
+
+// Position of a cart version in the sync order: a Lamport revision plus the id of the tab
+// that made it. Comparing (revision, tabId) gives every tab the same winner (see isNewerStamp).
+interface SyncStamp {
+    revision: number;
+    tabId: string;
+}
+
+// Messages exchanged between tabs
+type CartSyncMessage =
+    | (SyncStamp & { kind: 'cartUpdate'; cart: unknown }) // A tab's cart changed; cart is a persisted envelope
+    | { kind: 'cartRequest'; tabId: string }; // A newly opened tab asks the others for their cart
+
+// Cart edits made by the customer in this tab. loadCart is included because login, logout
+// and undo/redo all replace the cart through it.
+const isCartChange = isAnyOf(
+    addToCart,
+    removeFromCart,
+    updateQuantity,
+    clearCart,
+    replaceCartItems,
+    setLineGift,
+    setLineNote,
+    applyPromoCode,
+    removePromoCode,
+    setShippingMethod,
+    setTaxRegion,
+    loadCart,
+);
+
+// --- Helpers ---
+
+/**
+ * Conflict rule for concurrent edits: the higher revision wins, and when two tabs made
+ * their edits at the same revision the higher tab id wins. Every tab applies the same rule,
+ * so all tabs settle on the same cart whatever order the messages arrive in.
+ * @param candidate - Stamp of the incoming cart.
+ * @param current - Stamp of the cart this tab currently holds.
+ * @returns {boolean} True if the candidate should replace the current cart.
+ */
+export const isNewerStamp = (candidate: SyncStamp, current: SyncStamp): boolean =>
+    candidate.revision > current.revision ||
+    (candidate.revision === current.revision && candidate.tabId > current.tabId);
+
+/**
+ * Checks that a received message has the shape of a CartSyncMessage.
+ * @param value - The message data.
+ * @returns {boolean} True if the message can be handled.
+ */
+const isCartSyncMessage = (value: unknown): value is CartSyncMessage => {
+    if (typeof value !== 'object' || value === null) return false;
+    const message = value as Partial<SyncStamp> & { kind?: unknown };
+    if (typeof message.tabId !== 'string') return false;
+    if (message.kind === 'cartRequest') return true;
+    return message.kind === 'cartUpdate' && typeof message.revision === 'number';
+};
+
+/**
+ * Opens the sync channel, if the browser supports BroadcastChannel.
+ * @returns {CartSyncChannel | null} The channel, or null when tabs can't be synchronized.
+ */
+const openCartSyncChannel = (): CartSyncChannel | null =>
+    typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CART_SYNC_CHANNEL);
+
+/**
+ * Creates a random id for this tab.
+ * @returns {string} The tab id.
+ */
+const createTabId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// --- Middleware ---
+
+/**
+ * Creates a Redux middleware that keeps the cart identical across tabs of the same origin.
+ * - Every cart change made in this tab is broadcast with a new stamp.
+ * - A received cart replaces the local one when its stamp is newer (see isNewerStamp)
+ *   and it belongs to the same owner; carts of other users are ignored.
+ * - On start-up the tab asks the others for their cart, so a newly opened tab catches up.
+ * Without BroadcastChannel support the middleware does nothing.
+ * @param channel - The channel to use (defaults to a BroadcastChannel named CART_SYNC_CHANNEL).
+ * @param tabId - Id of this tab (defaults to a random id).
+ * @returns The middleware.
+ */
+export const createCartSyncMiddleware = (
+    channel: CartSyncChannel | null = openCartSyncChannel(),
+    tabId: string = createTabId(),
+): Middleware<object, { cart: CartState }> => (api) => {
+    if (!channel) return (next) => (action) => next(action);
+
+    // Stamp of the cart this tab holds; revision 0 loses to any cart another tab has edited
+    let currentStamp: SyncStamp = { revision: 0, tabId };
+    // Set while a received cart is being loaded, so it isn't broadcast back
+    let applyingRemoteCart = false;
+
+    const broadcastCart = () => {
+        channel.postMessage({ kind: 'cartUpdate', ...currentStamp, cart: toPersistedCart(api.getState().cart) });
+    };
+
+    channel.onmessage = (event: MessageEvent) => {
+        const message: unknown = event.data;
+        if (!isCartSyncMessage(message) || message.tabId === tabId) return;
+
+        if (message.kind === 'cartRequest') {
+            // Only answer with a cart that has actually been edited somewhere
+            if (currentStamp.revision > 0) broadcastCart();
+            return;
+        }
+
+        const remoteCart = parsePersistedCart(message.cart);
+        if (!remoteCart || remoteCart.owner !== api.getState().cart.owner) return;
+        if (!isNewerStamp(message, currentStamp)) return;
+
+        currentStamp = { revision: message.revision, tabId: message.tabId };
+        applyingRemoteCart = true;
+        try {
+            api.dispatch(loadCart(remoteCart));
+        } finally {
+            applyingRemoteCart = false;
+        }
+    };
+
+    // Ask tabs that are already open for their cart
+    channel.postMessage({ kind: 'cartRequest', tabId });
+
+    return (next) => (action) => {
+        const previousCart = api.getState().cart;
+        const result = next(action);
+        if (!applyingRemoteCart && isCartChange(action) && api.getState().cart !== previousCart) {
+            // Lamport clock: a local edit always comes after every version this tab has seen
+            currentStamp = { revision: currentStamp.revision + 1, tabId };
+            broadcastCart();
+        }
+        return result;
+    };
+};
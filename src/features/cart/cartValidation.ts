@@ -0,0 +1,62 @@
+// --- Cart Validation Against the Catalog ---
+
+import { ThunkAction, UnknownAction } from '@reduxjs/toolkit';
+import { CartItem, CartState, replaceCartItems } from './cartSlice';
+import { Product } from '../../types/Product';
+import { Money } from '../../utils/money';
+
+// A difference between a cart line (a copy of the product taken when it was added) and the live catalog
+export type CartIssue =
+    | { kind: 'priceChanged'; itemId: number; title: string; oldPrice: Money; newPrice: Money }
+    | { kind: 'titleChanged'; itemId: number; oldTitle: string; newTitle: string }
+    | { kind: 'unavailable'; itemId: number; title: string };
+
+type CartThunk = ThunkAction<void, { cart: CartState }, unknown, UnknownAction>;
+
+// --- Helpers ---
+
+/**
+ * Compares the cart lines with the current catalog.
+ * @param items - The cart lines.
+ * @param catalog - Freshly fetched products.
+ * @returns {CartIssue[]} Every price change, title change and unavailable product, in cart order.
+ */
+export const findCartIssues = (items: CartItem[], catalog: Product[]): CartIssue[] =>
+    items.flatMap((item): CartIssue[] => {
+        const product = catalog.find(candidate => candidate.id === item.id);
+        if (!product) return [{ kind: 'unavailable', itemId: item.id, title: item.title }];
+
+        const issues: CartIssue[] = [];
+        if (product.price !== item.price) {
+            issues.push({ kind: 'priceChanged', itemId: item.id, title: product.title, oldPrice: item.price, newPrice: product.price });
+        }
+        if (product.title !== item.title) {
+            issues.push({ kind: 'titleChanged', itemId: item.id, oldTitle: item.title, newTitle: product.title });
+        }
+        return issues;
+    });
+
+/**
+ * Brings cart lines up to date with the catalog: product details (price, title, ...) are
+ * replaced with the current ones and lines for products that are no longer listed are dropped.
+ * Quantities, gift options and notes are kept.
+ * @param items - The cart lines.
+ * @param catalog - Freshly fetched products.
+ * @returns {CartItem[]} The updated lines.
+ */
+export const refreshCartItems = (items: CartItem[], catalog: Product[]): CartItem[] =>
+    items.flatMap(item => {
+        const product = catalog.find(candidate => candidate.id === item.id);
+        return product ? [{ ...item, ...product, quantity: item.quantity }] : [];
+    });
+
+// --- Thunks ---
+
+/**
+ * Accepts the catalog's current prices and titles for every cart line, removing unavailable
+ * products. Like any cart edit, this can be undone.
+ * @param catalog - The products the cart was validated against.
+ */
+export const acceptCatalogChanges = (catalog: Product[]): CartThunk => (dispatch, getState) => {
+    dispatch(replaceCartItems(refreshCartItems(getState().cart.items, catalog)));
+};
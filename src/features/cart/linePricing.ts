@@ -0,0 +1,115 @@
+// --- Cart Line Pricing (Quantity Tiers and Bundles) ---
+
+import type { CartItem } from './cartSlice';
+import { PRODUCT_BUNDLES, ProductBundle, QUANTITY_TIERS, QuantityTier } from '../../data/pricingRules';
+import { Money, addMoney, multiplyMoney, subtractMoney } from '../../utils/money';
+
+// --- Type Definitions ---
+
+// What a cart line actually costs once quantity tiers and bundles are applied
+export interface CartLinePrice {
+    itemId: number;
+    listTotal: Money; // List price * quantity
+    unitPrice: Money; // Effective price per unit (the average when only some units are in a bundle)
+    lineTotal: Money; // What the line costs; the cart total is the sum of these
+    savings: Money; // listTotal - lineTotal
+    tierPercentOff: number; // Quantity tier discount applied to the line's unbundled units (0 if none)
+    bundleIds: string[]; // Bundles some of the line's units were priced in
+}
+
+// --- Helpers ---
+
+/**
+ * Finds the quantity tier a line qualifies for.
+ * @param quantity - Units on the line.
+ * @param tiers - The tier table.
+ * @returns {QuantityTier | undefined} The tier with the highest minimum the quantity reaches, if any.
+ */
+export const findQuantityTier = (quantity: number, tiers: QuantityTier[] = QUANTITY_TIERS): QuantityTier | undefined =>
+    tiers
+        .filter(tier => quantity >= tier.minQuantity)
+        .reduce<QuantityTier | undefined>((best, tier) => (!best || tier.minQuantity > best.minQuantity ? tier : best), undefined);
+
+/**
+ * Splits a bundle price between its products in proportion to their list prices.
+ * Shares are whole cents; leftover cents go to the products with the largest remainders
+ * (earlier products first on ties), so the shares always add up to the bundle price.
+ * @param bundlePrice - Price of one bundle.
+ * @param listPrices - List price of each product in the bundle.
+ * @returns {Money[]} The share of each product, in the same order.
+ */
+export const allocateBundlePrice = (bundlePrice: Money, listPrices: Money[]): Money[] => {
+    const listTotal = listPrices.reduce((sum, price) => sum + price, 0);
+    if (listTotal === 0) return listPrices.map((_, index) => (index === 0 ? bundlePrice : 0) as Money);
+
+    const exactShares = listPrices.map(price => (bundlePrice * price) / listTotal);
+    const shares = exactShares.map(Math.floor);
+    let leftover = bundlePrice - shares.reduce((sum, share) => sum + share, 0);
+    exactShares
+        .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+        .forEach(({ index }) => {
+            if (leftover > 0) {
+                shares[index] += 1;
+                leftover -= 1;
+            }
+        });
+    return shares as Money[];
+};
+
+// --- Pricing ---
+
+/**
+ * Prices every cart line.
+ * 1. Each line gets the unit price of its quantity tier (based on the whole line's quantity).
+ * 2. Bundles are then formed in PRODUCT_BUNDLES order from units not already in a bundle:
+ *    as many complete bundles as every member line allows, but only when the bundle is
+ *    cheaper than buying its products at their tier prices. Bundled units are priced at
+ *    their share of the bundle price (see allocateBundlePrice).
+ * @param items - The cart lines.
+ * @param tiers - The quantity tier table (defaults to QUANTITY_TIERS).
+ * @param bundles - The bundle table (defaults to PRODUCT_BUNDLES).
+ * @returns {CartLinePrice[]} One entry per line, in the same order as the items.
+ */
+export const priceCartLines = (
+    items: CartItem[],
+    tiers: QuantityTier[] = QUANTITY_TIERS,
+    bundles: ProductBundle[] = PRODUCT_BUNDLES,
+): CartLinePrice[] => {
+    const tierPercents = items.map(item => findQuantityTier(item.quantity, tiers)?.percentOff ?? 0);
+    const tierUnitPrices = items.map((item, index) => multiplyMoney(item.price, 1 - tierPercents[index] / 100));
+    // Units of each line not yet used in a bundle, and what the bundled ones cost
+    const unbundledQuantities = items.map(item => item.quantity);
+    const bundledTotals = items.map(() => 0 as Money);
+    const bundleIds = items.map((): string[] => []);
+
+    bundles.forEach(bundle => {
+        const memberIndexes = bundle.productIds.map(id => items.findIndex(item => item.id === id));
+        if (memberIndexes.some(index => index === -1)) return;
+
+        const bundleCount = Math.min(...memberIndexes.map(index => unbundledQuantities[index]));
+        const separatePrice = addMoney(...memberIndexes.map(index => tierUnitPrices[index]));
+        if (bundleCount === 0 || bundle.price >= separatePrice) return;
+
+        const shares = allocateBundlePrice(bundle.price, memberIndexes.map(index => items[index].price));
+        memberIndexes.forEach((index, position) => {
+            unbundledQuantities[index] -= bundleCount;
+            bundledTotals[index] = addMoney(bundledTotals[index], multiplyMoney(shares[position], bundleCount));
+            bundleIds[index].push(bundle.id);
+        });
+    });
+
+    return items.map((item, index) => {
+        const listTotal = multiplyMoney(item.price, item.quantity);
+        const lineTotal = addMoney(bundledTotals[index], multiplyMoney(tierUnitPrices[index], unbundledQuantities[index]));
+        return {
+            itemId: item.id,
+            listTotal,
+            unitPrice: multiplyMoney(lineTotal, 1 / item.quantity),
+            lineTotal,
+            savings: subtractMoney(listTotal, lineTotal),
+            tierPercentOff: unbundledQuantities[index] > 0 ? tierPercents[index] : 0,
+            bundleIds: bundleIds[index],
+        };
+    });
+};
@@ -0,0 +1,67 @@
+import checkoutReducer, { EMPTY_SHIPPING_ADDRESS, completeStep, goToStep, resetCheckout, setShippingAddress } from '../checkoutSlice';
+import { CHECKOUT_STORAGE_KEY, loadCheckoutState, saveCheckoutState } from '../checkoutStorage';
+
+const address = { ...EMPTY_SHIPPING_ADDRESS, fullName: 'Ada Lovelace', line1: '12 Analytical St', city: 'Springfield', postalCode: '90210' };
+
+describe('checkout progress', () => {
+    it('unlocks the steps one by one', () => {
+        let state = checkoutReducer(undefined, setShippingAddress(address));
+        state = checkoutReducer(state, completeStep());
+        state = checkoutReducer(state, completeStep());
+
+        expect(state).toEqual({ step: 'payment', reachedStep: 'payment', address });
+    });
+
+    it('goes back and forward between reached steps but never skips ahead', () => {
+        let state = checkoutReducer(undefined, completeStep()); // at delivery
+        state = checkoutReducer(state, goToStep('address'));
+        expect(state).toMatchObject({ step: 'address', reachedStep: 'delivery' });
+
+        state = checkoutReducer(state, goToStep('delivery'));
+        expect(state.step).toBe('delivery');
+        expect(checkoutReducer(state, goToStep('review')).step).toBe('delivery');
+    });
+
+    it('keeps the furthest step when an earlier step is completed again', () => {
+        let state = checkoutReducer(undefined, completeStep());
+        state = checkoutReducer(state, completeStep()); // at payment
+        state = checkoutReducer(state, goToStep('address'));
+        state = checkoutReducer(state, completeStep());
+
+        expect(state).toMatchObject({ step: 'delivery', reachedStep: 'payment' });
+    });
+
+    it('starts over after an order but keeps the address', () => {
+        let state = checkoutReducer(undefined, setShippingAddress(address));
+        state = checkoutReducer(checkoutReducer(state, completeStep()), resetCheckout());
+
+        expect(state).toEqual({ step: 'address', reachedStep: 'address', address });
+    });
+});
+
+describe('checkout storage', () => {
+    beforeEach(() => {
+        sessionStorage.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('restores saved progress', () => {
+        const progress = { step: 'delivery' as const, reachedStep: 'payment' as const, address };
+        saveCheckoutState(progress);
+
+        expect(loadCheckoutState()).toEqual(progress);
+    });
+
+    it('drops progress that is invalid or beyond the reached step', () => {
+        sessionStorage.setItem(CHECKOUT_STORAGE_KEY, JSON.stringify({ version: 1, step: 'review', reachedStep: 'delivery', address }));
+        expect(loadCheckoutState()).toBeUndefined();
+        expect(sessionStorage.getItem(CHECKOUT_STORAGE_KEY)).toBeNull();
+
+        sessionStorage.setItem(CHECKOUT_STORAGE_KEY, JSON.stringify({ version: 1, step: 'address', reachedStep: 'address', address: {} }));
+        expect(loadCheckoutState()).toBeUndefined();
+    });
+});
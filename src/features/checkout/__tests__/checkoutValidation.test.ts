@@ -0,0 +1,65 @@
+import { hasNoErrors, validatePaymentDetails, validateShippingAddress } from '../checkoutValidation';
+
+const address = {
+    fullName: 'Ada Lovelace',
+    line1: '12 Analytical St',
+    line2: '',
+    city: 'Springfield',
+    region: 'CA',
+    postalCode: '90210',
+    country: 'US',
+};
+
+const card = { cardholderName: 'Ada Lovelace', cardNumber: '4242 4242 4242 4242', expiry: '08/27', cvc: '123' };
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+describe('checkout validation', () => {
+    it('accepts a complete address and leaves optional fields optional', () => {
+        expect(hasNoErrors(validateShippingAddress(address))).toBe(true);
+        expect(validateShippingAddress({ ...address, line2: '' })).toEqual({});
+    });
+
+    it('reports every missing required address field', () => {
+        expect(validateShippingAddress({ ...address, fullName: ' ', city: '', postalCode: '' })).toEqual({
+            fullName: 'fieldRequired',
+            city: 'fieldRequired',
+            postalCode: 'fieldRequired',
+        });
+    });
+
+    it('requires a region only where the country asks for one', () => {
+        expect(validateShippingAddress({ ...address, region: '' })).toEqual({ region: 'fieldRequired' });
+        expect(validateShippingAddress({ ...address, region: '', country: 'FR', postalCode: '75001' })).toEqual({});
+    });
+
+    it('checks the postal code format of the country', () => {
+        expect(validateShippingAddress({ ...address, postalCode: '90210-1234' })).toEqual({});
+        expect(validateShippingAddress({ ...address, postalCode: '9021' })).toEqual({ postalCode: 'addressPostalCodeInvalid' });
+        expect(validateShippingAddress({ ...address, country: 'CA', region: 'ON', postalCode: 'k1a 0b1' })).toEqual({});
+        expect(validateShippingAddress({ ...address, country: 'GB', region: '', postalCode: 'SW1A 1AA' })).toEqual({});
+        expect(validateShippingAddress({ ...address, country: 'GB', postalCode: '90210' })).toEqual({ postalCode: 'addressPostalCodeInvalid' });
+    });
+
+    it('rejects countries the store does not ship to', () => {
+        expect(validateShippingAddress({ ...address, country: 'ZZ' })).toEqual({ country: 'addressCountryUnsupported' });
+    });
+
+    it('accepts well-formed card details', () => {
+        expect(validatePaymentDetails(card, now)).toEqual({});
+    });
+
+    it('reports malformed card details', () => {
+        expect(validatePaymentDetails({ cardholderName: '', cardNumber: '4242', expiry: 'soon', cvc: '12' }, now)).toEqual({
+            cardholderName: 'fieldRequired',
+            cardNumber: 'cardNumberInvalid',
+            expiry: 'cardExpiryInvalid',
+            cvc: 'cardCvcInvalid',
+        });
+    });
+
+    it('treats cards as valid until the end of their expiry month', () => {
+        expect(validatePaymentDetails({ ...card, expiry: '03/26' }, now)).toEqual({});
+        expect(validatePaymentDetails({ ...card, expiry: '02/26' }, now)).toEqual({ expiry: 'cardExpired' });
+    });
+});
@@ -0,0 +1,109 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { addToCart, setLineGift } from '../../cart/cartSlice';
+import cartHistoryReducer from '../../cart/cartHistorySlice';
+import { cartHistoryMiddleware } from '../../cart/cartHistory';
+import checkoutReducer, { EMPTY_SHIPPING_ADDRESS, completeStep } from '../checkoutSlice';
+import { buildOrder, placeOrder } from '../placeOrder';
+import { calculatePriceBreakdown } from '../../pricing/pricingPipeline';
+import { createSimulatedGateway } from '../../payments/simulatedGateway';
+import { getOrdersFromLocalStorage } from '../../../utils/localStorageHelpers';
+import { Money } from '../../../utils/money';
+
+const product = {
+    id: 7,
+    title: 'Ordered Product',
+    price: 2000 as Money, // cents
+    description: 'desc',
+    category: 'electronics',
+    image: 'img.jpg',
+    rating: { rate: 4, count: 10 },
+};
+
+const address = { ...EMPTY_SHIPPING_ADDRESS, fullName: 'Ada Lovelace', line1: '12 Analytical St', city: 'Springfield', postalCode: '90210' };
+const currency = { code: 'USD' as const, rate: 1 };
+const card = { cardholderName: 'Ada Lovelace', cardNumber: '4242 4242 4242 4242', expiry: '08/49', cvc: '123' };
+
+const makeStore = () => configureStore({
+    reducer: { cart: cartReducer, cartHistory: cartHistoryReducer, checkout: checkoutReducer },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(cartHistoryMiddleware),
+});
+
+describe('placing an order', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('builds the order from the priced lines, with the address and gift options', () => {
+        const items = [{ ...product, quantity: 2, gift: { wrap: true, message: 'Enjoy' } }];
+        const breakdown = calculatePriceBreakdown({ items, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-OR' });
+        const order = buildOrder({ owner: 'user:ada', items, breakdown, address, currency }, undefined, new Date('2026-03-15T12:00:00Z'));
+
+        expect(order).toMatchObject({
+            orderId: `ORD-${Date.parse('2026-03-15T12:00:00Z')}`,
+            owner: 'user:ada',
+            items: [{ productId: 7, title: 'Ordered Product', quantity: 2, price: 2000, lineTotal: 4000, gift: { wrap: true, message: 'Enjoy' } }],
+            subtotal: 4000,
+            giftWrap: 798,
+            shipping: { method: 'standard', cost: 599 },
+            shippingAddress: address,
+            totalPrice: 4000 + 798 + 599,
+        });
+    });
+
+    it('keeps its own copy of the address, so later address book edits do not rewrite it', () => {
+        const saved = { ...address };
+        const items = [{ ...product, quantity: 1 }];
+        const breakdown = calculatePriceBreakdown({ items, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-OR' });
+        const order = buildOrder({ owner: 'user:ada', items, breakdown, address: saved, currency });
+
+        saved.line1 = '1 New Street';
+        expect(order.shippingAddress).toEqual(address);
+    });
+
+    it('charges the card, saves the order, empties the cart and resets the checkout progress', async () => {
+        const store = makeStore();
+        store.dispatch(addToCart(product));
+        store.dispatch(setLineGift({ itemId: 7, gift: { wrap: false, message: '' } }));
+        store.dispatch(completeStep());
+        const { items } = store.getState().cart;
+        const breakdown = calculatePriceBreakdown({ items, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA' });
+
+        const result = await store.dispatch(placeOrder({ owner: 'user:ada', items, breakdown, address, currency }, card, createSimulatedGateway({ latencyMs: 0 })));
+
+        if (!result.ok) throw new Error(`order failed: ${result.reason}`);
+        expect(result.order.payment).toMatchObject({ provider: 'simulated', status: 'captured', amount: breakdown.total, card: { brand: 'visa', last4: '4242' } });
+        // Placed and paid at the same moment
+        expect(result.order.status).toBe('paid');
+        expect(result.order.statusHistory?.map(change => change.status)).toEqual(['placed', 'paid']);
+        // Nothing but the masked card is kept
+        expect(JSON.stringify(result.order)).not.toContain('4242 4242');
+        expect(getOrdersFromLocalStorage('user:ada')).toEqual([result.order]);
+        expect(store.getState().cart.items).toEqual([]);
+        expect(store.getState().checkout.step).toBe('address');
+    });
+
+    it('does not offer to undo emptying the cart once the order is placed', async () => {
+        const store = makeStore();
+        store.dispatch(addToCart(product));
+        const { items } = store.getState().cart;
+        const breakdown = calculatePriceBreakdown({ items, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA' });
+
+        await store.dispatch(placeOrder({ owner: 'user:ada', items, breakdown, address, currency }, card, createSimulatedGateway({ latencyMs: 0 })));
+
+        expect(store.getState().cartHistory).toMatchObject({ past: [], future: [], notice: null });
+    });
+
+    it('keeps the cart and saves nothing when the payment fails', async () => {
+        const store = makeStore();
+        store.dispatch(addToCart(product));
+        const { items } = store.getState().cart;
+        const breakdown = calculatePriceBreakdown({ items, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA' });
+
+        const declinedCard = { ...card, cardNumber: '4000000000000002' };
+        const result = await store.dispatch(placeOrder({ owner: 'user:ada', items, breakdown, address, currency }, declinedCard, createSimulatedGateway({ latencyMs: 0 })));
+
+        expect(result).toEqual({ ok: false, reason: 'declined' });
+        expect(getOrdersFromLocalStorage('user:ada')).toEqual([]);
+        expect(store.getState().cart.items).toHaveLength(1);
+    });
+});
@@ -0,0 +1,96 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { CHECKOUT_STEPS, CheckoutStep, ShippingAddress } from './checkoutTypes';
+
+// --- Type Definitions ---
+
+// Progress through the checkout flow. Kept in sessionStorage (see checkoutStorage) so a
+// refresh doesn't send the customer back to the start; card details are deliberately not part of it.
+interface CheckoutState {
+    step: CheckoutStep; // The step currently shown
+    reachedStep: CheckoutStep; // The furthest step unlocked so far; earlier steps can be revisited freely
+    address: ShippingAddress; // Shipping address entered at the first step
+}
+
+// --- Initial State ---
+
+export const EMPTY_SHIPPING_ADDRESS: ShippingAddress = {
+    fullName: '',
+    line1: '',
+    line2: '',
+    city: '',
+    region: '',
+    postalCode: '',
+    country: 'US',
+};
+
+const initialState: CheckoutState = {
+    step: 'address',
+    reachedStep: 'address',
+    address: EMPTY_SHIPPING_ADDRESS,
+};
+
+// --- Helpers ---
+
+/**
+ * Returns the position of a step in the flow.
+ * @param step - The step.
+ * @returns {number} Its index in CHECKOUT_STEPS.
+ */
+export const getStepIndex = (step: CheckoutStep): number => CHECKOUT_STEPS.indexOf(step);
+
+// --- Slice Definition ---
+
+const checkoutSlice = createSlice({
+    name: 'checkout',
+    initialState,
+    reducers: {
+        /**
+         * Stores the shipping address entered at the address step.
+         * Expects the (validated) ShippingAddress as the action payload.
+         */
+        setShippingAddress: (state, action: PayloadAction<ShippingAddress>) => {
+            state.address = action.payload;
+        },
+
+        /**
+         * Moves from the current step to the next one and unlocks it.
+         * The current step must have been validated by the caller. Takes no payload.
+         */
+        completeStep: (state) => {
+            const nextStep = CHECKOUT_STEPS[getStepIndex(state.step) + 1];
+            if (!nextStep) return;
+            state.step = nextStep;
+            if (getStepIndex(nextStep) > getStepIndex(state.reachedStep)) {
+                state.reachedStep = nextStep;
+            }
+        },
+
+        /**
+         * Shows another step. Only steps up to the furthest one reached can be shown,
+         * so the customer can go back (and forward again) but never skip a step.
+         * Expects the step as the action payload.
+         */
+        goToStep: (state, action: PayloadAction<CheckoutStep>) => {
+            if (getStepIndex(action.payload) <= getStepIndex(state.reachedStep)) {
+                state.step = action.payload;
+            }
+        },
+
+        /**
+         * Forgets the checkout progress, e.g. after the order was placed.
+         * The address is kept so the next order starts with it filled in. Takes no payload.
+         */
+        resetCheckout: (state) => {
+            state.step = initialState.step;
+            state.reachedStep = initialState.reachedStep;
+        },
+    },
+});
+
+// --- Exports ---
+
+export const { setShippingAddress, completeStep, goToStep, resetCheckout } = checkoutSlice.actions;
+
+export default checkoutSlice.reducer;
+
+export type { CheckoutState };
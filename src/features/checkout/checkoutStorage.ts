@@ -0,0 +1,96 @@
+// --- Checkout Progress Persistence ---
+
+import { Middleware } from '@reduxjs/toolkit';
+import { CheckoutState } from './checkoutSlice';
+import { CHECKOUT_STEPS, ShippingAddress } from './checkoutTypes';
+
+// sessionStorage key the checkout progress of this tab is persisted under
+export const CHECKOUT_STORAGE_KEY = 'checkoutProgress';
+
+// Bump this whenever the persisted checkout shape changes.
+// Stored progress with any other version is discarded on load.
+export const CHECKOUT_STORAGE_VERSION = 1;
+
+// Shape of the envelope written to sessionStorage
+interface PersistedCheckout extends CheckoutState {
+    version: number;
+}
+
+// --- Validation ---
+
+/**
+ * Checks that an unknown value is a complete shipping address.
+ * @param value - The parsed address.
+ * @returns {boolean} True if every address field is a string.
+ */
+export const isValidShippingAddress = (value: unknown): value is ShippingAddress => {
+    if (typeof value !== 'object' || value === null) return false;
+    const address = value as Partial<ShippingAddress>;
+    return (['fullName', 'line1', 'line2', 'city', 'region', 'postalCode', 'country'] as const)
+        .every(field => typeof address[field] === 'string');
+};
+
+/**
+ * Checks that a parsed value is checkout progress of the current version.
+ * @param value - The parsed sessionStorage contents.
+ * @returns {boolean} True if the value can be used as the initial checkout state.
+ */
+const isValidPersistedCheckout = (value: unknown): value is PersistedCheckout => {
+    if (typeof value !== 'object' || value === null) return false;
+    const checkout = value as Partial<PersistedCheckout>;
+    return (
+        checkout.version === CHECKOUT_STORAGE_VERSION &&
+        CHECKOUT_STEPS.some(step => step === checkout.step) &&
+        CHECKOUT_STEPS.some(step => step === checkout.reachedStep) &&
+        CHECKOUT_STEPS.indexOf(checkout.step!) <= CHECKOUT_STEPS.indexOf(checkout.reachedStep!) &&
+        isValidShippingAddress(checkout.address)
+    );
+};
+
+// --- Storage Helpers ---
+
+/**
+ * Reads the persisted checkout progress from sessionStorage.
+ * Corrupt data and progress saved in an older format are removed from storage.
+ * @returns {CheckoutState | undefined} The restored progress, or undefined to start from the first step.
+ */
+export const loadCheckoutState = (): CheckoutState | undefined => {
+    const stored = sessionStorage.getItem(CHECKOUT_STORAGE_KEY);
+    if (!stored) return undefined;
+
+    try {
+        const parsed: unknown = JSON.parse(stored);
+        if (isValidPersistedCheckout(parsed)) {
+            return { step: parsed.step, reachedStep: parsed.reachedStep, address: parsed.address };
+        }
+        console.warn("Discarding stored checkout progress with an unrecognised format.");
+    } catch (error) {
+        console.error("Error parsing checkout progress from sessionStorage:", error);
+    }
+    sessionStorage.removeItem(CHECKOUT_STORAGE_KEY);
+    return undefined;
+};
+
+/**
+ * Writes the checkout progress to sessionStorage, stamped with the current storage version.
+ * @param checkout - The checkout slice state to persist.
+ */
+export const saveCheckoutState = (checkout: CheckoutState) => {
+    const persisted: PersistedCheckout = { version: CHECKOUT_STORAGE_VERSION, ...checkout };
+    sessionStorage.setItem(CHECKOUT_STORAGE_KEY, JSON.stringify(persisted));
+};
+
+// --- Middleware ---
+
+/**
+ * Redux middleware that persists the checkout slice whenever an action changes it.
+ */
+export const checkoutPersistenceMiddleware: Middleware<object, { checkout: CheckoutState }> = (api) => (next) => (action) => {
+    const previousCheckout = api.getState().checkout;
+    const result = next(action);
+    const nextCheckout = api.getState().checkout;
+    if (nextCheckout !== previousCheckout) {
+        saveCheckoutState(nextCheckout);
+    }
+    return result;
+};
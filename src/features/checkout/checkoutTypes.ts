@@ -0,0 +1,26 @@
+// --- Checkout Type Definitions ---
+
+import { CardDetails } from '../payments/paymentTypes';
+
+// Steps of the checkout flow, in order
+export type CheckoutStep = 'address' | 'delivery' | 'payment' | 'review';
+
+export const CHECKOUT_STEPS: CheckoutStep[] = ['address', 'delivery', 'payment', 'review'];
+
+// Where the order is shipped to
+export interface ShippingAddress {
+    fullName: string;
+    line1: string;
+    line2: string; // Optional; empty when not used
+    city: string;
+    region: string; // State, province or county; optional in some countries
+    postalCode: string;
+    country: string; // ISO 3166-1 alpha-2 code, e.g. 'US'
+}
+
+// Card details typed in at the payment step. Never persisted: they only live in the checkout page
+// until they are handed to the payment provider.
+export type PaymentDetails = CardDetails;
+
+// Translation keys of the validation errors of a form, by field
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
@@ -0,0 +1,65 @@
+// --- Checkout Form Validation ---
+
+import { FieldErrors, PaymentDetails, ShippingAddress } from './checkoutTypes';
+import { isCardExpired, normalizeCardNumber, parseCardExpiry } from '../payments/cards';
+import { findCountry } from '../../data/countries';
+
+// Fields every shipping address needs, whatever the country
+const REQUIRED_ADDRESS_FIELDS: Array<keyof ShippingAddress> = ['fullName', 'line1', 'city', 'postalCode', 'country'];
+
+/**
+ * Validates an address against the rules of its country: the fields every address needs,
+ * the region where the country requires one, and the country's postal code format.
+ * Used by the checkout address step and the address book.
+ * @param address - The address as entered.
+ * @returns {FieldErrors<ShippingAddress>} Translation keys of the errors by field (empty when valid).
+ */
+export const validateShippingAddress = (address: ShippingAddress): FieldErrors<ShippingAddress> => {
+    const errors: FieldErrors<ShippingAddress> = {};
+    REQUIRED_ADDRESS_FIELDS.forEach(field => {
+        if (!address[field].trim()) errors[field] = 'fieldRequired';
+    });
+    if (errors.country) return errors;
+
+    const country = findCountry(address.country);
+    if (!country) {
+        errors.country = 'addressCountryUnsupported';
+        return errors;
+    }
+    if (country.regionRequired && !address.region.trim()) errors.region = 'fieldRequired';
+    if (!errors.postalCode && !country.postalCodePattern.test(address.postalCode.trim())) {
+        errors.postalCode = 'addressPostalCodeInvalid';
+    }
+    return errors;
+};
+
+/**
+ * Validates the format of the card details at the payment step. Whether the card is
+ * actually accepted is up to the payment provider when the order is placed.
+ * @param details - The card details as entered.
+ * @param now - The current date, for the expiry check.
+ * @returns {FieldErrors<PaymentDetails>} Translation keys of the errors by field (empty when valid).
+ */
+export const validatePaymentDetails = (details: PaymentDetails, now: Date = new Date()): FieldErrors<PaymentDetails> => {
+    const errors: FieldErrors<PaymentDetails> = {};
+    if (!details.cardholderName.trim()) errors.cardholderName = 'fieldRequired';
+
+    if (!/^\d{12,19}$/.test(normalizeCardNumber(details.cardNumber))) errors.cardNumber = 'cardNumberInvalid';
+
+    const expiry = parseCardExpiry(details.expiry);
+    if (!expiry) {
+        errors.expiry = 'cardExpiryInvalid';
+    } else if (isCardExpired(expiry, now)) {
+        errors.expiry = 'cardExpired';
+    }
+
+    if (!/^\d{3,4}$/.test(details.cvc.trim())) errors.cvc = 'cardCvcInvalid';
+    return errors;
+};
+
+/**
+ * Checks whether a validation result has no errors.
+ * @param errors - The result of one of the validators above.
+ * @returns {boolean} True if every field is valid.
+ */
+export const hasNoErrors = <T>(errors: FieldErrors<T>): boolean => Object.keys(errors).length === 0;
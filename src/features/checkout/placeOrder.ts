@@ -0,0 +1,126 @@
+// --- Order Placement ---
+
+import { ThunkAction, UnknownAction } from '@reduxjs/toolkit';
+import { CartItem, CartState, clearCart } from '../cart/cartSlice';
+import { historyCleared } from '../cart/cartHistorySlice';
+import { PriceBreakdown } from '../pricing/pricingPipeline';
+import { CheckoutState, resetCheckout } from './checkoutSlice';
+import { PaymentDetails, ShippingAddress } from './checkoutTypes';
+import { paymentProvider } from '../payments/paymentProvider';
+import { PaymentFailureReason, PaymentProvider } from '../payments/paymentTypes';
+import { Order, OrderCurrency, OrderPayment, OrderStatusChange } from '../../types/Order';
+import { saveOrderToLocalStorage } from '../../utils/localStorageHelpers';
+import { issueInvoice } from '../invoices/invoice';
+
+// What is needed to turn the cart into an order
+export interface OrderDraft {
+    owner: string; // Owner key of the customer placing the order (see getCartOwnerKey)
+    items: CartItem[];
+    breakdown: PriceBreakdown; // Pricing of the items, computed right before placing the order
+    address: ShippingAddress;
+    currency: OrderCurrency; // What the customer saw prices in
+}
+
+// Outcome of placing an order
+export type PlaceOrderResult =
+    | { ok: true; order: Order }
+    | { ok: false; reason: PaymentFailureReason }; // The payment failed; nothing was saved and the cart is untouched
+
+type PlaceOrderThunk = ThunkAction<Promise<PlaceOrderResult>, { cart: CartState; checkout: CheckoutState }, unknown, UnknownAction>;
+
+/**
+ * Builds the order record for a priced cart.
+ * @param draft - The cart lines, their pricing, the address and the display currency.
+ * @param payment - The captured payment, if any.
+ * @param now - Time of the order, used for its id and dates.
+ * @returns {Order} The order, ready to be saved.
+ */
+export const buildOrder = ({ owner, items, breakdown, address, currency }: OrderDraft, payment?: OrderPayment, now: Date = new Date()): Order => {
+    // Generate a unique order ID and get the current date/time
+    const orderId = `ORD-${now.getTime()}`;
+    const orderDate = now.toISOString(); // ISO format is standard
+    const promotion = breakdown.promotion;
+    // Orders start out placed, and are paid straight away once the payment is captured
+    // (or when there is nothing to pay)
+    const isPaid = payment?.status === 'captured' || breakdown.total === 0;
+    const statusHistory: OrderStatusChange[] = [
+        { status: 'placed', at: orderDate },
+        ...(isPaid ? [{ status: 'paid' as const, at: orderDate }] : []),
+    ];
+
+    return {
+        orderId,
+        owner,
+        dateCreated: orderDate,
+        items: items.map((item, index) => ({
+            productId: item.id,
+            title: item.title,
+            quantity: item.quantity,
+            // Record the effective unit price charged (quantity tiers and bundles), not just the list price
+            price: breakdown.lines[index].unitPrice,
+            listPrice: item.price,
+            lineTotal: breakdown.lines[index].lineTotal,
+            // Gift options and the packing note travel with the line (omitted when not set)
+            ...(item.gift && { gift: { ...item.gift } }),
+            ...(item.note && { note: item.note }),
+        })),
+        subtotal: breakdown.subtotal,
+        // Only one code per order; store it with the discount lines it produced
+        promoCode: promotion?.valid ? promotion.promotion.code : undefined,
+        discounts: breakdown.discounts,
+        giftWrap: breakdown.giftWrap > 0 ? breakdown.giftWrap : undefined,
+        shipping: { method: breakdown.shippingMethod.id, cost: breakdown.shipping },
+        tax: { region: breakdown.taxRegion.code, rate: breakdown.taxRegion.rate, amount: breakdown.tax },
+        shippingAddress: { ...address },
+        payment,
+        status: statusHistory[statusHistory.length - 1].status,
+        statusHistory,
+        totalPrice: breakdown.total, // Same cents total the cart displays
+        // Remember what the customer saw so order history can show the same amounts
+        currency: { code: currency.code, rate: currency.rate },
+    };
+};
+
+/**
+ * Places the order: charges the card through the payment provider (authorize, then capture),
+ * saves the order with its payment to the order history, empties the cart (clearing its undo
+ * history) and resets the checkout progress. If the capture fails the authorization is voided, so the customer is
+ * never left with a hold on their card for an order that doesn't exist.
+ * @param draft - The cart lines, their pricing, the address and the display currency.
+ * @param card - The card details from the payment step.
+ * @param provider - The provider to charge (defaults to the configured one).
+ * @returns The saved order, or why the payment failed (dispatch returns a promise of it).
+ */
+export const placeOrder = (draft: OrderDraft, card: PaymentDetails, provider: PaymentProvider = paymentProvider): PlaceOrderThunk => async (dispatch) => {
+    let payment: OrderPayment | undefined;
+    // Nothing to charge when discounts cover the whole order
+    if (draft.breakdown.total > 0) {
+        const authorization = await provider.authorize({ amount: draft.breakdown.total, card });
+        if (!authorization.ok) return authorization;
+
+        const capture = await provider.capture(authorization.transaction.id);
+        if (!capture.ok) {
+            await provider.void(authorization.transaction.id);
+            return capture;
+        }
+
+        const { transaction } = capture;
+        payment = {
+            provider: provider.name,
+            transactionId: transaction.id,
+            status: transaction.status,
+            amount: transaction.capturedAmount,
+            card: transaction.card,
+        };
+    }
+
+    // Invoice numbers follow the order in which orders are placed
+    const order = issueInvoice(buildOrder(draft, payment));
+    saveOrderToLocalStorage(order);
+    // The persistence middlewares write the empty cart and the reset progress back to sessionStorage
+    dispatch(clearCart());
+    // The lines were bought: emptying the cart must not be offered as an undoable change
+    dispatch(historyCleared());
+    dispatch(resetCheckout());
+    return { ok: true, order };
+};
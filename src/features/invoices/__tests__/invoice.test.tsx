@@ -0,0 +1,75 @@
+import { getOrdersFromLocalStorage, saveOrdersToLocalStorage } from '../../../utils/localStorageHelpers';
+import { INVOICE_SEQUENCE_STORAGE_KEY, buildInvoice, ensureInvoice, formatInvoiceNumber, issueInvoice } from '../invoice';
+import { renderStandaloneInvoice } from '../invoiceHtml';
+import { cents, makeOrder } from '../../../testUtils/fixtures';
+
+// Translation keys stand in for the text
+jest.mock('react-i18next', () => ({
+    useTranslation: () => ({ t: (key: string) => key }),
+}));
+
+// Express shipping and California tax on top of two lines
+const makeTaxedOrder = (orderId: string) => makeOrder({
+    orderId,
+    items: [
+        { productId: 1, title: 'Mug <large>', quantity: 2, price: cents(900) },
+        { productId: 2, quantity: 1, price: cents(250) },
+    ],
+    subtotal: cents(2050),
+    shipping: { method: 'express', cost: cents(1499) },
+    tax: { region: 'US-CA', rate: 0.0725, amount: cents(149) },
+    totalPrice: cents(3698),
+});
+
+describe('invoice numbers', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('are sequential and separate from the order id', () => {
+        const first = issueInvoice(makeTaxedOrder('ORD-1'));
+        const second = issueInvoice(makeTaxedOrder('ORD-2'));
+
+        expect(first.invoice.number).toBe('INV-000001');
+        expect(second.invoice.number).toBe('INV-000002');
+        expect(localStorage.getItem(INVOICE_SEQUENCE_STORAGE_KEY)).toBe('2');
+    });
+
+    it('are issued only once per order', () => {
+        const invoiced = issueInvoice(makeTaxedOrder('ORD-1'));
+
+        expect(issueInvoice(invoiced)).toBe(invoiced);
+        expect(formatInvoiceNumber(1234567)).toBe('INV-1234567');
+    });
+
+    it('are saved with orders that get one late', () => {
+        saveOrdersToLocalStorage('user:ada', [makeTaxedOrder('ORD-1')]);
+
+        const invoiced = ensureInvoice(getOrdersFromLocalStorage('user:ada')[0]);
+
+        expect(getOrdersFromLocalStorage('user:ada')[0].invoice).toEqual(invoiced.invoice);
+        expect(ensureInvoice(getOrdersFromLocalStorage('user:ada')[0]).invoice.number).toBe('INV-000001');
+    });
+});
+
+describe('invoice contents', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('lists the lines with recorded or catalog titles and the tax and shipping breakdown', () => {
+        const invoice = buildInvoice(issueInvoice(makeTaxedOrder('ORD-1')), 'Ada', new Map([[1, 'Mug'], [2, 'Lamp']]));
+
+        expect(invoice.customerName).toBe('Ada');
+        expect(invoice.lines.map(line => line.title)).toEqual(['Mug <large>', 'Lamp']);
+        expect(invoice).toMatchObject({ shippingMethod: 'shippingExpress', taxRegion: 'California', taxRate: 0.0725 });
+        expect(invoice.charges).toMatchObject({ subtotal: 2050, shipping: 1499, tax: 149, total: 3698 });
+    });
+
+    it('renders a standalone HTML file with the stylesheet inlined and the text escaped', () => {
+        const invoice = buildInvoice(issueInvoice(makeTaxedOrder('ORD-1')), 'Ada');
+        const html = renderStandaloneInvoice(invoice, 'Invoice INV-000001', 'en');
+
+        expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+        expect(html).toContain('<title>Invoice INV-000001</title>');
+        expect(html).toContain('@media print');
+        expect(html).toContain('Mug &lt;large&gt;');
+        expect(html).toContain('INV-000001');
+    });
+});
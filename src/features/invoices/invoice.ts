@@ -0,0 +1,129 @@
+// --- Invoices ---
+
+import { Order, OrderCurrency, OrderInvoice, OrderPayment } from '../../types/Order';
+import { ShippingAddress } from '../checkout/checkoutTypes';
+import { OrderCharges, getOrderCharges, resolveOrderLines } from '../orders/orderDetails';
+import { SELLER, SellerDetails } from '../../data/seller';
+import { SHIPPING_METHODS } from '../../data/shipping';
+import { TAX_REGIONS } from '../../data/taxRegions';
+import { BASE_CURRENCY } from '../../data/currencies';
+import { Money } from '../../utils/money';
+import { updateOrderInLocalStorage } from '../../utils/localStorageHelpers';
+
+// localStorage key holding the last invoice number issued. Never reset: invoice numbers are not reused,
+// even when orders are deleted.
+export const INVOICE_SEQUENCE_STORAGE_KEY = 'invoiceSequence';
+
+// An order that has been given its invoice number
+export type InvoicedOrder = Order & { invoice: OrderInvoice };
+
+// One line of an invoice
+export interface InvoiceLine {
+    productId: number;
+    title: string | null; // Title recorded at checkout, else the current catalog title
+    quantity: number;
+    unitPrice: Money; // Effective unit price charged
+    lineTotal: Money;
+}
+
+// Everything printed on an invoice
+export interface Invoice {
+    number: string;
+    issuedAt: string;
+    orderId: string;
+    orderDate: string;
+    seller: SellerDetails;
+    customerName: string;
+    shippingAddress: ShippingAddress | null; // Missing on orders placed before the checkout flow
+    lines: InvoiceLine[];
+    charges: OrderCharges;
+    shippingMethod: string | null; // Translation key of the shipping method's name
+    taxRegion: string | null; // Name of the tax region
+    taxRate: number | null; // e.g. 0.0725
+    payment: OrderPayment | null;
+    currency: OrderCurrency; // Amounts are shown in the currency and rate used at checkout
+}
+
+// --- Numbering ---
+
+/**
+ * Formats an invoice sequence number.
+ * @param sequence - The sequence number (1 for the first invoice).
+ * @returns {string} The invoice number, e.g. "INV-000042".
+ */
+export const formatInvoiceNumber = (sequence: number): string => `INV-${String(sequence).padStart(6, '0')}`;
+
+/**
+ * Takes the next number of the invoice sequence.
+ * @returns {number} The number, one more than the last one issued.
+ */
+const takeNextInvoiceSequence = (): number => {
+    const last = Number(localStorage.getItem(INVOICE_SEQUENCE_STORAGE_KEY));
+    const next = (Number.isSafeInteger(last) && last > 0 ? last : 0) + 1;
+    localStorage.setItem(INVOICE_SEQUENCE_STORAGE_KEY, String(next));
+    return next;
+};
+
+/**
+ * Checks whether an order already has its invoice number.
+ * @param order - The order.
+ * @returns {boolean} True if an invoice was issued.
+ */
+const hasInvoice = (order: Order): order is InvoicedOrder => order.invoice !== undefined;
+
+/**
+ * Gives an order its invoice number, unless it already has one. The order itself isn't saved.
+ * @param order - The order.
+ * @param now - Time of issue.
+ * @returns {InvoicedOrder} The order with its invoice (the same object if it already had one).
+ */
+export const issueInvoice = (order: Order, now: Date = new Date()): InvoicedOrder => {
+    if (hasInvoice(order)) return order;
+    const invoice: OrderInvoice = { number: formatInvoiceNumber(takeNextInvoiceSequence()), issuedAt: now.toISOString() };
+    return { ...order, invoice };
+};
+
+/**
+ * Makes sure a stored order has an invoice number, saving it if one was just issued.
+ * Used for orders placed before invoices were numbered.
+ * @param order - The stored order.
+ * @returns {InvoicedOrder} The order with its invoice.
+ */
+export const ensureInvoice = (order: Order): InvoicedOrder => {
+    const invoiced = issueInvoice(order);
+    if (invoiced !== order) updateOrderInLocalStorage(invoiced);
+    return invoiced;
+};
+
+// --- Invoice Contents ---
+
+/**
+ * Puts together the invoice of an order.
+ * @param order - The order, with its invoice number (see issueInvoice).
+ * @param customerName - The customer's name, from the logged-in user.
+ * @param productTitles - Current catalog titles by product id, for orders that didn't record titles.
+ * @returns {Invoice} What the invoice shows.
+ */
+export const buildInvoice = (order: InvoicedOrder, customerName: string, productTitles: Map<number, string> = new Map()): Invoice => ({
+    number: order.invoice.number,
+    issuedAt: order.invoice.issuedAt,
+    orderId: order.orderId,
+    orderDate: order.dateCreated,
+    seller: SELLER,
+    // Fall back to the recipient when the order is opened without a logged-in name
+    customerName: customerName || order.shippingAddress?.fullName || '',
+    shippingAddress: order.shippingAddress ?? null,
+    lines: resolveOrderLines(order, []).map(line => ({
+        productId: line.productId,
+        title: line.title ?? productTitles.get(line.productId) ?? null,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        lineTotal: line.lineTotal,
+    })),
+    charges: getOrderCharges(order),
+    shippingMethod: SHIPPING_METHODS.find(method => method.id === order.shipping?.method)?.label ?? null,
+    taxRegion: TAX_REGIONS.find(region => region.code === order.tax?.region)?.name ?? null,
+    taxRate: order.tax?.rate ?? null,
+    payment: order.payment ?? null,
+    currency: order.currency ?? { code: BASE_CURRENCY, rate: 1 },
+});
@@ -0,0 +1,50 @@
+// --- Standalone Invoice Files ---
+
+import React from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import InvoiceDocument from '../../components/InvoiceDocument';
+import { Invoice } from './invoice';
+import { INVOICE_STYLES } from './invoiceStyles';
+
+/**
+ * Escapes text for use inside HTML.
+ * @param text - The text.
+ * @returns {string} The text with &, <, >, " and ' escaped.
+ */
+const escapeHtml = (text: string): string =>
+    text.replace(/[&<>"']/g, character => `&#${character.charCodeAt(0)};`);
+
+/**
+ * Renders the invoice markup into a detached element (no server renderer is needed in the browser).
+ * @param invoice - The invoice.
+ * @returns {string} The invoice's HTML.
+ */
+const renderInvoiceMarkup = (invoice: Invoice): string => {
+    const container = document.createElement('div');
+    const root = createRoot(container);
+    flushSync(() => root.render(<InvoiceDocument invoice={invoice} />));
+    const markup = container.innerHTML;
+    root.unmount();
+    return markup;
+};
+
+/**
+ * Renders an invoice as a complete HTML document, with its stylesheet inlined, that opens
+ * and prints the same in any browser without the shop. Generated entirely in the browser.
+ * @param invoice - The invoice.
+ * @param title - The document title, e.g. "Invoice INV-000042".
+ * @param language - The language of the document, e.g. "en".
+ * @returns {string} The HTML file contents.
+ */
+export const renderStandaloneInvoice = (invoice: Invoice, title: string, language: string): string =>
+    '<!DOCTYPE html>\n' +
+    `<html lang="${escapeHtml(language)}">\n` +
+    '<head>\n' +
+    '<meta charset="utf-8">\n' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1">\n' +
+    `<title>${escapeHtml(title)}</title>\n` +
+    `<style>${INVOICE_STYLES}</style>\n` +
+    '</head>\n' +
+    `<body>${renderInvoiceMarkup(invoice)}</body>\n` +
+    '</html>\n';
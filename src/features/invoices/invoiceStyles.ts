@@ -0,0 +1,43 @@
+// --- Invoice Stylesheet ---
+// Plain CSS (no Bootstrap), shared by the on-screen invoice and the downloaded HTML file,
+// so both look and print the same.
+
+export const INVOICE_STYLES = `
+.invoice {
+  max-width: 800px;
+  margin: 0 auto;
+  padding: 32px;
+  background: #fff;
+  color: #212529;
+  font-family: 'Helvetica Neue', Arial, sans-serif;
+  font-size: 14px;
+  line-height: 1.5;
+}
+.invoice h1 { font-size: 28px; margin: 0 0 4px; letter-spacing: 1px; }
+.invoice h2 { font-size: 13px; text-transform: uppercase; color: #6c757d; margin: 0 0 4px; }
+.invoice p { margin: 0; }
+.invoice-header, .invoice-parties { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+.invoice-meta { text-align: right; }
+.invoice-table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+.invoice-table th, .invoice-table td { padding: 6px 8px; border-bottom: 1px solid #dee2e6; text-align: left; vertical-align: top; }
+.invoice-table th { border-bottom: 2px solid #212529; }
+.invoice-table .amount { text-align: right; white-space: nowrap; }
+.invoice-totals { margin-left: auto; width: 320px; border-collapse: collapse; }
+.invoice-totals td { padding: 4px 8px; }
+.invoice-totals .amount { text-align: right; white-space: nowrap; }
+.invoice-totals .grand-total td { border-top: 2px solid #212529; font-weight: bold; font-size: 16px; }
+.invoice-footer { margin-top: 32px; color: #6c757d; font-size: 12px; }
+
+@page { size: A4; margin: 15mm; }
+
+@media print {
+  body { background: #fff !important; color: #000 !important; display: block !important; }
+  .app-container { background: none !important; border: none !important; box-shadow: none !important; backdrop-filter: none !important; padding: 0 !important; }
+  .invoice { max-width: none; padding: 0; }
+  /* Each invoice starts on a new page */
+  .invoice + .invoice { break-before: page; }
+  /* Long invoices: repeat the column headers and never split a line, the parties or the totals across pages */
+  .invoice-table thead { display: table-header-group; }
+  .invoice-table tr, .invoice-header, .invoice-parties, .invoice-totals { break-inside: avoid; }
+}
+`;
@@ -0,0 +1,66 @@
+import { Order } from '../../../types/Order';
+import { Money } from '../../../utils/money';
+import { createSimulatedGateway } from '../../payments/simulatedGateway';
+import { getOrdersFromLocalStorage, saveOrdersToLocalStorage } from '../../../utils/localStorageHelpers';
+import { cancelOrder } from '../cancelOrder';
+
+const card = { cardholderName: 'Ada Lovelace', cardNumber: '4242 4242 4242 4242', expiry: '08/49', cvc: '123' };
+const placedAt = '2026-03-15T12:00:00.000Z';
+const now = new Date('2026-03-15T13:00:00.000Z');
+
+/**
+ * Pays for an order through the gateway and stores it, like checkout does.
+ * @param gateway - The gateway to charge.
+ * @param status - The order status to store.
+ */
+const storePaidOrder = async (gateway: ReturnType<typeof createSimulatedGateway>, status: Order['status']) => {
+    const amount = 2500 as Money;
+    const authorization = await gateway.authorize({ amount, card });
+    if (!authorization.ok) throw new Error('authorization failed');
+    const capture = await gateway.capture(authorization.transaction.id);
+    if (!capture.ok) throw new Error('capture failed');
+
+    const order: Order = {
+        orderId: 'ORD-1',
+        owner: 'user:ada',
+        dateCreated: placedAt,
+        items: [{ productId: 7, quantity: 1, price: amount }],
+        totalPrice: amount,
+        payment: { provider: gateway.name, transactionId: capture.transaction.id, status: 'captured', amount, card: capture.transaction.card },
+        status,
+        statusHistory: [{ status: 'placed', at: placedAt }, { status: 'paid', at: placedAt }],
+    };
+    saveOrdersToLocalStorage('user:ada', [order]);
+};
+
+describe('cancelling an order', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('refunds the payment and logs the cancellation', async () => {
+        const gateway = createSimulatedGateway({ latencyMs: 0 });
+        await storePaidOrder(gateway, 'paid');
+
+        const result = await cancelOrder('user:ada', 'ORD-1', gateway, now);
+
+        if (!result.ok) throw new Error(`cancellation failed: ${result.reason}`);
+        expect(result.order.status).toBe('cancelled');
+        expect(result.order.statusHistory?.at(-1)).toEqual({ status: 'cancelled', at: now.toISOString() });
+        expect(result.order.payment).toMatchObject({ status: 'refunded', refundedAmount: 2500 });
+        expect(getOrdersFromLocalStorage('user:ada')[0]).toEqual(result.order);
+    });
+
+    it('refuses orders that have shipped and leaves them as they were', async () => {
+        const gateway = createSimulatedGateway({ latencyMs: 0 });
+        await storePaidOrder(gateway, 'shipped');
+        const before = getOrdersFromLocalStorage('user:ada');
+
+        expect(await cancelOrder('user:ada', 'ORD-1', gateway, now)).toEqual({ ok: false, reason: 'invalidTransition' });
+        expect(getOrdersFromLocalStorage('user:ada')).toEqual(before);
+    });
+
+    it('reports unknown orders', async () => {
+        expect(await cancelOrder('user:ada', 'ORD-404', createSimulatedGateway({ latencyMs: 0 }), now)).toEqual({ ok: false, reason: 'orderNotFound' });
+    });
+});
@@ -0,0 +1,55 @@
+import { Order } from '../../../types/Order';
+import { Product } from '../../../types/Product';
+import { Money } from '../../../utils/money';
+import { getOrderCharges, resolveOrderLines } from '../orderDetails';
+
+const cents = (value: number) => value as Money;
+
+const product: Product = {
+    id: 7,
+    title: 'Current Title',
+    price: cents(2100),
+    description: 'desc',
+    category: 'electronics',
+    image: 'img.jpg',
+    rating: { rate: 4, count: 10 },
+};
+
+const order: Order = {
+    orderId: 'ORD-1',
+    owner: 'user:ada',
+    dateCreated: '2026-03-15T12:00:00.000Z',
+    items: [
+        { productId: 7, title: 'Title At Checkout', quantity: 5, price: cents(1900), listPrice: cents(2000), lineTotal: cents(9500) },
+        { productId: 99, title: 'Discontinued', quantity: 1, price: cents(500) },
+        { productId: 98, quantity: 2, price: cents(250) },
+    ],
+    totalPrice: cents(10500),
+};
+
+describe('order details', () => {
+    it('takes the title and image of products still in the catalog', () => {
+        const [line] = resolveOrderLines(order, [product]);
+
+        expect(line).toMatchObject({ title: 'Current Title', image: 'img.jpg', inCatalog: true, unitPrice: 1900, listPrice: 2000, lineTotal: 9500 });
+    });
+
+    it('falls back to what the order recorded for products that left the catalog', () => {
+        const [, discontinued, unknown] = resolveOrderLines(order, [product]);
+
+        expect(discontinued).toMatchObject({ title: 'Discontinued', image: null, inCatalog: false, listPrice: null, lineTotal: 500 });
+        expect(unknown).toMatchObject({ title: null, image: null, inCatalog: false, lineTotal: 500 });
+    });
+
+    it('breaks the total down, with zero for charges the order predates', () => {
+        expect(getOrderCharges(order)).toEqual({
+            subtotal: 10500,
+            discounts: [],
+            giftWrap: 0,
+            shipping: 0,
+            tax: 0,
+            total: 10500,
+        });
+        expect(getOrderCharges({ ...order, subtotal: cents(10000), shipping: { method: 'standard', cost: cents(599) } })).toMatchObject({ subtotal: 10000, shipping: 599 });
+    });
+});
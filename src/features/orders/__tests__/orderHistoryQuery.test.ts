@@ -0,0 +1,86 @@
+import { Order, OrderStatus } from '../../../types/Order';
+import {
+    DEFAULT_ORDER_HISTORY_QUERY,
+    OrderHistoryQuery,
+    filterOrders,
+    getDisplayedTotal,
+    parseOrderHistoryQuery,
+    queryOrderHistory,
+    sortOrders,
+    toOrderHistorySearchParams,
+} from '../orderHistoryQuery';
+import { cents, makeOrder } from '../../../testUtils/fixtures';
+
+// Noon UTC, so the local calendar day is the same in every test time zone we run in
+const makeDatedOrder = (orderId: string, day: string, total: number, status: OrderStatus = 'placed', quantity = 1) => makeOrder({
+    orderId,
+    dateCreated: `${day}T12:00:00.000Z`,
+    items: [{ productId: 1, title: 'Coffee Mug', quantity, price: cents(total) }],
+    totalPrice: cents(total),
+    status,
+});
+
+const orders = [
+    makeDatedOrder('ORD-2', '2026-03-10', 2000, 'shipped', 3),
+    makeDatedOrder('ORD-10', '2026-03-20', 500, 'cancelled'),
+    { ...makeDatedOrder('ORD-1', '2026-02-01', 9900, 'delivered', 2), items: [{ productId: 7, quantity: 2, price: cents(4950) }] },
+];
+
+const query = (changes: Partial<OrderHistoryQuery>): OrderHistoryQuery => ({ ...DEFAULT_ORDER_HISTORY_QUERY, ...changes });
+const ids = (list: Order[]) => list.map(order => order.orderId);
+
+describe('order history query in the URL', () => {
+    it('round-trips a query and leaves defaults out', () => {
+        const full = query({ search: 'mug', from: '2026-03-01', to: '2026-03-31', minTotal: 5, maxTotal: 50, status: 'shipped', sort: 'total', direction: 'asc', page: 3 });
+
+        expect(parseOrderHistoryQuery(toOrderHistorySearchParams(full))).toEqual(full);
+        expect(toOrderHistorySearchParams(DEFAULT_ORDER_HISTORY_QUERY).toString()).toBe('');
+    });
+
+    it('falls back to defaults for malformed parameters', () => {
+        const parsed = parseOrderHistoryQuery(new URLSearchParams('from=yesterday&min=-4&status=lost&sort=colour&dir=up&page=0'));
+
+        expect(parsed).toEqual(DEFAULT_ORDER_HISTORY_QUERY);
+    });
+});
+
+describe('filtering and sorting orders', () => {
+    it('searches order ids and product titles, including catalog titles', () => {
+        expect(ids(filterOrders(orders, query({ search: 'ord-1' })))).toEqual(['ORD-10', 'ORD-1']);
+        expect(ids(filterOrders(orders, query({ search: 'MUG' })))).toEqual(['ORD-2', 'ORD-10']);
+        expect(ids(filterOrders(orders, query({ search: 'lamp' }), new Map([[7, 'Desk Lamp']])))).toEqual(['ORD-1']);
+    });
+
+    it('filters on inclusive date and total ranges and on status', () => {
+        expect(ids(filterOrders(orders, query({ from: '2026-03-10', to: '2026-03-20' })))).toEqual(['ORD-2', 'ORD-10']);
+        expect(ids(filterOrders(orders, query({ minTotal: 5, maxTotal: 20 })))).toEqual(['ORD-2', 'ORD-10']);
+        expect(ids(filterOrders(orders, query({ status: 'delivered' })))).toEqual(['ORD-1']);
+    });
+
+    it('compares totals in the currency the order was placed in', () => {
+        const euroOrder: Order = { ...makeDatedOrder('ORD-3', '2026-03-01', 1000), currency: { code: 'EUR', rate: 0.9 } };
+
+        expect(getDisplayedTotal(euroOrder)).toBe(9);
+        expect(ids(filterOrders([euroOrder], query({ maxTotal: 9 })))).toEqual(['ORD-3']);
+    });
+
+    it('sorts on every column in both directions', () => {
+        expect(ids(sortOrders(orders, 'orderId', 'asc'))).toEqual(['ORD-1', 'ORD-2', 'ORD-10']);
+        expect(ids(sortOrders(orders, 'date', 'desc'))).toEqual(['ORD-10', 'ORD-2', 'ORD-1']);
+        expect(ids(sortOrders(orders, 'items', 'desc'))).toEqual(['ORD-2', 'ORD-1', 'ORD-10']);
+        expect(ids(sortOrders(orders, 'total', 'asc'))).toEqual(['ORD-10', 'ORD-2', 'ORD-1']);
+        expect(ids(sortOrders(orders, 'status', 'asc'))).toEqual(['ORD-2', 'ORD-1', 'ORD-10']);
+    });
+});
+
+describe('paginating the order history', () => {
+    it('returns the requested page and keeps it within range', () => {
+        expect(queryOrderHistory(orders, query({ page: 2 }), undefined, 2)).toMatchObject({ matchCount: 3, page: 2, pageCount: 2 });
+        expect(ids(queryOrderHistory(orders, query({ page: 2 }), undefined, 2).orders)).toEqual(['ORD-1']);
+        expect(queryOrderHistory(orders, query({ page: 9 }), undefined, 2).page).toBe(2);
+    });
+
+    it('has one empty page when nothing matches', () => {
+        expect(queryOrderHistory(orders, query({ search: 'nothing' }))).toEqual({ orders: [], matchCount: 0, page: 1, pageCount: 1 });
+    });
+});
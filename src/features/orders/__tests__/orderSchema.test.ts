@@ -0,0 +1,174 @@
+import { ORDER_SCHEMA_VERSION, UNCLAIMED_ORDER_OWNER, migrateOrderRecord, toStoredOrder } from '../orderSchema';
+import {
+    ORDER_HISTORY_STORAGE_KEY,
+    claimUnownedOrders,
+    findOrderInLocalStorage,
+    getOrdersFromLocalStorage,
+    getQuarantinedOrders,
+    moveOrdersInLocalStorage,
+    removeOrdersFromLocalStorage,
+    saveOrderToLocalStorage,
+    saveOrdersToLocalStorage,
+} from '../../../utils/localStorageHelpers';
+import { makeOrder } from '../../../testUtils/fixtures';
+
+const placedAt = '2026-03-15T12:00:00.000Z';
+
+// An order as the first version of the app stored it: dollar amounts, legacy fields, no stamp
+const dollarRecord = {
+    id: 'ORD-1',
+    orderId: 'ORD-1',
+    date: placedAt,
+    dateCreated: placedAt,
+    items: [{ productId: '7', quantity: 2, price: 12.5 }],
+    totalPrice: '25.00',
+};
+
+/**
+ * Reads back the raw order history records.
+ * @returns {unknown[]} The stored records.
+ */
+const readStoredRecords = (): unknown[] => JSON.parse(localStorage.getItem(ORDER_HISTORY_STORAGE_KEY) ?? '[]');
+
+describe('migrating stored order records', () => {
+    it('brings unversioned dollar records up to the current schema', () => {
+        expect(migrateOrderRecord(dollarRecord)).toEqual({
+            ok: true,
+            order: {
+                orderId: 'ORD-1',
+                owner: UNCLAIMED_ORDER_OWNER,
+                dateCreated: placedAt,
+                items: [{ productId: 7, quantity: 2, price: 1250 }],
+                totalPrice: 2500,
+            },
+            migrated: true,
+        });
+    });
+
+    it('converts unversioned records whose amounts are all whole dollars', () => {
+        const result = migrateOrderRecord({ ...dollarRecord, items: [{ productId: '7', quantity: 2, price: 12 }], totalPrice: 24 });
+
+        expect(result.ok && result.order).toMatchObject({ items: [{ productId: 7, price: 1200 }], totalPrice: 2400 });
+    });
+
+    it('keeps discount descriptions recorded as text', () => {
+        const record = { schemaVersion: 4, ...makeOrder({ orderId: 'ORD-2' }), discounts: [{ code: 'SAVE10', description: '10% off your order', amount: 250 }] };
+
+        const result = migrateOrderRecord(record);
+
+        expect(result.ok && result.order.discounts).toEqual([
+            { code: 'SAVE10', description: { key: 'promoRecordedDescription', values: { text: '10% off your order' } }, amount: 250 },
+        ]);
+    });
+
+    it('reads current records as they are', () => {
+        expect(migrateOrderRecord({ schemaVersion: ORDER_SCHEMA_VERSION, ...makeOrder({ orderId: 'ORD-2' }) })).toEqual({ ok: true, order: makeOrder({ orderId: 'ORD-2' }), migrated: false });
+    });
+
+    it('rejects records it cannot read', () => {
+        expect(migrateOrderRecord('junk')).toEqual({ ok: false, reason: 'notAnObject' });
+        expect(migrateOrderRecord({ schemaVersion: ORDER_SCHEMA_VERSION + 1, ...makeOrder({ orderId: 'ORD-2' }) })).toEqual({ ok: false, reason: 'unknownSchemaVersion' });
+        expect(migrateOrderRecord({ ...dollarRecord, items: [{ productId: 'mug', quantity: 2, price: 12.5 }] })).toEqual({ ok: false, reason: 'invalidOrder' });
+    });
+
+    it('rejects orders whose status log, charges or returns are malformed', () => {
+        const current = (fields: object) => migrateOrderRecord({ schemaVersion: ORDER_SCHEMA_VERSION, ...makeOrder(), ...fields });
+        const rma = { rmaNumber: 'RMA-1', reason: 'damaged', lines: [{ lineIndex: 0, quantity: 1 }], refundAmount: 1250, status: 'requested', statusHistory: [{ status: 'requested', at: placedAt }] };
+
+        expect(current({ status: 'paid', statusHistory: [{ status: 'placed', at: placedAt }, { status: 'paid', at: placedAt }] }).ok).toBe(true);
+        expect(current({ returns: [rma] }).ok).toBe(true);
+        [
+            { status: 'paid', statusHistory: [] },
+            { status: 'paid', statusHistory: [{ status: 'paid', at: 'yesterday' }] },
+            { statusHistory: [{ status: 'lost', at: placedAt }] },
+            { discounts: [{ code: 'SAVE10', description: 'Save 10%', amount: 250 }] },
+            { shipping: { method: 'teleport', cost: 0 } },
+            { tax: { region: 'US-CA', rate: 0.0725 } },
+            { currency: null },
+            { invoice: { number: 42, issuedAt: placedAt } },
+            { returns: [{ ...rma, lines: [{ lineIndex: 5, quantity: 1 }] }] },
+            { returns: [{ ...rma, statusHistory: [] }] },
+        ].forEach(fields => expect(current(fields)).toEqual({ ok: false, reason: 'invalidOrder' }));
+    });
+});
+
+describe('order history storage', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('stamps saved orders with the schema version', () => {
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-2' }));
+
+        expect(readStoredRecords()).toEqual([{ schemaVersion: ORDER_SCHEMA_VERSION, ...makeOrder({ orderId: 'ORD-2' }) }]);
+        expect(getOrdersFromLocalStorage('user:ada')).toEqual([makeOrder({ orderId: 'ORD-2' })]);
+    });
+
+    it('writes migrated records back and quarantines unreadable ones', () => {
+        const broken = { schemaVersion: ORDER_SCHEMA_VERSION, orderId: 'ORD-3', owner: 'user:ada', items: [] };
+        localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, JSON.stringify([dollarRecord, broken]));
+
+        const orders = getOrdersFromLocalStorage(UNCLAIMED_ORDER_OWNER);
+
+        expect(orders.map(order => order.orderId)).toEqual(['ORD-1']);
+        expect(readStoredRecords()).toEqual([{ schemaVersion: ORDER_SCHEMA_VERSION, ...orders[0] }]);
+        expect(getQuarantinedOrders()).toEqual([{ record: broken, reason: 'invalidOrder', quarantinedAt: expect.any(String) }]);
+    });
+
+    it('quarantines orders whose status log would break fulfillment', () => {
+        const unlogged = { ...toStoredOrder(makeOrder({ orderId: 'ORD-2' })), status: 'paid', statusHistory: [] };
+        localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, JSON.stringify([toStoredOrder(makeOrder()), unlogged]));
+
+        expect(getOrdersFromLocalStorage('user:ada').map(order => order.orderId)).toEqual(['ORD-1']);
+        expect(getQuarantinedOrders()).toEqual([{ record: unlogged, reason: 'invalidOrder', quarantinedAt: expect.any(String) }]);
+    });
+
+    it('quarantines a history that is not valid JSON instead of failing', () => {
+        localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, '[{"orderId":');
+
+        expect(getOrdersFromLocalStorage('user:ada')).toEqual([]);
+        expect(localStorage.getItem(ORDER_HISTORY_STORAGE_KEY)).toBeNull();
+        expect(getQuarantinedOrders()).toEqual([{ record: '[{"orderId":', reason: 'unreadableHistory', quarantinedAt: expect.any(String) }]);
+    });
+});
+
+describe('order ownership', () => {
+    beforeEach(() => localStorage.clear());
+
+    it("only hands out the owner's orders, and keeps other users' orders when saving", () => {
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-1', owner: 'user:ada' }));
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-2', owner: 'user:bob' }));
+
+        expect(getOrdersFromLocalStorage('user:bob')).toEqual([makeOrder({ orderId: 'ORD-2', owner: 'user:bob' })]);
+        expect(findOrderInLocalStorage('user:bob', 'ORD-1')).toBeUndefined();
+
+        saveOrdersToLocalStorage('user:bob', []);
+        expect(getOrdersFromLocalStorage('user:ada')).toEqual([makeOrder({ orderId: 'ORD-1', owner: 'user:ada' })]);
+        expect(getOrdersFromLocalStorage('user:bob')).toEqual([]);
+    });
+
+    it('hands orders from before owners to the first user who claims them, once', () => {
+        localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, JSON.stringify([dollarRecord]));
+
+        expect(claimUnownedOrders('user:ada')).toBe(1);
+        expect(claimUnownedOrders('user:bob')).toBe(0);
+        expect(getOrdersFromLocalStorage('user:ada').map(order => order.orderId)).toEqual(['ORD-1']);
+        expect(getOrdersFromLocalStorage('user:bob')).toEqual([]);
+    });
+
+    it('moves orders to a new owner key and removes them with the account', () => {
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-1', owner: 'user:ada' }));
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-2', owner: 'user:bob' }));
+
+        moveOrdersInLocalStorage('user:ada', 'user:ada lovelace');
+        expect(getOrdersFromLocalStorage('user:ada lovelace')).toEqual([makeOrder({ orderId: 'ORD-1', owner: 'user:ada lovelace' })]);
+
+        removeOrdersFromLocalStorage('user:ada lovelace');
+        expect(getOrdersFromLocalStorage('user:ada lovelace')).toEqual([]);
+        expect(getOrdersFromLocalStorage('user:bob')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,83 @@
+import { Order } from '../../../types/Order';
+import { Money } from '../../../utils/money';
+import { canCancelOrder, canTransition, getOrderStatus, getOrderStatusHistory, transitionOrder } from '../orderStatus';
+import { advanceSimulatedFulfillment } from '../simulatedFulfillment';
+
+const placedAt = '2026-03-15T12:00:00.000Z';
+
+const order: Order = {
+    orderId: 'ORD-1',
+    owner: 'user:ada',
+    dateCreated: placedAt,
+    items: [{ productId: 7, quantity: 1, price: 2000 as Money }],
+    totalPrice: 2000 as Money,
+    status: 'paid',
+    statusHistory: [{ status: 'placed', at: placedAt }, { status: 'paid', at: placedAt }],
+};
+
+const hoursAfterPlacing = (hours: number) => new Date(Date.parse(placedAt) + hours * 60 * 60 * 1000);
+
+describe('order status', () => {
+    it('only allows the transitions of the lifecycle', () => {
+        expect(canTransition('placed', 'paid')).toBe(true);
+        expect(canTransition('paid', 'shipped')).toBe(false);
+        expect(canTransition('shipped', 'cancelled')).toBe(false);
+        expect(canTransition('delivered', 'refunded')).toBe(true);
+        expect(canTransition('cancelled', 'paid')).toBe(false);
+    });
+
+    it('logs every change with its time', () => {
+        const result = transitionOrder(order, 'processing', hoursAfterPlacing(2));
+
+        if (!result.ok) throw new Error('transition refused');
+        expect(result.order.status).toBe('processing');
+        expect(result.order.statusHistory).toEqual([...order.statusHistory!, { status: 'processing', at: hoursAfterPlacing(2).toISOString() }]);
+        // The original is untouched
+        expect(order.status).toBe('paid');
+    });
+
+    it('refuses invalid transitions', () => {
+        expect(transitionOrder(order, 'delivered')).toEqual({ ok: false, reason: 'invalidTransition' });
+    });
+
+    it('treats orders from before statuses were tracked as placed', () => {
+        const legacy: Order = { ...order, status: undefined, statusHistory: undefined };
+        expect(getOrderStatus(legacy)).toBe('placed');
+        expect(getOrderStatusHistory(legacy)).toEqual([{ status: 'placed', at: placedAt }]);
+        expect(canCancelOrder(legacy)).toBe(true);
+    });
+
+    it('lets customers cancel only until the order ships', () => {
+        expect(canCancelOrder({ ...order, status: 'processing' })).toBe(true);
+        expect(canCancelOrder({ ...order, status: 'shipped' })).toBe(false);
+    });
+});
+
+describe('simulated fulfillment', () => {
+    it('leaves the order alone until the next step is due', () => {
+        expect(advanceSimulatedFulfillment(order, hoursAfterPlacing(0.5))).toBe(order);
+    });
+
+    it('applies every step that is due, each at the time it was due', () => {
+        const advanced = advanceSimulatedFulfillment(order, hoursAfterPlacing(30));
+
+        expect(advanced.status).toBe('shipped');
+        expect(advanced.statusHistory!.slice(2)).toEqual([
+            { status: 'processing', at: hoursAfterPlacing(1).toISOString() },
+            { status: 'shipped', at: hoursAfterPlacing(25).toISOString() },
+        ]);
+        expect(advanceSimulatedFulfillment(order, hoursAfterPlacing(1000)).status).toBe('delivered');
+    });
+
+    it('never moves unpaid or cancelled orders', () => {
+        const unpaid: Order = { ...order, status: 'placed', statusHistory: [{ status: 'placed', at: placedAt }] };
+        const cancelled: Order = { ...order, status: 'cancelled' };
+        expect(advanceSimulatedFulfillment(unpaid, hoursAfterPlacing(1000))).toBe(unpaid);
+        expect(advanceSimulatedFulfillment(cancelled, hoursAfterPlacing(1000))).toBe(cancelled);
+    });
+
+    it('leaves an order without a logged change alone', () => {
+        const unlogged: Order = { ...order, statusHistory: [] };
+        expect(advanceSimulatedFulfillment(unlogged, hoursAfterPlacing(1000))).toBe(unlogged);
+    });
+});
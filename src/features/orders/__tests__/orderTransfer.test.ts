@@ -0,0 +1,95 @@
+import { escapeCsvCell, ordersToCsv, ordersToJson } from '../orderExport';
+import { parseOrderImport } from '../orderImport';
+import { issueInvoice } from '../../invoices/invoice';
+import { cents, makeOrder } from '../../../testUtils/fixtures';
+
+// A paid order with a discounted line, a gift-wrapped line and standard shipping
+const makePaidOrder = (orderId: string) => makeOrder({
+    orderId,
+    items: [
+        { productId: 1, title: 'Mug, "large"', quantity: 2, price: cents(900), listPrice: cents(1000) },
+        { productId: 2, quantity: 1, price: cents(250), gift: { wrap: true, message: '' } },
+    ],
+    subtotal: cents(2050),
+    shipping: { method: 'standard', cost: cents(500) },
+    totalPrice: cents(2550),
+    status: 'paid',
+    statusHistory: [{ status: 'placed', at: '2026-03-15T12:00:00.000Z' }, { status: 'paid', at: '2026-03-15T12:00:00.000Z' }],
+});
+
+describe('exporting orders', () => {
+    it('writes one CSV row per order line, with amounts in major units', () => {
+        const [header, first, second, ...rest] = ordersToCsv([makePaidOrder('ORD-1')]).split('\r\n');
+
+        expect(header.startsWith('order_id,order_date,status,line,product_id,title,quantity,unit_price')).toBe(true);
+        expect(first).toBe('ORD-1,2026-03-15T12:00:00.000Z,paid,1,1,"Mug, ""large""",2,9.00,10.00,18.00,,20.50,0.00,0.00,5.00,0.00,25.50,,USD,,USD,1,,');
+        expect(second.startsWith('ORD-1,2026-03-15T12:00:00.000Z,paid,2,2,,1,2.50,,2.50,wrapped,')).toBe(true);
+        expect(rest).toEqual(['']);
+    });
+
+    it('keeps spreadsheets from evaluating text as formulas', () => {
+        expect(escapeCsvCell('=SUM(A1)')).toBe("'=SUM(A1)");
+        expect(escapeCsvCell(-5)).toBe('-5');
+        expect(escapeCsvCell(null)).toBe('');
+    });
+
+    it('round-trips the JSON export through the import', () => {
+        const orders = [makePaidOrder('ORD-1'), makePaidOrder('ORD-2')];
+
+        expect(parseOrderImport(ordersToJson(orders), [], 'user:ada')).toEqual({ ok: true, orders, skipped: [] });
+    });
+});
+
+describe('importing orders', () => {
+    const file = (orders: unknown[], version = 1) => JSON.stringify({ format: 'order-history', version, exportedAt: '2026-04-01T00:00:00.000Z', orders });
+
+    it('rejects files that are not a supported export', () => {
+        expect(parseOrderImport('not json', [], 'user:ada')).toEqual({ ok: false, reason: 'importInvalidFile' });
+        expect(parseOrderImport(JSON.stringify([makePaidOrder('ORD-1')]), [], 'user:ada')).toEqual({ ok: false, reason: 'importInvalidFile' });
+        expect(parseOrderImport(file([makePaidOrder('ORD-1')], 2), [], 'user:ada')).toEqual({ ok: false, reason: 'importUnsupportedVersion' });
+        expect(parseOrderImport(file([]), [], 'user:ada')).toEqual({ ok: false, reason: 'importNoOrders' });
+    });
+
+    it('skips invalid records and duplicates, and reports them', () => {
+        const broken = { ...makePaidOrder('ORD-3'), totalPrice: 12.5 };
+        const result = parseOrderImport(file([makePaidOrder('ORD-1'), makePaidOrder('ORD-2'), broken, makePaidOrder('ORD-2'), 'junk']), [makePaidOrder('ORD-1')], 'user:ada');
+
+        expect(result.ok && result.orders.map(order => order.orderId)).toEqual(['ORD-2']);
+        expect(result.ok && result.skipped).toEqual([
+            { index: 0, orderId: 'ORD-1', reason: 'importDuplicateInHistory' },
+            { index: 2, orderId: 'ORD-3', reason: 'importInvalidOrder' },
+            { index: 3, orderId: 'ORD-2', reason: 'importDuplicateInFile' },
+            { index: 4, orderId: null, reason: 'importInvalidOrder' },
+        ]);
+    });
+
+    it('leaves out invoice numbers, payments and returns from the exporting browser', () => {
+        localStorage.clear();
+        const local = issueInvoice(makePaidOrder('ORD-1'));
+        const foreign = {
+            ...makePaidOrder('ORD-2'),
+            invoice: local.invoice,
+            payment: { provider: 'simulated', transactionId: 'txn_1', status: 'captured', amount: cents(2550), card: { brand: 'visa', last4: '4242' } },
+            returns: [{ rmaNumber: 'RMA-1', reason: 'damaged', lines: [{ lineIndex: 0, quantity: 1 }], refundAmount: cents(900), status: 'approved', statusHistory: [{ status: 'requested', at: '2026-03-16T12:00:00.000Z' }, { status: 'approved', at: '2026-03-16T12:00:00.000Z' }] }],
+        };
+        const result = parseOrderImport(file([foreign]), [local], 'user:ada');
+
+        expect(result.ok && result.orders).toEqual([makePaidOrder('ORD-2')]);
+        expect(result.ok && issueInvoice(result.orders[0]).invoice?.number).toBe('INV-000002');
+    });
+
+    it('skips records whose status log is missing', () => {
+        const result = parseOrderImport(file([{ ...makePaidOrder('ORD-1'), statusHistory: [] }]), [], 'user:ada');
+
+        expect(result.ok && result.orders).toEqual([]);
+        expect(result.ok && result.skipped).toEqual([{ index: 0, orderId: 'ORD-1', reason: 'importInvalidOrder' }]);
+    });
+
+    it('migrates records from exports written before orders carried a schema version', () => {
+        const { orderId, dateCreated, ...legacy } = makePaidOrder('ORD-5');
+        const record = { ...legacy, id: orderId, date: dateCreated, items: [{ productId: '1', quantity: 2, price: 900 }] };
+        const result = parseOrderImport(file([record]), [], 'user:ada');
+
+        expect(result.ok && result.orders).toEqual([{ ...makePaidOrder('ORD-5'), items: [{ productId: 1, quantity: 2, price: 900 }] }]);
+    });
+});
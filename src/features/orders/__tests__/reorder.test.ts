@@ -0,0 +1,48 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { addToCart } from '../../cart/cartSlice';
+import { Order } from '../../../types/Order';
+import { addReorderToCart, planReorder } from '../reorder';
+import { cents, makeProduct } from '../../../testUtils/fixtures';
+
+const catalog = [makeProduct(1, 1000), makeProduct(2, 2500)];
+
+const order: Order = {
+    orderId: 'ORD-1',
+    owner: 'user:ada',
+    dateCreated: '2026-03-15T12:00:00.000Z',
+    items: [
+        { productId: 1, quantity: 2, price: cents(1000), gift: { wrap: true, message: 'Hi' } },
+        // Bought at a tier price; the list price is what counts for price changes
+        { productId: 2, quantity: 5, price: cents(1900), listPrice: cents(2000) },
+        { productId: 3, title: 'Discontinued', quantity: 1, price: cents(500) },
+    ],
+    totalPrice: cents(12000),
+};
+
+describe('buying an order again', () => {
+    it('rebuilds the lines at current catalog prices, without gift options', () => {
+        const plan = planReorder(order, catalog);
+
+        expect(plan.items.map(item => ({ id: item.id, quantity: item.quantity, price: item.price }))).toEqual([
+            { id: 1, quantity: 2, price: 1000 },
+            { id: 2, quantity: 5, price: 2500 },
+        ]);
+        expect(plan.items[0].gift).toBeUndefined();
+    });
+
+    it('reports unavailable products and price changes', () => {
+        const plan = planReorder(order, catalog);
+
+        expect(plan.unavailable).toEqual([{ productId: 3, title: 'Discontinued' }]);
+        expect(plan.priceChanges).toEqual([{ productId: 2, title: 'Product 2', previousPrice: 2000, currentPrice: 2500 }]);
+    });
+
+    it('merges the lines into the current cart', () => {
+        const store = configureStore({ reducer: { cart: cartReducer } });
+        store.dispatch(addToCart(catalog[0]));
+
+        store.dispatch(addReorderToCart(planReorder(order, catalog).items));
+
+        expect(store.getState().cart.items.map(item => [item.id, item.quantity])).toEqual([[1, 3], [2, 5]]);
+    });
+});
@@ -0,0 +1,53 @@
+// --- Order Cancellation ---
+
+import { Order, OrderPayment } from '../../types/Order';
+import { paymentProvider } from '../payments/paymentProvider';
+import { PaymentFailureReason, PaymentProvider, PaymentResult } from '../payments/paymentTypes';
+import { findOrderInLocalStorage, updateOrderInLocalStorage } from '../../utils/localStorageHelpers';
+import { canCancelOrder, transitionOrder } from './orderStatus';
+import { applyTransaction, getRefundableAmount } from './orderPayment';
+
+// Outcome of a cancellation
+export type CancelOrderResult =
+    | { ok: true; order: Order }
+    | { ok: false; reason: 'orderNotFound' | 'invalidTransition' | PaymentFailureReason }; // Nothing was changed
+
+/**
+ * Gives the customer their money back for an order that won't ship: releases an authorization
+ * that was never captured, or refunds whatever was captured and not refunded yet.
+ * @param payment - The order's payment record.
+ * @param provider - The provider holding the transaction.
+ * @returns {Promise<PaymentResult>} The provider's answer.
+ */
+const releasePayment = (payment: OrderPayment, provider: PaymentProvider): Promise<PaymentResult> => {
+    if (payment.status === 'authorized') return provider.void(payment.transactionId);
+    return provider.refund(payment.transactionId, getRefundableAmount(payment));
+};
+
+/**
+ * Cancels an order that hasn't shipped yet. If it was paid, the payment is refunded (or the
+ * authorization voided) through the payment provider first; if that fails, the order is left as it was.
+ * @param owner - The owner key of the customer; other customers' orders are never found.
+ * @param orderId - The id of the order to cancel.
+ * @param provider - The provider holding the payment (defaults to the configured one).
+ * @param now - Time of the cancellation.
+ * @returns {Promise<CancelOrderResult>} The cancelled (and saved) order, or why it couldn't be cancelled.
+ */
+export const cancelOrder = async (owner: string, orderId: string, provider: PaymentProvider = paymentProvider, now: Date = new Date()): Promise<CancelOrderResult> => {
+    const order = findOrderInLocalStorage(owner, orderId);
+    if (!order) return { ok: false, reason: 'orderNotFound' };
+    if (!canCancelOrder(order)) return { ok: false, reason: 'invalidTransition' };
+
+    let payment = order.payment;
+    // Voided and fully refunded payments have nothing left to give back
+    if (payment && (payment.status === 'authorized' || payment.status === 'captured' || payment.status === 'partiallyRefunded')) {
+        const result = await releasePayment(payment, provider);
+        if (!result.ok) return result;
+        payment = applyTransaction(payment, result.transaction);
+    }
+
+    const transition = transitionOrder({ ...order, payment }, 'cancelled', now);
+    if (!transition.ok) return transition;
+    updateOrderInLocalStorage(transition.order);
+    return transition;
+};
@@ -0,0 +1,69 @@
+// --- Order Details ---
+
+import { Order, OrderItemGift } from '../../types/Order';
+import { Product } from '../../types/Product';
+import { Money, ZERO_MONEY, multiplyMoney, sumMoney } from '../../utils/money';
+import { AppliedDiscount } from '../promotions/promotionTypes';
+
+// An order line with what the catalog still knows about its product
+export interface ResolvedOrderLine {
+    productId: number;
+    title: string | null; // Current catalog title, else the title saved with the order, else null
+    image: string | null; // Catalog image; null once the product left the catalog
+    inCatalog: boolean; // False for products that were removed from the catalog
+    quantity: number;
+    unitPrice: Money; // Effective unit price charged
+    listPrice: Money | null; // Catalog unit price at checkout, when it was recorded and differs from what was charged
+    lineTotal: Money;
+    gift?: OrderItemGift;
+    note?: string;
+}
+
+// What the order's total is made of, with defaults for orders placed before a charge existed
+export interface OrderCharges {
+    subtotal: Money;
+    discounts: AppliedDiscount[];
+    giftWrap: Money;
+    shipping: Money;
+    tax: Money;
+    total: Money;
+}
+
+/**
+ * Matches the lines of an order with the products of the catalog. Lines whose product
+ * is no longer listed keep the title recorded at checkout (older orders have none).
+ * @param order - The order.
+ * @param products - The current catalog (may be empty if it couldn't be loaded).
+ * @returns {ResolvedOrderLine[]} The lines, in order.
+ */
+export const resolveOrderLines = (order: Order, products: Product[]): ResolvedOrderLine[] =>
+    order.items.map(item => {
+        const product = products.find(candidate => candidate.id === item.productId);
+        return {
+            productId: item.productId,
+            title: product?.title ?? item.title ?? null,
+            image: product?.image ?? null,
+            inCatalog: product !== undefined,
+            quantity: item.quantity,
+            unitPrice: item.price,
+            listPrice: item.listPrice !== undefined && item.listPrice !== item.price ? item.listPrice : null,
+            // Orders from before line totals were recorded had no bundle rounding
+            lineTotal: item.lineTotal ?? multiplyMoney(item.price, item.quantity),
+            ...(item.gift && { gift: item.gift }),
+            ...(item.note && { note: item.note }),
+        };
+    });
+
+/**
+ * Breaks an order's total down the way checkout showed it.
+ * @param order - The order.
+ * @returns {OrderCharges} The charges; ones the order predates are zero.
+ */
+export const getOrderCharges = (order: Order): OrderCharges => ({
+    subtotal: order.subtotal ?? sumMoney(resolveOrderLines(order, []), line => line.lineTotal),
+    discounts: order.discounts ?? [],
+    giftWrap: order.giftWrap ?? ZERO_MONEY,
+    shipping: order.shipping?.cost ?? ZERO_MONEY,
+    tax: order.tax?.amount ?? ZERO_MONEY,
+    total: order.totalPrice,
+});
@@ -0,0 +1,138 @@
+// --- Order History Export ---
+// CSV for spreadsheets and reconciliation (one row per order line), and a complete JSON
+// export that orderImport.ts can read back.
+
+import { Order } from '../../types/Order';
+import { BASE_CURRENCY } from '../../data/currencies';
+import { Money, sumMoney, toMajor } from '../../utils/money';
+import { getOrderCharges, resolveOrderLines } from './orderDetails';
+import { getOrderStatus } from './orderStatus';
+import { StoredOrder, toStoredOrder } from './orderSchema';
+
+// Identifies our JSON exports, so the import can tell them apart from any other JSON file
+export const ORDER_EXPORT_FORMAT = 'order-history';
+
+// Bump this whenever the JSON export shape changes (and teach the import to read the old one).
+// v1: { format, version, exportedAt, orders } with orders exactly as stored (each stamped with
+//     its schema version, see orderSchema.ts; files written before that carry no stamps)
+export const ORDER_EXPORT_VERSION = 1;
+
+// Shape of the JSON export
+export interface OrderHistoryExport {
+    format: typeof ORDER_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string; // ISO timestamp
+    orders: StoredOrder[];
+}
+
+// --- CSV ---
+
+// Column headers, in order. Amounts are in BASE_CURRENCY major units (what was actually charged);
+// the order_* amounts repeat on every line of the order, so sum them once per order_id.
+export const ORDER_CSV_COLUMNS = [
+    'order_id',
+    'order_date',
+    'status',
+    'line',
+    'product_id',
+    'title',
+    'quantity',
+    'unit_price',
+    'list_price',
+    'line_total',
+    'gift',
+    'order_subtotal',
+    'order_discounts',
+    'order_gift_wrap',
+    'order_shipping',
+    'order_tax',
+    'order_total',
+    'order_refunded',
+    'currency',
+    'promo_code',
+    'checkout_currency',
+    'checkout_rate',
+    'payment_status',
+    'transaction_id',
+] as const;
+
+type CsvValue = string | number | null | undefined;
+
+/**
+ * Writes an amount for the CSV.
+ * @param money - The amount in cents.
+ * @returns {string} The amount in major units with two decimals, e.g. "12.50".
+ */
+const csvAmount = (money: Money): string => toMajor(money).toFixed(2);
+
+/**
+ * Escapes a single CSV cell (RFC 4180). Text starting with a formula character is prefixed
+ * with an apostrophe so spreadsheets don't evaluate product titles or codes as formulas.
+ * @param value - The cell value; null and undefined become empty cells.
+ * @returns {string} The cell as written to the file.
+ */
+export const escapeCsvCell = (value: CsvValue): string => {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds the CSV export: a header row, then one row per order line.
+ * @param orders - The orders to export.
+ * @returns {string} The CSV text, with CRLF line endings.
+ */
+export const ordersToCsv = (orders: Order[]): string => {
+    const rows: CsvValue[][] = [[...ORDER_CSV_COLUMNS]];
+    orders.forEach(order => {
+        const charges = getOrderCharges(order);
+        resolveOrderLines(order, []).forEach((line, index) => {
+            rows.push([
+                order.orderId,
+                order.dateCreated,
+                getOrderStatus(order),
+                index + 1,
+                line.productId,
+                line.title,
+                line.quantity,
+                csvAmount(line.unitPrice),
+                line.listPrice === null ? null : csvAmount(line.listPrice),
+                csvAmount(line.lineTotal),
+                line.gift ? (line.gift.wrap ? 'wrapped' : 'yes') : null,
+                csvAmount(charges.subtotal),
+                csvAmount(sumMoney(charges.discounts, discount => discount.amount)),
+                csvAmount(charges.giftWrap),
+                csvAmount(charges.shipping),
+                csvAmount(charges.tax),
+                csvAmount(charges.total),
+                order.payment?.refundedAmount === undefined ? null : csvAmount(order.payment.refundedAmount),
+                BASE_CURRENCY,
+                order.promoCode,
+                order.currency?.code ?? BASE_CURRENCY,
+                order.currency?.rate ?? 1,
+                order.payment?.status,
+                order.payment?.transactionId,
+            ]);
+        });
+    });
+    return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- JSON ---
+
+/**
+ * Builds the complete JSON export. Orders are written exactly as stored, so nothing is lost.
+ * @param orders - The orders to export.
+ * @param now - Time of the export.
+ * @returns {string} The JSON text.
+ */
+export const ordersToJson = (orders: Order[], now: Date = new Date()): string => {
+    const contents: OrderHistoryExport = {
+        format: ORDER_EXPORT_FORMAT,
+        version: ORDER_EXPORT_VERSION,
+        exportedAt: now.toISOString(),
+        orders: orders.map(toStoredOrder),
+    };
+    return JSON.stringify(contents, null, 2);
+};
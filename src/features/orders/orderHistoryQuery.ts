@@ -0,0 +1,218 @@
+// --- Order History Search, Filters, Sorting and Pagination ---
+// The query lives in the URL (e.g. /order-history?q=mug&status=shipped&sort=total&dir=asc&page=2),
+// so a filtered view survives a refresh and can be bookmarked or shared.
+
+import { Order, OrderStatus } from '../../types/Order';
+import { BASE_CURRENCY, CURRENCIES } from '../../data/currencies';
+import { convertMoney, isCurrencyCode } from '../../utils/currency';
+import { ORDER_STATUSES, getOrderStatus } from './orderStatus';
+
+// Columns the history can be sorted on
+export type OrderSortKey = 'orderId' | 'date' | 'items' | 'total' | 'status';
+
+export const ORDER_SORT_KEYS: OrderSortKey[] = ['orderId', 'date', 'items', 'total', 'status'];
+
+export type SortDirection = 'asc' | 'desc';
+
+// Everything that decides which orders are listed, and how
+export interface OrderHistoryQuery {
+    search: string; // Matches order ids and product titles, case-insensitively
+    from: string; // Earliest order date (YYYY-MM-DD, inclusive), or '' for no limit
+    to: string; // Latest order date (YYYY-MM-DD, inclusive), or ''
+    minTotal: number | null; // Lowest total, in the currency each order was placed in
+    maxTotal: number | null;
+    status: OrderStatus | null;
+    sort: OrderSortKey;
+    direction: SortDirection;
+    page: number; // 1-based
+}
+
+// Newest orders first, everything shown
+export const DEFAULT_ORDER_HISTORY_QUERY: OrderHistoryQuery = {
+    search: '',
+    from: '',
+    to: '',
+    minTotal: null,
+    maxTotal: null,
+    status: null,
+    sort: 'date',
+    direction: 'desc',
+    page: 1,
+};
+
+export const ORDER_HISTORY_PAGE_SIZE = 10;
+
+// Names of the URL query parameters
+const PARAMS = {
+    search: 'q',
+    from: 'from',
+    to: 'to',
+    minTotal: 'min',
+    maxTotal: 'max',
+    status: 'status',
+    sort: 'sort',
+    direction: 'dir',
+    page: 'page',
+} as const;
+
+// One page of the filtered and sorted history
+export interface OrderHistoryPage {
+    orders: Order[];
+    matchCount: number; // Orders matching the filters, across all pages
+    page: number; // The page shown (the requested one, kept within range)
+    pageCount: number; // At least 1
+}
+
+// --- URL Conversion ---
+
+/**
+ * Reads the query from the URL. Missing or malformed parameters fall back to their defaults,
+ * so a hand-edited or outdated link still shows something sensible.
+ * @param params - The URL's search parameters.
+ * @returns {OrderHistoryQuery} The query.
+ */
+export const parseOrderHistoryQuery = (params: URLSearchParams): OrderHistoryQuery => {
+    const readDate = (name: string) => {
+        const value = params.get(name) ?? '';
+        return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : '';
+    };
+    const readAmount = (name: string) => {
+        const value = Number(params.get(name) ?? '');
+        return params.get(name) && Number.isFinite(value) && value >= 0 ? value : null;
+    };
+    const status = params.get(PARAMS.status);
+    const sort = params.get(PARAMS.sort);
+    const page = Number(params.get(PARAMS.page));
+
+    return {
+        search: params.get(PARAMS.search) ?? '',
+        from: readDate(PARAMS.from),
+        to: readDate(PARAMS.to),
+        minTotal: readAmount(PARAMS.minTotal),
+        maxTotal: readAmount(PARAMS.maxTotal),
+        status: ORDER_STATUSES.find(candidate => candidate === status) ?? null,
+        sort: ORDER_SORT_KEYS.find(key => key === sort) ?? DEFAULT_ORDER_HISTORY_QUERY.sort,
+        direction: params.get(PARAMS.direction) === 'asc' ? 'asc' : params.get(PARAMS.direction) === 'desc' ? 'desc' : DEFAULT_ORDER_HISTORY_QUERY.direction,
+        page: Number.isInteger(page) && page > 1 ? page : 1,
+    };
+};
+
+/**
+ * Writes the query to URL parameters. Defaults are left out to keep links short.
+ * @param query - The query.
+ * @returns {URLSearchParams} The parameters.
+ */
+export const toOrderHistorySearchParams = (query: OrderHistoryQuery): URLSearchParams => {
+    const params = new URLSearchParams();
+    if (query.search.trim()) params.set(PARAMS.search, query.search);
+    if (query.from) params.set(PARAMS.from, query.from);
+    if (query.to) params.set(PARAMS.to, query.to);
+    if (query.minTotal !== null) params.set(PARAMS.minTotal, String(query.minTotal));
+    if (query.maxTotal !== null) params.set(PARAMS.maxTotal, String(query.maxTotal));
+    if (query.status) params.set(PARAMS.status, query.status);
+    if (query.sort !== DEFAULT_ORDER_HISTORY_QUERY.sort) params.set(PARAMS.sort, query.sort);
+    if (query.direction !== DEFAULT_ORDER_HISTORY_QUERY.direction) params.set(PARAMS.direction, query.direction);
+    if (query.page > 1) params.set(PARAMS.page, String(query.page));
+    return params;
+};
+
+// --- Filtering and Sorting ---
+
+/**
+ * The order's total as shown in the history: in the currency and at the rate used at checkout.
+ * @param order - The order.
+ * @returns {number} The total in major units (e.g. 12.5 for €12.50).
+ */
+export const getDisplayedTotal = (order: Order): number => {
+    const snapshot = order.currency && isCurrencyCode(order.currency.code) ? order.currency : null;
+    const currency = CURRENCIES[snapshot?.code ?? BASE_CURRENCY];
+    return convertMoney(order.totalPrice, currency, snapshot?.rate ?? currency.rate) / 10 ** currency.decimals;
+};
+
+/**
+ * Counts the units of an order.
+ * @param order - The order.
+ * @returns {number} The sum of the line quantities.
+ */
+const countItems = (order: Order): number => order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+/**
+ * Reads the local calendar day an order was placed on.
+ * @param order - The order.
+ * @returns {string} The date as YYYY-MM-DD.
+ */
+const getOrderDay = (order: Order): string => {
+    const date = new Date(order.dateCreated);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Keeps the orders that match every filter of the query.
+ * @param orders - All orders.
+ * @param query - The query.
+ * @param productTitles - Current catalog titles by product id, for orders that didn't record titles.
+ * @returns {Order[]} The matching orders, in their original order.
+ */
+export const filterOrders = (orders: Order[], query: OrderHistoryQuery, productTitles: Map<number, string> = new Map()): Order[] => {
+    const search = query.search.trim().toLowerCase();
+    return orders.filter(order => {
+        if (search) {
+            const titles = order.items.map(item => item.title ?? productTitles.get(item.productId) ?? '');
+            const matches = [order.orderId, ...titles].some(text => text.toLowerCase().includes(search));
+            if (!matches) return false;
+        }
+        const day = getOrderDay(order);
+        if (query.from && day < query.from) return false;
+        if (query.to && day > query.to) return false;
+        const total = getDisplayedTotal(order);
+        if (query.minTotal !== null && total < query.minTotal) return false;
+        if (query.maxTotal !== null && total > query.maxTotal) return false;
+        return query.status === null || getOrderStatus(order) === query.status;
+    });
+};
+
+// How each column compares two orders, ascending
+const COMPARATORS: Record<OrderSortKey, (a: Order, b: Order) => number> = {
+    orderId: (a, b) => a.orderId.localeCompare(b.orderId, undefined, { numeric: true }),
+    date: (a, b) => Date.parse(a.dateCreated) - Date.parse(b.dateCreated),
+    items: (a, b) => countItems(a) - countItems(b),
+    total: (a, b) => getDisplayedTotal(a) - getDisplayedTotal(b),
+    status: (a, b) => ORDER_STATUSES.indexOf(getOrderStatus(a)) - ORDER_STATUSES.indexOf(getOrderStatus(b)),
+};
+
+/**
+ * Sorts orders on a column. Ties keep their original order.
+ * @param orders - The orders (left untouched).
+ * @param sort - The column.
+ * @param direction - Ascending or descending.
+ * @returns {Order[]} The sorted orders.
+ */
+export const sortOrders = (orders: Order[], sort: OrderSortKey, direction: SortDirection): Order[] => {
+    const sign = direction === 'asc' ? 1 : -1;
+    return [...orders].sort((a, b) => sign * COMPARATORS[sort](a, b));
+};
+
+/**
+ * Filters, sorts and pages the order history.
+ * @param orders - All orders.
+ * @param query - The query.
+ * @param productTitles - Current catalog titles by product id (see filterOrders).
+ * @param pageSize - Orders per page.
+ * @returns {OrderHistoryPage} The page to show.
+ */
+export const queryOrderHistory = (
+    orders: Order[],
+    query: OrderHistoryQuery,
+    productTitles?: Map<number, string>,
+    pageSize: number = ORDER_HISTORY_PAGE_SIZE,
+): OrderHistoryPage => {
+    const matching = sortOrders(filterOrders(orders, query, productTitles), query.sort, query.direction);
+    const pageCount = Math.max(1, Math.ceil(matching.length / pageSize));
+    const page = Math.min(query.page, pageCount);
+    return {
+        orders: matching.slice((page - 1) * pageSize, page * pageSize),
+        matchCount: matching.length,
+        page,
+        pageCount,
+    };
+};
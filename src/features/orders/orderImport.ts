@@ -0,0 +1,87 @@
+// --- Order History Import ---
+// Reads back the JSON export of orderExport.ts. Every record is checked on its own, so one
+// damaged or duplicate order doesn't stop the rest of the file from being imported. Records are
+// migrated from the schema version they were exported in, like stored ones.
+
+import { Order } from '../../types/Order';
+import { ORDER_EXPORT_FORMAT, ORDER_EXPORT_VERSION } from './orderExport';
+import { migrateOrderRecord } from './orderSchema';
+
+// Why a whole file was rejected (doubles as the translation key for the message)
+export type OrderImportError = 'importInvalidFile' | 'importUnsupportedVersion' | 'importNoOrders';
+
+// Why a single record was left out (doubles as the translation key for the message)
+export type OrderImportSkipReason = 'importInvalidOrder' | 'importDuplicateInHistory' | 'importDuplicateInFile';
+
+// A record that was left out
+export interface SkippedOrderRecord {
+    index: number; // Position in the file's orders array, 0-based
+    orderId: string | null; // Null when the record has no readable order id
+    reason: OrderImportSkipReason;
+}
+
+// Outcome of reading an import file
+export type OrderImportResult =
+    | { ok: true; orders: Order[]; skipped: SkippedOrderRecord[] }
+    | { ok: false; reason: OrderImportError };
+
+// --- Import ---
+
+// Schema version of records in exports written before orders were stamped with one (always in cents)
+const UNVERSIONED_EXPORT_SCHEMA_VERSION = 2;
+
+/**
+ * Strips what belongs to the browser or payment account an order was exported from: invoice
+ * numbers come from this browser's sequence (ensureInvoice issues one when the invoice is first
+ * opened), and the payment and return requests can't be acted on from here.
+ * @param order - A valid imported order.
+ * @param owner - The owner key of the user importing it.
+ * @returns {Order} The order as it is added to the history.
+ */
+const toImportedOrder = ({ invoice, payment, returns, ...order }: Order, owner: string): Order => ({ ...order, owner });
+
+/**
+ * Reads an import file and picks the orders to add. Records that are invalid, already in
+ * the history, or repeated within the file (the first copy wins) are skipped and reported.
+ * Imported orders belong to the user importing them, whoever exported the file, and keep only
+ * their lines, charges and status log (see toImportedOrder).
+ * @param text - The file contents.
+ * @param existing - The orders already in the user's history.
+ * @param owner - The owner key of the user importing the file.
+ * @returns {OrderImportResult} The new orders and the skipped records, or why the file was rejected.
+ */
+export const parseOrderImport = (text: string, existing: Order[], owner: string): OrderImportResult => {
+    let contents: unknown;
+    try {
+        contents = JSON.parse(text);
+    } catch {
+        return { ok: false, reason: 'importInvalidFile' };
+    }
+    if (typeof contents !== 'object' || contents === null || (contents as { format?: unknown }).format !== ORDER_EXPORT_FORMAT) {
+        return { ok: false, reason: 'importInvalidFile' };
+    }
+    const { version, orders: records } = contents as { version?: unknown; orders?: unknown };
+    if (version !== ORDER_EXPORT_VERSION) return { ok: false, reason: 'importUnsupportedVersion' };
+    if (!Array.isArray(records)) return { ok: false, reason: 'importInvalidFile' };
+    if (records.length === 0) return { ok: false, reason: 'importNoOrders' };
+
+    const knownIds = new Set(existing.map(order => order.orderId));
+    const importedIds = new Set<string>();
+    const orders: Order[] = [];
+    const skipped: SkippedOrderRecord[] = [];
+    records.forEach((record: unknown, index) => {
+        const orderId = typeof (record as { orderId?: unknown })?.orderId === 'string' ? (record as Order).orderId : null;
+        const result = migrateOrderRecord(record, UNVERSIONED_EXPORT_SCHEMA_VERSION);
+        if (!result.ok) {
+            skipped.push({ index, orderId, reason: 'importInvalidOrder' });
+        } else if (knownIds.has(result.order.orderId)) {
+            skipped.push({ index, orderId: result.order.orderId, reason: 'importDuplicateInHistory' });
+        } else if (importedIds.has(result.order.orderId)) {
+            skipped.push({ index, orderId: result.order.orderId, reason: 'importDuplicateInFile' });
+        } else {
+            importedIds.add(result.order.orderId);
+            orders.push(toImportedOrder(result.order, owner));
+        }
+    });
+    return { ok: true, orders, skipped };
+};
@@ -0,0 +1,25 @@
+// --- Order Payment Records ---
+
+import { OrderPayment } from '../../types/Order';
+import { Money, ZERO_MONEY, subtractMoney } from '../../utils/money';
+import { PaymentTransaction } from '../payments/paymentTypes';
+
+/**
+ * Copies what the provider reports about a payment onto the order's payment record.
+ * @param payment - The order's payment record.
+ * @param transaction - The transaction as the provider returned it.
+ * @returns {OrderPayment} The updated record.
+ */
+export const applyTransaction = (payment: OrderPayment, transaction: PaymentTransaction): OrderPayment => ({
+    ...payment,
+    status: transaction.status,
+    ...(transaction.refundedAmount > 0 && { refundedAmount: transaction.refundedAmount }),
+});
+
+/**
+ * Works out how much of a captured payment can still be refunded.
+ * @param payment - The order's payment record.
+ * @returns {Money} The captured amount not refunded yet, in cents.
+ */
+export const getRefundableAmount = (payment: OrderPayment): Money =>
+    subtractMoney(payment.amount, payment.refundedAmount ?? ZERO_MONEY);
@@ -0,0 +1,311 @@
+// --- Order Storage Schema ---
+// Every stored order is stamped with the schema version it was written in. Older records are
+// brought up to date one version at a time on read, then validated; records that can't be read
+// are quarantined by the storage helpers (see utils/localStorageHelpers.ts) instead of shown.
+
+import { Order, OrderReturn, OrderStatus, OrderStatusChange } from '../../types/Order';
+import { fromMajor, isMoney } from '../../utils/money';
+import { isCurrencyCode } from '../../utils/currency';
+import { SHIPPING_METHODS } from '../../data/shipping';
+import { isValidShippingAddress } from '../checkout/checkoutStorage';
+import { AppliedDiscount } from '../promotions/promotionTypes';
+import { RETURN_REASONS, RETURN_STATUS_NEXT } from '../returns/returns';
+import { ORDER_STATUSES } from './orderStatus';
+
+// Bump this whenever the stored order shape changes, and add the step from the previous version
+// to ORDER_MIGRATIONS.
+// v1: unversioned records, as stored before amounts moved to cents: dollar amounts, `id` and
+//     `date` copies of orderId and dateCreated, and string product ids. Amounts moved to cents in
+//     the same release that started stamping records, so no unversioned record holds cents.
+// v2: every amount in integer cents
+// v3: `id` and `date` dropped, productId is the numeric Product.id
+// v4: every order has an owner; older orders are UNCLAIMED_ORDER_OWNER until a user claims them
+// v5: discount descriptions are translation keys with their values (see PromotionDescription)
+export const ORDER_SCHEMA_VERSION = 5;
+
+// Owner of orders placed before orders had owners. They stay hidden until a logged-in user
+// confirms they are theirs (see claimUnownedOrders in utils/localStorageHelpers.ts); it can't
+// clash with a real owner key, which always starts with "user:" or "guest:".
+export const UNCLAIMED_ORDER_OWNER = 'unclaimed';
+
+// Version of records that carry no stamp (everything stored before versioning)
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+// An order as written to storage
+export type StoredOrder = Order & { schemaVersion: number };
+
+// A stored record on its way through the migrations; only validated at the end
+type OrderRecord = Record<string, unknown>;
+
+// Why a stored record couldn't be read
+export type OrderRecordError =
+    | 'notAnObject'
+    | 'unknownSchemaVersion' // Missing from ORDER_MIGRATIONS, or newer than this build
+    | 'invalidOrder'; // Still not a valid order after migrating
+
+// Outcome of reading one stored record
+export type OrderRecordResult =
+    | { ok: true; order: Order; migrated: boolean } // migrated: the record was in an older version
+    | { ok: false; reason: OrderRecordError };
+
+// --- Validation ---
+
+/**
+ * Checks that a value is a plain object.
+ * @param value - The value.
+ * @returns {boolean} True for non-null, non-array objects.
+ */
+const isRecord = (value: unknown): value is OrderRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks that a value is a string holding a date.
+ * @param value - The value.
+ * @returns {boolean} True for a string Date.parse understands.
+ */
+const isDateString = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+/**
+ * Checks that a value is an order line.
+ * @param value - One entry of an order's items.
+ * @returns {boolean} True if it has a product id, a positive whole quantity and prices in cents.
+ */
+const isValidOrderItem = (value: unknown): value is Order['items'][number] => {
+    if (!isRecord(value)) return false;
+    const item = value as Partial<Order['items'][number]>;
+    return (
+        Number.isSafeInteger(item.productId) && item.productId! > 0 &&
+        Number.isSafeInteger(item.quantity) && item.quantity! > 0 &&
+        isMoney(item.price) &&
+        (item.listPrice === undefined || isMoney(item.listPrice)) &&
+        (item.lineTotal === undefined || isMoney(item.lineTotal)) &&
+        (item.title === undefined || typeof item.title === 'string')
+    );
+};
+
+/**
+ * Checks that a value is a list whose entries all pass a check.
+ * @param value - The value.
+ * @param isEntry - The check for one entry.
+ * @returns {boolean} True for an array of valid entries (including an empty one).
+ */
+const isListOf = (value: unknown, isEntry: (entry: unknown) => boolean): value is unknown[] =>
+    Array.isArray(value) && value.every(isEntry);
+
+/**
+ * Checks that a value is a known order status.
+ * @param value - The value.
+ * @returns {boolean} True for one of ORDER_STATUSES.
+ */
+const isOrderStatus = (value: unknown): value is OrderStatus => ORDER_STATUSES.some(status => status === value);
+
+/**
+ * Checks that a value is one entry of an order's status log.
+ * @param value - The value.
+ * @returns {boolean} True if it has a known status and a date.
+ */
+const isValidStatusChange = (value: unknown): value is OrderStatusChange =>
+    isRecord(value) && isOrderStatus(value.status) && isDateString(value.at);
+
+/**
+ * Checks that a value is a discount line as stored on an order.
+ * @param value - One entry of an order's discounts.
+ * @returns {boolean} True if it has a code, a translatable description and an amount in cents.
+ */
+const isValidDiscount = (value: unknown): value is AppliedDiscount => {
+    if (!isRecord(value) || typeof value.code !== 'string' || !isMoney(value.amount)) return false;
+    const description = value.description;
+    return (
+        isRecord(description) && typeof description.key === 'string' &&
+        (description.values === undefined || (isRecord(description.values) &&
+            Object.values(description.values).every(entry => typeof entry === 'string' || typeof entry === 'number'))) &&
+        (description.amounts === undefined || (isRecord(description.amounts) && Object.values(description.amounts).every(isMoney)))
+    );
+};
+
+/**
+ * Checks that a value is a return request of an order.
+ * @param value - One entry of an order's returns.
+ * @param lineCount - Number of lines on the order, which the return lines point into.
+ * @returns {boolean} True if its reason, lines, refund and status log are well-formed.
+ */
+const isValidReturn = (value: unknown, lineCount: number): value is OrderReturn => {
+    if (!isRecord(value)) return false;
+    const request = value as Partial<OrderReturn>;
+    const statuses = Object.keys(RETURN_STATUS_NEXT);
+    return (
+        typeof request.rmaNumber === 'string' && request.rmaNumber !== '' &&
+        RETURN_REASONS.some(reason => reason === request.reason) &&
+        (request.comment === undefined || typeof request.comment === 'string') &&
+        isListOf(request.lines, line => isRecord(line) &&
+            Number.isSafeInteger(line.lineIndex) && (line.lineIndex as number) >= 0 && (line.lineIndex as number) < lineCount &&
+            Number.isSafeInteger(line.quantity) && (line.quantity as number) > 0) &&
+        isMoney(request.refundAmount) &&
+        statuses.includes(request.status as string) &&
+        isListOf(request.statusHistory, change => isRecord(change) && statuses.includes(change.status as string) && isDateString(change.at)) &&
+        request.statusHistory!.length > 0
+    );
+};
+
+/**
+ * Checks that a value is an order of the current schema that every screen can safely show.
+ * The fields every screen relies on must be present; optional ones must be well-formed if present.
+ * An order past 'placed' must have logged how it got there, since fulfillment and the timeline
+ * start from the last logged change.
+ * @param value - A stored or imported record, after migration.
+ * @returns {boolean} True if the record can be used as an Order.
+ */
+export const isValidOrder = (value: unknown): value is Order => {
+    if (!isRecord(value)) return false;
+    const order = value as Partial<Order>;
+    const lineCount = Array.isArray(order.items) ? order.items.length : 0;
+    return (
+        typeof order.orderId === 'string' && order.orderId.trim() !== '' &&
+        typeof order.owner === 'string' && order.owner !== '' &&
+        isDateString(order.dateCreated) &&
+        lineCount > 0 && order.items!.every(isValidOrderItem) &&
+        isMoney(order.totalPrice) &&
+        (order.subtotal === undefined || isMoney(order.subtotal)) &&
+        (order.giftWrap === undefined || isMoney(order.giftWrap)) &&
+        (order.promoCode === undefined || typeof order.promoCode === 'string') &&
+        (order.discounts === undefined || isListOf(order.discounts, isValidDiscount)) &&
+        (order.shipping === undefined || (isRecord(order.shipping) &&
+            SHIPPING_METHODS.some(method => method.id === order.shipping!.method) && isMoney(order.shipping.cost))) &&
+        (order.tax === undefined || (isRecord(order.tax) && typeof order.tax.region === 'string' &&
+            Number.isFinite(order.tax.rate) && order.tax.rate >= 0 && isMoney(order.tax.amount))) &&
+        (order.status === undefined || isOrderStatus(order.status)) &&
+        (order.statusHistory === undefined || isListOf(order.statusHistory, isValidStatusChange)) &&
+        (order.status === undefined || order.status === 'placed' || (order.statusHistory?.length ?? 0) > 0) &&
+        (order.returns === undefined || isListOf(order.returns, entry => isValidReturn(entry, lineCount))) &&
+        (order.invoice === undefined || (isRecord(order.invoice) &&
+            typeof order.invoice.number === 'string' && order.invoice.number !== '' && isDateString(order.invoice.issuedAt))) &&
+        (order.currency === undefined || (isRecord(order.currency) &&
+            isCurrencyCode(order.currency.code) && Number.isFinite(order.currency.rate) && order.currency.rate > 0)) &&
+        (order.shippingAddress === undefined || isValidShippingAddress(order.shippingAddress)) &&
+        (order.payment === undefined || (isRecord(order.payment) && typeof order.payment.transactionId === 'string' &&
+            isMoney(order.payment.amount) && (order.payment.refundedAmount === undefined || isMoney(order.payment.refundedAmount))))
+    );
+};
+
+// --- Migrations ---
+
+/**
+ * Maps the lines of a record, leaving anything that isn't a list of objects for validation to reject.
+ * @param record - The record.
+ * @param update - Returns the updated line.
+ * @returns {unknown} The updated items, or the items field unchanged.
+ */
+const mapRecordItems = (record: OrderRecord, update: (item: OrderRecord) => OrderRecord): unknown =>
+    Array.isArray(record.items)
+        ? record.items.map((item: unknown) => isRecord(item) ? update(item) : item)
+        : record.items;
+
+/**
+ * Converts a stored dollar amount (a number, or a string on the oldest orders) to cents.
+ * @param value - The stored amount.
+ * @returns {unknown} The amount in cents, or the value unchanged if it isn't a number.
+ */
+const dollarsToCents = (value: unknown): unknown => {
+    const amount = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof amount === 'number' && Number.isFinite(amount) ? fromMajor(amount) : value;
+};
+
+/**
+ * v1 -> v2: converts the dollar amounts of orders stored before prices were kept in cents (only
+ * the line prices and the total existed then). Every unversioned record is one of those, whole
+ * dollar amounts included, so the amounts are always converted rather than guessed at.
+ * @param record - A v1 record.
+ * @returns {OrderRecord} The record with its amounts in cents.
+ */
+const migrateAmountsToCents = (record: OrderRecord): OrderRecord => ({
+    ...record,
+    totalPrice: dollarsToCents(record.totalPrice),
+    items: mapRecordItems(record, item => ({ ...item, price: dollarsToCents(item.price) })),
+});
+
+/**
+ * Converts a stored product id to the numeric Product.id.
+ * @param value - The stored product id.
+ * @returns {unknown} The number, or the value unchanged if it isn't a whole number.
+ */
+const toProductId = (value: unknown): unknown =>
+    typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+
+/**
+ * v2 -> v3: drops the legacy `id` and `date` fields (falling back on them when orderId or
+ * dateCreated is missing) and makes product ids numbers.
+ * @param record - A v2 record.
+ * @returns {OrderRecord} The v3 record.
+ */
+const migrateLegacyFields = ({ id, date, ...record }: OrderRecord): OrderRecord => ({
+    ...record,
+    orderId: record.orderId ?? id,
+    dateCreated: record.dateCreated ?? date,
+    items: mapRecordItems(record, item => ({ ...item, productId: toProductId(item.productId) })),
+});
+
+/**
+ * v3 -> v4: marks the order as not claimed by any user yet.
+ * @param record - A v3 record.
+ * @returns {OrderRecord} The v4 record.
+ */
+const migrateToUnclaimedOwner = (record: OrderRecord): OrderRecord => ({ ...record, owner: UNCLAIMED_ORDER_OWNER });
+
+/**
+ * v4 -> v5: discount descriptions recorded as English text keep that text, shown as it is
+ * in every language.
+ * @param record - A v4 record.
+ * @returns {OrderRecord} The v5 record.
+ */
+const migrateDiscountDescriptions = (record: OrderRecord): OrderRecord => {
+    if (!Array.isArray(record.discounts)) return record;
+    return {
+        ...record,
+        discounts: record.discounts.map((discount: unknown) =>
+            isRecord(discount) && typeof discount.description === 'string'
+                ? { ...discount, description: { key: 'promoRecordedDescription', values: { text: discount.description } } }
+                : discount),
+    };
+};
+
+// The step from each version to the next, keyed by the version it migrates from
+const ORDER_MIGRATIONS: Record<number, (record: OrderRecord) => OrderRecord> = {
+    1: migrateAmountsToCents,
+    2: migrateLegacyFields,
+    3: migrateToUnclaimedOwner,
+    4: migrateDiscountDescriptions,
+};
+
+// --- Reading and Writing ---
+
+/**
+ * Brings a stored record up to the current schema and validates it.
+ * @param value - One record as parsed from storage (or from an export file).
+ * @param unversionedAs - Schema version of records without a stamp; export files written before
+ * versioning only ever held v2 records, while storage may still hold v1 ones.
+ * @returns {OrderRecordResult} The order, or why the record can't be read.
+ */
+export const migrateOrderRecord = (value: unknown, unversionedAs: number = UNVERSIONED_SCHEMA_VERSION): OrderRecordResult => {
+    if (!isRecord(value)) return { ok: false, reason: 'notAnObject' };
+    const { schemaVersion = unversionedAs, ...fields } = value;
+    if (!Number.isInteger(schemaVersion) || (schemaVersion as number) > ORDER_SCHEMA_VERSION) {
+        return { ok: false, reason: 'unknownSchemaVersion' };
+    }
+
+    let record: OrderRecord = fields;
+    for (let version = schemaVersion as number; version < ORDER_SCHEMA_VERSION; version++) {
+        const migrate = ORDER_MIGRATIONS[version];
+        if (!migrate) return { ok: false, reason: 'unknownSchemaVersion' };
+        record = migrate(record);
+    }
+    return isValidOrder(record)
+        ? { ok: true, order: record, migrated: schemaVersion !== ORDER_SCHEMA_VERSION }
+        : { ok: false, reason: 'invalidOrder' };
+};
+
+/**
+ * Stamps an order with the current schema version for storage.
+ * @param order - The order.
+ * @returns {StoredOrder} The record to write.
+ */
+export const toStoredOrder = (order: Order): StoredOrder => ({ schemaVersion: ORDER_SCHEMA_VERSION, ...order });
@@ -0,0 +1,97 @@
+// --- Order Status State Machine ---
+
+import { Order, OrderStatus, OrderStatusChange } from '../../types/Order';
+
+// The statuses an order may move to from each status. cancelled and refunded are final.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    placed: ['paid', 'cancelled'],
+    paid: ['processing', 'cancelled'],
+    processing: ['shipped', 'cancelled'],
+    shipped: ['delivered'],
+    delivered: ['refunded'],
+    cancelled: [],
+    refunded: [],
+};
+
+// The regular progress of an order, in order (used to draw the timeline)
+export const ORDER_STATUS_FLOW: OrderStatus[] = ['placed', 'paid', 'processing', 'shipped', 'delivered'];
+
+// Every status: the regular flow, then the final statuses off it (used for filters and sorting)
+export const ORDER_STATUSES: OrderStatus[] = [...ORDER_STATUS_FLOW, 'cancelled', 'refunded'];
+
+// Translation keys of the statuses
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    placed: 'orderStatusPlaced',
+    paid: 'orderStatusPaid',
+    processing: 'orderStatusProcessing',
+    shipped: 'orderStatusShipped',
+    delivered: 'orderStatusDelivered',
+    cancelled: 'orderStatusCancelled',
+    refunded: 'orderStatusRefunded',
+};
+
+// Bootstrap colours of the status badges
+export const ORDER_STATUS_VARIANTS: Record<OrderStatus, string> = {
+    placed: 'secondary',
+    paid: 'info',
+    processing: 'primary',
+    shipped: 'primary',
+    delivered: 'success',
+    cancelled: 'dark',
+    refunded: 'warning',
+};
+
+// Outcome of a status change
+export type OrderTransitionResult =
+    | { ok: true; order: Order }
+    | { ok: false; reason: 'invalidTransition' };
+
+/**
+ * Reads the current status of an order.
+ * @param order - The order.
+ * @returns {OrderStatus} Its status; orders from before statuses were tracked count as placed.
+ */
+export const getOrderStatus = (order: Order): OrderStatus => order.status ?? 'placed';
+
+/**
+ * Reads the status log of an order.
+ * @param order - The order.
+ * @returns {OrderStatusChange[]} The changes, oldest first. Orders from before statuses were
+ * tracked get a single 'placed' entry at their creation date.
+ */
+export const getOrderStatusHistory = (order: Order): OrderStatusChange[] =>
+    order.statusHistory ?? [{ status: getOrderStatus(order), at: order.dateCreated }];
+
+/**
+ * Checks whether an order may move from one status to another.
+ * @param from - The current status.
+ * @param to - The requested status.
+ * @returns {boolean} True if the transition is allowed.
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Moves an order to a new status and logs the change.
+ * @param order - The order (left untouched).
+ * @param to - The new status.
+ * @param now - Time of the change.
+ * @returns {OrderTransitionResult} The updated order, or invalidTransition if the move isn't allowed.
+ */
+export const transitionOrder = (order: Order, to: OrderStatus, now: Date = new Date()): OrderTransitionResult => {
+    if (!canTransition(getOrderStatus(order), to)) return { ok: false, reason: 'invalidTransition' };
+    return {
+        ok: true,
+        order: {
+            ...order,
+            status: to,
+            statusHistory: [...getOrderStatusHistory(order), { status: to, at: now.toISOString() }],
+        },
+    };
+};
+
+/**
+ * Checks whether the customer can still cancel an order (i.e. it hasn't shipped).
+ * @param order - The order.
+ * @returns {boolean} True if the order may move to cancelled.
+ */
+export const canCancelOrder = (order: Order): boolean => canTransition(getOrderStatus(order), 'cancelled');
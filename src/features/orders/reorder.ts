@@ -0,0 +1,68 @@
+// --- Buy Again ---
+
+import { ThunkAction, UnknownAction } from '@reduxjs/toolkit';
+import { MAX_ITEM_QUANTITY, CartItem, CartState, replaceCartItems } from '../cart/cartSlice';
+import { mergeCartItems } from '../cart/cartSession';
+import { Order } from '../../types/Order';
+import { Product } from '../../types/Product';
+import { Money } from '../../utils/money';
+
+// A product whose catalog price is no longer what it was when the order was placed
+export interface ReorderPriceChange {
+    productId: number;
+    title: string;
+    previousPrice: Money; // Catalog unit price at checkout, in cents
+    currentPrice: Money;
+}
+
+// A past order matched against the current catalog
+export interface ReorderPlan {
+    items: CartItem[]; // Lines for products still in the catalog, at current catalog prices
+    unavailable: Array<{ productId: number; title: string | null }>; // Products no longer in the catalog
+    priceChanges: ReorderPriceChange[];
+}
+
+type CartThunk = ThunkAction<void, { cart: CartState }, unknown, UnknownAction>;
+
+/**
+ * Rebuilds the cart lines of a past order from the current catalog. Prices always come from
+ * the catalog, never from the order; gift options and packing notes are not carried over.
+ * Lines of the same product are combined, and quantities are capped at MAX_ITEM_QUANTITY.
+ * @param order - The order to buy again.
+ * @param catalog - The current products.
+ * @returns {ReorderPlan} The lines to add and what changed since the order was placed.
+ */
+export const planReorder = (order: Order, catalog: Product[]): ReorderPlan => {
+    const plan: ReorderPlan = { items: [], unavailable: [], priceChanges: [] };
+    order.items.forEach(item => {
+        const product = catalog.find(candidate => candidate.id === item.productId);
+        if (!product) {
+            plan.unavailable.push({ productId: item.productId, title: item.title ?? null });
+            return;
+        }
+
+        const existing = plan.items.find(line => line.id === product.id);
+        if (existing) {
+            existing.quantity = Math.min(existing.quantity + item.quantity, MAX_ITEM_QUANTITY);
+            return;
+        }
+        plan.items.push({ ...product, quantity: Math.min(item.quantity, MAX_ITEM_QUANTITY) });
+
+        // Orders from before tiered pricing recorded the catalog price as the line price
+        const previousPrice = item.listPrice ?? item.price;
+        if (previousPrice !== product.price) {
+            plan.priceChanges.push({ productId: product.id, title: product.title, previousPrice, currentPrice: product.price });
+        }
+    });
+    return plan;
+};
+
+/**
+ * Adds the lines of a reorder to the active cart (same rules as merging a shared cart),
+ * as a single change that can be undone.
+ * @param items - The lines from planReorder.
+ */
+export const addReorderToCart = (items: CartItem[]): CartThunk => (dispatch, getState) => {
+    if (items.length === 0) return;
+    dispatch(replaceCartItems(mergeCartItems(getState().cart.items, items)));
+};
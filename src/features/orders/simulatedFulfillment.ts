@@ -0,0 +1,41 @@
+// --- Simulated Fulfillment ---
+// There is no warehouse behind this store, so paid orders move on by themselves:
+// each step happens a fixed time after the previous one. Orders are brought up to
+// date whenever the order history is read.
+
+import { Order, OrderStatus } from '../../types/Order';
+import { getOrderStatus, getOrderStatusHistory, transitionOrder } from './orderStatus';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long an order stays in a status before the warehouse moves it on
+export const SIMULATED_FULFILLMENT_SCHEDULE: Partial<Record<OrderStatus, { next: OrderStatus; afterMs: number }>> = {
+    paid: { next: 'processing', afterMs: HOUR_MS },
+    processing: { next: 'shipped', afterMs: 24 * HOUR_MS },
+    shipped: { next: 'delivered', afterMs: 72 * HOUR_MS },
+};
+
+/**
+ * Applies every fulfillment step that is due. Each step is logged at the time it was
+ * due, not at the time the order was looked at, so the timeline reads naturally.
+ * Unpaid, cancelled, delivered and refunded orders are left alone.
+ * @param order - The order.
+ * @param now - The current time.
+ * @returns {Order} The order as of now (the same object if nothing was due).
+ */
+export const advanceSimulatedFulfillment = (order: Order, now: Date = new Date()): Order => {
+    let current = order;
+    for (;;) {
+        const step = SIMULATED_FULFILLMENT_SCHEDULE[getOrderStatus(current)];
+        if (!step) return current;
+        const history = getOrderStatusHistory(current);
+        // Without a logged change there's nothing to time the next step from
+        if (history.length === 0) return current;
+        const dueAt = Date.parse(history[history.length - 1].at) + step.afterMs;
+        if (Number.isNaN(dueAt) || dueAt > now.getTime()) return current;
+
+        const result = transitionOrder(current, step.next, new Date(dueAt));
+        if (!result.ok) return current;
+        current = result.order;
+    }
+};
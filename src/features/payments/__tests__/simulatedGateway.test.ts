@@ -0,0 +1,97 @@
+import { createSimulatedGateway } from '../simulatedGateway';
+import { detectCardBrand, formatMaskedCard, maskCard, parseCardExpiry, passesLuhnCheck } from '../cards';
+import { Money } from '../../../utils/money';
+
+const cents = (value: number) => value as Money;
+
+const card = { cardholderName: 'Ada Lovelace', cardNumber: '4242 4242 4242 4242', expiry: '08/27', cvc: '123' };
+const now = () => new Date('2026-03-15T12:00:00Z');
+
+// In-memory stand-in for localStorage
+const makeStorage = () => {
+    const values: Record<string, string> = {};
+    return {
+        getItem: (key: string) => values[key] ?? null,
+        setItem: (key: string, value: string) => { values[key] = value; },
+    };
+};
+
+const makeGateway = () => createSimulatedGateway({ latencyMs: 0, storage: makeStorage(), now });
+
+describe('card helpers', () => {
+    it('runs the Luhn checksum', () => {
+        expect(passesLuhnCheck('4242 4242 4242 4242')).toBe(true);
+        expect(passesLuhnCheck('4242-4242-4242-4241')).toBe(false);
+        expect(passesLuhnCheck('4242')).toBe(false);
+    });
+
+    it('recognises brands and masks the number', () => {
+        expect(detectCardBrand('5555555555554444')).toBe('mastercard');
+        expect(detectCardBrand('378282246310005')).toBe('amex');
+        expect(maskCard('4242 4242 4242 4242')).toEqual({ brand: 'visa', last4: '4242' });
+        expect(formatMaskedCard({ brand: 'visa', last4: '4242' })).toBe('Visa •••• 4242');
+        expect(formatMaskedCard({ brand: 'unknown', last4: '0000' })).toBe('•••• 0000');
+    });
+
+    it('parses MM/YY expiry dates', () => {
+        expect(parseCardExpiry('08/27')).toEqual({ month: 8, year: 2027 });
+        expect(parseCardExpiry('13/27')).toBeNull();
+        expect(parseCardExpiry('8/27')).toBeNull();
+    });
+});
+
+describe('simulated gateway', () => {
+    it('authorizes and captures a valid card', async () => {
+        const gateway = makeGateway();
+        const authorization = await gateway.authorize({ amount: cents(5000), card });
+        expect(authorization).toMatchObject({ ok: true, transaction: { status: 'authorized', amount: 5000, card: { brand: 'visa', last4: '4242' } } });
+
+        const capture = authorization.ok ? await gateway.capture(authorization.transaction.id) : authorization;
+        expect(capture).toMatchObject({ ok: true, transaction: { status: 'captured', capturedAmount: 5000 } });
+    });
+
+    it('rejects cards that fail the Luhn, expiry or CVC checks', async () => {
+        const gateway = makeGateway();
+
+        expect(await gateway.authorize({ amount: cents(100), card: { ...card, cardNumber: '4242424242424241' } })).toEqual({ ok: false, reason: 'invalidCardNumber' });
+        expect(await gateway.authorize({ amount: cents(100), card: { ...card, expiry: '02/26' } })).toEqual({ ok: false, reason: 'cardExpired' });
+        expect(await gateway.authorize({ amount: cents(100), card: { ...card, cvc: '12' } })).toEqual({ ok: false, reason: 'invalidCvc' });
+        // American Express cards need four digits
+        expect(await gateway.authorize({ amount: cents(100), card: { ...card, cardNumber: '378282246310005', cvc: '123' } })).toEqual({ ok: false, reason: 'invalidCvc' });
+    });
+
+    it('fails on purpose for the test card numbers', async () => {
+        const gateway = makeGateway();
+        const authorize = (cardNumber: string) => gateway.authorize({ amount: cents(100), card: { ...card, cardNumber } });
+
+        expect(await authorize('4000 0000 0000 0002')).toEqual({ ok: false, reason: 'declined' });
+        expect(await authorize('4000 0000 0000 9995')).toEqual({ ok: false, reason: 'insufficientFunds' });
+        expect(await authorize('4000 0000 0000 0119')).toEqual({ ok: false, reason: 'networkError' });
+    });
+
+    it('voids authorizations but not captured payments', async () => {
+        const gateway = makeGateway();
+        const first = await gateway.authorize({ amount: cents(100), card });
+        const second = await gateway.authorize({ amount: cents(100), card });
+        if (!first.ok || !second.ok) throw new Error('authorization failed');
+
+        expect(await gateway.void(first.transaction.id)).toMatchObject({ ok: true, transaction: { status: 'voided' } });
+        expect(await gateway.capture(first.transaction.id)).toEqual({ ok: false, reason: 'invalidTransactionState' });
+
+        await gateway.capture(second.transaction.id);
+        expect(await gateway.void(second.transaction.id)).toEqual({ ok: false, reason: 'invalidTransactionState' });
+    });
+
+    it('refunds in parts up to the captured amount', async () => {
+        const gateway = makeGateway();
+        const authorization = await gateway.authorize({ amount: cents(5000), card });
+        if (!authorization.ok) throw new Error('authorization failed');
+        const { id } = authorization.transaction;
+        await gateway.capture(id);
+
+        expect(await gateway.refund(id, cents(2000))).toMatchObject({ ok: true, transaction: { status: 'partiallyRefunded', refundedAmount: 2000 } });
+        expect(await gateway.refund(id, cents(3001))).toEqual({ ok: false, reason: 'invalidAmount' });
+        expect(await gateway.refund(id, cents(3000))).toMatchObject({ ok: true, transaction: { status: 'refunded', refundedAmount: 5000 } });
+        expect(await gateway.refund('missing', cents(1))).toEqual({ ok: false, reason: 'unknownTransaction' });
+    });
+});
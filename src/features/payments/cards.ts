@@ -0,0 +1,95 @@
+// --- Card Number Helpers ---
+
+import { CardBrand, MaskedCard } from './paymentTypes';
+
+// Display names of the card networks (brand names aren't translated)
+const CARD_BRAND_NAMES: Record<CardBrand, string> = {
+    visa: 'Visa',
+    mastercard: 'Mastercard',
+    amex: 'American Express',
+    discover: 'Discover',
+    unknown: '',
+};
+
+/**
+ * Strips the spaces and dashes customers type between digit groups.
+ * @param cardNumber - The card number as typed.
+ * @returns {string} The bare digits (or whatever else was typed, for the checks below to reject).
+ */
+export const normalizeCardNumber = (cardNumber: string): string => cardNumber.replace(/[\s-]/g, '');
+
+/**
+ * Runs the Luhn checksum that every card number carries in its last digit.
+ * @param cardNumber - The card number (spaces and dashes allowed).
+ * @returns {boolean} True if the number is 12-19 digits long and its checksum is valid.
+ */
+export const passesLuhnCheck = (cardNumber: string): boolean => {
+    const digits = normalizeCardNumber(cardNumber);
+    if (!/^\d{12,19}$/.test(digits)) return false;
+
+    // Double every second digit from the right, subtracting 9 from two-digit results
+    const sum = digits
+        .split('')
+        .reverse()
+        .map(Number)
+        .reduce((total, digit, index) => {
+            if (index % 2 === 0) return total + digit;
+            const doubled = digit * 2;
+            return total + (doubled > 9 ? doubled - 9 : doubled);
+        }, 0);
+    return sum % 10 === 0;
+};
+
+/**
+ * Recognises the card network from the number's prefix.
+ * @param cardNumber - The card number (spaces and dashes allowed).
+ * @returns {CardBrand} The brand, or 'unknown'.
+ */
+export const detectCardBrand = (cardNumber: string): CardBrand => {
+    const digits = normalizeCardNumber(cardNumber);
+    if (/^4/.test(digits)) return 'visa';
+    if (/^(5[1-5]|2(2[2-9]|[3-6]\d|7[01]|720))/.test(digits)) return 'mastercard';
+    if (/^3[47]/.test(digits)) return 'amex';
+    if (/^6(011|5)/.test(digits)) return 'discover';
+    return 'unknown';
+};
+
+/**
+ * Reduces a card number to what may be stored: its brand and last four digits.
+ * @param cardNumber - The card number (spaces and dashes allowed).
+ * @returns {MaskedCard} The masked card.
+ */
+export const maskCard = (cardNumber: string): MaskedCard => ({
+    brand: detectCardBrand(cardNumber),
+    last4: normalizeCardNumber(cardNumber).slice(-4),
+});
+
+/**
+ * Formats a masked card for display, e.g. "Visa •••• 4242".
+ * @param card - The masked card.
+ * @returns {string} The brand name (if known) and the last four digits.
+ */
+export const formatMaskedCard = (card: MaskedCard): string =>
+    [CARD_BRAND_NAMES[card.brand], `•••• ${card.last4}`].filter(Boolean).join(' ');
+
+/**
+ * Parses an MM/YY expiry date.
+ * @param expiry - The expiry as typed.
+ * @returns The month (1-12) and four-digit year, or null if the format is wrong.
+ */
+export const parseCardExpiry = (expiry: string): { month: number; year: number } | null => {
+    const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(expiry.trim());
+    if (!match) return null;
+    const month = Number(match[1]);
+    if (month < 1 || month > 12) return null;
+    return { month, year: 2000 + Number(match[2]) };
+};
+
+/**
+ * Checks whether a card has expired. Cards are valid until the end of their expiry month.
+ * @param expiry - The parsed expiry date.
+ * @param now - The current date.
+ * @returns {boolean} True if the expiry month is over.
+ */
+export const isCardExpired = (expiry: { month: number; year: number }, now: Date = new Date()): boolean =>
+    expiry.year < now.getFullYear() || (expiry.year === now.getFullYear() && expiry.month < now.getMonth() + 1);
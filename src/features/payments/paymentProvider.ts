@@ -0,0 +1,8 @@
+// --- Configured Payment Provider ---
+
+import { PaymentProvider } from './paymentTypes';
+import { createSimulatedGateway } from './simulatedGateway';
+
+// The provider checkout charges through. Point this at a real processor's
+// PaymentProvider implementation to take real payments.
+export const paymentProvider: PaymentProvider = createSimulatedGateway();
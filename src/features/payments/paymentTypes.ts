@@ -0,0 +1,88 @@
+// --- Payment Type Definitions ---
+
+import { Money } from '../../utils/money';
+
+// Card details as typed in at checkout. Handed to the provider once and never stored.
+export interface CardDetails {
+    cardholderName: string;
+    cardNumber: string; // As typed; spaces and dashes are allowed
+    expiry: string; // MM/YY
+    cvc: string;
+}
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+// The only card data kept after payment: enough to recognise the card, not to charge it
+export interface MaskedCard {
+    brand: CardBrand;
+    last4: string;
+}
+
+// Lifecycle of a payment at the provider:
+// authorized -> captured -> partiallyRefunded / refunded, or authorized -> voided
+export type PaymentStatus = 'authorized' | 'captured' | 'voided' | 'partiallyRefunded' | 'refunded';
+
+// A payment as the provider reports it
+export interface PaymentTransaction {
+    id: string;
+    status: PaymentStatus;
+    amount: Money; // Authorized amount, in cents
+    capturedAmount: Money;
+    refundedAmount: Money;
+    card: MaskedCard;
+}
+
+// Why a provider call failed
+export type PaymentFailureReason =
+    | 'declined' // The issuer refused the payment
+    | 'insufficientFunds'
+    | 'networkError' // The provider could not be reached; safe to retry
+    | 'invalidCardNumber'
+    | 'cardExpired'
+    | 'invalidCvc'
+    | 'invalidAmount'
+    | 'unknownTransaction'
+    | 'invalidTransactionState'; // e.g. capturing a voided payment, or refunding more than was captured
+
+// Outcome of every provider call. Providers report failures through this instead of throwing.
+export type PaymentResult =
+    | { ok: true; transaction: PaymentTransaction }
+    | { ok: false; reason: PaymentFailureReason };
+
+/**
+ * What checkout needs from a payment processor. The app talks to whichever provider
+ * is configured in paymentProvider.ts; the simulated gateway is the only one so far.
+ */
+export interface PaymentProvider {
+    readonly name: string; // Recorded on orders, so refunds go back to the same provider
+    /** Reserves the amount on the card without charging it yet. */
+    authorize: (request: { amount: Money; card: CardDetails }) => Promise<PaymentResult>;
+    /** Charges an authorized payment, in full or (with amount) in part. */
+    capture: (transactionId: string, amount?: Money) => Promise<PaymentResult>;
+    /** Releases an authorization that was never captured. */
+    void: (transactionId: string) => Promise<PaymentResult>;
+    /** Returns (part of) a captured amount to the card. */
+    refund: (transactionId: string, amount: Money) => Promise<PaymentResult>;
+}
+
+// Translation keys of the message shown for each failure
+export const PAYMENT_FAILURE_MESSAGES: Record<PaymentFailureReason, string> = {
+    declined: 'paymentDeclined',
+    insufficientFunds: 'paymentInsufficientFunds',
+    networkError: 'paymentNetworkError',
+    invalidCardNumber: 'cardNumberInvalid',
+    cardExpired: 'cardExpired',
+    invalidCvc: 'cardCvcInvalid',
+    invalidAmount: 'paymentFailed',
+    unknownTransaction: 'paymentFailed',
+    invalidTransactionState: 'paymentFailed',
+};
+
+// Translation keys of the payment statuses
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+    authorized: 'paymentStatusAuthorized',
+    captured: 'paymentStatusCaptured',
+    voided: 'paymentStatusVoided',
+    partiallyRefunded: 'paymentStatusPartiallyRefunded',
+    refunded: 'paymentStatusRefunded',
+};
@@ -0,0 +1,155 @@
+// --- Simulated Payment Gateway ---
+
+import { Money, ZERO_MONEY, addMoney, isMoney, subtractMoney } from '../../utils/money';
+import { isCardExpired, maskCard, normalizeCardNumber, parseCardExpiry, passesLuhnCheck } from './cards';
+import { CardDetails, PaymentFailureReason, PaymentProvider, PaymentResult, PaymentTransaction } from './paymentTypes';
+
+// localStorage key of the gateway's transaction ledger, so refunds still work after a reload
+export const SIMULATED_GATEWAY_STORAGE_KEY = 'simulatedGatewayLedger';
+
+// Card numbers that pass every check but make the gateway fail in a specific way.
+// Any other valid number (e.g. 4242 4242 4242 4242) is approved.
+export const SIMULATED_TEST_CARDS: Record<string, PaymentFailureReason> = {
+    '4000000000000002': 'declined',
+    '4000000000009995': 'insufficientFunds',
+    '4000000000000119': 'networkError',
+};
+
+// The part of Storage the gateway uses, so tests can pass in their own
+type LedgerStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+interface SimulatedGatewayOptions {
+    latencyMs?: number; // Delay before every response, like a network round trip
+    storage?: LedgerStorage; // Where the ledger is kept (defaults to localStorage)
+    now?: () => Date; // Clock used for the expiry check
+}
+
+// --- Helpers ---
+
+/**
+ * Checks the card the way a processor would before contacting the issuer.
+ * @param card - The card details.
+ * @param now - The current date.
+ * @returns {PaymentFailureReason | null} Why the card is unusable, or null if it looks valid.
+ */
+const checkCard = (card: CardDetails, now: Date): PaymentFailureReason | null => {
+    if (!passesLuhnCheck(card.cardNumber)) return 'invalidCardNumber';
+
+    const expiry = parseCardExpiry(card.expiry);
+    if (!expiry || isCardExpired(expiry, now)) return 'cardExpired';
+
+    // American Express uses four-digit codes, every other network three
+    const cvcLength = maskCard(card.cardNumber).brand === 'amex' ? 4 : 3;
+    if (!new RegExp(`^\\d{${cvcLength}}$`).test(card.cvc.trim())) return 'invalidCvc';
+
+    return null;
+};
+
+/**
+ * Reads the stored transactions. A missing or corrupt ledger counts as empty.
+ * @param storage - Where the ledger is kept.
+ * @returns {Record<string, PaymentTransaction>} The transactions by id.
+ */
+const readLedger = (storage: LedgerStorage): Record<string, PaymentTransaction> => {
+    try {
+        const parsed: unknown = JSON.parse(storage.getItem(SIMULATED_GATEWAY_STORAGE_KEY) ?? '{}');
+        return typeof parsed === 'object' && parsed !== null ? parsed as Record<string, PaymentTransaction> : {};
+    } catch (error) {
+        console.error("Error parsing the simulated gateway ledger:", error);
+        return {};
+    }
+};
+
+// --- Gateway ---
+
+/**
+ * Creates a payment provider that runs entirely in the browser. It validates cards (Luhn checksum,
+ * expiry, CVC), fails on purpose for the numbers in SIMULATED_TEST_CARDS, and keeps its
+ * transactions in localStorage so captures, voids and refunds behave like a real processor's.
+ * @param options - Latency, storage and clock overrides (mainly for tests).
+ * @returns {PaymentProvider} The simulated gateway.
+ */
+export const createSimulatedGateway = ({
+    latencyMs = 300,
+    storage = localStorage,
+    now = () => new Date(),
+}: SimulatedGatewayOptions = {}): PaymentProvider => {
+    /**
+     * Waits for the simulated network round trip, then produces the result.
+     * @param produce - Computes the result.
+     * @returns {Promise<PaymentResult>} The result, after the latency.
+     */
+    const respond = async (produce: () => PaymentResult): Promise<PaymentResult> => {
+        if (latencyMs > 0) await new Promise(resolve => setTimeout(resolve, latencyMs));
+        return produce();
+    };
+
+    /**
+     * Applies a change to a stored transaction and saves it.
+     * @param transactionId - The transaction to change.
+     * @param update - Returns the updated transaction, or a failure reason if the change isn't allowed.
+     * @returns {PaymentResult} The updated transaction or the failure.
+     */
+    const updateTransaction = (
+        transactionId: string,
+        update: (transaction: PaymentTransaction) => PaymentTransaction | PaymentFailureReason,
+    ): PaymentResult => {
+        const ledger = readLedger(storage);
+        const transaction = ledger[transactionId];
+        if (!transaction) return { ok: false, reason: 'unknownTransaction' };
+
+        const updated = update(transaction);
+        if (typeof updated === 'string') return { ok: false, reason: updated };
+        ledger[transactionId] = updated;
+        storage.setItem(SIMULATED_GATEWAY_STORAGE_KEY, JSON.stringify(ledger));
+        return { ok: true, transaction: updated };
+    };
+
+    return {
+        name: 'simulated',
+
+        authorize: ({ amount, card }) => respond(() => {
+            if (!isMoney(amount) || amount <= 0) return { ok: false, reason: 'invalidAmount' };
+            const cardProblem = checkCard(card, now());
+            if (cardProblem) return { ok: false, reason: cardProblem };
+            const testFailure = SIMULATED_TEST_CARDS[normalizeCardNumber(card.cardNumber)];
+            if (testFailure) return { ok: false, reason: testFailure };
+
+            const transaction: PaymentTransaction = {
+                id: `sim_${now().getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+                status: 'authorized',
+                amount,
+                capturedAmount: ZERO_MONEY,
+                refundedAmount: ZERO_MONEY,
+                card: maskCard(card.cardNumber),
+            };
+            const ledger = readLedger(storage);
+            ledger[transaction.id] = transaction;
+            storage.setItem(SIMULATED_GATEWAY_STORAGE_KEY, JSON.stringify(ledger));
+            return { ok: true, transaction };
+        }),
+
+        capture: (transactionId, amount) => respond(() => updateTransaction(transactionId, transaction => {
+            if (transaction.status !== 'authorized') return 'invalidTransactionState';
+            const captureAmount = amount ?? transaction.amount;
+            if (!isMoney(captureAmount) || captureAmount <= 0 || captureAmount > transaction.amount) return 'invalidAmount';
+            return { ...transaction, status: 'captured', capturedAmount: captureAmount };
+        })),
+
+        void: (transactionId) => respond(() => updateTransaction(transactionId, transaction =>
+            transaction.status === 'authorized' ? { ...transaction, status: 'voided' } : 'invalidTransactionState',
+        )),
+
+        refund: (transactionId, amount) => respond(() => updateTransaction(transactionId, transaction => {
+            if (transaction.status !== 'captured' && transaction.status !== 'partiallyRefunded') return 'invalidTransactionState';
+            const refundable = subtractMoney(transaction.capturedAmount, transaction.refundedAmount);
+            if (!isMoney(amount) || amount <= 0 || amount > refundable) return 'invalidAmount';
+            const refundedAmount: Money = addMoney(transaction.refundedAmount, amount);
+            return {
+                ...transaction,
+                status: refundedAmount === transaction.capturedAmount ? 'refunded' : 'partiallyRefunded',
+                refundedAmount,
+            };
+        })),
+    };
+};
@@ -0,0 +1,88 @@
+import { calculatePriceBreakdown, getAvailableShippingMethods } from '../pricingPipeline';
+import { cents, makeItem } from '../../../testUtils/fixtures';
+
+const now = new Date('2026-01-15T12:00:00Z');
+
+describe('calculatePriceBreakdown', () => {
+    it('adds standard shipping and California tax (shipping not taxed)', () => {
+        const breakdown = calculatePriceBreakdown({ items: [makeItem(1, 2000, 2)], promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA', now });
+
+        expect(breakdown.subtotal).toBe(4000);
+        expect(breakdown.discounts).toEqual([]);
+        expect(breakdown.shipping).toBe(599);
+        expect(breakdown.tax).toBe(290); // 7.25% of $40.00
+        expect(breakdown.total).toBe(4889);
+    });
+
+    it('charges nothing for free shipping once the subtotal reaches the threshold', () => {
+        const breakdown = calculatePriceBreakdown({ items: [makeItem(1, 8000, 1)], promoCode: null, shippingMethod: 'free', taxRegion: 'US-OR', now });
+
+        expect(breakdown.shippingMethod.id).toBe('free');
+        expect(breakdown.shipping).toBe(0);
+        expect(breakdown.total).toBe(8000);
+    });
+
+    it('falls back to standard shipping when the discounted subtotal is below the free threshold', () => {
+        // $80.00 - 10% (SAVE10) = $72.00, under the $75.00 minimum
+        const breakdown = calculatePriceBreakdown({ items: [makeItem(1, 8000, 1)], promoCode: 'SAVE10', shippingMethod: 'free', taxRegion: 'US-OR', now });
+
+        expect(breakdown.discountTotal).toBe(800);
+        expect(breakdown.shippingMethod.id).toBe('standard');
+        expect(breakdown.shipping).toBe(599);
+        expect(breakdown.total).toBe(7200 + 599);
+    });
+
+    it('leaves exempt categories out of the tax and taxes shipping where the region does', () => {
+        const items = [makeItem(1, 2000, 1), makeItem(2, 3000, 1, { category: "men's clothing" })];
+        const breakdown = calculatePriceBreakdown({ items, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-NY', now });
+
+        expect(breakdown.taxableAmount).toBe(2000 + 599);
+        expect(breakdown.tax).toBe(104); // 4% of $25.99, rounded
+        expect(breakdown.total).toBe(5000 + 599 + 104);
+    });
+
+    it('shares discounts between taxable and exempt lines in proportion to their value', () => {
+        const items = [makeItem(1, 2000, 1), makeItem(2, 3000, 1, { category: "men's clothing" })];
+        const breakdown = calculatePriceBreakdown({ items, promoCode: 'SAVE10', shippingMethod: 'standard', taxRegion: 'US-NY', now });
+
+        // $5.00 discount, 40% of it on the taxable electronics line
+        expect(breakdown.taxableAmount).toBe(2000 - 200 + 599);
+        expect(breakdown.tax).toBe(96);
+        expect(breakdown.total).toBe(4500 + 599 + 96);
+    });
+
+    it('ignores an invalid promo code but reports why', () => {
+        const breakdown = calculatePriceBreakdown({ items: [makeItem(1, 1000, 1)], promoCode: 'NOPE', shippingMethod: 'express', taxRegion: 'US-OR', now });
+
+        expect(breakdown.promotion).toEqual({ valid: false, error: 'promoUnknown' });
+        expect(breakdown.discountTotal).toBe(0);
+        expect(breakdown.total).toBe(1000 + 1499);
+    });
+
+    it('uses the default region for unknown codes and charges no shipping on an empty cart', () => {
+        const breakdown = calculatePriceBreakdown({ items: [], promoCode: null, shippingMethod: 'express', taxRegion: 'XX', now });
+
+        expect(breakdown.taxRegion.code).toBe('US-CA');
+        expect(breakdown.shipping).toBe(0);
+        expect(breakdown.total).toBe(0);
+    });
+
+    it('charges gift wrap per unit of wrapped lines, untaxed and undiscounted', () => {
+        const items = [
+            { ...makeItem(1, 2000, 2), gift: { wrap: true, message: 'Happy birthday' } },
+            { ...makeItem(2, 1000, 1), gift: { wrap: false, message: '' } },
+        ];
+        const breakdown = calculatePriceBreakdown({ items, promoCode: null, shippingMethod: 'standard', taxRegion: 'US-CA', now });
+
+        expect(breakdown.giftWrap).toBe(798); // 2 wrapped units at $3.99
+        expect(breakdown.tax).toBe(363); // 7.25% of the $50.00 of goods only
+        expect(breakdown.total).toBe(5000 + 798 + 599 + 363);
+    });
+});
+
+describe('getAvailableShippingMethods', () => {
+    it('only offers free shipping from the minimum subtotal', () => {
+        expect(getAvailableShippingMethods(cents(7499)).map(method => method.id)).toEqual(['standard', 'express']);
+        expect(getAvailableShippingMethods(cents(7500)).map(method => method.id)).toEqual(['standard', 'express', 'free']);
+    });
+});
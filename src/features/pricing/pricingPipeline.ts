@@ -0,0 +1,156 @@
+// --- Order Pricing Pipeline ---
+
+import { CartItem } from '../cart/cartSlice';
+import { CartLinePrice, priceCartLines } from '../cart/linePricing';
+import { evaluatePromotion } from '../promotions/promotionEngine';
+import { AppliedDiscount, PromotionResult } from '../promotions/promotionTypes';
+import { DEFAULT_SHIPPING_METHOD, SHIPPING_METHODS, ShippingMethod, ShippingMethodId } from '../../data/shipping';
+import { DEFAULT_TAX_REGION, TAX_REGIONS, TaxRegion } from '../../data/taxRegions';
+import { GIFT_WRAP_PRICE } from '../../data/giftOptions';
+import { Money, ZERO_MONEY, addMoney, multiplyMoney, subtractMoney, sumMoney } from '../../utils/money';
+
+// --- Type Definitions ---
+
+// What the pipeline needs to price an order
+export interface PricingInput {
+    items: CartItem[];
+    promoCode: string | null; // Applied promo code, re-evaluated against the items
+    shippingMethod: ShippingMethodId; // Requested delivery option
+    taxRegion: string; // Code of the region in the tax table
+    now?: Date; // Time used for promotion start/expiry checks (defaults to the current time)
+}
+
+// Every step of an order's price, in cents
+export interface PriceBreakdown {
+    lines: CartLinePrice[]; // Effective price of each line, in cart order
+    savings: Money; // Saved by quantity tiers and bundles compared with list prices
+    subtotal: Money; // Sum of the line totals
+    promotion: PromotionResult | null; // Evaluation of the promo code, if one is applied
+    discounts: AppliedDiscount[]; // Discount lines of a valid promo code (empty otherwise)
+    discountTotal: Money;
+    giftWrap: Money; // Gift wrap charge for the lines marked as wrapped gifts
+    shippingMethod: ShippingMethod; // The method actually charged (may differ from the requested one)
+    shipping: Money;
+    taxRegion: TaxRegion; // The region actually used (falls back to the default for unknown codes)
+    taxableAmount: Money; // The amount the tax rate was applied to
+    tax: Money;
+    total: Money; // subtotal - discounts + gift wrap + shipping + tax
+}
+
+// --- Gift Wrap ---
+
+/**
+ * Calculates the gift wrap charge: GIFT_WRAP_PRICE for every unit of a line marked as a wrapped gift.
+ * @param items - The cart lines.
+ * @returns {Money} The charge in cents.
+ */
+export const calculateGiftWrapTotal = (items: CartItem[]): Money =>
+    sumMoney(items.filter(item => item.gift?.wrap), item => multiplyMoney(GIFT_WRAP_PRICE, item.quantity));
+
+// --- Shipping ---
+
+/**
+ * Lists the shipping methods offered for an order of a given value.
+ * @param discountedSubtotal - The subtotal after discounts, in cents.
+ * @returns {ShippingMethod[]} The methods whose minimum subtotal (if any) is met.
+ */
+export const getAvailableShippingMethods = (discountedSubtotal: Money): ShippingMethod[] =>
+    SHIPPING_METHODS.filter(method => method.minimumSubtotal === undefined || discountedSubtotal >= method.minimumSubtotal);
+
+/**
+ * Picks the shipping method to charge. A method that is unknown or not offered for this
+ * order (e.g. free shipping after the subtotal dropped below its minimum) falls back to the default.
+ * @param methodId - The requested method.
+ * @param discountedSubtotal - The subtotal after discounts, in cents.
+ * @returns {ShippingMethod} The method to charge.
+ */
+export const resolveShippingMethod = (methodId: ShippingMethodId, discountedSubtotal: Money): ShippingMethod => {
+    const available = getAvailableShippingMethods(discountedSubtotal);
+    return available.find(method => method.id === methodId)
+        ?? available.find(method => method.id === DEFAULT_SHIPPING_METHOD)
+        ?? available[0];
+};
+
+// --- Tax ---
+
+/**
+ * Looks up a region in the tax table.
+ * @param code - The region code.
+ * @returns {TaxRegion} The matching region, or the default region for unknown codes.
+ */
+export const findTaxRegion = (code: string): TaxRegion =>
+    TAX_REGIONS.find(region => region.code === code)
+    ?? TAX_REGIONS.find(region => region.code === DEFAULT_TAX_REGION)
+    ?? TAX_REGIONS[0];
+
+/**
+ * Calculates the amount sales tax is charged on.
+ * Lines in the region's exempt categories are left out. Discounts are shared between taxable
+ * and exempt lines in proportion to their value, so only the taxable part reduces the base.
+ * Shipping is added when the region taxes it.
+ * @param items - The cart lines.
+ * @param discountTotal - The total promo discount, in cents.
+ * @param shipping - The shipping charge, in cents.
+ * @param region - The tax region.
+ * @returns {Money} The taxable amount in cents (never negative).
+ */
+export const calculateTaxableAmount = (items: CartItem[], discountTotal: Money, shipping: Money, region: TaxRegion): Money => {
+    const linePrices = priceCartLines(items);
+    const subtotal = sumMoney(linePrices, line => line.lineTotal);
+    const taxableLines = linePrices.filter((_, index) => !region.exemptCategories.includes(items[index].category));
+    const taxableSubtotal = sumMoney(taxableLines, line => line.lineTotal);
+    const taxableDiscount = subtotal > 0 ? multiplyMoney(discountTotal, taxableSubtotal / subtotal) : ZERO_MONEY;
+    const taxableGoods = Math.max(subtractMoney(taxableSubtotal, taxableDiscount), 0) as Money;
+    return region.taxShipping ? addMoney(taxableGoods, shipping) : taxableGoods;
+};
+
+// --- Pipeline ---
+
+/**
+ * Prices an order in a fixed order of steps:
+ * 1. subtotal of the lines at their effective prices (quantity tiers and bundles),
+ * 2. promo code discounts (evaluatePromotion),
+ * 3. gift wrap, which promo codes don't discount and which is not taxed,
+ * 4. shipping, chosen against the discounted subtotal,
+ * 5. sales tax for the region, on the discounted taxable lines (plus shipping where taxed),
+ * 6. grand total.
+ * Used both to display the cart and to build the order at checkout, so the two always agree.
+ * @param input - The cart lines and the customer's selections.
+ * @returns {PriceBreakdown} The amounts of every step.
+ */
+export const calculatePriceBreakdown = ({ items, promoCode, shippingMethod, taxRegion, now = new Date() }: PricingInput): PriceBreakdown => {
+    // Lines are priced with their effective unit prices (quantity tiers and bundles)
+    const lines = priceCartLines(items);
+    const subtotal = sumMoney(lines, line => line.lineTotal);
+
+    const promotion = promoCode ? evaluatePromotion(promoCode, items, now) : null;
+    const discounts = promotion?.valid ? promotion.discounts : [];
+    const discountTotal = promotion?.valid ? promotion.totalDiscount : ZERO_MONEY;
+    const discountedSubtotal = subtractMoney(subtotal, discountTotal);
+
+    const giftWrap = calculateGiftWrapTotal(items);
+
+    const method = resolveShippingMethod(shippingMethod, discountedSubtotal);
+    // Nothing to ship for an empty cart
+    const shipping = items.length > 0 ? method.cost : ZERO_MONEY;
+
+    const region = findTaxRegion(taxRegion);
+    const taxableAmount = calculateTaxableAmount(items, discountTotal, shipping, region);
+    const tax = multiplyMoney(taxableAmount, region.rate);
+
+    return {
+        lines,
+        savings: sumMoney(lines, line => line.savings),
+        subtotal,
+        promotion,
+        discounts,
+        discountTotal,
+        giftWrap,
+        shippingMethod: method,
+        shipping,
+        taxRegion: region,
+        taxableAmount,
+        tax,
+        total: addMoney(discountedSubtotal, giftWrap, shipping, tax),
+    };
+};
@@ -1,4 +1,9 @@
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Product } from '../../types/Product';
+import { fromMajor } from '../../utils/money';
+
+// Product as returned by fakestoreapi, with its price in dollars
+type ApiProduct = Omit<Product, 'price'> & { price: number };
 
 export const fetchProducts = createAsyncThunk(
     'products/fetchProducts',
@@ -11,15 +16,16 @@ export const fetchProducts = createAsyncThunk(
         if (!response.ok) {
             throw new Error('Failed to fetch products');
         }
-        const products = await response.json();
-        return products;
+        const products: ApiProduct[] = await response.json();
+        // Convert prices to cents once, at the API boundary
+        return products.map((product): Product => ({ ...product, price: fromMajor(product.price) }));
     }
 );
 
 const productSlice = createSlice({
     name: 'products',
     initialState: {
-        items: [],
+        items: [] as Product[],
         status: 'idle', // 'idle' | 'loading' | 'succeeded' | 'failed'
         error: null as string | null,
     },
@@ -0,0 +1,75 @@
+import { evaluatePromotion } from '../promotionEngine';
+import { Promotion } from '../promotionTypes';
+import { cents, makeItem } from '../../../testUtils/fixtures';
+
+const catalog: Promotion[] = [
+    { code: 'PCT10', description: { key: 'pct10' }, rules: [{ type: 'percentage', percent: 10 }] },
+    { code: 'FIVE', description: { key: 'five' }, rules: [{ type: 'fixedAmount', amount: cents(500) }], minimumSpend: cents(3000) },
+    { code: 'BOOKS', description: { key: 'books' }, rules: [{ type: 'percentage', percent: 20, category: 'books' }] },
+    { code: '3FOR2', description: { key: '3for2' }, rules: [{ type: 'buyXGetY', buy: 2, get: 1 }] },
+    { code: 'HUGE', description: { key: 'huge' }, rules: [{ type: 'fixedAmount', amount: cents(100000) }] },
+    {
+        code: 'COMBO',
+        description: { key: 'combo' },
+        rules: [
+            { type: 'percentage', percent: 50, category: 'books', description: { key: 'halfPriceBooks' } },
+            { type: 'fixedAmount', amount: cents(100), description: { key: 'oneOff', amounts: { amount: cents(100) } } },
+        ],
+    },
+    { code: 'OLD', description: { key: 'old' }, rules: [{ type: 'percentage', percent: 10 }], expiresAt: '2024-01-01T00:00:00Z' },
+    { code: 'SOON', description: { key: 'soon' }, rules: [{ type: 'percentage', percent: 10 }], startsAt: '2030-01-01T00:00:00Z' },
+];
+
+const now = new Date('2026-01-15T12:00:00Z');
+
+describe('evaluatePromotion', () => {
+    it('applies a percentage off the whole cart, matching codes case-insensitively', () => {
+        const result = evaluatePromotion(' pct10 ', [makeItem(1, 1999, 2)], now, catalog);
+
+        expect(result).toMatchObject({ valid: true, totalDiscount: 400 });
+    });
+
+    it('enforces the minimum spend before a fixed amount applies', () => {
+        expect(evaluatePromotion('FIVE', [makeItem(1, 1000, 2)], now, catalog))
+            .toMatchObject({ valid: false, error: 'promoMinimumSpend' });
+        expect(evaluatePromotion('FIVE', [makeItem(1, 1000, 3)], now, catalog))
+            .toMatchObject({ valid: true, totalDiscount: 500 });
+    });
+
+    it('limits category discounts to products of that category', () => {
+        const items = [makeItem(1, 1000, 1, { category: 'books' }), makeItem(2, 5000, 1)];
+
+        expect(evaluatePromotion('BOOKS', items, now, catalog)).toMatchObject({ valid: true, totalDiscount: 200 });
+        expect(evaluatePromotion('BOOKS', [makeItem(2, 5000, 1)], now, catalog))
+            .toMatchObject({ valid: false, error: 'promoNotApplicable' });
+    });
+
+    it('gives one free unit per full group for buy-X-get-Y', () => {
+        const result = evaluatePromotion('3FOR2', [makeItem(1, 1000, 7), makeItem(2, 300, 2)], now, catalog);
+
+        // 7 units -> 2 full groups of 3 -> 2 free; the second line has no full group.
+        // Free units are valued at the effective unit price: 7 units reach the 5% volume tier (950 each)
+        expect(result).toMatchObject({ valid: true, totalDiscount: 1900 });
+    });
+
+    it('never discounts more than the subtotal', () => {
+        expect(evaluatePromotion('HUGE', [makeItem(1, 1000, 1)], now, catalog)).toMatchObject({ valid: true, totalDiscount: 1000 });
+    });
+
+    it('returns a separate discount line per rule', () => {
+        const result = evaluatePromotion('COMBO', [makeItem(1, 1000, 1, { category: 'books' }), makeItem(2, 500, 1)], now, catalog);
+
+        expect(result.valid && result.discounts).toEqual([
+            { code: 'COMBO', description: { key: 'halfPriceBooks' }, amount: 500 },
+            { code: 'COMBO', description: { key: 'oneOff', amounts: { amount: 100 } }, amount: 100 },
+        ]);
+    });
+
+    it('rejects unknown, expired and not-yet-started codes', () => {
+        const items = [makeItem(1, 1000, 1)];
+
+        expect(evaluatePromotion('NOPE', items, now, catalog)).toMatchObject({ valid: false, error: 'promoUnknown' });
+        expect(evaluatePromotion('OLD', items, now, catalog)).toMatchObject({ valid: false, error: 'promoExpired' });
+        expect(evaluatePromotion('SOON', items, now, catalog)).toMatchObject({ valid: false, error: 'promoNotStarted' });
+    });
+});
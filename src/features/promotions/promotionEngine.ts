@@ -0,0 +1,114 @@
+// --- Promotion Rules Engine ---
+
+import promotions from '../../data/promotions';
+import { CartItem } from '../cart/cartSlice';
+import { CartLinePrice, priceCartLines } from '../cart/linePricing';
+import { Money, ZERO_MONEY, addMoney, multiplyMoney, sumMoney } from '../../utils/money';
+import { AppliedDiscount, Promotion, PromotionResult, PromotionRule } from './promotionTypes';
+
+/**
+ * Looks up a promotion by code (case-insensitive, surrounding spaces ignored).
+ * @param code - The code the customer entered.
+ * @param catalog - The promotions to search (defaults to the configured promotions).
+ * @returns {Promotion | undefined} The matching promotion, if any.
+ */
+export const findPromotion = (code: string, catalog: Promotion[] = promotions): Promotion | undefined => {
+    const normalizedCode = code.trim().toUpperCase();
+    return catalog.find(promotion => promotion.code.toUpperCase() === normalizedCode);
+};
+
+/**
+ * Checks whether a cart line is covered by a rule's category/product restriction.
+ * @param rule - The promotion rule.
+ * @param item - The cart line.
+ * @returns {boolean} True if the rule applies to the line.
+ */
+const isEligible = (rule: PromotionRule, item: CartItem): boolean => {
+    if (rule.category !== undefined && item.category !== rule.category) return false;
+    if (rule.type === 'buyXGetY' && rule.productId !== undefined && item.id !== rule.productId) return false;
+    return true;
+};
+
+// A cart line together with its effective price (quantity tiers and bundles already applied)
+interface PricedLine {
+    item: CartItem;
+    price: CartLinePrice;
+}
+
+/**
+ * Calculates the discount a single rule gives on a set of cart lines.
+ * Discounts are taken off what the lines actually cost, after quantity tiers and bundles.
+ * @param rule - The promotion rule.
+ * @param lines - The priced cart lines.
+ * @returns {Money} The discount in cents (0 if nothing is eligible).
+ */
+const calculateRuleDiscount = (rule: PromotionRule, lines: PricedLine[]): Money => {
+    const eligibleLines = lines.filter(line => isEligible(rule, line.item));
+    const eligibleSubtotal = sumMoney(eligibleLines, line => line.price.lineTotal);
+
+    switch (rule.type) {
+        case 'percentage':
+            return multiplyMoney(eligibleSubtotal, rule.percent / 100);
+        case 'fixedAmount':
+            // Never take off more than the eligible lines are worth
+            return Math.min(rule.amount, eligibleSubtotal) as Money;
+        case 'buyXGetY': {
+            // Each line is counted on its own: every full group of (buy + get) units earns `get` free units
+            const groupSize = rule.buy + rule.get;
+            return sumMoney(eligibleLines, ({ item, price }) =>
+                multiplyMoney(price.unitPrice, Math.floor(item.quantity / groupSize) * rule.get));
+        }
+        default:
+            return ZERO_MONEY;
+    }
+};
+
+/**
+ * Evaluates a promo code against the cart.
+ * Checks, in order: the code exists, it has started and not expired, the cart meets the
+ * minimum spend, and at least one rule gives a discount. Each rule with a non-zero discount
+ * becomes its own discount line; the total discount is capped at the cart subtotal.
+ * @param code - The code the customer entered.
+ * @param items - The cart lines.
+ * @param now - The time to check the start/expiry dates against (defaults to the current time).
+ * @param catalog - The promotions to search (defaults to the configured promotions).
+ * @returns {PromotionResult} The discount lines, or the reason the code does not apply.
+ */
+export const evaluatePromotion = (
+    code: string,
+    items: CartItem[],
+    now: Date = new Date(),
+    catalog: Promotion[] = promotions,
+): PromotionResult => {
+    const promotion = findPromotion(code, catalog);
+    if (!promotion) return { valid: false, error: 'promoUnknown' };
+
+    if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+        return { valid: false, error: 'promoNotStarted', promotion };
+    }
+    if (promotion.expiresAt && now > new Date(promotion.expiresAt)) {
+        return { valid: false, error: 'promoExpired', promotion };
+    }
+
+    const pricedLines = priceCartLines(items).map((price, index) => ({ item: items[index], price }));
+    const subtotal = sumMoney(pricedLines, line => line.price.lineTotal);
+    if (promotion.minimumSpend !== undefined && subtotal < promotion.minimumSpend) {
+        return { valid: false, error: 'promoMinimumSpend', promotion };
+    }
+
+    // Apply each rule in order, never letting the running total exceed the subtotal
+    let remaining = subtotal;
+    const discounts: AppliedDiscount[] = [];
+    promotion.rules.forEach(rule => {
+        const amount = Math.min(calculateRuleDiscount(rule, pricedLines), remaining) as Money;
+        if (amount > 0) {
+            discounts.push({ code: promotion.code, description: rule.description ?? promotion.description, amount });
+            remaining = (remaining - amount) as Money;
+        }
+    });
+
+    if (discounts.length === 0) {
+        return { valid: false, error: 'promoNotApplicable', promotion };
+    }
+    return { valid: true, promotion, discounts, totalDiscount: addMoney(...discounts.map(discount => discount.amount)) };
+};
@@ -0,0 +1,70 @@
+// --- Promotion Type Definitions ---
+
+import { Money } from '../../utils/money';
+
+// A description shown to the customer: a translation key and the values filled into it.
+// Amounts stay in cents and are formatted when shown, so the text follows the active language
+// and currency, also once it is stored on an order.
+export interface PromotionDescription {
+    key: string; // Translation key
+    values?: Record<string, string | number>; // Plain values, e.g. { percent: 10 }
+    amounts?: Record<string, Money>; // Amounts in cents, e.g. { amount: 1000 }
+}
+
+// Fields shared by every rule type
+interface BaseRule {
+    description?: PromotionDescription; // Label of the rule's discount line (defaults to the promotion's description)
+    category?: string; // Limit the rule to products of this Product.category
+}
+
+// Percentage off the eligible lines, e.g. 10% off (optionally only one category)
+export interface PercentageRule extends BaseRule {
+    type: 'percentage';
+    percent: number; // 0-100
+}
+
+// Fixed amount off the eligible lines, never more than their total
+export interface FixedAmountRule extends BaseRule {
+    type: 'fixedAmount';
+    amount: Money; // In cents
+}
+
+// Buy X, get Y free: for every (buy + get) units of one product, `get` units are free
+export interface BuyXGetYRule extends BaseRule {
+    type: 'buyXGetY';
+    buy: number;
+    get: number;
+    productId?: number; // Limit to a single product
+}
+
+export type PromotionRule = PercentageRule | FixedAmountRule | BuyXGetYRule;
+
+// A promo code and the rules it applies. Each rule becomes its own discount line.
+export interface Promotion {
+    code: string; // Matched case-insensitively
+    description: PromotionDescription;
+    rules: PromotionRule[];
+    minimumSpend?: Money; // Cart subtotal (in cents) required before the code applies
+    startsAt?: string; // ISO date; the code is not valid before this
+    expiresAt?: string; // ISO date; the code is not valid after this
+}
+
+// One discount line produced by a promotion rule, as shown in the cart and stored on the order
+export interface AppliedDiscount {
+    code: string;
+    description: PromotionDescription;
+    amount: Money; // Positive amount in cents taken off the subtotal
+}
+
+// Why a promo code could not be applied (doubles as the translation key for the message)
+export type PromotionError =
+    | 'promoUnknown'
+    | 'promoNotStarted'
+    | 'promoExpired'
+    | 'promoMinimumSpend'
+    | 'promoNotApplicable';
+
+// Outcome of evaluating a promo code against a cart
+export type PromotionResult =
+    | { valid: true; promotion: Promotion; discounts: AppliedDiscount[]; totalDiscount: Money }
+    | { valid: false; error: PromotionError; promotion?: Promotion };
@@ -0,0 +1,135 @@
+import { Order } from '../../../types/Order';
+import { createSimulatedGateway } from '../../payments/simulatedGateway';
+import { getOrdersFromLocalStorage, saveOrdersToLocalStorage } from '../../../utils/localStorageHelpers';
+import { createReturn, getReturnIneligibility, getReturnRefundAmount, getReturnableQuantities } from '../returns';
+import { advanceReturn, requestReturn } from '../processReturn';
+import { cents, makeOrder } from '../../../testUtils/fixtures';
+
+const card = { cardholderName: 'Ada Lovelace', cardNumber: '4242 4242 4242 4242', expiry: '08/49', cvc: '123' };
+const placedAt = '2026-03-01T12:00:00.000Z';
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+// Two lines (3 × $10 and 1 × $20), a $5 discount, $3.50 tax and $5.99 shipping
+const makeDeliveredOrder = (overrides: Partial<Order> = {}) => makeOrder({
+    dateCreated: placedAt,
+    items: [
+        { productId: 1, title: 'Mug', quantity: 3, price: cents(1000), lineTotal: cents(3000) },
+        { productId: 2, title: 'Lamp', quantity: 1, price: cents(2000), lineTotal: cents(2000) },
+    ],
+    subtotal: cents(5000),
+    discounts: [{ code: 'SAVE5', description: { key: 'promoAmountOff', amounts: { amount: cents(500) } }, amount: cents(500) }],
+    shipping: { method: 'standard', cost: cents(599) },
+    tax: { region: 'US-CA', rate: 0.0778, amount: cents(350) },
+    totalPrice: cents(5449),
+    status: 'delivered',
+    statusHistory: [{ status: 'placed', at: placedAt }, { status: 'delivered', at: placedAt }],
+    ...overrides,
+});
+
+describe('requesting a return', () => {
+    it('is only possible for delivered orders within the return window', () => {
+        expect(getReturnIneligibility(makeDeliveredOrder(), now)).toBeNull();
+        expect(getReturnIneligibility(makeDeliveredOrder({ status: 'shipped' }), now)).toBe('returnNotDelivered');
+        expect(getReturnIneligibility(makeDeliveredOrder(), new Date('2026-03-31T12:00:00.000Z'))).toBeNull();
+        expect(getReturnIneligibility(makeDeliveredOrder(), new Date('2026-03-31T12:00:01.000Z'))).toBe('returnWindowClosed');
+    });
+
+    it('refunds each unit its share of the line, less discounts, plus tax', () => {
+        // One mug is a fifth of the subtotal: (5000 - 500 + 350) / 5
+        expect(getReturnRefundAmount(makeDeliveredOrder(), [{ lineIndex: 0, quantity: 1 }])).toBe(970);
+    });
+
+    it('creates an RMA and tracks the units left to return', () => {
+        const result = createReturn(makeDeliveredOrder(), { lines: [{ lineIndex: 0, quantity: 2 }], reason: 'damaged', comment: '  Cracked  ' }, now);
+
+        if (!result.ok) throw new Error(`return refused: ${result.reason}`);
+        expect(result.rma).toEqual({
+            rmaNumber: 'RMA-1-1',
+            reason: 'damaged',
+            comment: 'Cracked',
+            lines: [{ lineIndex: 0, quantity: 2 }],
+            refundAmount: 1940,
+            status: 'requested',
+            statusHistory: [{ status: 'requested', at: now.toISOString() }],
+        });
+        expect(getReturnableQuantities(result.order)).toEqual([1, 1]);
+    });
+
+    it('refuses more units than are left, and nothing at all', () => {
+        const first = createReturn(makeDeliveredOrder(), { lines: [{ lineIndex: 0, quantity: 2 }], reason: 'damaged' }, now);
+        if (!first.ok) throw new Error('first return refused');
+
+        expect(createReturn(first.order, { lines: [{ lineIndex: 0, quantity: 2 }], reason: 'other' }, now)).toEqual({ ok: false, reason: 'returnInvalidLines' });
+        expect(createReturn(first.order, { lines: [], reason: 'other' }, now)).toEqual({ ok: false, reason: 'returnInvalidLines' });
+        expect(createReturn(first.order, { lines: [{ lineIndex: 5, quantity: 1 }], reason: 'other' }, now)).toEqual({ ok: false, reason: 'returnInvalidLines' });
+    });
+
+    it('lets the last return settle the rounding of the earlier ones', () => {
+        let order = makeDeliveredOrder();
+        const refunds = [0, 1, 2].map(() => {
+            const result = createReturn(order, { lines: [{ lineIndex: 0, quantity: 1 }], reason: 'other' }, now);
+            if (!result.ok) throw new Error('return refused');
+            order = result.order;
+            return result.rma.refundAmount;
+        });
+        const last = createReturn(order, { lines: [{ lineIndex: 1, quantity: 1 }], reason: 'other' }, now);
+        if (!last.ok) throw new Error('return refused');
+
+        // Everything but shipping
+        expect([...refunds, last.rma.refundAmount].reduce((sum, amount) => sum + amount, 0)).toBe(4850);
+        expect(getReturnIneligibility(last.order, now)).toBe('returnNothingLeft');
+    });
+});
+
+describe('processing a return', () => {
+    beforeEach(() => localStorage.clear());
+
+    /**
+     * Pays for the order through the gateway and stores it, like checkout does.
+     * @param gateway - The gateway to charge.
+     */
+    const storePaidOrder = async (gateway: ReturnType<typeof createSimulatedGateway>) => {
+        const amount = cents(5449);
+        const authorization = await gateway.authorize({ amount, card });
+        if (!authorization.ok) throw new Error('authorization failed');
+        const capture = await gateway.capture(authorization.transaction.id);
+        if (!capture.ok) throw new Error('capture failed');
+        saveOrdersToLocalStorage('user:ada', [makeDeliveredOrder({
+            payment: { provider: gateway.name, transactionId: capture.transaction.id, status: 'captured', amount, card: capture.transaction.card },
+        })]);
+    };
+
+    it('moves through approved and received, then refunds part of the payment', async () => {
+        const gateway = createSimulatedGateway({ latencyMs: 0 });
+        await storePaidOrder(gateway);
+        const request = requestReturn('user:ada', 'ORD-1', { lines: [{ lineIndex: 0, quantity: 1 }], reason: 'defective' }, now);
+        if (!request.ok) throw new Error('return refused');
+
+        await advanceReturn('user:ada', 'ORD-1', 'RMA-1-1', gateway, now);
+        await advanceReturn('user:ada', 'ORD-1', 'RMA-1-1', gateway, now);
+        const payment = getOrdersFromLocalStorage('user:ada')[0].payment;
+        expect(payment).toMatchObject({ status: 'captured' });
+        expect(payment?.refundedAmount).toBeUndefined();
+
+        const result = await advanceReturn('user:ada', 'ORD-1', 'RMA-1-1', gateway, now);
+
+        if (!result.ok) throw new Error(`refund failed: ${result.reason}`);
+        expect(result.order.returns?.[0].statusHistory.map(change => change.status)).toEqual(['requested', 'approved', 'received', 'refunded']);
+        expect(result.order.payment).toMatchObject({ status: 'partiallyRefunded', refundedAmount: 970 });
+        expect(result.order.status).toBe('delivered');
+        expect(getOrdersFromLocalStorage('user:ada')[0]).toEqual(result.order);
+        expect(await advanceReturn('user:ada', 'ORD-1', 'RMA-1-1', gateway, now)).toEqual({ ok: false, reason: 'returnNotFound' });
+    });
+
+    it('marks the order refunded once everything came back', async () => {
+        const gateway = createSimulatedGateway({ latencyMs: 0 });
+        await storePaidOrder(gateway);
+        requestReturn('user:ada', 'ORD-1', { lines: [{ lineIndex: 0, quantity: 3 }, { lineIndex: 1, quantity: 1 }], reason: 'wrongItem' }, now);
+
+        for (let step = 0; step < 3; step++) await advanceReturn('user:ada', 'ORD-1', 'RMA-1-1', gateway, now);
+
+        const order = getOrdersFromLocalStorage('user:ada')[0];
+        expect(order.status).toBe('refunded');
+        expect(order.payment).toMatchObject({ status: 'partiallyRefunded', refundedAmount: 4850 });
+    });
+});
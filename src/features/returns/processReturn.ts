@@ -0,0 +1,97 @@
+// --- Return Processing ---
+
+import { Order } from '../../types/Order';
+import { Money, ZERO_MONEY } from '../../utils/money';
+import { paymentProvider } from '../payments/paymentProvider';
+import { PaymentFailureReason, PaymentProvider } from '../payments/paymentTypes';
+import { findOrderInLocalStorage, updateOrderInLocalStorage } from '../../utils/localStorageHelpers';
+import { transitionOrder } from '../orders/orderStatus';
+import { advanceSimulatedFulfillment } from '../orders/simulatedFulfillment';
+import { applyTransaction, getRefundableAmount } from '../orders/orderPayment';
+import { ReturnRequest, ReturnRequestResult, advanceReturnStatus, createReturn, isFullyReturned } from './returns';
+
+// Outcome of moving a return request on
+export type AdvanceReturnResult =
+    | { ok: true; order: Order }
+    | { ok: false; reason: 'orderNotFound' | 'returnNotFound' | PaymentFailureReason }; // Nothing was changed
+
+/**
+ * Reads a stored order as of now, so a return isn't refused because the history
+ * hasn't been opened since the order was delivered.
+ * @param owner - The owner key of the customer.
+ * @param orderId - The order's id.
+ * @param now - The current time.
+ * @returns {Order | undefined} The order, or undefined if there is none with that id.
+ */
+const findCurrentOrder = (owner: string, orderId: string, now: Date): Order | undefined => {
+    const order = findOrderInLocalStorage(owner, orderId);
+    return order && advanceSimulatedFulfillment(order, now);
+};
+
+/**
+ * Requests a return for a stored order and saves it.
+ * @param owner - The owner key of the customer; other customers' orders are never found.
+ * @param orderId - The order's id.
+ * @param request - The units to return and why.
+ * @param now - Time of the request.
+ * @returns {ReturnRequestResult | { ok: false; reason: 'orderNotFound' }} The saved order with its new RMA, or why not.
+ */
+export const requestReturn = (
+    owner: string,
+    orderId: string,
+    request: ReturnRequest,
+    now: Date = new Date(),
+): ReturnRequestResult | { ok: false; reason: 'orderNotFound' } => {
+    const order = findCurrentOrder(owner, orderId, now);
+    if (!order) return { ok: false, reason: 'orderNotFound' };
+    const result = createReturn(order, request, now);
+    if (result.ok) updateOrderInLocalStorage(result.order);
+    return result;
+};
+
+/**
+ * Moves a return request on to its next status (the store's side of a return) and saves the order.
+ * Moving to refunded first refunds the request's amount through the payment provider, capped at
+ * what is left of the payment; if that fails, nothing changes. Once every unit has come back and
+ * been refunded, the order itself moves to refunded.
+ * @param owner - The owner key of the customer.
+ * @param orderId - The order's id.
+ * @param rmaNumber - The return request.
+ * @param provider - The provider holding the payment (defaults to the configured one).
+ * @param now - Time of the change.
+ * @returns {Promise<AdvanceReturnResult>} The saved order, or why the request couldn't move on.
+ */
+export const advanceReturn = async (
+    owner: string,
+    orderId: string,
+    rmaNumber: string,
+    provider: PaymentProvider = paymentProvider,
+    now: Date = new Date(),
+): Promise<AdvanceReturnResult> => {
+    const order = findCurrentOrder(owner, orderId, now);
+    if (!order) return { ok: false, reason: 'orderNotFound' };
+    let updated = advanceReturnStatus(order, rmaNumber, now);
+    if (!updated) return { ok: false, reason: 'returnNotFound' };
+
+    const rma = updated.returns!.find(candidate => candidate.rmaNumber === rmaNumber)!;
+    if (rma.status === 'refunded') {
+        // Orders placed before payments were taken (or paid by discounts alone) have nothing to refund
+        const payment = order.payment;
+        const refundable = payment && (payment.status === 'captured' || payment.status === 'partiallyRefunded')
+            ? getRefundableAmount(payment)
+            : ZERO_MONEY;
+        const amount = Math.min(rma.refundAmount, refundable) as Money;
+        if (payment && amount > 0) {
+            const result = await provider.refund(payment.transactionId, amount);
+            if (!result.ok) return result;
+            updated = { ...updated, payment: applyTransaction(payment, result.transaction) };
+        }
+        if (isFullyReturned(updated)) {
+            const transition = transitionOrder(updated, 'refunded', now);
+            if (transition.ok) updated = transition.order;
+        }
+    }
+
+    updateOrderInLocalStorage(updated);
+    return { ok: true, order: updated };
+};
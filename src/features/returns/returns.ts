@@ -0,0 +1,203 @@
+// --- Returns (RMA) ---
+// Customers can return units of a delivered order within the return window. Each request gets
+// an RMA number and moves requested -> approved -> received -> refunded; the refund goes back
+// through the payment provider (see processReturn.ts).
+
+import { Order, OrderReturn, OrderReturnLine, ReturnReason, ReturnStatus } from '../../types/Order';
+import { Money, ZERO_MONEY, addMoney, multiplyMoney, subtractMoney, sumMoney } from '../../utils/money';
+import { getOrderCharges, resolveOrderLines } from '../orders/orderDetails';
+import { getOrderStatus } from '../orders/orderStatus';
+
+// Days after the order date during which a return can be requested
+export const RETURN_WINDOW_DAYS = 30;
+
+// Maximum length of the optional comment
+export const MAX_RETURN_COMMENT_LENGTH = 500;
+
+// Reasons offered to the customer, in display order, with their translation keys
+export const RETURN_REASONS: ReturnReason[] = ['damaged', 'defective', 'wrongItem', 'notAsDescribed', 'noLongerNeeded', 'other'];
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+    damaged: 'returnReasonDamaged',
+    defective: 'returnReasonDefective',
+    wrongItem: 'returnReasonWrongItem',
+    notAsDescribed: 'returnReasonNotAsDescribed',
+    noLongerNeeded: 'returnReasonNoLongerNeeded',
+    other: 'returnReasonOther',
+};
+
+// The status each status moves on to; refunded is final
+export const RETURN_STATUS_NEXT: Record<ReturnStatus, ReturnStatus | null> = {
+    requested: 'approved',
+    approved: 'received',
+    received: 'refunded',
+    refunded: null,
+};
+
+// Translation keys of the statuses
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+    requested: 'returnStatusRequested',
+    approved: 'returnStatusApproved',
+    received: 'returnStatusReceived',
+    refunded: 'returnStatusRefunded',
+};
+
+// Why a return can't be requested (doubles as the translation key for the message)
+export type ReturnRequestError =
+    | 'returnNotDelivered' // Only delivered orders can be returned
+    | 'returnWindowClosed'
+    | 'returnNothingLeft' // Every unit was already returned
+    | 'returnInvalidLines'; // No units picked, an unknown line, or more units than are left
+
+// What the customer asks to return
+export interface ReturnRequest {
+    lines: OrderReturnLine[];
+    reason: ReturnReason;
+    comment?: string;
+}
+
+// Outcome of requesting a return
+export type ReturnRequestResult =
+    | { ok: true; order: Order; rma: OrderReturn }
+    | { ok: false; reason: ReturnRequestError };
+
+// --- Eligibility ---
+
+/**
+ * Works out the last moment a return can be requested.
+ * @param order - The order.
+ * @returns {Date} RETURN_WINDOW_DAYS after the order date.
+ */
+export const getReturnDeadline = (order: Order): Date =>
+    new Date(Date.parse(order.dateCreated) + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Counts the units of each line that haven't been returned (or asked to be returned) yet.
+ * @param order - The order.
+ * @returns {number[]} The units left, by line index.
+ */
+export const getReturnableQuantities = (order: Order): number[] =>
+    order.items.map((item, index) => {
+        const returned = (order.returns ?? [])
+            .flatMap(rma => rma.lines)
+            .filter(line => line.lineIndex === index)
+            .reduce((sum, line) => sum + line.quantity, 0);
+        return Math.max(0, item.quantity - returned);
+    });
+
+/**
+ * Checks whether the customer can request a return for an order.
+ * @param order - The order.
+ * @param now - The current time.
+ * @returns {ReturnRequestError | null} Why not, or null if a return can be requested.
+ */
+export const getReturnIneligibility = (order: Order, now: Date = new Date()): ReturnRequestError | null => {
+    if (getOrderStatus(order) !== 'delivered') return 'returnNotDelivered';
+    if (now.getTime() > getReturnDeadline(order).getTime()) return 'returnWindowClosed';
+    if (getReturnableQuantities(order).every(quantity => quantity === 0)) return 'returnNothingLeft';
+    return null;
+};
+
+// --- Requests ---
+
+/**
+ * Works out what returning some units gives back. Each unit refunds its share of the line total,
+ * less its share of the order's discounts, plus its share of the tax. Shipping and gift wrap
+ * are not refunded, so returning everything refunds the total minus those.
+ * @param order - The order.
+ * @param lines - The units to return.
+ * @returns {Money} The refund in cents.
+ */
+export const getReturnRefundAmount = (order: Order, lines: OrderReturnLine[]): Money => {
+    const orderLines = resolveOrderLines(order, []);
+    const charges = getOrderCharges(order);
+    if (charges.subtotal <= 0) return ZERO_MONEY;
+
+    const itemsValue = lines.reduce((sum, line) => {
+        const orderLine = orderLines[line.lineIndex];
+        return sum + (orderLine ? orderLine.lineTotal * line.quantity / orderLine.quantity : 0);
+    }, 0);
+    const share = itemsValue / charges.subtotal;
+    const discounts = sumMoney(charges.discounts, discount => discount.amount);
+    return multiplyMoney(addMoney(subtractMoney(charges.subtotal, discounts), charges.tax), share);
+};
+
+/**
+ * Checks the picked units against what can still be returned.
+ * @param order - The order.
+ * @param lines - The picked units.
+ * @returns {boolean} True if at least one unit is picked and no line is over its returnable quantity.
+ */
+const areValidReturnLines = (order: Order, lines: OrderReturnLine[]): boolean => {
+    const returnable = getReturnableQuantities(order);
+    const indexes = lines.map(line => line.lineIndex);
+    return (
+        lines.length > 0 &&
+        new Set(indexes).size === indexes.length &&
+        lines.every(line =>
+            Number.isSafeInteger(line.quantity) && line.quantity > 0 &&
+            Number.isInteger(line.lineIndex) && line.lineIndex >= 0 && line.lineIndex < returnable.length &&
+            line.quantity <= returnable[line.lineIndex]
+        )
+    );
+};
+
+/**
+ * Creates a return request (RMA) on an order. The order itself isn't saved.
+ * @param order - The order.
+ * @param request - The units to return and why.
+ * @param now - Time of the request.
+ * @returns {ReturnRequestResult} The order with its new RMA, or why the return can't be requested.
+ */
+export const createReturn = (order: Order, request: ReturnRequest, now: Date = new Date()): ReturnRequestResult => {
+    const ineligibility = getReturnIneligibility(order, now);
+    if (ineligibility) return { ok: false, reason: ineligibility };
+    if (!areValidReturnLines(order, request.lines)) return { ok: false, reason: 'returnInvalidLines' };
+
+    const returns = order.returns ?? [];
+    // The request that returns the last units refunds whatever the earlier ones left, so rounding
+    // never makes the refunds add up to more (or less) than returning everything at once
+    const returnable = getReturnableQuantities(order);
+    const isLastReturn = returnable.every((quantity, index) =>
+        quantity === (request.lines.find(line => line.lineIndex === index)?.quantity ?? 0));
+    const allLines = order.items.map((item, index) => ({ lineIndex: index, quantity: item.quantity }));
+    const refundAmount = isLastReturn
+        ? subtractMoney(getReturnRefundAmount(order, allLines), sumMoney(returns, earlier => earlier.refundAmount))
+        : getReturnRefundAmount(order, request.lines);
+    const comment = request.comment?.trim().slice(0, MAX_RETURN_COMMENT_LENGTH);
+    const rma: OrderReturn = {
+        rmaNumber: `${order.orderId.replace(/^ORD-/, 'RMA-')}-${returns.length + 1}`,
+        reason: request.reason,
+        ...(comment && { comment }),
+        lines: request.lines.map(line => ({ ...line })),
+        refundAmount,
+        status: 'requested',
+        statusHistory: [{ status: 'requested', at: now.toISOString() }],
+    };
+    return { ok: true, order: { ...order, returns: [...returns, rma] }, rma };
+};
+
+/**
+ * Moves a return request on to its next status and logs the change. The order itself isn't saved.
+ * @param order - The order.
+ * @param rmaNumber - The return request.
+ * @param now - Time of the change.
+ * @returns {Order | null} The updated order, or null if there is no such request or it is already refunded.
+ */
+export const advanceReturnStatus = (order: Order, rmaNumber: string, now: Date = new Date()): Order | null => {
+    const rma = order.returns?.find(candidate => candidate.rmaNumber === rmaNumber);
+    const next = rma && RETURN_STATUS_NEXT[rma.status];
+    if (!rma || !next) return null;
+
+    const updated: OrderReturn = { ...rma, status: next, statusHistory: [...rma.statusHistory, { status: next, at: now.toISOString() }] };
+    return { ...order, returns: order.returns!.map(candidate => candidate === rma ? updated : candidate) };
+};
+
+/**
+ * Checks whether every unit of an order came back and was refunded.
+ * @param order - The order.
+ * @returns {boolean} True once nothing is left to return and every return request is refunded.
+ */
+export const isFullyReturned = (order: Order): boolean =>
+    getReturnableQuantities(order).every(quantity => quantity === 0) &&
+    (order.returns ?? []).every(rma => rma.status === 'refunded');
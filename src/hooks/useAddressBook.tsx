@@ -0,0 +1,38 @@
+import { useCallback, useContext, useEffect, useState } from 'react';
+import UserContext from '../context/UserContext';
+import { getCartOwnerKey } from '../features/cart/cartSession';
+import { AddressBook, EMPTY_ADDRESS_BOOK } from '../features/addressBook/addressBook';
+import { loadAddressBook, saveAddressBook } from '../features/addressBook/addressBookStorage';
+
+/**
+ * Returns the logged-in user's address book and a function to change it.
+ * Changes are saved to localStorage straight away. Guests have no address book:
+ * they always get an empty one and their changes are ignored.
+ */
+export const useAddressBook = () => {
+    const { user } = useContext(UserContext);
+    const owner = user.isLoggedIn ? getCartOwnerKey(user) : null;
+    const [book, setBook] = useState<AddressBook>(() => owner ? loadAddressBook(owner) : EMPTY_ADDRESS_BOOK);
+
+    // Show the right book when another user logs in (or the user logs out)
+    useEffect(() => {
+        setBook(owner ? loadAddressBook(owner) : EMPTY_ADDRESS_BOOK);
+    }, [owner]);
+
+    /**
+     * Applies a change to the book and saves the result.
+     * @param change - One of the book operations from addressBook.ts, e.g. book => removeAddress(book, id).
+     */
+    const updateBook = useCallback((change: (current: AddressBook) => AddressBook) => {
+        if (!owner) return;
+        const next = change(book);
+        saveAddressBook(owner, next);
+        setBook(next);
+    }, [owner, book]);
+
+    return {
+        book,
+        canSave: owner !== null, // False for guests
+        updateBook,
+    };
+};
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppDispatch } from '../store';
+import { fetchProducts } from '../features/products/productsSlice';
+import { CartItem } from '../features/cart/cartSlice';
+import { CartIssue, acceptCatalogChanges, findCartIssues } from '../features/cart/cartValidation';
+import { Product } from '../types/Product';
+
+// Outcome of checking the cart against a fresh copy of the catalog
+export type CartValidationResult =
+    | { ok: true; issues: CartIssue[] }
+    | { ok: false }; // The catalog could not be fetched
+
+/**
+ * Checks the cart lines against freshly fetched products.
+ * The catalog is fetched once when the hook mounts (i.e. on entering /cart) and again every
+ * time validate() is called (e.g. at checkout). Issues are recomputed whenever the lines change.
+ * @param items - The cart lines.
+ */
+export const useCartValidation = (items: CartItem[]) => {
+    const dispatch = useAppDispatch();
+    // Products from the most recent successful fetch
+    const [catalog, setCatalog] = useState<Product[] | null>(null);
+    const [status, setStatus] = useState<'idle' | 'checking' | 'checked' | 'failed'>('idle');
+    // Latest lines, read by validate() so it doesn't change (and refetch) on every cart edit
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+
+    /**
+     * Fetches the current products and compares the cart with them.
+     * @returns {Promise<CartValidationResult>} The issues found, or ok: false if the fetch failed.
+     */
+    const validate = useCallback(async (): Promise<CartValidationResult> => {
+        setStatus('checking');
+        try {
+            const freshCatalog = await dispatch(fetchProducts()).unwrap();
+            setCatalog(freshCatalog);
+            setStatus('checked');
+            return { ok: true, issues: findCartIssues(itemsRef.current, freshCatalog) };
+        } catch (error) {
+            console.error("Could not validate the cart against the catalog:", error);
+            setStatus('failed');
+            return { ok: false };
+        }
+    }, [dispatch]);
+
+    // Check once on mount (nothing to check in an empty cart); later checks happen through validate()
+    useEffect(() => {
+        if (itemsRef.current.length > 0) validate();
+    }, [validate]);
+
+    /**
+     * Updates the cart to the catalog's current prices and titles and drops unavailable products.
+     */
+    const acceptChanges = useCallback(() => {
+        if (catalog) dispatch(acceptCatalogChanges(catalog));
+    }, [dispatch, catalog]);
+
+    return {
+        status, // 'idle' until the first check, 'checking' while a fetch is in flight, 'failed' if the last one failed
+        issues: catalog ? findCartIssues(items, catalog) : [],
+        validate,
+        acceptChanges,
+    };
+};
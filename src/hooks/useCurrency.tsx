@@ -0,0 +1,40 @@
+import { useCallback, useContext } from 'react';
+import { useTranslation } from 'react-i18next';
+import CurrencyContext from '../context/CurrencyContext';
+import { CURRENCIES } from '../data/currencies';
+import { OrderCurrency } from '../types/Order';
+import { formatCurrency, getCurrencyForLanguage, isCurrencyCode } from '../utils/currency';
+import { Money } from '../utils/money';
+
+/**
+ * Returns the active display currency and helpers to format prices in it.
+ * The currency is the one picked in CurrencySwitcher, or the active language's currency
+ * when the user hasn't picked one.
+ */
+export const useCurrency = () => {
+    const { i18n } = useTranslation();
+    const { currencyCode, setCurrencyCode } = useContext(CurrencyContext);
+    // i18n may be missing when react-i18next is mocked in tests
+    const language = i18n?.language ?? 'en';
+    const languageCurrencyCode = getCurrencyForLanguage(language);
+    const currency = CURRENCIES[currencyCode ?? languageCurrencyCode];
+
+    /**
+     * Formats an amount (base-currency cents) in the active currency.
+     * Pass a snapshot to show an amount in the currency and rate it was recorded with (e.g. an order).
+     */
+    const formatPrice = useCallback((amount: Money, snapshot?: OrderCurrency) => {
+        if (snapshot && isCurrencyCode(snapshot.code)) {
+            return formatCurrency(amount, CURRENCIES[snapshot.code], language, snapshot.rate);
+        }
+        return formatCurrency(amount, currency, language);
+    }, [currency, language]);
+
+    return {
+        currency, // Active CurrencyConfig
+        languageCurrencyCode, // Currency of the active language, used when none was picked
+        isFollowingLanguage: currencyCode === null,
+        setCurrencyCode,
+        formatPrice,
+    };
+};
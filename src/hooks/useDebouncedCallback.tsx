@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Returns a debounced version of a callback along with functions to cancel or flush a pending call.
+ * The callback only runs once `delay` ms have passed without another call;
+ * a pending call is run straight away when the component unmounts, so the last edit isn't lost.
+ * @param callback - The function to debounce. The latest version is always the one invoked.
+ * @param delay - Quiet period in milliseconds.
+ */
+export const useDebouncedCallback = <Args extends unknown[]>(callback: (...args: Args) => void, delay: number) => {
+    const callbackRef = useRef(callback);
+    const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+    // Arguments of the pending call, if any
+    const pendingArgsRef = useRef<Args>();
+
+    // Always call the most recent callback without restarting the timer
+    useEffect(() => {
+        callbackRef.current = callback;
+    }, [callback]);
+
+    const cancel = useCallback(() => {
+        clearTimeout(timeoutRef.current);
+        timeoutRef.current = undefined;
+        pendingArgsRef.current = undefined;
+    }, []);
+
+    // Runs the pending call now instead of waiting for the delay
+    const flush = useCallback(() => {
+        const args = pendingArgsRef.current;
+        cancel();
+        if (args) callbackRef.current(...args);
+    }, [cancel]);
+
+    // Run any pending call when the component unmounts (e.g. leaving the page right after typing)
+    useEffect(() => flush, [flush]);
+
+    const debounced = useCallback((...args: Args) => {
+        clearTimeout(timeoutRef.current);
+        pendingArgsRef.current = args;
+        timeoutRef.current = setTimeout(flush, delay);
+    }, [delay, flush]);
+
+    return { debounced, cancel, flush };
+};
@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useCurrency } from './useCurrency';
+import { PromotionDescription } from '../features/promotions/promotionTypes';
+import { OrderCurrency } from '../types/Order';
+
+/**
+ * Returns a function that turns a promotion or discount description into text in the active
+ * language, with its amounts in the display currency.
+ */
+export const usePromotionDescription = () => {
+    const { t } = useTranslation();
+    const { formatPrice } = useCurrency();
+
+    /**
+     * Translates a description.
+     * Pass a snapshot to show the amounts in the currency an order was placed in.
+     */
+    return useCallback((description: PromotionDescription, snapshot?: OrderCurrency): string => {
+        const values: Record<string, string | number> = { ...description.values };
+        Object.entries(description.amounts ?? {}).forEach(([name, amount]) => {
+            values[name] = formatPrice(amount, snapshot);
+        });
+        return t(description.key, values);
+    }, [t, formatPrice]);
+};
@@ -0,0 +1,54 @@
+import { useCallback, useState } from 'react';
+import { useAppDispatch } from '../store';
+import { fetchProducts } from '../features/products/productsSlice';
+import { ReorderPlan, addReorderToCart, planReorder } from '../features/orders/reorder';
+import { Order } from '../types/Order';
+
+// What the last "Buy again" did, for the summary shown to the customer
+export type ReorderOutcome =
+    | { ok: true; orderId: string; plan: ReorderPlan }
+    | { ok: false; orderId: string }; // The catalog could not be fetched; the cart is untouched
+
+/**
+ * "Buy again": fetches the current catalog, adds the order's products to the cart at
+ * today's prices, and keeps the outcome so the page can summarise what changed.
+ */
+export const useReorder = () => {
+    const dispatch = useAppDispatch();
+    const [outcome, setOutcome] = useState<ReorderOutcome | null>(null);
+    // Id of the order being added, while the catalog is fetched
+    const [pendingOrderId, setPendingOrderId] = useState<string | null>(null);
+
+    /**
+     * Adds the products of an order to the cart.
+     * @param order - The order to buy again.
+     */
+    const buyAgain = useCallback(async (order: Order) => {
+        setPendingOrderId(order.orderId);
+        setOutcome(null);
+        try {
+            // Never reuse stale prices: always price the lines with a fresh catalog
+            const catalog = await dispatch(fetchProducts()).unwrap();
+            const plan = planReorder(order, catalog);
+            dispatch(addReorderToCart(plan.items));
+            setOutcome({ ok: true, orderId: order.orderId, plan });
+        } catch (error) {
+            console.error("Could not fetch the catalog to buy an order again:", error);
+            setOutcome({ ok: false, orderId: order.orderId });
+        } finally {
+            setPendingOrderId(null);
+        }
+    }, [dispatch]);
+
+    /**
+     * Hides the summary of the last reorder.
+     */
+    const dismissOutcome = useCallback(() => setOutcome(null), []);
+
+    return {
+        buyAgain,
+        pendingOrderId, // Order being added, or null
+        outcome, // Outcome of the last reorder, until dismissed
+        dismissOutcome,
+    };
+};
@@ -1,13 +1,36 @@
-import { configureStore } from '@reduxjs/toolkit';
+import { combineReducers, configureStore } from '@reduxjs/toolkit';
 import { useDispatch } from 'react-redux';
 import productsReducer from './features/products/productsSlice';
 import cartReducer from './features/cart/cartSlice';
+import cartHistoryReducer from './features/cart/cartHistorySlice';
+import { cartPersistenceMiddleware, loadCartState } from './features/cart/cartStorage';
+import { cartHistoryMiddleware } from './features/cart/cartHistory';
+import { createCartSyncMiddleware } from './features/cart/cartSync';
+import checkoutReducer from './features/checkout/checkoutSlice';
+import { checkoutPersistenceMiddleware, loadCheckoutState } from './features/checkout/checkoutStorage';
+
+const rootReducer = combineReducers({
+  products: productsReducer,
+  cart: cartReducer,
+  cartHistory: cartHistoryReducer, // Undo/redo snapshots of the cart (not persisted)
+  checkout: checkoutReducer, // Progress through the checkout steps
+});
+
+// Rehydrate the cart and the checkout progress saved in sessionStorage; other slices start from their initial state
+const persistedCart = loadCartState();
+const persistedCheckout = loadCheckoutState();
+const preloadedState: Partial<ReturnType<typeof rootReducer>> = {
+  ...(persistedCart && { cart: persistedCart }),
+  ...(persistedCheckout && { checkout: persistedCheckout }),
+};
+
+// Keeps the cart identical across open tabs of the store
+const cartSyncMiddleware = createCartSyncMiddleware();
 
 const store = configureStore({
-  reducer: {
-    products: productsReducer,
-    cart: cartReducer,
-  },
+  reducer: rootReducer,
+  preloadedState,
+  middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(cartHistoryMiddleware, cartSyncMiddleware, cartPersistenceMiddleware, checkoutPersistenceMiddleware),
 });
 
 export default store;
@@ -0,0 +1,61 @@
+// --- Test Fixtures ---
+// Factories shared by the test suites. Each builds a complete, valid object; pass overrides
+// for whatever a test cares about.
+
+import { CartItem } from '../features/cart/cartSlice';
+import { Order } from '../types/Order';
+import { Product } from '../types/Product';
+import { Money } from '../utils/money';
+
+/**
+ * Marks a whole number as an amount in cents.
+ * @param value - The amount in cents.
+ * @returns {Money} The amount.
+ */
+export const cents = (value: number) => value as Money;
+
+/**
+ * Builds a catalog product.
+ * @param id - The product id; the title is derived from it.
+ * @param price - The price in cents.
+ * @param overrides - Fields to replace, e.g. { category: 'books' }.
+ * @returns {Product} The product.
+ */
+export const makeProduct = (id: number, price: number, overrides: Partial<Product> = {}): Product => ({
+    id,
+    title: `Product ${id}`,
+    price: cents(price),
+    description: 'desc',
+    category: 'electronics',
+    image: 'img.jpg',
+    rating: { rate: 4, count: 10 },
+    ...overrides,
+});
+
+/**
+ * Builds a cart line.
+ * @param id - The product id.
+ * @param price - The unit price in cents.
+ * @param quantity - The quantity.
+ * @param overrides - Fields to replace, e.g. { category: 'books' }.
+ * @returns {CartItem} The cart line.
+ */
+export const makeItem = (id: number, price: number, quantity: number, overrides: Partial<CartItem> = {}): CartItem => ({
+    ...makeProduct(id, price),
+    quantity,
+    ...overrides,
+});
+
+/**
+ * Builds a stored order: two mugs at $12.50, placed by Ada.
+ * @param overrides - Fields to replace, e.g. { orderId: 'ORD-2', status: 'paid' }.
+ * @returns {Order} The order.
+ */
+export const makeOrder = (overrides: Partial<Order> = {}): Order => ({
+    orderId: 'ORD-1',
+    owner: 'user:ada',
+    dateCreated: '2026-03-15T12:00:00.000Z',
+    items: [{ productId: 7, title: 'Mug', quantity: 2, price: cents(1250) }],
+    totalPrice: cents(2500),
+    ...overrides,
+});
@@ -1,13 +1,119 @@
-// Define the Order type
+import { Money } from '../utils/money';
+import { CurrencyCode } from '../data/currencies';
+import { AppliedDiscount } from '../features/promotions/promotionTypes';
+import { ShippingMethodId } from '../data/shipping';
+import { ShippingAddress } from '../features/checkout/checkoutTypes';
+import { MaskedCard, PaymentStatus } from '../features/payments/paymentTypes';
+
+// Currency and exchange rate the customer saw prices in at checkout
+export interface OrderCurrency {
+    code: CurrencyCode;
+    rate: number; // Units of the currency per 1 USD at checkout time
+}
+
+// Shipping charged on an order
+export interface OrderShipping {
+    method: ShippingMethodId;
+    cost: Money; // In cents
+}
+
+// Sales tax charged on an order
+export interface OrderTax {
+    region: string; // Region code from the tax table
+    rate: number; // Rate in effect at checkout, e.g. 0.0725
+    amount: Money; // In cents
+}
+
+// How an order was paid
+export interface OrderPayment {
+    provider: string; // Name of the PaymentProvider that holds the transaction
+    transactionId: string;
+    status: PaymentStatus; // As of the last call to the provider
+    amount: Money; // Captured amount in cents
+    refundedAmount?: Money; // Missing until something is refunded
+    card: MaskedCard; // Brand and last four digits only
+}
+
+// Where an order stands. Allowed moves are defined in features/orders/orderStatus.ts:
+// placed -> paid -> processing -> shipped -> delivered, with cancelled (before shipment)
+// and refunded (after delivery) as final states
+export type OrderStatus = 'placed' | 'paid' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+
+// One entry of an order's status log
+export interface OrderStatusChange {
+    status: OrderStatus;
+    at: string; // ISO timestamp of the change
+}
+
+// The invoice issued for an order
+export interface OrderInvoice {
+    number: string; // Sequential invoice number, e.g. "INV-000042"; unrelated to the order id
+    issuedAt: string; // ISO timestamp the number was assigned
+}
+
+// Why items are being returned
+export type ReturnReason = 'damaged' | 'defective' | 'wrongItem' | 'notAsDescribed' | 'noLongerNeeded' | 'other';
+
+// Where a return request stands: requested -> approved -> received -> refunded
+// (allowed moves are defined in features/returns/returns.ts)
+export type ReturnStatus = 'requested' | 'approved' | 'received' | 'refunded';
+
+// One entry of a return request's status log
+export interface ReturnStatusChange {
+    status: ReturnStatus;
+    at: string; // ISO timestamp of the change
+}
+
+// Units of one order line being returned
+export interface OrderReturnLine {
+    lineIndex: number; // Position of the line in Order.items
+    quantity: number;
+}
+
+// A return request (RMA) for some of an order's units
+export interface OrderReturn {
+    rmaNumber: string; // e.g. "RMA-1712345678901-1"
+    reason: ReturnReason;
+    comment?: string; // Optional details from the customer
+    lines: OrderReturnLine[];
+    refundAmount: Money; // In cents; worked out when the return is requested
+    status: ReturnStatus;
+    statusHistory: ReturnStatusChange[]; // Oldest first, starting with 'requested'
+}
+
+// Gift options of an order line, copied from the cart line
+export interface OrderItemGift {
+    wrap: boolean; // Whether the line was gift wrapped
+    message: string; // Gift card message; may be empty
+}
+
+// Define the Order type. Stored orders carry a schema version (see features/orders/orderSchema.ts)
 export interface Order {
-    id: string;
     orderId: string; // Unique identifier for the order
-    date: string;
+    owner: string; // Owner key of the customer who placed it (see getCartOwnerKey)
     dateCreated: string; // Timestamp or date string when the order was created
     items: Array<{
-        productId: string;
+        productId: number; // Product.id
+        title?: string; // Product title at checkout, for receipts; missing on older orders
         quantity: number;
-        price: number;
+        price: Money; // Effective unit price in cents charged for the line (after quantity tiers and bundles)
+        listPrice?: Money; // Catalog unit price in cents; missing on orders placed before tiered pricing
+        lineTotal?: Money; // What the line cost in cents; may differ from price * quantity by rounding when part of a bundle
+        gift?: OrderItemGift; // Present only on lines bought as a gift
+        note?: string; // Packing note from the cart
     }>;
-    totalPrice: number;
+    subtotal?: Money; // In cents; sum of the line totals (missing on older orders)
+    promoCode?: string; // The single promo code used for the order, if any
+    discounts?: AppliedDiscount[]; // One entry per discount line shown at checkout
+    giftWrap?: Money; // Gift wrap charge in cents; missing on orders without wrapped gifts
+    shipping?: OrderShipping; // Missing on orders placed before shipping was charged
+    tax?: OrderTax; // Missing on orders placed before tax was charged
+    shippingAddress?: ShippingAddress; // Where the order ships; missing on orders placed before the checkout flow
+    payment?: OrderPayment; // Missing on orders placed before payments were taken
+    status?: OrderStatus; // Current status; missing on orders placed before statuses were tracked
+    statusHistory?: OrderStatusChange[]; // Every status the order went through, oldest first
+    returns?: OrderReturn[]; // Return requests, oldest first; missing until the first one
+    invoice?: OrderInvoice; // Assigned when the order is placed; older orders get one when their invoice is first opened
+    totalPrice: Money; // In cents; subtotal - discounts + gift wrap + shipping + tax
+    currency?: OrderCurrency; // Display currency at checkout; missing on older orders (shown in USD)
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 // --- Type Definitions ---
 
+import { Money } from '../utils/money';
+
 // Defines the structure for the nested 'rating' object within a Product
 export interface ProductRating {
     rate: number;
@@ -11,7 +13,7 @@ export interface ProductRating {
 export interface Product {
     id: number;
     title: string;
-    price: number;
+    price: Money; // In cents; converted from the API's dollar amount by fetchProducts
     description: string;
     category: string;
     image: string;
@@ -0,0 +1,33 @@
+import { CURRENCIES } from '../../data/currencies';
+import { convertMoney, formatCurrency, getCurrencyForLanguage, isCurrencyCode } from '../currency';
+import { Money } from '../money';
+
+const cents = (value: number) => value as Money;
+
+describe('currency', () => {
+    it('picks the currency that goes with the language', () => {
+        expect(getCurrencyForLanguage('en')).toBe('USD');
+        expect(getCurrencyForLanguage('fr-CA')).toBe('EUR');
+        expect(getCurrencyForLanguage('de')).toBe('USD');
+        expect(getCurrencyForLanguage(undefined)).toBe('USD');
+    });
+
+    it('recognises configured currency codes only', () => {
+        expect(isCurrencyCode('EUR')).toBe(true);
+        expect(isCurrencyCode('XYZ')).toBe(false);
+        expect(isCurrencyCode('toString')).toBe(false);
+    });
+
+    it('converts base cents into the target minor units', () => {
+        expect(convertMoney(cents(1000), CURRENCIES.USD)).toBe(1000);
+        expect(convertMoney(cents(1000), CURRENCIES.EUR, 0.92)).toBe(920);
+        // JPY has no minor unit: $10.00 at 151.5 -> 1515 yen
+        expect(convertMoney(cents(1000), CURRENCIES.JPY, 151.5)).toBe(1515);
+    });
+
+    it('formats with the currency symbol and decimals', () => {
+        expect(formatCurrency(cents(4000), CURRENCIES.USD)).toBe('$40.00');
+        expect(formatCurrency(cents(1000), CURRENCIES.JPY, 'en', 151.5)).toBe('¥1,515');
+        expect(formatCurrency(cents(1000), CURRENCIES.EUR, 'en', 0.5)).toBe('€5.00');
+    });
+});
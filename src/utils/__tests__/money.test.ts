@@ -0,0 +1,51 @@
+import {
+    Money,
+    addMoney,
+    formatMoney,
+    fromMajor,
+    multiplyMoney,
+    parseMoney,
+    subtractMoney,
+    sumMoney,
+    toMajor,
+} from '../money';
+
+const cents = (value: number) => value as Money;
+
+describe('money', () => {
+    it('converts dollar amounts to whole cents without float drift', () => {
+        expect(fromMajor(109.95)).toBe(10995);
+        expect(fromMajor(1.005)).toBe(101);
+        expect(fromMajor(0.1 + 0.2)).toBe(30);
+        expect(toMajor(cents(10995))).toBe(109.95);
+    });
+
+    it('adds, subtracts and sums exactly', () => {
+        expect(addMoney(cents(10), cents(20), cents(1))).toBe(31);
+        expect(subtractMoney(cents(10), cents(25))).toBe(-15);
+        expect(sumMoney([{ p: cents(1099) }, { p: cents(1) }], item => item.p)).toBe(1100);
+    });
+
+    it('rounds multiplications to the nearest cent, halves away from zero', () => {
+        expect(multiplyMoney(cents(1999), 3)).toBe(5997);
+        expect(multiplyMoney(cents(1005), 0.05)).toBe(50);
+        expect(multiplyMoney(cents(1010), 0.05)).toBe(51);
+        expect(multiplyMoney(cents(-1010), 0.05)).toBe(-51);
+    });
+
+    it('parses user-entered prices', () => {
+        expect(parseMoney('12')).toBe(1200);
+        expect(parseMoney('12.5')).toBe(1250);
+        expect(parseMoney(' 0.07 ')).toBe(7);
+        expect(parseMoney('12.345')).toBeNull();
+        expect(parseMoney('-3')).toBeNull();
+        expect(parseMoney('abc')).toBeNull();
+        expect(parseMoney('')).toBeNull();
+    });
+
+    it('formats cents for display', () => {
+        expect(formatMoney(cents(4000))).toBe('$40.00');
+        expect(formatMoney(cents(5))).toBe('$0.05');
+        expect(formatMoney(cents(-150))).toBe('-$1.50');
+    });
+});
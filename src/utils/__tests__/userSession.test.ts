@@ -0,0 +1,35 @@
+import { claimGuestOrders, getOrderOwnerKey } from '../userSession';
+import { getOrdersFromLocalStorage, saveOrderToLocalStorage } from '../localStorageHelpers';
+import { makeOrder } from '../../testUtils/fixtures';
+
+const guest = { name: '', isLoggedIn: false };
+
+describe('order owners', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+    });
+
+    it('gives each guest session its own key, and logged-in users their cart key', () => {
+        const first = getOrderOwnerKey(guest);
+        expect(first).toMatch(/^guest:/);
+        expect(getOrderOwnerKey(guest)).toBe(first);
+
+        // Another guest, in a new browser session
+        sessionStorage.clear();
+        expect(getOrderOwnerKey(guest)).not.toBe(first);
+        expect(getOrderOwnerKey({ name: 'Ada', isLoggedIn: true })).toBe('user:ada');
+    });
+
+    it("hands this session's guest orders to the user logging in, and only those", () => {
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-OTHER-GUEST', owner: 'guest:someone-else' }));
+        saveOrderToLocalStorage(makeOrder({ orderId: 'ORD-GUEST', owner: getOrderOwnerKey(guest) }));
+
+        claimGuestOrders('user:ada');
+
+        expect(getOrdersFromLocalStorage('user:ada').map(order => order.orderId)).toEqual(['ORD-GUEST']);
+        expect(getOrdersFromLocalStorage('guest:someone-else')).toHaveLength(1);
+        // The next guest in this session starts afresh
+        expect(getOrdersFromLocalStorage(getOrderOwnerKey(guest))).toEqual([]);
+    });
+});
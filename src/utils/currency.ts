@@ -0,0 +1,79 @@
+// --- Currency Helpers ---
+
+import { BASE_CURRENCY, CURRENCIES, CurrencyCode, CurrencyConfig, LANGUAGE_CURRENCIES } from '../data/currencies';
+import { Money } from './money';
+
+// localStorage key for the currency the user picked explicitly
+const CURRENCY_PREFERENCE_KEY = 'currencyPreference';
+
+/**
+ * Checks whether a string is one of the configured currency codes.
+ * @param value - The value to check.
+ * @returns {boolean} True if the value is a known CurrencyCode.
+ */
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(CURRENCIES, value);
+
+/**
+ * Picks the currency that goes with an app language (e.g. 'es' or 'fr-CA').
+ * @param language - The i18n language code.
+ * @returns {CurrencyCode} The language's currency, or the base currency for unknown languages.
+ */
+export const getCurrencyForLanguage = (language: string | undefined): CurrencyCode => {
+    const baseLanguage = (language ?? '').split('-')[0];
+    return LANGUAGE_CURRENCIES[baseLanguage] ?? BASE_CURRENCY;
+};
+
+/**
+ * Converts an amount in base-currency cents into the minor units of another currency.
+ * @param amount - The amount in base-currency cents.
+ * @param currency - The currency to convert into.
+ * @param rate - Units of the target currency per base unit (defaults to the configured rate).
+ * @returns {number} The converted amount in the target currency's minor units, rounded.
+ */
+export const convertMoney = (amount: Money, currency: CurrencyConfig, rate = currency.rate): number => {
+    const baseMinorUnits = 10 ** CURRENCIES[BASE_CURRENCY].decimals;
+    const targetMinorUnits = 10 ** currency.decimals;
+    return Math.round(parseFloat(((amount / baseMinorUnits) * rate * targetMinorUnits).toPrecision(15)));
+};
+
+/**
+ * Formats an amount in base-currency cents in another currency, using the
+ * currency's symbol and number of decimals and the language's number format.
+ * @param amount - The amount in base-currency cents.
+ * @param currency - The currency to display.
+ * @param language - The i18n language used for separators and symbol placement.
+ * @param rate - Exchange rate to use (defaults to the configured rate; orders pass the rate saved at checkout).
+ * @returns {string} The formatted price, e.g. "$12.34" or "11,35 €".
+ */
+export const formatCurrency = (amount: Money, currency: CurrencyConfig, language = 'en', rate = currency.rate): string => {
+    const minorUnits = convertMoney(amount, currency, rate);
+    return new Intl.NumberFormat(language, {
+        style: 'currency',
+        currency: currency.code,
+        currencyDisplay: 'narrowSymbol',
+        minimumFractionDigits: currency.decimals,
+        maximumFractionDigits: currency.decimals,
+    }).format(minorUnits / 10 ** currency.decimals);
+};
+
+/**
+ * Reads the currency the user picked explicitly.
+ * @returns {CurrencyCode | null} The saved currency, or null to follow the app language.
+ */
+export const getCurrencyPreference = (): CurrencyCode | null => {
+    const stored = localStorage.getItem(CURRENCY_PREFERENCE_KEY);
+    return isCurrencyCode(stored) ? stored : null;
+};
+
+/**
+ * Saves (or clears) the currency the user picked explicitly.
+ * @param code - The chosen currency, or null to follow the app language again.
+ */
+export const saveCurrencyPreference = (code: CurrencyCode | null) => {
+    if (code) {
+        localStorage.setItem(CURRENCY_PREFERENCE_KEY, code);
+    } else {
+        localStorage.removeItem(CURRENCY_PREFERENCE_KEY);
+    }
+};
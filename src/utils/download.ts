@@ -0,0 +1,26 @@
+// --- File Downloads ---
+
+/**
+ * Offers generated content to the user as a file download.
+ * @param contents - The file contents.
+ * @param fileName - The suggested file name, e.g. "orders.csv".
+ * @param mimeType - The content type, e.g. "text/csv".
+ */
+export const downloadFile = (contents: string, fileName: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([contents], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Formats a date for use in a file name.
+ * @param date - The date (defaults to now).
+ * @returns {string} The local date as YYYY-MM-DD.
+ */
+export const fileNameDate = (date: Date = new Date()): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
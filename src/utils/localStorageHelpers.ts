@@ -2,27 +2,199 @@
 
 // Import the Order type
 import { Order } from '../types/Order';
+import { OrderRecordError, UNCLAIMED_ORDER_OWNER, migrateOrderRecord, toStoredOrder } from '../features/orders/orderSchema';
+
+// localStorage key the order history of every user is stored under (one record per order, see
+// orderSchema.ts). The helpers below only ever hand out the orders of one owner.
+export const ORDER_HISTORY_STORAGE_KEY = 'orderHistory';
+
+// localStorage key holding the records set aside because they couldn't be read
+export const ORDER_QUARANTINE_STORAGE_KEY = 'orderHistoryQuarantine';
+
+// A stored record that couldn't be read, kept so it isn't lost
+export interface QuarantinedOrderRecord {
+    record: unknown; // As it was stored; the raw text when the whole history couldn't be parsed
+    reason: OrderRecordError | 'unreadableHistory';
+    quarantinedAt: string; // ISO timestamp
+}
 
 /**
- * Retrieves the order history array from localStorage.
- * @returns {Order[]} An array of Order objects or an empty array.
+ * Retrieves the records set aside by getOrdersFromLocalStorage.
+ * @returns {QuarantinedOrderRecord[]} The quarantined records, oldest first, or an empty array.
  */
-export const getOrdersFromLocalStorage = (): Order[] => {
-    const orders = localStorage.getItem('orderHistory');
+export const getQuarantinedOrders = (): QuarantinedOrderRecord[] => {
+    const stored = localStorage.getItem(ORDER_QUARANTINE_STORAGE_KEY);
     try {
-        return orders ? JSON.parse(orders) as Order[] : [];
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed as QuarantinedOrderRecord[] : [];
+    } catch (error) {
+        console.error("Error parsing quarantined orders from localStorage:", error);
+        return [];
+    }
+};
+
+/**
+ * Adds records to the quarantine.
+ * @param records - The records to set aside.
+ */
+const quarantineOrderRecords = (records: QuarantinedOrderRecord[]) => {
+    console.warn(`Quarantining ${records.length} unreadable order record(s).`);
+    localStorage.setItem(ORDER_QUARANTINE_STORAGE_KEY, JSON.stringify([...getQuarantinedOrders(), ...records]));
+};
+
+/**
+ * Reads every stored order, whoever owns it.
+ * Records in an older schema are migrated and written back; records that can't be read
+ * (and a history that isn't valid JSON at all) are moved to the quarantine.
+ * @returns {Order[]} Every readable order, in the order they were placed.
+ */
+const readStoredOrders = (): Order[] => {
+    const stored = localStorage.getItem(ORDER_HISTORY_STORAGE_KEY);
+    if (!stored) return [];
+    const quarantinedAt = new Date().toISOString();
+
+    let records: unknown;
+    try {
+        records = JSON.parse(stored);
     } catch (error) {
         console.error("Error parsing order history from localStorage:", error);
+        records = null;
+    }
+    if (!Array.isArray(records)) {
+        quarantineOrderRecords([{ record: stored, reason: 'unreadableHistory', quarantinedAt }]);
+        localStorage.removeItem(ORDER_HISTORY_STORAGE_KEY);
         return [];
     }
+
+    const orders: Order[] = [];
+    const unreadable: QuarantinedOrderRecord[] = [];
+    let migrated = false;
+    records.forEach((record: unknown) => {
+        const result = migrateOrderRecord(record);
+        if (result.ok) {
+            orders.push(result.order);
+            migrated = migrated || result.migrated;
+        } else {
+            unreadable.push({ record, reason: result.reason, quarantinedAt });
+        }
+    });
+    if (unreadable.length > 0) quarantineOrderRecords(unreadable);
+    if (migrated || unreadable.length > 0) writeStoredOrders(orders);
+    return orders;
+};
+
+/**
+ * Replaces every stored order, stamped with the current schema version.
+ * @param orders - The orders of every owner.
+ */
+const writeStoredOrders = (orders: Order[]) => {
+    localStorage.setItem(ORDER_HISTORY_STORAGE_KEY, JSON.stringify(orders.map(toStoredOrder)));
 };
 
+/**
+ * Retrieves a user's order history from localStorage.
+ * @param owner - The owner key of the user (see getCartOwnerKey).
+ * @returns {Order[]} An array of Order objects or an empty array.
+ */
+export const getOrdersFromLocalStorage = (owner: string): Order[] =>
+    readStoredOrders().filter(order => order.owner === owner);
+
+/**
+ * Checks whether any order is stored under an owner key.
+ * @param owner - The owner key.
+ * @returns {boolean} True if the owner has at least one order.
+ */
+export const hasOrdersInLocalStorage = (owner: string): boolean =>
+    readStoredOrders().some(order => order.owner === owner);
+
+/**
+ * Retrieves the orders with return requests, whoever owns them (for the store's returns desk).
+ * @returns {Order[]} The orders with at least one return request.
+ */
+export const getOrdersWithReturnsFromLocalStorage = (): Order[] =>
+    readStoredOrders().filter(order => (order.returns?.length ?? 0) > 0);
+
+/**
+ * Retrieves one of a user's orders.
+ * @param owner - The owner key of the user.
+ * @param orderId - The order's id.
+ * @returns {Order | undefined} The order, or undefined if the user has no order with that id.
+ */
+export const findOrderInLocalStorage = (owner: string, orderId: string): Order | undefined =>
+    getOrdersFromLocalStorage(owner).find(order => order.orderId === orderId);
+
 /**
  * Saves a new order to localStorage.
- * @param newOrder - The Order object to save.
+ * @param newOrder - The Order object to save; it is stored under its owner.
  */
 export const saveOrderToLocalStorage = (newOrder: Order) => {
-    const orders = getOrdersFromLocalStorage();
-    orders.push(newOrder);
-    localStorage.setItem('orderHistory', JSON.stringify(orders));
-};
\ No newline at end of file
+    writeStoredOrders([...readStoredOrders(), newOrder]);
+};
+
+/**
+ * Replaces a user's whole order history in localStorage. Other users' orders are kept.
+ * @param owner - The owner key of the user.
+ * @param orders - Every order of the user, in the order they were placed.
+ */
+export const saveOrdersToLocalStorage = (owner: string, orders: Order[]) => {
+    writeStoredOrders([...readStoredOrders().filter(order => order.owner !== owner), ...orders]);
+};
+
+/**
+ * Replaces a stored order with an updated copy (e.g. after a status change).
+ * @param updatedOrder - The order to store; matched on its owner and orderId.
+ * @returns {boolean} True if the order was found and replaced.
+ */
+export const updateOrderInLocalStorage = (updatedOrder: Order): boolean => {
+    const orders = readStoredOrders();
+    const index = orders.findIndex(order => order.owner === updatedOrder.owner && order.orderId === updatedOrder.orderId);
+    if (index === -1) return false;
+    orders[index] = updatedOrder;
+    writeStoredOrders(orders);
+    return true;
+};
+
+/**
+ * Moves a user's orders to a new owner key (e.g. after a username change).
+ * @param fromOwner - The owner key the orders are stored under.
+ * @param toOwner - The owner key to store them under from now on.
+ */
+export const moveOrdersInLocalStorage = (fromOwner: string, toOwner: string) => {
+    if (fromOwner === toOwner) return;
+    const orders = readStoredOrders();
+    if (!orders.some(order => order.owner === fromOwner)) return;
+    writeStoredOrders(orders.map(order => order.owner === fromOwner ? { ...order, owner: toOwner } : order));
+};
+
+/**
+ * Deletes a user's orders (e.g. when their account is deleted).
+ * @param owner - The owner key of the user.
+ */
+export const removeOrdersFromLocalStorage = (owner: string) => {
+    const orders = readStoredOrders();
+    if (!orders.some(order => order.owner === owner)) return;
+    writeStoredOrders(orders.filter(order => order.owner !== owner));
+};
+
+/**
+ * Counts the orders placed before orders had owners, which nobody has claimed yet.
+ * @returns {number} How many there are.
+ */
+export const countUnclaimedOrders = (): number =>
+    readStoredOrders().filter(order => order.owner === UNCLAIMED_ORDER_OWNER).length;
+
+/**
+ * Hands the orders placed before orders had owners to a user. Nothing records who placed them,
+ * so this only happens when a logged-in user confirms they are theirs (see OrderHistory), never
+ * on login. Later calls find nothing left to claim.
+ * @param owner - The owner key of the user claiming them.
+ * @returns {number} How many orders were claimed.
+ */
+export const claimUnownedOrders = (owner: string): number => {
+    const orders = readStoredOrders();
+    const unclaimed = orders.filter(order => order.owner === UNCLAIMED_ORDER_OWNER).length;
+    if (unclaimed > 0) {
+        writeStoredOrders(orders.map(order => order.owner === UNCLAIMED_ORDER_OWNER ? { ...order, owner } : order));
+    }
+    return unclaimed;
+};
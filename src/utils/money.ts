@@ -0,0 +1,104 @@
+// --- Money Helpers ---
+
+// An amount of money in minor units (cents), always a whole number.
+// The brand stops plain (dollar) numbers from being passed where cents are expected;
+// create values with fromMajor, parseMoney or the arithmetic helpers below.
+export type Money = number & { readonly __moneyBrand: 'cents' };
+
+// Number of minor units in one major unit (cents per dollar)
+const MINOR_UNITS_PER_MAJOR = 100;
+
+export const ZERO_MONEY = 0 as Money;
+
+/**
+ * Rounds a number to the nearest integer, with halves rounded away from zero.
+ * @param value - The value to round.
+ * @returns {number} The rounded integer.
+ */
+const roundHalfAwayFromZero = (value: number): number => Math.sign(value) * Math.round(Math.abs(value));
+
+/**
+ * Checks whether a value is a valid Money amount (a safe integer).
+ * @param value - Any value, e.g. read back from storage.
+ * @returns {boolean} True if the value can be used as Money.
+ */
+export const isMoney = (value: unknown): value is Money => Number.isSafeInteger(value);
+
+/**
+ * Converts a major-unit amount (e.g. 12.34 dollars, as returned by the products API) into cents.
+ * The multiplication is rounded to 15 significant digits first so values such as 1.005 don't
+ * lose a cent to floating-point error.
+ * @param amount - The amount in major units.
+ * @returns {Money} The amount in cents.
+ */
+export const fromMajor = (amount: number): Money =>
+    roundHalfAwayFromZero(parseFloat((amount * MINOR_UNITS_PER_MAJOR).toPrecision(15))) as Money;
+
+/**
+ * Converts cents back into a major-unit number, e.g. for sending to the products API.
+ * @param money - The amount in cents.
+ * @returns {number} The amount in major units.
+ */
+export const toMajor = (money: Money): number => money / MINOR_UNITS_PER_MAJOR;
+
+/**
+ * Adds any number of amounts.
+ * @param amounts - The amounts to add.
+ * @returns {Money} Their sum.
+ */
+export const addMoney = (...amounts: Money[]): Money =>
+    amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+
+/**
+ * Subtracts one amount from another.
+ * @param amount - The amount to subtract from.
+ * @param subtrahend - The amount to subtract.
+ * @returns {Money} The difference (may be negative).
+ */
+export const subtractMoney = (amount: Money, subtrahend: Money): Money => (amount - subtrahend) as Money;
+
+/**
+ * Multiplies an amount by a factor, e.g. a unit price by a quantity or a price by a rate.
+ * The result is rounded to the nearest cent (halves away from zero).
+ * @param amount - The amount to multiply.
+ * @param factor - The multiplier.
+ * @returns {Money} The rounded product.
+ */
+export const multiplyMoney = (amount: Money, factor: number): Money =>
+    roundHalfAwayFromZero(parseFloat((amount * factor).toPrecision(15))) as Money;
+
+/**
+ * Sums a list of values after mapping each one to an amount.
+ * @param values - The values to sum, e.g. cart lines.
+ * @param toAmount - Returns the amount for a single value.
+ * @returns {Money} The total.
+ */
+export const sumMoney = <T>(values: T[], toAmount: (value: T) => Money): Money =>
+    values.reduce((sum, value) => addMoney(sum, toAmount(value)), ZERO_MONEY);
+
+/**
+ * Parses a user-entered price such as "12", "12.5" or "12.50".
+ * Negative numbers, more than two decimals and anything that isn't a plain number are rejected.
+ * @param input - The text to parse.
+ * @returns {Money | null} The amount in cents, or null if the text is not a valid price.
+ */
+export const parseMoney = (input: string): Money | null => {
+    const match = /^\s*(\d+)(?:\.(\d{1,2}))?\s*$/.exec(input);
+    if (!match) return null;
+    const [, whole, fraction = ''] = match;
+    const cents = Number(whole) * MINOR_UNITS_PER_MAJOR + Number(fraction.padEnd(2, '0'));
+    return isMoney(cents) ? cents : null;
+};
+
+/**
+ * Formats an amount for display, e.g. 1234 -> "$12.34" and -50 -> "-$0.50".
+ * @param money - The amount in cents.
+ * @returns {string} The formatted amount.
+ */
+export const formatMoney = (money: Money): string => {
+    const sign = money < 0 ? '-' : '';
+    const absolute = Math.abs(money);
+    const major = Math.floor(absolute / MINOR_UNITS_PER_MAJOR);
+    const minor = String(absolute % MINOR_UNITS_PER_MAJOR).padStart(2, '0');
+    return `${sign}$${major}.${minor}`;
+};
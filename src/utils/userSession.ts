@@ -0,0 +1,78 @@
+// --- User Session Helpers ---
+
+import type { UserState } from '../context/UserContext';
+import { getCartOwnerKey } from '../features/cart/cartSession';
+import { loadSavedCart } from '../features/cart/cartStorage';
+import { hasAddressBook } from '../features/addressBook/addressBookStorage';
+import { hasOrdersInLocalStorage, moveOrdersInLocalStorage } from './localStorageHelpers';
+
+// localStorage key the logged-in user is remembered under between visits (see Login)
+const USER_SESSION_KEY = 'userSession';
+
+// sessionStorage key holding the owner key this tab's guest orders are saved under. Each guest
+// gets their own, so guests sharing a browser don't see each other's orders.
+const GUEST_ORDER_OWNER_KEY = 'guestOrderOwner';
+
+/**
+ * Retrieves the user remembered from the last login.
+ * A session that can't be read is removed, so it isn't tried again on every visit.
+ * @returns {UserState | null} The logged-in user, or null if nobody is remembered.
+ */
+export const getStoredUserSession = (): UserState | null => {
+    const stored = localStorage.getItem(USER_SESSION_KEY);
+    if (!stored) return null;
+    try {
+        const session: unknown = JSON.parse(stored);
+        const user = session as Partial<UserState> | null;
+        if (typeof user?.name === 'string' && user.isLoggedIn === true) return user as UserState;
+    } catch (error) {
+        console.error("Error parsing stored user session:", error);
+    }
+    localStorage.removeItem(USER_SESSION_KEY);
+    return null;
+};
+
+/**
+ * Checks whether a user is the store's admin account. There is one, the user named "admin"
+ * (in any case); Login sends it to the store pages instead of the shop.
+ * @param user - The user.
+ * @returns {boolean} True for the logged-in admin.
+ */
+export const isAdminUser = (user: UserState): boolean => user.isLoggedIn && user.name.toLowerCase() === 'admin';
+
+/**
+ * Checks whether anything is stored under an owner key: a saved cart, an address book or orders.
+ * A user can't be renamed onto such a key, or the two users' data would be mixed up.
+ * @param owner - The owner key (see getCartOwnerKey).
+ * @returns {boolean} True if the key already holds another user's data.
+ */
+export const isOwnerKeyInUse = (owner: string): boolean =>
+    loadSavedCart(owner) !== undefined || hasAddressBook(owner) || hasOrdersInLocalStorage(owner);
+
+/**
+ * Works out the owner key a user's orders are saved under. Logged-in users use their cart's
+ * owner key; a guest gets a key of their own for the browser session ("guest:" plus a random id,
+ * so it can't clash with a user's key), created the first time it is needed.
+ * @param user - The current user.
+ * @returns {string} The owner key of the user's orders.
+ */
+export const getOrderOwnerKey = (user: UserState): string => {
+    if (user.isLoggedIn) return getCartOwnerKey(user);
+    const stored = sessionStorage.getItem(GUEST_ORDER_OWNER_KEY);
+    if (stored) return stored;
+    const owner = `guest:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    sessionStorage.setItem(GUEST_ORDER_OWNER_KEY, owner);
+    return owner;
+};
+
+/**
+ * Hands the orders placed as a guest in this browser session to the user logging in, like the
+ * guest cart. The guest key is forgotten, so a guest after a logout starts with no orders.
+ * @param owner - The owner key of the user logging in.
+ */
+export const claimGuestOrders = (owner: string) => {
+    const guestOwner = sessionStorage.getItem(GUEST_ORDER_OWNER_KEY);
+    if (!guestOwner) return;
+    moveOrdersInLocalStorage(guestOwner, owner);
+    sessionStorage.removeItem(GUEST_ORDER_OWNER_KEY);
+};